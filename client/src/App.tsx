@@ -6,6 +6,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, Sidebar, SidebarContent, SidebarGroup, SidebarGroupContent, SidebarGroupLabel, SidebarMenu, SidebarMenuItem, SidebarMenuButton, SidebarTrigger } from "@/components/ui/sidebar";
 import { Activity, ListTodo, BarChart3, Rocket } from "lucide-react";
 import { Link, useLocation } from "wouter";
+import { NotificationBell } from "@/components/NotificationBell";
 import AgentDashboard from "@/pages/AgentDashboard";
 import TaskMonitor from "@/pages/TaskMonitor";
 import Analytics from "@/pages/Analytics";
@@ -90,8 +91,11 @@ function App() {
             <div className="flex flex-col flex-1">
               <header className="flex items-center justify-between p-4 border-b">
                 <SidebarTrigger data-testid="button-sidebar-toggle" />
-                <div className="text-sm text-muted-foreground">
-                  Mr Blue - Multi-Agent Orchestration Platform
+                <div className="flex items-center gap-4">
+                  <div className="text-sm text-muted-foreground">
+                    Mr Blue - Multi-Agent Orchestration Platform
+                  </div>
+                  <NotificationBell />
                 </div>
               </header>
               <main className="flex-1 overflow-auto">
@@ -0,0 +1,264 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Rocket, Snowflake } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useDeploymentStream } from '@/hooks/use-websocket';
+import { getCurrentUserId } from '@/lib/current-user';
+
+type DeploymentStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'rolled_back';
+
+interface DeploymentPhase {
+  phase: string;
+  percentage: number;
+  message: string;
+  timestamp: string;
+}
+
+interface CanaryCheck {
+  metric: 'errorRate' | 'p95Latency' | 'taskSuccess';
+  result: 'pass' | 'fail' | 'no_data';
+  detail: string;
+}
+
+interface CanaryReport {
+  baseline: string;
+  candidate: string;
+  percentage: number;
+  verdict: 'pass' | 'fail' | 'inconclusive';
+  score: number | null;
+  checks: CanaryCheck[];
+  analyzedAt: string;
+}
+
+interface Deployment {
+  id: string;
+  version: string;
+  artifactDigest: string | null;
+  environment: string;
+  initiatedBy: string;
+  status: DeploymentStatus;
+  progress: number;
+  phases: DeploymentPhase[];
+  canaryReports: CanaryReport[];
+  error: string | null;
+  rolledBackTo: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+interface DeployFreeze {
+  id: number;
+  reason: string;
+  frozenBy: string;
+  incidentId: number | null;
+  createdAt: string;
+}
+
+const HISTORY_KEY = ['/api/deployment/automation/history'];
+const FREEZE_KEY = ['/api/deployment/freeze'];
+
+const CHECK_LABELS: Record<CanaryCheck['metric'], string> = {
+  errorRate: 'Error rate',
+  p95Latency: 'p95 latency',
+  taskSuccess: 'Task success'
+};
+
+const verdictVariant: Record<CanaryReport['verdict'], 'default' | 'secondary' | 'destructive'> = {
+  pass: 'default',
+  inconclusive: 'secondary',
+  fail: 'destructive'
+};
+
+function CanarySummary({ report }: { report: CanaryReport }) {
+  return (
+    <div className="rounded-md border p-3 space-y-2" data-testid="canary-report">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">Canary {report.percentage}%</span>
+        <Badge variant={verdictVariant[report.verdict]}>{report.verdict}</Badge>
+        <span className="text-muted-foreground">
+          score {report.score ?? '—'} · v{report.candidate} vs v{report.baseline}
+        </span>
+      </div>
+      <ul className="space-y-1 text-xs">
+        {report.checks.map(check => (
+          <li key={check.metric} className="flex gap-2">
+            <span className={`w-20 shrink-0 font-medium ${check.result === 'fail' ? 'text-destructive' : ''}`}>
+              {CHECK_LABELS[check.metric]}
+            </span>
+            <span className="text-muted-foreground">{check.result === 'no_data' ? 'no data' : check.result} · {check.detail}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+const statusVariant: Record<DeploymentStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  running: 'secondary',
+  succeeded: 'default',
+  failed: 'destructive',
+  rolled_back: 'destructive'
+};
+
+function DeploymentRow({ deployment, expanded }: { deployment: Deployment; expanded: boolean }) {
+  return (
+    <div className="space-y-2 border-b pb-4 last:border-0" data-testid={`deployment-${deployment.id}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">v{deployment.version}</span>
+        <Badge variant={statusVariant[deployment.status]}>{deployment.status.replace('_', ' ')}</Badge>
+        <Badge variant="outline">{deployment.environment}</Badge>
+        <span className="text-xs text-muted-foreground">
+          {deployment.id} · by {deployment.initiatedBy} · {new Date(deployment.createdAt).toLocaleString()}
+        </span>
+      </div>
+      {deployment.artifactDigest && (
+        <div className="font-mono text-xs text-muted-foreground truncate">{deployment.artifactDigest}</div>
+      )}
+      {(deployment.status === 'running' || deployment.status === 'queued') && (
+        <Progress value={deployment.progress} data-testid={`progress-${deployment.id}`} />
+      )}
+      {deployment.error && (
+        <div className="text-xs text-destructive">
+          {deployment.error}{deployment.rolledBackTo ? ` · rolled back to ${deployment.rolledBackTo}` : ''}
+        </div>
+      )}
+      {expanded && deployment.canaryReports.length > 0 && (
+        <CanarySummary report={deployment.canaryReports[deployment.canaryReports.length - 1]} />
+      )}
+      {expanded && deployment.phases.length > 0 && (
+        <ol className="space-y-1 text-sm">
+          {deployment.phases.map((phase, index) => (
+            <li key={index} className="flex gap-3">
+              <span className="w-20 shrink-0 text-xs text-muted-foreground">
+                {new Date(phase.timestamp).toLocaleTimeString()}
+              </span>
+              <span className="w-16 shrink-0 text-xs font-medium">{phase.phase}</span>
+              <span className={phase.phase === 'failed' ? 'text-destructive' : ''}>{phase.message}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Deploy jobs for the Deployment dashboard: start a deploy, then watch
+ * its phases arrive over the deployments socket room
+ */
+export function DeploymentJobs() {
+  const { toast } = useToast();
+  const [version, setVersion] = useState('');
+  const [artifactDigest, setArtifactDigest] = useState('');
+
+  useDeploymentStream();
+
+  const { data: history } = useQuery<Deployment[]>({
+    queryKey: HISTORY_KEY,
+    refetchInterval: 60000
+  });
+
+  const startDeployment = useMutation({
+    mutationFn: () =>
+      apiRequest('POST', '/api/deployment/automation/deploy', {
+        version,
+        artifactDigest: artifactDigest || undefined,
+        userId: getCurrentUserId()
+      }),
+    onSuccess: () => {
+      setVersion('');
+      setArtifactDigest('');
+      queryClient.invalidateQueries({ queryKey: HISTORY_KEY });
+    },
+    onError: (error: Error) => toast({ title: 'Deployment not started', description: error.message, variant: 'destructive' })
+  });
+
+  const { data: freeze } = useQuery<DeployFreeze | null>({
+    queryKey: FREEZE_KEY,
+    refetchInterval: 60000
+  });
+
+  const liftFreeze = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/deployment/freeze/lift', { userId: getCurrentUserId() }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: FREEZE_KEY }),
+    onError: (error: Error) => toast({ title: 'Freeze not lifted', description: error.message, variant: 'destructive' })
+  });
+
+  const latest = history?.[0];
+
+  return (
+    <Card data-testid="card-deployment-jobs">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle>Deployments</CardTitle>
+          <CardDescription>Release history with live phase progress</CardDescription>
+        </div>
+        <Rocket className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {freeze && (
+          <div className="flex flex-wrap items-center gap-3 rounded-md border border-destructive p-3 text-sm" data-testid="deploy-freeze">
+            <Snowflake className="h-4 w-4 text-destructive" />
+            <span className="flex-1">
+              Deploys frozen by {freeze.frozenBy}: {freeze.reason}
+              <span className="text-xs text-muted-foreground"> · {new Date(freeze.createdAt).toLocaleString()}</span>
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => liftFreeze.mutate()}
+              disabled={liftFreeze.isPending}
+              data-testid="button-lift-freeze"
+            >
+              Lift freeze
+            </Button>
+          </div>
+        )}
+        <form
+          className="flex flex-wrap gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            startDeployment.mutate();
+          }}
+        >
+          <Input
+            className="w-32"
+            placeholder="Version"
+            value={version}
+            onChange={(event) => setVersion(event.target.value)}
+            data-testid="input-deploy-version"
+          />
+          <Input
+            className="flex-1 min-w-64 font-mono"
+            placeholder="sha256:… (optional)"
+            value={artifactDigest}
+            onChange={(event) => setArtifactDigest(event.target.value)}
+            data-testid="input-deploy-digest"
+          />
+          <Button type="submit" disabled={!version || !!freeze || startDeployment.isPending} data-testid="button-deploy">
+            Deploy
+          </Button>
+        </form>
+
+        {history?.length ? (
+          <div className="space-y-4">
+            {history.slice(0, 10).map(deployment => (
+              <DeploymentRow key={deployment.id} deployment={deployment} expanded={deployment.id === latest?.id} />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center text-muted-foreground py-8">
+            No deployments yet
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
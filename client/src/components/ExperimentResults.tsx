@@ -0,0 +1,224 @@
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { FlaskConical } from 'lucide-react';
+
+type Metric = 'success' | 'taskSuccess' | 'predictionAccuracy' | 'cost' | 'latency';
+
+interface Interval {
+  lower: number;
+  upper: number;
+}
+
+interface Experiment {
+  key: string;
+  description: string | null;
+  target: string;
+  status: 'draft' | 'running' | 'paused' | 'completed';
+  primaryMetric: Metric;
+  trafficPercentage: number;
+  startedAt: string | null;
+  endedAt: string | null;
+}
+
+interface BinaryMetric {
+  n: number;
+  successes: number;
+  rate: number;
+  interval: Interval;
+}
+
+interface ContinuousMetric {
+  n: number;
+  mean: number;
+  stdDev: number;
+  interval: Interval;
+}
+
+interface VariantResult {
+  variant: string;
+  weight: number;
+  assignments: number;
+  exposures: number;
+  metrics: {
+    success: BinaryMetric;
+    taskSuccess: BinaryMetric;
+    predictionAccuracy: BinaryMetric;
+    cost: ContinuousMetric;
+    latency: ContinuousMetric;
+  };
+}
+
+interface MetricComparison {
+  metric: Metric;
+  variant: string;
+  difference: number;
+  relativeDifference: number | null;
+  test: { statistic: number; pValue: number; degreesOfFreedom?: number } | null;
+  significant: boolean;
+  improved: boolean;
+}
+
+interface ExperimentResultsResponse {
+  control: string;
+  alpha: number;
+  minSampleSize: number;
+  variants: VariantResult[];
+  comparisons: MetricComparison[];
+}
+
+const METRICS: Array<{ key: Metric; label: string }> = [
+  { key: 'success', label: 'Request success' },
+  { key: 'taskSuccess', label: 'Task success' },
+  { key: 'predictionAccuracy', label: 'Prediction accuracy' },
+  { key: 'cost', label: 'Cost / request' },
+  { key: 'latency', label: 'Latency' }
+];
+
+const statusVariant: Record<Experiment['status'], 'default' | 'secondary' | 'outline'> = {
+  running: 'default',
+  paused: 'secondary',
+  completed: 'outline',
+  draft: 'outline'
+};
+
+function formatValue(metric: Metric, value: number): string {
+  if (metric === 'cost') return `$${value.toFixed(4)}`;
+  if (metric === 'latency') return `${Math.round(value)}ms`;
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function MetricCell({ metric, result, comparison }: { metric: Metric; result: VariantResult; comparison?: MetricComparison }) {
+  const value = result.metrics[metric];
+  if (value.n === 0) return <td className="py-2 text-right text-muted-foreground">—</td>;
+
+  const point = 'rate' in value ? value.rate : value.mean;
+  return (
+    <td className="py-2 text-right align-top">
+      <div className="font-medium">{formatValue(metric, point)}</div>
+      <div className="text-xs text-muted-foreground">
+        {formatValue(metric, value.interval.lower)}–{formatValue(metric, value.interval.upper)} · n={value.n}
+      </div>
+      {comparison?.test && (
+        <div
+          className={`text-xs ${comparison.significant ? (comparison.improved ? 'text-green-600' : 'text-red-500') : 'text-muted-foreground'}`}
+          data-testid={`text-pvalue-${result.variant}-${metric}`}
+        >
+          {comparison.difference >= 0 ? '+' : ''}{formatValue(metric, comparison.difference)} · p={comparison.test.pValue.toFixed(3)}
+        </div>
+      )}
+    </td>
+  );
+}
+
+function ExperimentResultsTable({ experiment }: { experiment: Experiment }) {
+  const { data: results } = useQuery<ExperimentResultsResponse>({
+    queryKey: ['/api/deployment/experiments', experiment.key, 'results'],
+    refetchInterval: 60000
+  });
+
+  const primary = results?.comparisons.filter(c => c.metric === experiment.primaryMetric) ?? [];
+  const winner = primary.find(c => c.improved);
+
+  return (
+    <div className="space-y-3" data-testid={`experiment-${experiment.key}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="font-semibold">{experiment.key}</h3>
+        <Badge variant={statusVariant[experiment.status]}>{experiment.status}</Badge>
+        <Badge variant="outline">{experiment.target}</Badge>
+        <Badge variant="outline">{experiment.trafficPercentage}% traffic</Badge>
+        {winner && (
+          <Badge className="bg-green-600" data-testid={`badge-winner-${experiment.key}`}>
+            {winner.variant} wins on {METRICS.find(m => m.key === experiment.primaryMetric)?.label.toLowerCase()}
+          </Badge>
+        )}
+      </div>
+      {experiment.description && <p className="text-sm text-muted-foreground">{experiment.description}</p>}
+
+      {results ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b">
+                <th className="py-2 font-medium">Variant</th>
+                <th className="py-2 font-medium text-right">Users</th>
+                <th className="py-2 font-medium text-right">Exposures</th>
+                {METRICS.map(metric => (
+                  <th key={metric.key} className={`py-2 font-medium text-right ${metric.key === experiment.primaryMetric ? 'text-foreground' : ''}`}>
+                    {metric.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {results.variants.map(result => (
+                <tr key={result.variant} className="border-b last:border-0">
+                  <td className="py-2 font-medium align-top">
+                    {result.variant}
+                    {result.variant === results.control && (
+                      <Badge variant="outline" className="ml-2 text-xs">control</Badge>
+                    )}
+                  </td>
+                  <td className="py-2 text-right align-top">{result.assignments}</td>
+                  <td className="py-2 text-right align-top">{result.exposures}</td>
+                  {METRICS.map(metric => (
+                    <MetricCell
+                      key={metric.key}
+                      metric={metric.key}
+                      result={result}
+                      comparison={results.comparisons.find(c => c.variant === result.variant && c.metric === metric.key)}
+                    />
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-muted-foreground mt-2">
+            95% intervals (Wilson for rates, normal for means). Differences vs. control use a two-proportion z-test or Welch's t-test;
+            significant at p &lt; {results.alpha} with at least {results.minSampleSize} observations per arm.
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Loading results…</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * A/B experiment results for the Analytics page: per-variant outcomes
+ * with confidence intervals and significance against the control
+ */
+export function ExperimentResults() {
+  const { data: experiments } = useQuery<Experiment[]>({
+    queryKey: ['/api/deployment/experiments'],
+    refetchInterval: 60000
+  });
+
+  const started = experiments?.filter(e => e.status !== 'draft') ?? [];
+
+  return (
+    <Card data-testid="card-experiments">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle>Experiments</CardTitle>
+          <CardDescription>Routing strategies and decomposition prompts compared against their control</CardDescription>
+        </div>
+        <FlaskConical className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        {started.length > 0 ? (
+          <div className="space-y-8">
+            {started.map(experiment => (
+              <ExperimentResultsTable key={experiment.key} experiment={experiment} />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center text-muted-foreground py-8">
+            No experiments have been started
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Flag, Plus, Power } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { getCurrentUserId } from '@/lib/current-user';
+
+interface TargetingRule {
+  name?: string;
+  conditions: Array<{ attribute: string; operator: string; values: Array<string | number> }>;
+  serve: boolean;
+}
+
+interface FeatureFlag {
+  key: string;
+  description: string | null;
+  enabled: boolean;
+  rolloutPercentage: number;
+  rules: TargetingRule[];
+  killSwitch: boolean;
+  killedAt: string | null;
+  killedBy: string | null;
+  killReason: string | null;
+}
+
+interface FlagExposure {
+  flagKey: string;
+  evaluations: number;
+  enabled: number;
+  uniqueUsers: number;
+  enabledUsers: number;
+}
+
+interface FlagAdminState {
+  flags: FeatureFlag[];
+  exposures: FlagExposure[];
+}
+
+const QUERY_KEY = ['/api/deployment/flags'];
+
+/**
+ * Feature flag editor for the Deployment page: toggle, rollout
+ * percentage, targeting rules (JSON), kill switch and 24h exposure counts
+ */
+export function FeatureFlagAdmin() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<FeatureFlag | null>(null);
+  const [rulesText, setRulesText] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [newKey, setNewKey] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+
+  const { data } = useQuery<FlagAdminState>({
+    queryKey: QUERY_KEY,
+    refetchInterval: 30000
+  });
+
+  const onError = (error: Error) => toast({ title: 'Feature flag update failed', description: error.message, variant: 'destructive' });
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+
+  const updateFlag = useMutation({
+    mutationFn: ({ key, updates }: { key: string; updates: Partial<FeatureFlag> & { updatedBy: string } }) =>
+      apiRequest('PATCH', `/api/deployment/flags/${encodeURIComponent(key)}`, updates),
+    onSuccess,
+    onError
+  });
+
+  const killSwitch = useMutation({
+    mutationFn: ({ key, active }: { key: string; active: boolean }) =>
+      apiRequest('POST', `/api/deployment/flags/${encodeURIComponent(key)}/kill-switch`, {
+        active,
+        userId: getCurrentUserId(),
+        reason: active ? 'Killed from the Deployment dashboard' : undefined
+      }),
+    onSuccess,
+    onError
+  });
+
+  const createFlag = useMutation({
+    mutationFn: () =>
+      apiRequest('POST', '/api/deployment/flags', {
+        key: newKey,
+        description: newDescription || null,
+        enabled: false,
+        rolloutPercentage: 0,
+        rules: [],
+        updatedBy: getCurrentUserId()
+      }),
+    onSuccess: () => {
+      setCreating(false);
+      setNewKey('');
+      setNewDescription('');
+      onSuccess();
+    },
+    onError
+  });
+
+  const update = (key: string, updates: Partial<FeatureFlag>) =>
+    updateFlag.mutate({ key, updates: { ...updates, updatedBy: getCurrentUserId() } });
+
+  const openRules = (flag: FeatureFlag) => {
+    setEditing(flag);
+    setRulesText(JSON.stringify(flag.rules, null, 2));
+  };
+
+  const saveRules = () => {
+    if (!editing) return;
+    let rules: TargetingRule[];
+    try {
+      rules = JSON.parse(rulesText);
+    } catch (error) {
+      onError(error instanceof Error ? error : new Error('Invalid JSON'));
+      return;
+    }
+    update(editing.key, { rules });
+    setEditing(null);
+  };
+
+  const exposureFor = (key: string) => data?.exposures.find(e => e.flagKey === key);
+
+  return (
+    <Card data-testid="card-feature-flags">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle>Feature Flags</CardTitle>
+          <CardDescription>Targeting, percentage rollouts and kill switches; exposures over the last 24 hours</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={() => setCreating(true)} data-testid="button-new-flag">
+            <Plus className="h-4 w-4 mr-1" />
+            New flag
+          </Button>
+          <Flag className="h-4 w-4 text-muted-foreground" />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {data?.flags.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Flag</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead>Rollout %</TableHead>
+                <TableHead>Rules</TableHead>
+                <TableHead>Exposures</TableHead>
+                <TableHead className="text-right">Kill switch</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.flags.map((flag) => {
+                const exposure = exposureFor(flag.key);
+                return (
+                  <TableRow key={flag.key} data-testid={`flag-${flag.key}`}>
+                    <TableCell>
+                      <div className="font-medium">{flag.key}</div>
+                      {flag.description && <div className="text-xs text-muted-foreground">{flag.description}</div>}
+                      {flag.killSwitch && (
+                        <div className="text-xs text-destructive">
+                          Killed by {flag.killedBy}{flag.killReason ? `: ${flag.killReason}` : ''}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={flag.enabled}
+                        onCheckedChange={(enabled) => update(flag.key, { enabled })}
+                        data-testid={`switch-flag-${flag.key}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={1}
+                        className="w-20"
+                        defaultValue={flag.rolloutPercentage}
+                        key={`${flag.key}-${flag.rolloutPercentage}`}
+                        onBlur={(event) => {
+                          const value = Number(event.target.value);
+                          if (value !== flag.rolloutPercentage && value >= 0 && value <= 100) {
+                            update(flag.key, { rolloutPercentage: value });
+                          }
+                        }}
+                        data-testid={`input-rollout-${flag.key}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => openRules(flag)} data-testid={`button-rules-${flag.key}`}>
+                        {flag.rules.length} rule{flag.rules.length === 1 ? '' : 's'}
+                      </Button>
+                    </TableCell>
+                    <TableCell className="text-sm" data-testid={`text-exposures-${flag.key}`}>
+                      {exposure
+                        ? `${exposure.enabled}/${exposure.evaluations} served · ${exposure.enabledUsers}/${exposure.uniqueUsers} users`
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {flag.killSwitch ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => killSwitch.mutate({ key: flag.key, active: false })}
+                          data-testid={`button-restore-${flag.key}`}
+                        >
+                          Restore
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => killSwitch.mutate({ key: flag.key, active: true })}
+                          data-testid={`button-kill-${flag.key}`}
+                        >
+                          <Power className="h-3 w-3 mr-1" />
+                          Kill
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No feature flags defined</p>
+        )}
+
+        <div className="flex flex-wrap gap-2 mt-4 text-xs text-muted-foreground">
+          <Badge variant="outline">Order: kill switch → enabled → rules → rollout</Badge>
+          <Badge variant="outline">Rule attributes: userId, segment, or any attribute sent by the caller</Badge>
+        </div>
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Targeting rules: {editing?.key}</DialogTitle>
+            <DialogDescription>
+              The first rule whose conditions all match decides. Operators: in, not_in, contains, starts_with, ends_with, matches, gt, gte, lt, lte.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            className="font-mono text-xs min-h-[300px]"
+            value={rulesText}
+            onChange={(event) => setRulesText(event.target.value)}
+            data-testid="textarea-flag-rules"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={saveRules} disabled={updateFlag.isPending} data-testid="button-save-rules">Save rules</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New feature flag</DialogTitle>
+            <DialogDescription>New flags start disabled with no rules.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Input placeholder="Key, e.g. newDashboard" value={newKey} onChange={(event) => setNewKey(event.target.value)} data-testid="input-new-flag-key" />
+            <Input placeholder="Description" value={newDescription} onChange={(event) => setNewDescription(event.target.value)} data-testid="input-new-flag-description" />
+          </div>
+          <DialogFooter>
+            <Button onClick={() => createFlag.mutate()} disabled={!newKey || createFlag.isPending} data-testid="button-create-flag">Create</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,34 @@
+import type { ReactNode } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Lock } from 'lucide-react';
+import { useFeatureFlag, type FeatureFlagKey } from '@/hooks/use-feature-flag';
+
+interface FeatureGateProps {
+  flag: FeatureFlagKey | string;
+  children: ReactNode;
+  fallback?: ReactNode; // Shown when the flag is off; defaults to a notice
+}
+
+/**
+ * Renders children only when the current user has the flag; children are
+ * not mounted otherwise, so their queries never hit gated routes
+ */
+export function FeatureGate({ flag, children, fallback }: FeatureGateProps) {
+  const { enabled, isLoading } = useFeatureFlag(flag);
+
+  if (isLoading) return null;
+  if (enabled) return <>{children}</>;
+
+  return (
+    <>
+      {fallback ?? (
+        <Card data-testid={`feature-gate-${flag}`}>
+          <CardContent className="flex items-center gap-3 py-6 text-muted-foreground">
+            <Lock className="h-4 w-4" />
+            <span>This feature is not enabled for your account yet.</span>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
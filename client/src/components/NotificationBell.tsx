@@ -0,0 +1,118 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Link } from 'wouter';
+import { Bell, CheckCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useNotificationStream } from '@/hooks/use-websocket';
+import { getCurrentUserId } from '@/lib/current-user';
+
+interface Notification {
+  id: string;
+  userId: string;
+  type: 'info' | 'success' | 'warning' | 'error';
+  title: string;
+  message: string;
+  timestamp: string;
+  read: boolean;
+  actionUrl?: string;
+}
+
+interface NotificationInbox {
+  notifications: Notification[];
+  unread: number;
+}
+
+const TYPE_DOT: Record<Notification['type'], string> = {
+  info: 'bg-blue-500',
+  success: 'bg-green-500',
+  warning: 'bg-yellow-500',
+  error: 'bg-red-500'
+};
+
+/**
+ * Header bell with unread count; opens the user's inbox
+ */
+export function NotificationBell() {
+  const userId = getCurrentUserId();
+  const queryKey = ['/api/deployment/notifications', userId];
+
+  useNotificationStream(userId);
+
+  const { data } = useQuery<NotificationInbox>({ queryKey });
+
+  const markRead = useMutation({
+    mutationFn: (notificationId: string) =>
+      apiRequest('POST', `/api/deployment/notifications/${encodeURIComponent(notificationId)}/read`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey })
+  });
+
+  const markAllRead = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/deployment/notifications/${encodeURIComponent(userId)}/read-all`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey })
+  });
+
+  const unread = data?.unread ?? 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span
+              className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs flex items-center justify-center"
+              data-testid="badge-unread-count"
+            >
+              {unread > 99 ? '99+' : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <div className="font-semibold">Notifications</div>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={unread === 0 || markAllRead.isPending}
+            onClick={() => markAllRead.mutate()}
+            data-testid="button-mark-all-read"
+          >
+            <CheckCheck className="h-4 w-4 mr-1" />
+            Mark all read
+          </Button>
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {data?.notifications.length ? (
+            <div className="divide-y">
+              {data.notifications.map((notification) => (
+                <div
+                  key={notification.id}
+                  className={`flex gap-3 px-4 py-3 ${notification.read ? 'opacity-60' : ''}`}
+                  onClick={() => !notification.read && markRead.mutate(notification.id)}
+                  data-testid={`notification-${notification.id}`}
+                >
+                  <span className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${notification.read ? 'bg-muted' : TYPE_DOT[notification.type]}`} />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium">{notification.title}</div>
+                    <div className="text-sm text-muted-foreground break-words">{notification.message}</div>
+                    <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                      <span>{formatDistanceToNow(new Date(notification.timestamp), { addSuffix: true })}</span>
+                      {notification.actionUrl && (
+                        <Link href={notification.actionUrl} className="underline">View</Link>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="px-4 py-8 text-center text-sm text-muted-foreground">No notifications</div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import { getCurrentUserId } from '@/lib/current-user';
+
+export type FeatureFlagKey =
+  | 'agentOrchestration'
+  | 'aiRouting'
+  | 'advancedAnalytics'
+  | 'selfHealing'
+  | 'realtimeDashboard';
+
+/**
+ * Every flag for the current user (refreshed each minute)
+ */
+export function useFeatureFlags() {
+  const userId = getCurrentUserId();
+  return useQuery<Record<string, boolean>>({
+    queryKey: ['/api/deployment/feature-flags', userId],
+    refetchInterval: 60000,
+  });
+}
+
+/**
+ * One flag for the current user; off until the flags have loaded
+ */
+export function useFeatureFlag(flag: FeatureFlagKey | string) {
+  const { data, isLoading } = useFeatureFlags();
+  return { enabled: data?.[flag] === true, isLoading };
+}
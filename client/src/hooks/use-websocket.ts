@@ -1,6 +1,7 @@
 import { useEffect, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { queryClient } from '@/lib/queryClient';
+import { toast } from '@/hooks/use-toast';
 
 /**
  * WebSocket hook for real-time updates
@@ -17,6 +18,11 @@ export function useWebSocket() {
 
     socketRef.current = socket;
 
+    // Let the server count reconnections
+    socket.io.on('reconnect_attempt', () => {
+      socket.auth = { reconnect: true };
+    });
+
     // Listen for agent updates
     socket.on('agent-update', () => {
       // Invalidate agent queries to trigger refetch
@@ -69,3 +75,66 @@ export function useAgentSubscription(agentId?: string) {
 
   return socket;
 }
+
+/**
+ * Join the user's notification room; new notifications refresh the inbox
+ * and pop a toast, reads from other tabs refresh the unread count
+ */
+export function useNotificationStream(userId: string) {
+  useEffect(() => {
+    const socket = io(window.location.origin, {
+      transports: ['websocket', 'polling']
+    });
+
+    const queryKey = ['/api/deployment/notifications', userId];
+
+    // Rejoin after every reconnect; rooms do not survive a new connection
+    socket.on('connect', () => {
+      socket.emit('subscribe-notifications', userId);
+    });
+
+    socket.on('notification:new', (notification: { title: string; message: string; type: string }) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: notification.title,
+        description: notification.message,
+        variant: notification.type === 'error' ? 'destructive' : 'default'
+      });
+    });
+
+    socket.on('notification:read', () => {
+      queryClient.invalidateQueries({ queryKey });
+    });
+
+    return () => {
+      socket.disconnect();
+    };
+  }, [userId]);
+}
+
+/**
+ * Join the deployments room; each phase of a running deploy refreshes the
+ * deployment history and that job's query
+ */
+export function useDeploymentStream() {
+  useEffect(() => {
+    const socket = io(window.location.origin, {
+      transports: ['websocket', 'polling']
+    });
+
+    // Rejoin after every reconnect; rooms do not survive a new connection
+    socket.on('connect', () => {
+      socket.emit('subscribe-deployments');
+    });
+
+    socket.on('deployment:progress', (event: { deployment: { id: string } }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/deployment/automation/history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/deployment/automation/jobs', event.deployment.id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/deployment/automation/current'] });
+    });
+
+    return () => {
+      socket.disconnect();
+    };
+  }, []);
+}
@@ -0,0 +1,19 @@
+/**
+ * Current user for per-user features (notifications, feature flags)
+ * There is no login yet: the ID comes from localStorage, else 'admin-1'
+ */
+const STORAGE_KEY = 'mrblue.userId';
+
+export const DEFAULT_USER_ID = 'admin-1';
+
+export function getCurrentUserId(): string {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) || DEFAULT_USER_ID;
+  } catch {
+    return DEFAULT_USER_ID;
+  }
+}
+
+export function setCurrentUserId(userId: string): void {
+  window.localStorage.setItem(STORAGE_KEY, userId);
+}
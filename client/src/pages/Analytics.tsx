@@ -1,12 +1,27 @@
 import { useQuery } from '@tanstack/react-query';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { TrendingDown, DollarSign, Zap, Target } from 'lucide-react';
 import { useWebSocket } from '@/hooks/use-websocket';
+import { FeatureGate } from '@/components/FeatureGate';
+import { ExperimentResults } from '@/components/ExperimentResults';
+
+interface CostBreakdownEntry {
+  key: string;
+  requests: number;
+  tokens: number;
+  actualCost: number;
+  baselineCost: number;
+  savingsPercent: number;
+}
 
 interface CostSavings {
+  baselineModel: string;
   savingsPercent: number;
   actualCost: number;
   baselineCost: number;
+  byRequestType: CostBreakdownEntry[];
+  byAgent: CostBreakdownEntry[];
 }
 
 interface UsageStats {
@@ -15,7 +30,52 @@ interface UsageStats {
   costTrend: Array<{ date: string; actual: number; baseline: number }>;
 }
 
+interface ModelStatsRow {
+  model: string;
+  taskType: string;
+  successes: number;
+  failures: number;
+  priorMean: number;
+  mean: number;
+  avgLatencyMs: number | null;
+  available: boolean;
+}
+
+interface ModelStats {
+  qualityFloor: number;
+  table: ModelStatsRow[];
+  history: Array<{ date: string; model: string; taskType: string; requests: number; successRate: number }>;
+}
+
+interface BudgetBurnDown {
+  policy: { id: number; scope: string; scopeId: string; period: string; softLimitPercent: number };
+  spentUsd: number;
+  limitUsd: number;
+  remainingUsd: number;
+  percentUsed: number;
+  state: 'ok' | 'warning' | 'exceeded';
+  series: Array<{ date: string; spentUsd: number; remainingUsd: number }>;
+}
+
 export default function Analytics() {
+  const locked = (
+    <div className="p-6" data-testid="analytics-locked">
+      <h1 className="text-3xl font-bold mb-6">AI Cost Optimization Analytics</h1>
+      <p className="text-muted-foreground">Analytics is not enabled for your account yet.</p>
+    </div>
+  );
+
+  // Cost and model data come from /api/ai/*, which is gated on aiRouting
+  return (
+    <FeatureGate flag="advancedAnalytics" fallback={locked}>
+      <FeatureGate flag="aiRouting" fallback={locked}>
+        <AnalyticsContent />
+      </FeatureGate>
+    </FeatureGate>
+  );
+}
+
+function AnalyticsContent() {
   // Connect to WebSocket for real-time analytics updates
   useWebSocket();
 
@@ -29,6 +89,28 @@ export default function Analytics() {
     refetchInterval: 10000,
   });
 
+  const { data: budgets } = useQuery<{ burnDown: BudgetBurnDown[] }>({
+    queryKey: ['/api/budgets'],
+    refetchInterval: 30000,
+  });
+
+  const { data: modelStats } = useQuery<ModelStats>({
+    queryKey: ['/api/ai/model-stats'],
+    refetchInterval: 30000,
+  });
+
+  // Only rows the router has actually learned from
+  const learnedRows = (modelStats?.table || []).filter(row => row.successes + row.failures > 0);
+
+  // Requests per model per day, to show how routing shifted
+  const historyByDay = (modelStats?.history || []).reduce((acc, point) => {
+    acc[point.date] = acc[point.date] || {};
+    acc[point.date][point.model] = (acc[point.date][point.model] || 0) + point.requests;
+    return acc;
+  }, {} as Record<string, Record<string, number>>);
+  const historyModels = Array.from(new Set((modelStats?.history || []).map(point => point.model)));
+  const modelColors = ['bg-primary', 'bg-green-500', 'bg-yellow-500', 'bg-purple-500'];
+
   const savings = costSavings?.savingsPercent || 0;
   const actualCost = costSavings?.actualCost || 0;
   const baselineCost = costSavings?.baselineCost || 0;
@@ -82,7 +164,7 @@ export default function Analytics() {
                     ${baselineCost.toFixed(2)}
                   </p>
                   <p className="text-xs text-muted-foreground mt-1">
-                    All-Claude approach
+                    All-{costSavings?.baselineModel || 'claude-sonnet'} approach
                   </p>
                 </div>
                 <Target className="h-8 w-8 text-muted-foreground" />
@@ -141,6 +223,171 @@ export default function Analytics() {
         </CardContent>
       </Card>
 
+      {/* Budget Burn-Down */}
+      <Card data-testid="card-budget-burndown">
+        <CardHeader>
+          <CardTitle>Budget Burn-Down</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-6">
+            {(budgets?.burnDown || []).map(budget => (
+              <div key={budget.policy.id} className="space-y-2" data-testid={`budget-${budget.policy.id}`}>
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">
+                    {budget.policy.scope} {budget.policy.scopeId}
+                    <Badge variant="outline" className="ml-2 text-xs">{budget.policy.period}</Badge>
+                  </span>
+                  <span className={budget.state === 'exceeded' ? 'text-red-500' : budget.state === 'warning' ? 'text-yellow-500' : 'text-muted-foreground'}>
+                    ${budget.spentUsd.toFixed(2)} / ${budget.limitUsd.toFixed(2)} ({budget.percentUsed.toFixed(0)}%)
+                  </span>
+                </div>
+                <div className="relative h-3 bg-secondary rounded-full overflow-hidden">
+                  <div
+                    className={`h-full transition-all ${budget.state === 'exceeded' ? 'bg-red-500' : budget.state === 'warning' ? 'bg-yellow-500' : 'bg-primary'}`}
+                    style={{ width: `${Math.min(budget.percentUsed, 100).toFixed(0)}%` }}
+                  />
+                  <div
+                    className="absolute top-0 h-full w-0.5 bg-foreground/50"
+                    style={{ left: `${budget.policy.softLimitPercent}%` }}
+                    title="Soft limit"
+                  />
+                </div>
+                {budget.series.length > 0 && (
+                  <div className="flex items-end gap-1 h-12">
+                    {budget.series.map(point => (
+                      <div
+                        key={point.date}
+                        className="flex-1 bg-primary/40 rounded-t"
+                        style={{ height: `${budget.limitUsd > 0 ? (point.remainingUsd / budget.limitUsd) * 100 : 0}%` }}
+                        title={`${point.date}: $${point.remainingUsd.toFixed(2)} remaining`}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+            {(!budgets?.burnDown || budgets.burnDown.length === 0) && (
+              <div className="text-center text-muted-foreground py-8">
+                No budget policies configured
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Cost Breakdown */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {([
+          ['Cost by Request Type', costSavings?.byRequestType],
+          ['Cost by Agent', costSavings?.byAgent]
+        ] as Array<[string, CostBreakdownEntry[] | undefined]>).map(([title, entries]) => (
+          <Card key={title}>
+            <CardHeader>
+              <CardTitle>{title}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {(entries || []).slice(0, 8).map(entry => (
+                  <div key={entry.key} className="flex justify-between text-sm">
+                    <span className="font-medium truncate">{entry.key}</span>
+                    <span className="text-muted-foreground">
+                      ${entry.actualCost.toFixed(4)} · {entry.tokens.toLocaleString()} tokens · {entry.savingsPercent.toFixed(0)}% saved
+                    </span>
+                  </div>
+                ))}
+                {(!entries || entries.length === 0) && (
+                  <div className="text-center text-muted-foreground py-4">
+                    No AI usage data yet
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Learned Model Routing */}
+      <Card data-testid="card-model-stats">
+        <CardHeader>
+          <CardTitle>Learned Model Routing</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {learnedRows.length > 0 ? (
+            <div className="space-y-6">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b">
+                      <th className="py-2 font-medium">Task Type</th>
+                      <th className="py-2 font-medium">Model</th>
+                      <th className="py-2 font-medium text-right">Calls</th>
+                      <th className="py-2 font-medium text-right">Prior</th>
+                      <th className="py-2 font-medium text-right">Learned</th>
+                      <th className="py-2 font-medium text-right">Avg Latency</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {learnedRows.map(row => (
+                      <tr key={`${row.taskType}:${row.model}`} className="border-b last:border-0" data-testid={`row-model-stats-${row.taskType}-${row.model}`}>
+                        <td className="py-2">{row.taskType}</td>
+                        <td className="py-2 font-medium">
+                          {row.model}
+                          {!row.available && (
+                            <Badge variant="outline" className="ml-2 text-xs">unavailable</Badge>
+                          )}
+                        </td>
+                        <td className="py-2 text-right">{row.successes + row.failures}</td>
+                        <td className="py-2 text-right text-muted-foreground">{(row.priorMean * 100).toFixed(0)}%</td>
+                        <td className={`py-2 text-right font-medium ${row.mean < (modelStats?.qualityFloor || 0) ? 'text-red-500' : ''}`}>
+                          {(row.mean * 100).toFixed(1)}%
+                        </td>
+                        <td className="py-2 text-right">{row.avgLatencyMs !== null ? `${row.avgLatencyMs}ms` : '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="font-semibold text-sm">Routing Decisions by Day</h3>
+                {Object.entries(historyByDay).map(([date, models]) => {
+                  const total = Object.values(models).reduce((sum, n) => sum + n, 0);
+                  return (
+                    <div key={date} className="flex items-center gap-3 text-xs">
+                      <span className="w-20 text-muted-foreground">{date}</span>
+                      <div className="flex-1 flex h-3 rounded-full overflow-hidden bg-secondary">
+                        {Object.entries(models).map(([model, count]) => (
+                          <div
+                            key={model}
+                            title={`${model}: ${count}`}
+                            className={modelColors[historyModels.indexOf(model) % modelColors.length]}
+                            style={{ width: `${(count / total) * 100}%` }}
+                          />
+                        ))}
+                      </div>
+                      <span className="w-48 text-muted-foreground truncate">
+                        {Object.entries(models).map(([model, count]) => `${model} ${count}`).join(' · ')}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Quality floor: {((modelStats?.qualityFloor || 0) * 100).toFixed(0)}%. Models are picked by Thompson sampling over these estimates.
+              </p>
+            </div>
+          ) : (
+            <div className="text-center text-muted-foreground py-8">
+              No routing outcomes recorded yet
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* A/B Experiments */}
+      <ExperimentResults />
+
       {/* Cost Comparison */}
       <Card>
         <CardHeader>
@@ -194,7 +441,7 @@ export default function Analytics() {
                 ${(baselineCost - actualCost).toFixed(2)} saved
               </p>
               <p className="text-sm text-muted-foreground mt-1">
-                vs. all-Claude baseline approach
+                vs. all-{costSavings?.baselineModel || 'claude-sonnet'} baseline approach
               </p>
             </div>
           </div>
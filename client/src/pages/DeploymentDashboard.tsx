@@ -2,7 +2,9 @@ import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { AlertCircle, CheckCircle2, Clock, TrendingUp, Users, Gauge, Activity } from 'lucide-react';
+import { FeatureFlagAdmin } from '@/components/FeatureFlagAdmin';
+import { DeploymentJobs } from '@/components/DeploymentJobs';
+import { AlertCircle, CheckCircle2, Clock, TrendingUp, Users, Gauge, Activity, PhoneCall } from 'lucide-react';
 
 interface HealthCheck {
   name: string;
@@ -62,11 +64,39 @@ interface PerformanceReport {
 }
 
 interface Alert {
-  id: string;
+  id: number;
   severity: string;
+  status: string;
   title: string;
   message: string;
-  timestamp: string;
+  firedAt: string;
+  occurrences: number;
+}
+
+interface OnCallAssignment {
+  scheduleId: number;
+  scheduleName: string;
+  primary: string;
+  secondary: string | null;
+  override: { userId: string; endsAt: string; reason: string | null } | null;
+  rotationEndsAt: string;
+}
+
+interface EscalationState {
+  alertId: number;
+  title: string;
+  severity: string;
+  status: string;
+  assignedTo: string | null;
+  policyName: string | null;
+  step: number | null;
+  totalSteps: number;
+  nextEscalationAt: string | null;
+}
+
+interface OnCallState {
+  onCall: OnCallAssignment[];
+  escalations: EscalationState[];
 }
 
 interface SegmentationStats {
@@ -98,6 +128,11 @@ export default function DeploymentDashboard() {
     refetchInterval: 15000
   });
 
+  const { data: onCallState } = useQuery<OnCallState>({
+    queryKey: ['/api/deployment/oncall'],
+    refetchInterval: 15000
+  });
+
   const { data: performance } = useQuery<PerformanceReport>({
     queryKey: ['/api/deployment/performance/analyze'],
     refetchInterval: 60000
@@ -300,7 +335,7 @@ export default function DeploymentDashboard() {
         <CardContent>
           {Array.isArray(alerts) && alerts.length > 0 ? (
             <div className="space-y-3">
-              {alerts.map((alert: any) => (
+              {alerts.map((alert) => (
                 <div key={alert.id} className="flex items-start gap-3 p-3 border rounded-lg" data-testid={`alert-${alert.id}`}>
                   <AlertCircle className={`h-5 w-5 mt-0.5 ${
                     alert.severity === 'critical' ? 'text-red-500' :
@@ -311,11 +346,16 @@ export default function DeploymentDashboard() {
                   <div className="flex-1">
                     <div className="flex items-center justify-between mb-1">
                       <span className="font-medium">{alert.title}</span>
-                      <Badge variant="outline">{alert.severity}</Badge>
+                      <div className="flex items-center gap-2">
+                        {alert.occurrences > 1 && (
+                          <Badge variant="secondary" data-testid={`badge-occurrences-${alert.id}`}>×{alert.occurrences}</Badge>
+                        )}
+                        <Badge variant="outline">{alert.severity}</Badge>
+                      </div>
                     </div>
                     <p className="text-sm text-muted-foreground">{alert.message}</p>
                     <p className="text-xs text-muted-foreground mt-1">
-                      {new Date(alert.timestamp).toLocaleString()}
+                      {new Date(alert.firedAt).toLocaleString()}
                     </p>
                   </div>
                 </div>
@@ -329,6 +369,71 @@ export default function DeploymentDashboard() {
           )}
         </CardContent>
       </Card>
+
+      <Card data-testid="card-oncall">
+        <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+          <div>
+            <CardTitle>On-Call & Escalation</CardTitle>
+            <CardDescription>Who is paged now and where open alerts are in their escalation policy</CardDescription>
+          </div>
+          <PhoneCall className="h-4 w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {onCallState?.onCall && onCallState.onCall.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {onCallState.onCall.map((assignment) => (
+                <div key={assignment.scheduleId} className="p-3 border rounded-lg" data-testid={`oncall-${assignment.scheduleId}`}>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-medium">{assignment.scheduleName}</span>
+                    {assignment.override && <Badge variant="secondary">Override</Badge>}
+                  </div>
+                  <p className="text-sm">
+                    Primary: <span className="font-medium" data-testid={`text-oncall-primary-${assignment.scheduleId}`}>{assignment.primary}</span>
+                  </p>
+                  <p className="text-sm text-muted-foreground">Secondary: {assignment.secondary ?? '—'}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {assignment.override
+                      ? `Override until ${new Date(assignment.override.endsAt).toLocaleString()}`
+                      : `Rotates ${new Date(assignment.rotationEndsAt).toLocaleString()}`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No on-call schedules configured</p>
+          )}
+
+          {onCallState?.escalations && onCallState.escalations.length > 0 && (
+            <div className="space-y-2">
+              {onCallState.escalations.map((escalation) => (
+                <div key={escalation.alertId} className="flex items-center justify-between gap-3 p-3 border rounded-lg" data-testid={`escalation-${escalation.alertId}`}>
+                  <div className="flex-1">
+                    <span className="font-medium">{escalation.title}</span>
+                    <p className="text-xs text-muted-foreground">
+                      {escalation.policyName
+                        ? `${escalation.policyName}: step ${(escalation.step ?? -1) + 1} of ${escalation.totalSteps}`
+                        : 'No escalation policy'}
+                      {escalation.assignedTo && ` · ${escalation.status === 'acknowledged' ? 'acknowledged by' : 'paged'} ${escalation.assignedTo}`}
+                    </p>
+                  </div>
+                  {escalation.nextEscalationAt ? (
+                    <Badge variant="outline">
+                      <Clock className="h-3 w-3 mr-1" />
+                      Escalates {new Date(escalation.nextEscalationAt).toLocaleTimeString()}
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">{escalation.status}</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <DeploymentJobs />
+
+      <FeatureFlagAdmin />
     </div>
   );
 }
@@ -0,0 +1,251 @@
+import { db } from '../db';
+import { aiUsageMetrics, budgetPolicies, budgetWarnings, type BudgetPolicy } from '@shared/schema';
+import { and, eq, gte, inArray, sql } from 'drizzle-orm';
+import { notificationService, type NotificationService } from '../deployment/notification-service';
+
+/**
+ * Budget Guard - Enforce AI spend caps before every call
+ * Reference: mb.md Section 6.4 (Cost Monitoring)
+ *
+ * Policies cap spend per user, agent or build over a daily, monthly or
+ * total period. Before each AI call every matching policy is checked:
+ * - at or over the hard limit: the call is rejected with BudgetExceededError
+ * - over the soft limit: a warning notification is sent (once per period,
+ *   recorded in budget_warnings so restarts don't repeat it)
+ * All amounts are USD, the same unit as ModelCapabilities.costPerRequest.
+ */
+
+export type BudgetScope = 'user' | 'agent' | 'build';
+export type BudgetPeriod = 'daily' | 'monthly' | 'total';
+
+export interface BudgetContext {
+  userId?: string;
+  agentId?: string;
+  buildId?: string;
+}
+
+export interface BudgetStatus {
+  policy: BudgetPolicy;
+  scopeId: string; // Concrete ID the policy was evaluated for ('*' resolved)
+  periodStart: string | null;
+  spentUsd: number;
+  limitUsd: number;
+  remainingUsd: number;
+  percentUsed: number;
+  state: 'ok' | 'warning' | 'exceeded';
+}
+
+export interface BudgetBurnDown extends BudgetStatus {
+  series: Array<{ date: string; spentUsd: number; remainingUsd: number }>;
+}
+
+/**
+ * Thrown when a call would run against a policy whose hard limit is reached
+ */
+export class BudgetExceededError extends Error {
+  constructor(public readonly status: BudgetStatus) {
+    super(
+      `AI budget exceeded for ${status.policy.scope} ${status.scopeId} (${status.policy.period}): ` +
+      `$${status.spentUsd.toFixed(2)} of $${status.limitUsd.toFixed(2)} spent`
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const SCOPE_COLUMNS = {
+  user: aiUsageMetrics.userId,
+  agent: aiUsageMetrics.agentId,
+  build: aiUsageMetrics.buildId
+} as const;
+
+export class BudgetGuard {
+  // policyId:scopeId:periodStart keys known to be warned about; saves a
+  // database round trip on every call once a period has been warned
+  private warned: Set<string> = new Set();
+
+  constructor(private notifications: NotificationService = notificationService) {}
+
+  /**
+   * Check every policy that applies to the call context
+   * Throws BudgetExceededError on the first exceeded policy; otherwise
+   * returns the smallest remaining headroom in USD (undefined if uncapped)
+   */
+  async check(context: BudgetContext): Promise<number | undefined> {
+    const statuses = await this.evaluate(context);
+
+    const exceeded = statuses.find(s => s.state === 'exceeded');
+    if (exceeded) {
+      throw new BudgetExceededError(exceeded);
+    }
+
+    for (const status of statuses.filter(s => s.state === 'warning')) {
+      await this.warn(status);
+    }
+
+    return statuses.length > 0
+      ? Math.min(...statuses.map(s => s.remainingUsd))
+      : undefined;
+  }
+
+  /**
+   * Current status of every policy matching the context
+   */
+  async evaluate(context: BudgetContext): Promise<BudgetStatus[]> {
+    const targets = (Object.keys(SCOPE_COLUMNS) as BudgetScope[])
+      .map(scope => ({ scope, id: context[`${scope}Id` as keyof BudgetContext] }))
+      .filter((t): t is { scope: BudgetScope; id: string } => Boolean(t.id));
+
+    if (targets.length === 0) return [];
+
+    const policies = await db.select()
+      .from(budgetPolicies)
+      .where(and(
+        eq(budgetPolicies.isActive, true),
+        inArray(budgetPolicies.scope, targets.map(t => t.scope))
+      ));
+
+    const statuses: BudgetStatus[] = [];
+    for (const target of targets) {
+      const matching = policies.filter(p =>
+        p.scope === target.scope && (p.scopeId === target.id || p.scopeId === '*')
+      );
+      for (const policy of matching) {
+        statuses.push(await this.getStatus(policy, target.id));
+      }
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Spend against a policy for one concrete user, agent or build
+   */
+  async getStatus(policy: BudgetPolicy, scopeId: string = policy.scopeId): Promise<BudgetStatus> {
+    const periodStart = this.getPeriodStart(policy.period as BudgetPeriod);
+    const column = SCOPE_COLUMNS[policy.scope as BudgetScope];
+
+    const conditions = [eq(column, scopeId)];
+    if (periodStart) conditions.push(gte(aiUsageMetrics.createdAt, periodStart));
+
+    const [row] = await db.select({
+      spent: sql<string>`COALESCE(SUM(${aiUsageMetrics.cost}), 0)`
+    })
+      .from(aiUsageMetrics)
+      .where(and(...conditions));
+
+    return this.toStatus(policy, scopeId, periodStart, parseFloat(row?.spent ?? '0'));
+  }
+
+  /**
+   * Burn-down for every active policy with a concrete scope ID:
+   * remaining budget at the end of each day in the current period
+   */
+  async getBurnDown(): Promise<BudgetBurnDown[]> {
+    const policies = await db.select()
+      .from(budgetPolicies)
+      .where(eq(budgetPolicies.isActive, true));
+
+    const result: BudgetBurnDown[] = [];
+    for (const policy of policies.filter(p => p.scopeId !== '*')) {
+      const periodStart = this.getPeriodStart(policy.period as BudgetPeriod);
+      const column = SCOPE_COLUMNS[policy.scope as BudgetScope];
+      const day = sql<string>`to_char(date_trunc('day', ${aiUsageMetrics.createdAt}), 'YYYY-MM-DD')`;
+
+      const conditions = [eq(column, policy.scopeId)];
+      if (periodStart) conditions.push(gte(aiUsageMetrics.createdAt, periodStart));
+
+      const daily = await db.select({
+        date: day,
+        spent: sql<string>`COALESCE(SUM(${aiUsageMetrics.cost}), 0)`
+      })
+        .from(aiUsageMetrics)
+        .where(and(...conditions))
+        .groupBy(day)
+        .orderBy(day);
+
+      const limit = parseFloat(policy.limitUsd);
+      let cumulative = 0;
+      const series = daily.map(d => {
+        cumulative += parseFloat(d.spent);
+        return { date: d.date, spentUsd: cumulative, remainingUsd: Math.max(limit - cumulative, 0) };
+      });
+
+      result.push({ ...this.toStatus(policy, policy.scopeId, periodStart, cumulative), series });
+    }
+
+    return result;
+  }
+
+  private toStatus(policy: BudgetPolicy, scopeId: string, periodStart: Date | null, spentUsd: number): BudgetStatus {
+    const limitUsd = parseFloat(policy.limitUsd);
+    const percentUsed = limitUsd > 0 ? (spentUsd / limitUsd) * 100 : 100;
+
+    return {
+      policy,
+      scopeId,
+      periodStart: periodStart?.toISOString() ?? null,
+      spentUsd,
+      limitUsd,
+      remainingUsd: Math.max(limitUsd - spentUsd, 0),
+      percentUsed,
+      state: spentUsd >= limitUsd
+        ? 'exceeded'
+        : percentUsed >= policy.softLimitPercent ? 'warning' : 'ok'
+    };
+  }
+
+  /**
+   * Soft-limit warning, sent once per policy, scope ID and period
+   * The budget_warnings row is claimed before sending, so only one
+   * instance sends it and a restart doesn't send it again
+   */
+  private async warn(status: BudgetStatus): Promise<void> {
+    const periodStart = status.periodStart ?? 'total';
+    const key = `${status.policy.id}:${status.scopeId}:${periodStart}`;
+    if (this.warned.has(key)) return;
+
+    const [claimed] = await db.insert(budgetWarnings)
+      .values({
+        policyId: status.policy.id,
+        scopeId: status.scopeId,
+        periodStart,
+        percentUsed: status.percentUsed
+      })
+      .onConflictDoNothing()
+      .returning();
+    this.warned.add(key);
+    if (!claimed) return;
+
+    const recipient = status.policy.notifyUserId
+      || (status.policy.scope === 'user' ? status.scopeId : 'admin-1');
+
+    await this.notifications.sendNotification(
+      recipient,
+      'warning',
+      'AI Budget Warning',
+      `${status.policy.scope} ${status.scopeId} has used ${status.percentUsed.toFixed(0)}% of its ${status.policy.period} AI budget ($${status.spentUsd.toFixed(2)} of $${status.limitUsd.toFixed(2)}).`,
+      {
+        actionUrl: '/analytics',
+        metadata: {
+          policyId: status.policy.id,
+          scope: status.policy.scope,
+          scopeId: status.scopeId,
+          percentUsed: status.percentUsed
+        }
+      }
+    );
+  }
+
+  private getPeriodStart(period: BudgetPeriod): Date | null {
+    const now = new Date();
+    if (period === 'daily') {
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    }
+    if (period === 'monthly') {
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    }
+    return null;
+  }
+}
+
+export const budgetGuard = new BudgetGuard();
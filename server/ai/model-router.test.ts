@@ -0,0 +1,119 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ModelRouter, type AIModel } from './model-router';
+import { RoutingStats } from './routing-stats';
+
+class OfflineRoutingStats extends RoutingStats {
+  async ensureLoaded(): Promise<void> {}
+}
+
+/**
+ * Returns the scripted draw for a model, or its posterior mean
+ */
+class ScriptedRoutingStats extends OfflineRoutingStats {
+  draws: Partial<Record<AIModel, number>> = {};
+
+  sample(model: string, taskType: string, priorMean?: number): number {
+    return this.draws[model as AIModel] ?? this.getPosterior(model, taskType, priorMean).mean;
+  }
+}
+
+// mulberry32: small seeded PRNG so sampling runs are repeatable
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    t = (t + Math.imul(t ^ (t >>> 7), t | 61)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function observe(stats: RoutingStats, model: AIModel, taskType: string, successes: number, failures: number): void {
+  for (let i = 0; i < successes; i++) stats.observe(model, taskType, true);
+  for (let i = 0; i < failures; i++) stats.observe(model, taskType, false);
+}
+
+describe('ModelRouter.selectModel', () => {
+  const saved: Record<string, string | undefined> = {};
+  const keys = ['AI_PROVIDER_MODE', 'AI_ROUTING_QUALITY_FLOOR'];
+
+  before(() => {
+    for (const key of keys) saved[key] = process.env[key];
+    process.env.AI_PROVIDER_MODE = 'mock';
+    delete process.env.AI_ROUTING_QUALITY_FLOOR;
+  });
+
+  after(() => {
+    for (const key of keys) {
+      if (saved[key] === undefined) delete process.env[key];
+      else process.env[key] = saved[key];
+    }
+  });
+
+  // No registry rate for this task, so every model starts at the same 0.7 prior
+  const UNRATED = 'translation';
+
+  test('prefers the model with more recorded successes', async () => {
+    const stats = new ScriptedRoutingStats();
+    observe(stats, 'gemini-flash', UNRATED, 10, 20);
+    observe(stats, 'gemini-pro', UNRATED, 30, 0);
+
+    const selection = await new ModelRouter(stats).selectModel(UNRATED);
+    assert.equal(selection.model, 'gemini-pro');
+    assert.equal(selection.expectedSuccessRate, 37 / 40);
+    assert.equal(selection.explored, false);
+  });
+
+  test('seeded Thompson sampling mostly picks the proven model and still explores', async () => {
+    const stats = new OfflineRoutingStats(14, seededRandom(42));
+    observe(stats, 'gemini-flash', UNRATED, 10, 20);
+    observe(stats, 'gemini-pro', UNRATED, 30, 0);
+    const router = new ModelRouter(stats);
+
+    const picks: Record<string, number> = {};
+    for (let i = 0; i < 200; i++) {
+      const { model } = await router.selectModel(UNRATED);
+      picks[model] = (picks[model] ?? 0) + 1;
+    }
+
+    assert.ok(picks['gemini-pro'] > 180, `gemini-pro picked ${picks['gemini-pro']} of 200`);
+    assert.equal(picks['gemini-flash'] ?? 0, 0, 'a mean of 0.43 never clears the floor');
+  });
+
+  test('cheapest ranks on expected rates and ignores the draws', async () => {
+    const stats = new ScriptedRoutingStats();
+    stats.draws = { 'gemini-pro': 0.5, 'gemini-flash': 0.99 };
+
+    const selection = await new ModelRouter(stats).selectModel('code_generation', undefined, 'cheapest');
+    assert.equal(selection.model, 'gemini-pro', 'gemini-flash has no rate for code_generation and stays under the floor');
+    assert.equal(selection.sampledSuccessRate, selection.expectedSuccessRate);
+    assert.equal(selection.explored, false);
+    assert.match(selection.reasoning, /^Cheapest strategy: gemini-pro/);
+  });
+
+  test('a budget under BUDGET_CONSTRAINED_USD takes the cheapest model that cleared the floor', async () => {
+    const stats = new ScriptedRoutingStats();
+    stats.draws = { 'gemini-pro': 0.6, 'gpt-4o': 0.9 };
+    const router = new ModelRouter(stats);
+
+    const constrained = await router.selectModel('code_generation', 0.01);
+    assert.equal(constrained.model, 'gpt-4o');
+    assert.equal(constrained.explored, true, 'the greedy pick was gemini-pro');
+    assert.match(constrained.reasoning, /^Budget-constrained: gpt-4o/);
+
+    stats.draws = {};
+    const unconstrained = await router.selectModel('code_generation', 0.05);
+    assert.equal(unconstrained.model, 'gemini-pro');
+    assert.match(unconstrained.reasoning, /^Best sampled cost\/quality/);
+  });
+
+  test('falls back to the best expected rate when no draw clears the floor', async () => {
+    const stats = new ScriptedRoutingStats();
+    stats.draws = { 'gemini-flash': 0.1, 'gemini-pro': 0.1, 'claude-sonnet': 0.1, 'gpt-4o': 0.1 };
+
+    const selection = await new ModelRouter(stats).selectModel('code_review', 0.01);
+    assert.equal(selection.model, 'claude-sonnet');
+    assert.equal(selection.explored, false);
+    assert.match(selection.reasoning, /^No model sampled above 75% quality floor/);
+  });
+});
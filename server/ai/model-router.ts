@@ -1,5 +1,11 @@
 import { db } from '../db';
 import { aiUsageMetrics } from '@shared/schema';
+import { and, eq, gte } from 'drizzle-orm';
+import { providerRegistry, type ChatMessage, type CompletionResult, type ProviderName } from './providers';
+import { budgetGuard, type BudgetGuard } from './budget-guard';
+import { pricingService, type CostBreakdown, type PricingService } from './pricing';
+import { routingStats, type RoutingStats, type ModelPosterior, type ModelStatsHistoryPoint } from './routing-stats';
+import { experimentService, type ExperimentService } from '../deployment/experiments';
 
 /**
  * Multi-Model AI Router
@@ -14,13 +20,64 @@ import { aiUsageMetrics } from '@shared/schema';
 
 export type AIModel = 'gemini-flash' | 'gemini-pro' | 'claude-sonnet' | 'gpt-4o';
 
+/**
+ * How selectModel ranks models; 'thompson' is the default, the others
+ * exist so routing experiments can compare against it
+ * - thompson: rank on a draw from each posterior (explores)
+ * - greedy: rank on posterior means (no exploration)
+ * - cheapest: cheapest model whose mean clears the quality floor
+ */
+export const ROUTING_STRATEGIES = ['thompson', 'greedy', 'cheapest'] as const;
+export type RoutingStrategy = typeof ROUTING_STRATEGIES[number];
+
 export interface ModelCapabilities {
   model: AIModel;
   costPerRequest: number;
   avgResponseTime: number; // ms
   successRateByTask: Record<string, number>;
   strengths: string[];
-  available: boolean; // Whether model is currently configured
+  provider: ProviderName; // Which provider serves this model
+  providerModel: string; // Model ID sent to the provider
+}
+
+export interface CompletionOptions {
+  messages: ChatMessage[];
+  jsonMode?: boolean;
+  maxTokens?: number;
+  temperature?: number;
+  budget?: number; // Remaining spend in USD; defaults to the budget guard's headroom
+  agentId?: string;
+  userId?: string;
+  buildId?: string;
+  experiments?: Record<string, string>; // Variants the caller applied (experiment key → variant), tagged on usage
+}
+
+export interface ModelSelection {
+  model: AIModel;
+  reasoning: string;
+  expectedSuccessRate: number; // Posterior mean
+  sampledSuccessRate: number; // Thompson draw used for this decision
+  explored: boolean; // True when the draw overrode the greedy choice
+  strategy: RoutingStrategy;
+}
+
+export interface UsageRecord {
+  agentId: string;
+  model: AIModel;
+  requestType: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  latencyMs?: number;
+  success?: boolean;
+  error?: string;
+  userId?: string;
+  buildId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface RoutedCompletion extends CompletionResult {
+  routedModel: AIModel;
+  reasoning: string;
 }
 
 /**
@@ -39,7 +96,8 @@ export const MODEL_REGISTRY: ModelCapabilities[] = [
       'task_analysis': 0.91
     },
     strengths: ['planning', 'decomposition', 'cost-effective'],
-    available: false // Would need Gemini integration
+    provider: 'gemini',
+    providerModel: 'gemini-2.0-flash'
   },
   {
     model: 'gemini-pro',
@@ -52,7 +110,8 @@ export const MODEL_REGISTRY: ModelCapabilities[] = [
       'frontend': 0.88
     },
     strengths: ['code_generation', 'best_cost_quality', 'frontend'],
-    available: false // Would need Gemini integration
+    provider: 'gemini',
+    providerModel: 'gemini-1.5-pro'
   },
   {
     model: 'claude-sonnet',
@@ -65,7 +124,8 @@ export const MODEL_REGISTRY: ModelCapabilities[] = [
       'refactoring': 0.93
     },
     strengths: ['code_review', 'architecture', 'quality', 'reasoning'],
-    available: false // Would need Claude integration
+    provider: 'anthropic',
+    providerModel: 'claude-sonnet-4-20250514'
   },
   {
     model: 'gpt-4o',
@@ -78,137 +138,317 @@ export const MODEL_REGISTRY: ModelCapabilities[] = [
       'general': 0.88
     },
     strengths: ['multimodal', 'general_purpose', 'versatile'],
-    available: true // Available via Replit AI Integrations
+    provider: 'openai',
+    providerModel: 'gpt-4o'
   }
 ];
 
+const UNRATED_PRIOR = 0.7;
+
+// Budgets (USD) below this route to the cheapest model that clears the floor
+export const BUDGET_CONSTRAINED_USD = 0.05;
+
+// Usage analytics read this many days when the caller gives no window
+export const DEFAULT_USAGE_WINDOW_DAYS = 30;
+
 export class ModelRouter {
+  constructor(
+    private stats: RoutingStats = routingStats,
+    private pricing: PricingService = pricingService,
+    private budgets: BudgetGuard = budgetGuard,
+    private experiments: ExperimentService = experimentService
+  ) {}
+
+  /**
+   * Whether a model's provider is configured (or fixtures exist in mock mode)
+   */
+  isAvailable(model: AIModel): boolean {
+    const config = MODEL_REGISTRY.find(m => m.model === model);
+    return config ? providerRegistry.isAvailable(config.provider) : false;
+  }
+
+  /**
+   * Models that can be served with the current configuration
+   */
+  getAvailableModels(): ModelCapabilities[] {
+    return MODEL_REGISTRY.filter(m => providerRegistry.isAvailable(m.provider));
+  }
+
   /**
    * Select optimal AI model based on task type and cost constraints
    * Target: 87% cost reduction vs. all-Claude approach
    * 
    * Strategy:
-   * - ONLY select from available models (available: true)
-   * - Use cheapest capable model for each task type
-   * - Fallback to GPT-4o (currently the only available model)
-   * - Track performance to optimize routing over time
+   * - ONLY select from models whose provider is configured
+   * - Draw each model's success rate from its learned posterior (Thompson sampling)
+   * - Drop draws below the quality floor, then pick best success/cost
+   *   (or cheapest when the USD budget is under BUDGET_CONSTRAINED_USD)
+   * - If nothing clears the floor, use the model with the best expected rate
+   * Other strategies (see ROUTING_STRATEGIES) rank on the expected rates instead
    */
-  selectModel(
+  async selectModel(
     taskType: string,
-    budget?: number
-  ): { model: AIModel; reasoning: string } {
+    budgetUsd?: number,
+    strategy: RoutingStrategy = 'thompson'
+  ): Promise<ModelSelection> {
     // CRITICAL: Filter to available models ONLY
-    const availableModels = MODEL_REGISTRY.filter(m => m.available);
+    const availableModels = this.getAvailableModels();
     
     if (availableModels.length === 0) {
-      throw new Error('No AI models available - check MODEL_REGISTRY configuration');
+      throw new Error('No AI models available - configure a provider API key or set AI_PROVIDER_MODE=mock');
     }
-    
-    // Filter capable models that are ALSO available
-    const capableAndAvailable = availableModels.filter(m => 
-      m.successRateByTask[taskType] && m.successRateByTask[taskType] >= 0.75
-    );
-    
-    // If no available models are specifically good at this task, use first available model
-    if (capableAndAvailable.length === 0) {
-      const fallback = availableModels[0];
+
+    await this.loadStats();
+    const floor = this.getQualityFloor();
+
+    const draws = availableModels.map(m => {
+      const prior = this.getPrior(m, taskType);
       return {
-        model: fallback.model,
-        reasoning: `No available specialized model for ${taskType}, using ${fallback.model} (general-purpose)`
+        model: m.model,
+        cost: m.costPerRequest,
+        expected: this.stats.getPosterior(m.model, taskType, prior).mean,
+        sampled: this.stats.sample(m.model, taskType, prior)
       };
+    });
+
+    // Only Thompson sampling ranks on the draws
+    if (strategy !== 'thompson') {
+      for (const d of draws) d.sampled = d.expected;
     }
-    
-    // If budget constrained, pick cheapest available capable model
-    if (budget && budget < 0.05) {
-      const cheapest = capableAndAvailable
-        .sort((a, b) => a.costPerRequest - b.costPerRequest)[0];
-      
+
+    const eligible = draws.filter(d => d.sampled >= floor);
+    const budgetConstrained = budgetUsd !== undefined && budgetUsd < BUDGET_CONSTRAINED_USD;
+
+    // Nothing cleared the floor this round: exploit the best expected rate
+    if (eligible.length === 0) {
+      const best = [...draws].sort((a, b) => b.expected - a.expected)[0];
+      return {
+        model: best.model,
+        reasoning: `No model sampled above ${(floor * 100).toFixed(0)}% quality floor for ${taskType}, using best expected: ${best.model} (${(best.expected * 100).toFixed(0)}%)`,
+        expectedSuccessRate: best.expected,
+        sampledSuccessRate: best.sampled,
+        explored: false,
+        strategy
+      };
+    }
+
+    // Greedy pick on expected rates, used to flag exploration
+    const greedy = draws
+      .filter(d => d.expected >= floor)
+      .sort((a, b) => budgetConstrained ? a.cost - b.cost : b.expected / b.cost - a.expected / a.cost)[0];
+
+    // If budget constrained, pick cheapest model that cleared the floor
+    if (budgetConstrained || strategy === 'cheapest') {
+      const cheapest = [...eligible].sort((a, b) => a.cost - b.cost)[0];
       return {
         model: cheapest.model,
-        reasoning: `Budget-constrained: ${cheapest.model} at $${cheapest.costPerRequest}/request`
+        reasoning: `${strategy === 'cheapest' ? 'Cheapest strategy' : 'Budget-constrained'}: ${cheapest.model} at $${cheapest.cost}/request (sampled ${(cheapest.sampled * 100).toFixed(0)}%)`,
+        expectedSuccessRate: cheapest.expected,
+        sampledSuccessRate: cheapest.sampled,
+        explored: strategy === 'thompson' && greedy?.model !== cheapest.model,
+        strategy
       };
     }
-    
-    // Optimize for cost/quality balance (from available models only)
-    const scored = capableAndAvailable.map(m => ({
-      model: m.model,
-      score: m.successRateByTask[taskType]! / m.costPerRequest,
-      cost: m.costPerRequest,
-      successRate: m.successRateByTask[taskType]!
-    }));
-    
-    // Sort by score (descending)
-    scored.sort((a, b) => b.score - a.score);
-    
-    const selected = scored[0];
+
+    // Optimize for cost/quality balance on the sampled rates
+    const selected = [...eligible].sort((a, b) => b.sampled / b.cost - a.sampled / a.cost)[0];
+    const explored = greedy?.model !== selected.model;
+
     return {
       model: selected.model,
-      reasoning: `Best available cost/quality: ${selected.model} (${(selected.successRate * 100).toFixed(0)}% success, $${selected.cost}/request)`
+      reasoning: `${explored ? 'Exploring' : strategy === 'greedy' ? 'Best expected cost/quality' : 'Best sampled cost/quality'}: ${selected.model} (sampled ${(selected.sampled * 100).toFixed(0)}%, expected ${(selected.expected * 100).toFixed(0)}%, $${selected.cost}/request)`,
+      expectedSuccessRate: selected.expected,
+      sampledSuccessRate: selected.sampled,
+      explored,
+      strategy
     };
   }
 
+  /**
+   * Route a completion: check budgets, select a model for the task type,
+   * call its provider and record the outcome (tokens, latency, success)
+   * Users in a running routing experiment get their variant's strategy
+   * Throws BudgetExceededError if a hard spend cap is reached
+   */
+  async complete(taskType: string, options: CompletionOptions): Promise<RoutedCompletion> {
+    // Remaining headroom (USD, like costPerRequest) doubles as the routing
+    // budget, so nearly exhausted budgets fall back to the cheapest capable model
+    const headroom = await this.budgets.check({
+      userId: options.userId,
+      agentId: options.agentId,
+      buildId: options.buildId
+    });
+    const experiment = options.userId ? await this.experiments.assign('routing', options.userId) : null;
+    const strategy = ROUTING_STRATEGIES.find(s => s === experiment?.config.strategy) ?? 'thompson';
+    const selection = await this.selectModel(taskType, options.budget ?? headroom, strategy);
+    if (experiment) {
+      this.experiments.logExposure(experiment, options.userId!, `routing:${taskType}`, options.buildId);
+    }
+    const experiments = experiment
+      ? { ...options.experiments, [experiment.experimentKey]: experiment.variant }
+      : options.experiments;
+    const config = MODEL_REGISTRY.find(m => m.model === selection.model)!;
+    const provider = providerRegistry.resolve(config.provider);
+
+    const usage: UsageRecord = {
+      agentId: options.agentId || 'model-router',
+      model: selection.model,
+      requestType: taskType,
+      userId: options.userId,
+      buildId: options.buildId,
+      metadata: {
+        routing: {
+          reasoning: selection.reasoning,
+          expectedSuccessRate: selection.expectedSuccessRate,
+          sampledSuccessRate: selection.sampledSuccessRate,
+          explored: selection.explored,
+          strategy: selection.strategy
+        },
+        ...(experiments && Object.keys(experiments).length > 0 ? { experiments } : {})
+      }
+    };
+
+    const startedAt = Date.now();
+    let result: CompletionResult;
+    try {
+      result = await provider.complete({
+        model: config.providerModel,
+        messages: options.messages,
+        requestType: taskType,
+        jsonMode: options.jsonMode,
+        maxTokens: options.maxTokens,
+        temperature: options.temperature
+      });
+    } catch (error) {
+      await this.recordUsage({
+        ...usage,
+        latencyMs: Date.now() - startedAt,
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+
+    await this.recordUsage({
+      ...usage,
+      promptTokens: result.usage.promptTokens,
+      completionTokens: result.usage.completionTokens,
+      latencyMs: Date.now() - startedAt,
+      success: true
+    });
+
+    return { ...result, routedModel: selection.model, reasoning: selection.reasoning };
+  }
+
   /**
    * Track actual AI usage for cost monitoring and performance optimization
    * This data feeds into the Meta-Intelligence agent (Agent #116)
+   * and the routing posteriors
    */
-  async recordUsage(
-    agentId: string,
-    model: AIModel,
-    requestType: string,
-    tokens: number,
-    userId?: string
-  ): Promise<void> {
-    const modelConfig = MODEL_REGISTRY.find(m => m.model === model);
-    const cost = String(modelConfig?.costPerRequest || 0);
+  async recordUsage(record: UsageRecord): Promise<void> {
+    const promptTokens = record.promptTokens ?? 0;
+    const completionTokens = record.completionTokens ?? 0;
+    const cost = this.pricing.computeCost(record.model, promptTokens, completionTokens).toFixed(6);
+    const success = record.success ?? true;
     
     await db.insert(aiUsageMetrics).values({
-      agentId,
-      userId,
-      model,
-      requestType,
-      tokens,
-      cost
+      agentId: record.agentId,
+      userId: record.userId,
+      buildId: record.buildId,
+      model: record.model,
+      requestType: record.requestType,
+      tokens: promptTokens + completionTokens,
+      promptTokens,
+      completionTokens,
+      cost,
+      latencyMs: record.latencyMs,
+      success,
+      error: record.error,
+      metadata: record.metadata
     });
+
+    this.stats.observe(record.model, record.requestType, success, record.latencyMs);
   }
 
   /**
-   * Calculate cost savings compared to all-Claude baseline
-   * Target: 87% reduction
+   * Learned routing table: posterior per (model, task type) with the
+   * static prior it started from, plus daily history
    */
-  async calculateCostSavings(): Promise<{
-    actualCost: number;
-    baselineCost: number;
-    savingsPercent: number;
+  async getModelStats(): Promise<{
+    qualityFloor: number;
+    table: Array<ModelPosterior & { available: boolean; costPerRequest: number }>;
+    history: ModelStatsHistoryPoint[];
   }> {
-    // Get all AI usage from database
-    const usage = await db.select().from(aiUsageMetrics);
-    
-    const actualCost = usage.reduce((sum, u) => sum + parseFloat(u.cost || '0'), 0);
-    
-    // Calculate what it would have cost if all requests used Claude
-    const claudeCost = MODEL_REGISTRY.find(m => m.model === 'claude-sonnet')!.costPerRequest;
-    const baselineCost = usage.length * claudeCost;
-    
-    const savingsPercent = baselineCost > 0 
-      ? ((baselineCost - actualCost) / baselineCost) * 100 
-      : 0;
-    
+    await this.loadStats(true);
+
+    // Every task type with a prior or with recorded calls
+    const taskTypes = new Set<string>();
+    MODEL_REGISTRY.forEach(m => Object.keys(m.successRateByTask).forEach(t => taskTypes.add(t)));
+    this.stats.getTable().forEach(row => taskTypes.add(row.taskType));
+
+    const table = MODEL_REGISTRY.flatMap(m =>
+      Array.from(taskTypes).map(taskType => {
+        const posterior = this.stats.getPosterior(m.model, taskType, this.getPrior(m, taskType));
+        return {
+          ...posterior,
+          avgLatencyMs: posterior.avgLatencyMs ?? m.avgResponseTime,
+          available: this.isAvailable(m.model),
+          costPerRequest: m.costPerRequest
+        };
+      })
+    );
+
     return {
-      actualCost,
-      baselineCost,
-      savingsPercent
+      qualityFloor: this.getQualityFloor(),
+      table,
+      history: await this.stats.getHistory()
     };
   }
 
   /**
-   * Get model usage distribution for analytics
+   * Static registry rate is the prior; models with no rate for a task
+   * start just under the default floor so they must earn their way in
    */
-  async getUsageStats(): Promise<{
+  private getPrior(model: ModelCapabilities, taskType: string): number {
+    return model.successRateByTask[taskType] ?? UNRATED_PRIOR;
+  }
+
+  private getQualityFloor(): number {
+    return parseFloat(process.env.AI_ROUTING_QUALITY_FLOOR || '0.75');
+  }
+
+  /**
+   * Routing still works on priors alone if usage history cannot be read
+   */
+  private async loadStats(force = false): Promise<void> {
+    try {
+      await this.stats.ensureLoaded(force);
+    } catch (error) {
+      console.error('[AI] Failed to load routing stats, using priors:', error);
+    }
+  }
+
+  /**
+   * Calculate cost savings compared to running the same tokens on the
+   * baseline model (AI_BASELINE_MODEL, default claude-sonnet)
+   * over the last `days` (default DEFAULT_USAGE_WINDOW_DAYS)
+   * Target: 87% reduction
+   */
+  async calculateCostSavings(options: { days?: number; userId?: string } = {}): Promise<CostBreakdown> {
+    const usage = await this.getUsageRows(options);
+    return this.pricing.summarize(usage);
+  }
+
+  /**
+   * Get model usage distribution for analytics over the last `days`
+   * (default DEFAULT_USAGE_WINDOW_DAYS)
+   */
+  async getUsageStats(options: { days?: number; userId?: string } = {}): Promise<{
     modelDistribution: Record<AIModel, number>;
     costTrend: Array<{ date: string; actual: number; baseline: number }>;
     totalRequests: number;
   }> {
-    const usage = await db.select().from(aiUsageMetrics);
+    const usage = await this.getUsageRows(options);
     
     // Model distribution
     const modelDistribution = usage.reduce((acc, u) => {
@@ -217,13 +457,12 @@ export class ModelRouter {
       return acc;
     }, {} as Record<AIModel, number>);
     
-    // Cost trend (simplified - would group by day in production)
-    const claudeCost = MODEL_REGISTRY.find(m => m.model === 'claude-sonnet')!.costPerRequest;
-    const costTrend = [{
-      date: new Date().toISOString().split('T')[0],
-      actual: usage.reduce((sum, u) => sum + parseFloat(u.cost || '0'), 0),
-      baseline: usage.length * claudeCost
-    }];
+    // Daily cost trend priced from tokens
+    const costTrend = this.pricing.summarize(usage).byDay.map(day => ({
+      date: day.key,
+      actual: day.actualCost,
+      baseline: day.baselineCost
+    }));
     
     return {
       modelDistribution,
@@ -231,4 +470,18 @@ export class ModelRouter {
       totalRequests: usage.length
     };
   }
+
+  private async getUsageRows(options: { days?: number; userId?: string }) {
+    const days = options.days && options.days > 0 ? options.days : DEFAULT_USAGE_WINDOW_DAYS;
+    const conditions = [gte(aiUsageMetrics.createdAt, new Date(Date.now() - days * 24 * 60 * 60 * 1000))];
+    if (options.userId) {
+      conditions.push(eq(aiUsageMetrics.userId, options.userId));
+    }
+
+    return await db.select()
+      .from(aiUsageMetrics)
+      .where(and(...conditions));
+  }
 }
+
+export const modelRouter = new ModelRouter();
@@ -0,0 +1,26 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PRICE_SHEET, PricingService } from './pricing';
+
+describe('PricingService.addPrice', () => {
+  test('keeps runtime prices out of the shared sheet', () => {
+    const sheetBefore = JSON.stringify(PRICE_SHEET);
+    const pricing = new PricingService();
+
+    pricing.addPrice({ model: 'gemini-pro', effectiveFrom: '2026-01-01', inputPerMillion: 1.00, outputPerMillion: 4.00 });
+
+    assert.equal(JSON.stringify(PRICE_SHEET), sheetBefore);
+    assert.equal(new PricingService().getPrice('gemini-pro', new Date('2026-06-01'))?.inputPerMillion, 1.25);
+    assert.equal(pricing.getPrice('gemini-pro', new Date('2026-06-01'))?.inputPerMillion, 1.00);
+    assert.equal(pricing.getPrice('gemini-pro', new Date('2025-06-01'))?.inputPerMillion, 1.25, 'older usage keeps its price');
+  });
+
+  test('an override for an existing effective date replaces that entry', () => {
+    const pricing = new PricingService();
+    pricing.addPrice({ model: 'gpt-4o', effectiveFrom: '2024-10-01', inputPerMillion: 2.00, outputPerMillion: 8.00 });
+    pricing.addPrice({ model: 'gpt-4o', effectiveFrom: '2024-10-01', inputPerMillion: 2.25, outputPerMillion: 9.00 });
+
+    assert.equal(pricing.getPrice('gpt-4o', new Date('2025-01-01'))?.outputPerMillion, 9.00);
+    assert.equal(pricing.computeCost('gpt-4o', 1_000_000, 0, new Date('2025-01-01')), 2.25);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * AI Pricing - Per-model token price sheets
+ * Reference: mb.md Section 6.2 (Cost Optimization Matrix)
+ *
+ * Prices are USD per 1M tokens, split into input (prompt) and output
+ * (completion). Each model can have several entries; the one with the
+ * latest `effectiveFrom` on or before the call date applies, so historic
+ * usage keeps the price it was billed at.
+ *
+ * Savings compare actual cost with what the same tokens would have cost
+ * on the baseline model (AI_BASELINE_MODEL, default claude-sonnet).
+ */
+
+export interface ModelPrice {
+  model: string;
+  effectiveFrom: string; // YYYY-MM-DD
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export const PRICE_SHEET: ModelPrice[] = [
+  { model: 'gemini-flash', effectiveFrom: '2024-05-14', inputPerMillion: 0.075, outputPerMillion: 0.30 },
+  { model: 'gemini-flash', effectiveFrom: '2025-02-05', inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  { model: 'gemini-pro', effectiveFrom: '2024-10-01', inputPerMillion: 1.25, outputPerMillion: 5.00 },
+  { model: 'claude-sonnet', effectiveFrom: '2024-06-20', inputPerMillion: 3.00, outputPerMillion: 15.00 },
+  { model: 'gpt-4o', effectiveFrom: '2024-05-13', inputPerMillion: 5.00, outputPerMillion: 15.00 },
+  { model: 'gpt-4o', effectiveFrom: '2024-10-01', inputPerMillion: 2.50, outputPerMillion: 10.00 }
+];
+
+export interface PricedUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  tokens: number; // Total; used when the split is unknown
+  createdAt: Date;
+}
+
+export interface CostBreakdownEntry {
+  key: string;
+  requests: number;
+  tokens: number;
+  actualCost: number;
+  baselineCost: number;
+  savingsPercent: number;
+}
+
+export interface CostBreakdown {
+  baselineModel: string;
+  actualCost: number;
+  baselineCost: number;
+  savingsPercent: number;
+  byDay: CostBreakdownEntry[];
+  byAgent: CostBreakdownEntry[];
+  byUser: CostBreakdownEntry[];
+  byRequestType: CostBreakdownEntry[];
+}
+
+export class PricingService {
+  // Runtime additions, kept apart so the shared sheet is never mutated
+  private overrides: Map<string, ModelPrice[]> = new Map();
+
+  constructor(private sheet: readonly ModelPrice[] = PRICE_SHEET) {}
+
+  /**
+   * Add a price entry (e.g. a new effective date announced by a provider);
+   * an override with the same model and date replaces the sheet entry
+   */
+  addPrice(price: ModelPrice): void {
+    const entries = (this.overrides.get(price.model) ?? []).filter(p => p.effectiveFrom !== price.effectiveFrom);
+    this.overrides.set(price.model, [...entries, { ...price }]);
+  }
+
+  getBaselineModel(): string {
+    return process.env.AI_BASELINE_MODEL || 'claude-sonnet';
+  }
+
+  /**
+   * Price in effect for a model at a point in time
+   */
+  getPrice(model: string, at: Date = new Date()): ModelPrice | undefined {
+    const day = at.toISOString().split('T')[0];
+    const overrides = this.overrides.get(model) ?? [];
+    const entries = this.sheet
+      .filter(p => p.model === model && !overrides.some(o => o.effectiveFrom === p.effectiveFrom))
+      .concat(overrides)
+      .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+
+    // Usage older than the first entry is priced at the earliest known price
+    return entries.find(p => p.effectiveFrom <= day) ?? entries[entries.length - 1];
+  }
+
+  /**
+   * Cost in USD for one call
+   * Rows recorded before prompt/completion were split only have a total;
+   * those are priced at the mean of the input and output rates
+   */
+  computeCost(model: string, promptTokens: number, completionTokens: number, at: Date = new Date(), totalTokens?: number): number {
+    const price = this.getPrice(model, at);
+    if (!price) return 0;
+
+    if (promptTokens === 0 && completionTokens === 0 && totalTokens) {
+      return totalTokens * (price.inputPerMillion + price.outputPerMillion) / 2 / 1_000_000;
+    }
+
+    return (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000;
+  }
+
+  /**
+   * Cost of a usage row on its own model and on the baseline model
+   */
+  priceUsage(usage: PricedUsage, baselineModel: string = this.getBaselineModel()): { actual: number; baseline: number } {
+    return {
+      actual: this.computeCost(usage.model, usage.promptTokens, usage.completionTokens, usage.createdAt, usage.tokens),
+      baseline: this.computeCost(baselineModel, usage.promptTokens, usage.completionTokens, usage.createdAt, usage.tokens)
+    };
+  }
+
+  /**
+   * Actual vs baseline cost, overall and grouped by day, agent, user and request type
+   */
+  summarize(
+    rows: Array<PricedUsage & { agentId: string | null; userId: string | null; requestType: string }>,
+    baselineModel: string = this.getBaselineModel()
+  ): CostBreakdown {
+    const groups = {
+      byDay: new Map<string, CostBreakdownEntry>(),
+      byAgent: new Map<string, CostBreakdownEntry>(),
+      byUser: new Map<string, CostBreakdownEntry>(),
+      byRequestType: new Map<string, CostBreakdownEntry>()
+    };
+
+    let actualCost = 0;
+    let baselineCost = 0;
+
+    for (const row of rows) {
+      const { actual, baseline } = this.priceUsage(row, baselineModel);
+      actualCost += actual;
+      baselineCost += baseline;
+
+      const keys: Record<keyof typeof groups, string> = {
+        byDay: row.createdAt.toISOString().split('T')[0],
+        byAgent: row.agentId || 'unknown',
+        byUser: row.userId || 'anonymous',
+        byRequestType: row.requestType
+      };
+
+      for (const group of Object.keys(groups) as Array<keyof typeof groups>) {
+        const map = groups[group];
+        const entry = map.get(keys[group]) ?? {
+          key: keys[group], requests: 0, tokens: 0, actualCost: 0, baselineCost: 0, savingsPercent: 0
+        };
+        entry.requests += 1;
+        entry.tokens += row.tokens;
+        entry.actualCost += actual;
+        entry.baselineCost += baseline;
+        map.set(keys[group], entry);
+      }
+    }
+
+    const finish = (map: Map<string, CostBreakdownEntry>) =>
+      Array.from(map.values())
+        .map(entry => ({ ...entry, savingsPercent: savingsPercent(entry.actualCost, entry.baselineCost) }))
+        .sort((a, b) => a.key.localeCompare(b.key));
+
+    return {
+      baselineModel,
+      actualCost,
+      baselineCost,
+      savingsPercent: savingsPercent(actualCost, baselineCost),
+      byDay: finish(groups.byDay),
+      byAgent: finish(groups.byAgent),
+      byUser: finish(groups.byUser),
+      byRequestType: finish(groups.byRequestType)
+    };
+  }
+}
+
+function savingsPercent(actual: number, baseline: number): number {
+  return baseline > 0 ? ((baseline - actual) / baseline) * 100 : 0;
+}
+
+export const pricingService = new PricingService();
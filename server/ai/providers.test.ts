@@ -0,0 +1,169 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { AgentTask, Build } from '@shared/schema';
+import {
+  MockProvider,
+  ProviderError,
+  RecordingProvider,
+  fixtureKey,
+  providerRegistry,
+  type CompletionRequest,
+  type CompletionResult,
+  type LLMProvider
+} from './providers';
+import { ModelRouter, type UsageRecord } from './model-router';
+import { RoutingStats } from './routing-stats';
+import { BudgetGuard } from './budget-guard';
+import { pricingService } from './pricing';
+import { ExperimentService, type VariantAssignment } from '../deployment/experiments';
+import { TaskOrchestrator } from '../orchestration/task-orchestrator';
+import type { BuildService } from '../orchestration/build-service';
+
+// Database-backed collaborators replaced with in-memory ones
+class OfflineRoutingStats extends RoutingStats {
+  async ensureLoaded(): Promise<void> {}
+}
+
+class UnlimitedBudgets extends BudgetGuard {
+  async check(): Promise<number | undefined> {
+    return undefined;
+  }
+}
+
+class NoExperiments extends ExperimentService {
+  async assign(): Promise<VariantAssignment | null> {
+    return null;
+  }
+}
+
+class OfflineRouter extends ModelRouter {
+  usage: UsageRecord[] = [];
+
+  async recordUsage(record: UsageRecord): Promise<void> {
+    this.usage.push(record);
+  }
+}
+
+const fakeBuilds = {
+  async create(userId: string, request: string) {
+    return {
+      build: { id: 'build-test', userId, request, status: 'pending' } as Build,
+      mainTask: { id: 1, buildId: 'build-test', type: 'orchestration' } as AgentTask
+    };
+  },
+  async fail() {
+    throw new Error('decomposition should not fail in mock mode');
+  }
+} as unknown as BuildService;
+
+describe('AI_PROVIDER_MODE=mock', () => {
+  let previousMode: string | undefined;
+
+  before(() => {
+    previousMode = process.env.AI_PROVIDER_MODE;
+    process.env.AI_PROVIDER_MODE = 'mock';
+  });
+
+  after(() => {
+    if (previousMode === undefined) delete process.env.AI_PROVIDER_MODE;
+    else process.env.AI_PROVIDER_MODE = previousMode;
+  });
+
+  test('serves every provider from fixtures', () => {
+    for (const name of ['openai', 'anthropic', 'gemini'] as const) {
+      assert.equal(providerRegistry.resolve(name).name, 'mock');
+      assert.equal(providerRegistry.isAvailable(name), true);
+    }
+  });
+
+  test('routes a decomposition through the mock provider with no network', async () => {
+    const router = new OfflineRouter(new OfflineRoutingStats(), pricingService, new UnlimitedBudgets(), new NoExperiments());
+    const orchestrator = new TaskOrchestrator(undefined, fakeBuilds, router, new NoExperiments());
+
+    const decomposition = await orchestrator.decompose('Build a dashboard', 'user-1');
+
+    assert.equal(decomposition.buildId, 'build-test');
+    assert.deepEqual(decomposition.subTasks.map(t => t.id), ['schema', 'api', 'ui', 'tests']);
+    assert.equal(decomposition.dependencies.length, 3);
+    orchestrator.validateTaskGraph(decomposition.subTasks, decomposition.dependencies);
+
+    assert.equal(router.usage.length, 1);
+    assert.equal(router.usage[0].requestType, 'decomposition');
+    assert.equal(router.usage[0].success, true);
+    assert.equal(router.usage[0].buildId, 'build-test');
+    assert.equal(router.usage[0].promptTokens, 310);
+    assert.equal(router.usage[0].completionTokens, 265);
+  });
+});
+
+describe('fixture recording and replay', () => {
+  let fixturesDir: string;
+
+  const request: CompletionRequest = {
+    model: 'gpt-4o',
+    messages: [
+      { role: 'system', content: 'You are a planner' },
+      { role: 'user', content: 'Plan a todo app' }
+    ],
+    requestType: 'planning',
+    jsonMode: true,
+    temperature: 0.2
+  };
+
+  class ScriptedProvider implements LLMProvider {
+    readonly name = 'openai' as const;
+    calls = 0;
+
+    isConfigured(): boolean {
+      return true;
+    }
+
+    async complete(req: CompletionRequest): Promise<CompletionResult> {
+      this.calls++;
+      return {
+        provider: this.name,
+        model: req.model,
+        content: JSON.stringify({ plan: ['model', 'api', 'ui'] }),
+        usage: { promptTokens: 12, completionTokens: 8, totalTokens: 20 }
+      };
+    }
+  }
+
+  before(() => {
+    fixturesDir = mkdtempSync(path.join(tmpdir(), 'ai-fixtures-'));
+  });
+
+  after(() => {
+    rmSync(fixturesDir, { recursive: true, force: true });
+  });
+
+  test('a recorded completion replays exactly, keyed by model and messages', async () => {
+    const live = new ScriptedProvider();
+    const recorded = await new RecordingProvider(live, fixturesDir).complete(request);
+
+    const file = path.join(fixturesDir, `${fixtureKey(request)}.json`);
+    assert.ok(existsSync(file));
+    const fixture = JSON.parse(readFileSync(file, 'utf-8'));
+    assert.equal(fixture.key, fixtureKey(request));
+    assert.equal(fixture.requestType, 'planning');
+    assert.equal(fixture.content, recorded.content);
+
+    const mock = new MockProvider(fixturesDir);
+    const replayed = await mock.complete({ ...request, temperature: 0.9, maxTokens: 100 });
+    assert.equal(replayed.provider, 'mock');
+    assert.equal(replayed.content, recorded.content);
+    assert.deepEqual(replayed.usage, recorded.usage);
+    assert.equal(live.calls, 1, 'replay does not call the live provider');
+  });
+
+  test('a request with no recording and no request-type default fails clearly', async () => {
+    const mock = new MockProvider(fixturesDir);
+    await assert.rejects(
+      mock.complete({ ...request, messages: [{ role: 'user', content: 'Something new' }], requestType: 'unknown' }),
+      (error: unknown) => error instanceof ProviderError && /No fixture for unknown/.test(error.message)
+    );
+  });
+});
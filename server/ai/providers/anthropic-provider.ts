@@ -0,0 +1,72 @@
+import { ProviderError, splitSystemMessages, type CompletionRequest, type CompletionResult, type LLMProvider } from './types';
+
+/**
+ * Anthropic Messages API provider
+ *
+ * Env:
+ * - ANTHROPIC_API_KEY
+ * - ANTHROPIC_BASE_URL (optional, default https://api.anthropic.com)
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+
+  isConfigured(): boolean {
+    return Boolean(process.env.ANTHROPIC_API_KEY);
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new ProviderError(this.name, 'No API key configured');
+    }
+
+    const baseUrl = process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com';
+    const { system, conversation } = splitSystemMessages(request.messages);
+
+    // The Messages API has no JSON mode; ask for it in the system prompt
+    const systemPrompt = request.jsonMode
+      ? `${system}\n\nRespond with a single valid JSON object and nothing else.`.trim()
+      : system;
+
+    const response = await fetch(`${baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: request.model,
+        system: systemPrompt || undefined,
+        messages: conversation,
+        max_tokens: request.maxTokens ?? 4096,
+        temperature: request.temperature
+      })
+    });
+
+    if (!response.ok) {
+      throw new ProviderError(this.name, `HTTP ${response.status}: ${await response.text()}`, response.status);
+    }
+
+    const data = await response.json() as {
+      model: string;
+      content: Array<{ type: string; text?: string }>;
+      usage?: { input_tokens: number; output_tokens: number };
+    };
+
+    const content = data.content
+      .filter(block => block.type === 'text')
+      .map(block => block.text ?? '')
+      .join('');
+
+    const promptTokens = data.usage?.input_tokens ?? 0;
+    const completionTokens = data.usage?.output_tokens ?? 0;
+
+    return {
+      provider: this.name,
+      model: data.model || request.model,
+      content,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+}
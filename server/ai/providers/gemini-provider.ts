@@ -0,0 +1,77 @@
+import { ProviderError, splitSystemMessages, type CompletionRequest, type CompletionResult, type LLMProvider } from './types';
+
+/**
+ * Google Gemini (generateContent) provider
+ *
+ * Env:
+ * - GEMINI_API_KEY
+ * - GEMINI_BASE_URL (optional, default https://generativelanguage.googleapis.com)
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+
+  isConfigured(): boolean {
+    return Boolean(process.env.GEMINI_API_KEY);
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new ProviderError(this.name, 'No API key configured');
+    }
+
+    const baseUrl = process.env.GEMINI_BASE_URL || 'https://generativelanguage.googleapis.com';
+    const { system, conversation } = splitSystemMessages(request.messages);
+
+    const response = await fetch(
+      `${baseUrl}/v1beta/models/${encodeURIComponent(request.model)}:generateContent`,
+      {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-goog-api-key': apiKey
+        },
+        body: JSON.stringify({
+          systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+          contents: conversation.map(m => ({
+            role: m.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: m.content }]
+          })),
+          generationConfig: {
+            maxOutputTokens: request.maxTokens,
+            temperature: request.temperature,
+            responseMimeType: request.jsonMode ? 'application/json' : undefined
+          }
+        })
+      }
+    );
+
+    if (!response.ok) {
+      throw new ProviderError(this.name, `HTTP ${response.status}: ${await response.text()}`, response.status);
+    }
+
+    const data = await response.json() as {
+      candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+      usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+    };
+
+    const parts = data.candidates?.[0]?.content?.parts;
+    if (!parts) {
+      throw new ProviderError(this.name, `No candidates returned from ${request.model}`);
+    }
+
+    const promptTokens = data.usageMetadata?.promptTokenCount ?? 0;
+    const completionTokens = data.usageMetadata?.candidatesTokenCount ?? 0;
+
+    return {
+      provider: this.name,
+      model: request.model,
+      content: parts.map(p => p.text ?? '').join(''),
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: data.usageMetadata?.totalTokenCount ?? promptTokens + completionTokens
+      }
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import { OpenAIProvider } from './openai-provider';
+import { AnthropicProvider } from './anthropic-provider';
+import { GeminiProvider } from './gemini-provider';
+import { MockProvider, RecordingProvider } from './mock-provider';
+import type { LLMProvider, ProviderName } from './types';
+
+export * from './types';
+export { MockProvider, RecordingProvider, fixtureKey, getFixturesDir } from './mock-provider';
+
+/**
+ * Provider mode, from AI_PROVIDER_MODE:
+ * - live (default): call the real provider for each model
+ * - mock: serve every model from recorded fixtures, no network
+ * - record: call the real provider and save each response as a fixture
+ */
+export type ProviderMode = 'live' | 'mock' | 'record';
+
+export function getProviderMode(): ProviderMode {
+  const mode = (process.env.AI_PROVIDER_MODE || 'live').toLowerCase();
+  if (mode === 'mock' || mode === 'record') return mode;
+  return 'live';
+}
+
+export class ProviderRegistry {
+  private providers: Map<ProviderName, LLMProvider> = new Map();
+
+  constructor() {
+    this.register(new OpenAIProvider());
+    this.register(new AnthropicProvider());
+    this.register(new GeminiProvider());
+    this.register(new MockProvider());
+  }
+
+  register(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Provider that should serve a model backed by `name`, honoring the mode
+   */
+  resolve(name: ProviderName): LLMProvider {
+    const mode = getProviderMode();
+    if (mode === 'mock') {
+      return this.get('mock');
+    }
+
+    const provider = this.get(name);
+    return mode === 'record' ? new RecordingProvider(provider) : provider;
+  }
+
+  /**
+   * Whether a model backed by `name` can be served in the current mode
+   */
+  isAvailable(name: ProviderName): boolean {
+    return this.resolve(name).isConfigured();
+  }
+
+  getStatus(): Array<{ provider: ProviderName; configured: boolean }> {
+    return Array.from(this.providers.values()).map(p => ({
+      provider: p.name,
+      configured: p.isConfigured()
+    }));
+  }
+
+  private get(name: ProviderName): LLMProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Unknown AI provider: ${name}`);
+    }
+    return provider;
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
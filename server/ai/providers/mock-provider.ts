@@ -0,0 +1,116 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ProviderError, type CompletionRequest, type CompletionResult, type LLMProvider } from './types';
+
+/**
+ * Fixture (mock) provider - replays recorded completions with no network
+ *
+ * Lookup order for a request:
+ * 1. `<fixturesDir>/<hash>.json` - exact recording of this model + messages
+ * 2. `<fixturesDir>/<requestType>.json` - default response for the request type
+ *
+ * Env:
+ * - AI_FIXTURES_DIR (optional, default server/ai/fixtures)
+ */
+
+export interface Fixture {
+  key?: string;
+  requestType?: string;
+  model?: string;
+  content: string;
+  usage?: CompletionResult['usage'];
+}
+
+export function getFixturesDir(): string {
+  return path.resolve(process.env.AI_FIXTURES_DIR || path.join(process.cwd(), 'server', 'ai', 'fixtures'));
+}
+
+/**
+ * Stable key for a request: ignores tuning knobs, keeps what changes the answer
+ */
+export function fixtureKey(request: CompletionRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ model: request.model, messages: request.messages, jsonMode: !!request.jsonMode }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+
+  constructor(private fixturesDir: string = getFixturesDir()) {}
+
+  isConfigured(): boolean {
+    return existsSync(this.fixturesDir);
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const candidates = [fixtureKey(request), request.requestType].filter(Boolean) as string[];
+
+    for (const name of candidates) {
+      const file = path.join(this.fixturesDir, `${name}.json`);
+      if (!existsSync(file)) continue;
+
+      const fixture = JSON.parse(readFileSync(file, 'utf-8')) as Fixture;
+      return {
+        provider: this.name,
+        model: request.model,
+        content: fixture.content,
+        usage: fixture.usage ?? estimateUsage(request, fixture.content)
+      };
+    }
+
+    throw new ProviderError(
+      this.name,
+      `No fixture for ${request.requestType ?? 'request'} (tried ${candidates.map(c => `${c}.json`).join(', ')} in ${this.fixturesDir})`
+    );
+  }
+}
+
+/**
+ * Wraps a live provider and writes every completion as a fixture
+ * so it can be replayed later by MockProvider
+ */
+export class RecordingProvider implements LLMProvider {
+  constructor(
+    private inner: LLMProvider,
+    private fixturesDir: string = getFixturesDir()
+  ) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const result = await this.inner.complete(request);
+    const key = fixtureKey(request);
+
+    const fixture: Fixture = {
+      key,
+      requestType: request.requestType,
+      model: request.model,
+      content: result.content,
+      usage: result.usage
+    };
+
+    mkdirSync(this.fixturesDir, { recursive: true });
+    writeFileSync(path.join(this.fixturesDir, `${key}.json`), JSON.stringify(fixture, null, 2) + '\n');
+    console.log(`[AI] Recorded fixture ${key} (${request.requestType ?? 'request'})`);
+
+    return result;
+  }
+}
+
+/**
+ * Rough token count (~4 characters per token) for fixtures without usage
+ */
+function estimateUsage(request: CompletionRequest, content: string): CompletionResult['usage'] {
+  const promptTokens = Math.ceil(request.messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+  const completionTokens = Math.ceil(content.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
@@ -0,0 +1,68 @@
+import OpenAI from 'openai';
+import { ProviderError, type CompletionRequest, type CompletionResult, type LLMProvider } from './types';
+
+/**
+ * OpenAI-compatible provider
+ * Works with OpenAI itself, Replit's AI Integrations service, and any
+ * server that speaks the chat completions API (vLLM, Ollama, etc.)
+ *
+ * Env:
+ * - AI_INTEGRATIONS_OPENAI_API_KEY / OPENAI_API_KEY
+ * - AI_INTEGRATIONS_OPENAI_BASE_URL / OPENAI_BASE_URL (optional)
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI | null = null;
+
+  isConfigured(): boolean {
+    return Boolean(this.getApiKey());
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      response_format: request.jsonMode ? { type: 'json_object' } : undefined,
+      max_completion_tokens: request.maxTokens,
+      temperature: request.temperature
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (content == null) {
+      throw new ProviderError(this.name, `Empty completion from ${request.model}`);
+    }
+
+    return {
+      provider: this.name,
+      model: response.model || request.model,
+      content,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: response.usage?.completion_tokens ?? 0,
+        totalTokens: response.usage?.total_tokens ?? 0
+      }
+    };
+  }
+
+  private getApiKey(): string | undefined {
+    return process.env.AI_INTEGRATIONS_OPENAI_API_KEY || process.env.OPENAI_API_KEY;
+  }
+
+  /**
+   * Client is created on first use so importing this module never
+   * requires credentials
+   */
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const apiKey = this.getApiKey();
+      if (!apiKey) {
+        throw new ProviderError(this.name, 'No API key configured');
+      }
+      this.client = new OpenAI({
+        baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL || process.env.OPENAI_BASE_URL,
+        apiKey
+      });
+    }
+    return this.client;
+  }
+}
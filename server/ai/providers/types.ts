@@ -0,0 +1,75 @@
+/**
+ * LLM Provider Types
+ * Reference: mb.md Section 6 (Multi-Model AI Routing)
+ *
+ * Every provider (OpenAI-compatible, Anthropic, Gemini, fixture replay)
+ * takes the same completion request and returns the same result shape,
+ * so the router can pick a model without caring who serves it.
+ */
+
+export type ProviderName = 'openai' | 'anthropic' | 'gemini' | 'mock';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  model: string; // Provider-specific model ID
+  messages: ChatMessage[];
+  requestType?: string; // Used by the mock provider to find a default fixture
+  jsonMode?: boolean;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  provider: ProviderName;
+  model: string;
+  content: string;
+  usage: CompletionUsage;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+
+  /**
+   * Whether the provider has the credentials it needs
+   */
+  isConfigured(): boolean;
+
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+/**
+ * Thrown when a provider call fails or returns an unusable response
+ */
+export class ProviderError extends Error {
+  constructor(
+    public readonly provider: ProviderName,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(`[${provider}] ${message}`);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Split system messages out for APIs that take them as a separate field
+ */
+export function splitSystemMessages(messages: ChatMessage[]): {
+  system: string;
+  conversation: ChatMessage[];
+} {
+  return {
+    system: messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n'),
+    conversation: messages.filter(m => m.role !== 'system')
+  };
+}
@@ -0,0 +1,242 @@
+import { db } from '../db';
+import { aiUsageMetrics } from '@shared/schema';
+import { gte, sql } from 'drizzle-orm';
+
+/**
+ * Routing Statistics - Learned per-model, per-task-type outcomes
+ * Reference: mb.md Section 6.3 (Performance-Based Routing)
+ *
+ * Each (model, task type) pair keeps a Beta posterior over its success rate:
+ * - Prior: the static MODEL_REGISTRY rate, worth PRIOR_STRENGTH observations
+ * - Evidence: successes/failures from aiUsageMetrics in the rolling window
+ *
+ * The router draws one sample per candidate (Thompson sampling), so models
+ * with little evidence still get explored while proven ones win most calls.
+ */
+
+const PRIOR_STRENGTH = 10;
+const DEFAULT_PRIOR = 0.8;
+const LATENCY_EWMA_ALPHA = 0.2;
+const CACHE_TTL_MS = 60_000;
+
+export interface ModelTaskStats {
+  model: string;
+  taskType: string;
+  successes: number;
+  failures: number;
+  avgLatencyMs: number | null;
+  lastUsedAt: string | null;
+}
+
+export interface ModelPosterior extends ModelTaskStats {
+  priorMean: number;
+  alpha: number;
+  beta: number;
+  mean: number;
+}
+
+export interface ModelStatsHistoryPoint {
+  date: string;
+  model: string;
+  taskType: string;
+  requests: number;
+  successRate: number;
+  avgLatencyMs: number | null;
+}
+
+export class RoutingStats {
+  private stats: Map<string, ModelTaskStats> = new Map();
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor(
+    private windowDays: number = parseInt(process.env.AI_ROUTING_WINDOW_DAYS || '14', 10),
+    private random: () => number = Math.random
+  ) {}
+
+  /**
+   * Reload the rolling window from aiUsageMetrics if the cache is stale
+   */
+  async ensureLoaded(force = false): Promise<void> {
+    if (!force && Date.now() - this.loadedAt < CACHE_TTL_MS) return;
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = null;
+      });
+    }
+    await this.loading;
+  }
+
+  /**
+   * Record one call outcome in memory (the row itself is written by the router)
+   */
+  observe(model: string, taskType: string, success: boolean, latencyMs?: number): void {
+    const entry = this.getEntry(model, taskType);
+    if (success) {
+      entry.successes += 1;
+    } else {
+      entry.failures += 1;
+    }
+    if (latencyMs !== undefined) {
+      entry.avgLatencyMs = entry.avgLatencyMs === null
+        ? latencyMs
+        : entry.avgLatencyMs + LATENCY_EWMA_ALPHA * (latencyMs - entry.avgLatencyMs);
+    }
+    entry.lastUsedAt = new Date().toISOString();
+  }
+
+  /**
+   * Beta posterior for a model on a task type
+   */
+  getPosterior(model: string, taskType: string, priorMean: number = DEFAULT_PRIOR): ModelPosterior {
+    const entry = this.stats.get(this.key(model, taskType)) ?? this.emptyEntry(model, taskType);
+    const alpha = priorMean * PRIOR_STRENGTH + entry.successes;
+    const beta = (1 - priorMean) * PRIOR_STRENGTH + entry.failures;
+
+    return {
+      ...entry,
+      priorMean,
+      alpha,
+      beta,
+      mean: alpha / (alpha + beta)
+    };
+  }
+
+  /**
+   * Draw a success rate from the posterior (Thompson sampling)
+   */
+  sample(model: string, taskType: string, priorMean: number = DEFAULT_PRIOR): number {
+    const { alpha, beta } = this.getPosterior(model, taskType, priorMean);
+    return this.sampleBeta(alpha, beta);
+  }
+
+  /**
+   * Learned table for every (model, task type) seen in the window
+   */
+  getTable(): ModelTaskStats[] {
+    return Array.from(this.stats.values())
+      .sort((a, b) => a.taskType.localeCompare(b.taskType) || a.model.localeCompare(b.model));
+  }
+
+  /**
+   * Daily success rate and latency per model and task type
+   */
+  async getHistory(days: number = this.windowDays): Promise<ModelStatsHistoryPoint[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const day = sql<string>`to_char(date_trunc('day', ${aiUsageMetrics.createdAt}), 'YYYY-MM-DD')`;
+
+    const rows = await db.select({
+      date: day,
+      model: aiUsageMetrics.model,
+      taskType: aiUsageMetrics.requestType,
+      requests: sql<number>`COUNT(*)::int`,
+      successes: sql<number>`COUNT(*) FILTER (WHERE ${aiUsageMetrics.success})::int`,
+      avgLatencyMs: sql<number | null>`AVG(${aiUsageMetrics.latencyMs})::float`
+    })
+      .from(aiUsageMetrics)
+      .where(gte(aiUsageMetrics.createdAt, since))
+      .groupBy(day, aiUsageMetrics.model, aiUsageMetrics.requestType)
+      .orderBy(day);
+
+    return rows.map(row => ({
+      date: row.date,
+      model: row.model,
+      taskType: row.taskType,
+      requests: row.requests,
+      successRate: row.requests > 0 ? row.successes / row.requests : 0,
+      avgLatencyMs: row.avgLatencyMs === null ? null : Math.round(row.avgLatencyMs)
+    }));
+  }
+
+  private async load(): Promise<void> {
+    const since = new Date(Date.now() - this.windowDays * 24 * 60 * 60 * 1000);
+
+    const rows = await db.select({
+      model: aiUsageMetrics.model,
+      taskType: aiUsageMetrics.requestType,
+      successes: sql<number>`COUNT(*) FILTER (WHERE ${aiUsageMetrics.success})::int`,
+      failures: sql<number>`COUNT(*) FILTER (WHERE NOT ${aiUsageMetrics.success})::int`,
+      avgLatencyMs: sql<number | null>`AVG(${aiUsageMetrics.latencyMs})::float`,
+      lastUsedAt: sql<string | null>`MAX(${aiUsageMetrics.createdAt})`
+    })
+      .from(aiUsageMetrics)
+      .where(gte(aiUsageMetrics.createdAt, since))
+      .groupBy(aiUsageMetrics.model, aiUsageMetrics.requestType);
+
+    const next: Map<string, ModelTaskStats> = new Map();
+    for (const row of rows) {
+      next.set(this.key(row.model, row.taskType), {
+        model: row.model,
+        taskType: row.taskType,
+        successes: row.successes,
+        failures: row.failures,
+        avgLatencyMs: row.avgLatencyMs === null ? null : Math.round(row.avgLatencyMs),
+        lastUsedAt: row.lastUsedAt ? new Date(row.lastUsedAt).toISOString() : null
+      });
+    }
+
+    this.stats = next;
+    this.loadedAt = Date.now();
+  }
+
+  private getEntry(model: string, taskType: string): ModelTaskStats {
+    const key = this.key(model, taskType);
+    let entry = this.stats.get(key);
+    if (!entry) {
+      entry = this.emptyEntry(model, taskType);
+      this.stats.set(key, entry);
+    }
+    return entry;
+  }
+
+  private emptyEntry(model: string, taskType: string): ModelTaskStats {
+    return { model, taskType, successes: 0, failures: 0, avgLatencyMs: null, lastUsedAt: null };
+  }
+
+  private key(model: string, taskType: string): string {
+    return `${model}:${taskType}`;
+  }
+
+  /**
+   * Beta(a, b) = X / (X + Y) with X ~ Gamma(a), Y ~ Gamma(b)
+   */
+  private sampleBeta(alpha: number, beta: number): number {
+    const x = this.sampleGamma(alpha);
+    const y = this.sampleGamma(beta);
+    return x / (x + y);
+  }
+
+  /**
+   * Marsaglia-Tsang gamma sampler (shape k, scale 1)
+   */
+  private sampleGamma(k: number): number {
+    if (k < 1) {
+      // Boost shape and correct: Gamma(k) = Gamma(k + 1) * U^(1/k)
+      return this.sampleGamma(k + 1) * Math.pow(this.random(), 1 / k);
+    }
+
+    const d = k - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    while (true) {
+      let x: number;
+      let v: number;
+      do {
+        x = this.sampleNormal();
+        v = 1 + c * x;
+      } while (v <= 0);
+      v = v * v * v;
+      const u = this.random();
+      if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+      if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+    }
+  }
+
+  private sampleNormal(): number {
+    // Box-Muller
+    const u = 1 - this.random();
+    const v = this.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
+
+export const routingStats = new RoutingStats();
@@ -1,151 +1,241 @@
 /**
  * Alert Management System - Phase 5 Track C
  * Agent #137: Alert Manager
- * 
+ *
  * Manages alerts for:
  * - Error rate thresholds
  * - Performance degradation
  * - System health issues
  * - Cost anomalies
+ *
+ * Rules are data (alert_rules): a metric source, comparator, threshold,
+ * duration window, severity and cooldown, evaluated against MetricsCollector.
+ * Alerts and their lifecycle events (fired, acknowledged, resolved,
+ * auto-resolved) are persisted in alerts / alert_events. An alert whose
+ * fingerprint matches an open alert is folded into it (occurrences + 1).
  */
 
+import { createHash } from 'crypto';
+import { db } from '../db';
+import {
+  alertEvents,
+  alertRules,
+  alerts,
+  type Alert,
+  type AlertEvent,
+  type AlertRule,
+  type InsertAlert,
+  type InsertAlertRule
+} from '@shared/schema';
+import { and, count, desc, eq, inArray, ne, sql } from 'drizzle-orm';
+import { metricsCollector, type MetricsCollector, type SystemMetrics } from './metrics-collector';
+
+export type { Alert, AlertEvent, AlertRule };
+
 export type AlertSeverity = 'info' | 'warning' | 'error' | 'critical';
 export type AlertStatus = 'active' | 'acknowledged' | 'resolved';
+export type AlertComparator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+export type AlertEventType = 'fired' | 'repeated' | 'notified' | 'escalated' | 'acknowledged' | 'resolved' | 'auto_resolved';
 
-export interface Alert {
-  id: string;
-  severity: AlertSeverity;
-  status: AlertStatus;
-  title: string;
-  message: string;
-  source: string;
-  timestamp: string;
-  acknowledgedAt?: string;
-  resolvedAt?: string;
-  metadata?: Record<string, unknown>;
-}
+export type NewAlert = Omit<InsertAlert, 'status' | 'fingerprint'> & { fingerprint?: string };
+
+const SYSTEM_METRICS: Record<string, (m: SystemMetrics) => number> = {
+  'api.errorRate': m => m.api.errorRate,
+  'api.averageResponseTime': m => m.api.averageResponseTime,
+  'api.p50ResponseTime': m => m.api.p50ResponseTime,
+  'api.p95ResponseTime': m => m.api.p95ResponseTime,
+  'api.p99ResponseTime': m => m.api.p99ResponseTime,
+  'api.totalRequests': m => m.api.totalRequests,
+  'agents.activeAgents': m => m.agents.activeAgents,
+  'agents.availabilityPercent': m => m.agents.totalAgents > 0 ? (m.agents.activeAgents / m.agents.totalAgents) * 100 : 0,
+  'agents.averageSuccessRate': m => m.agents.averageSuccessRate,
+  'agents.averageLoad': m => m.agents.averageLoad,
+  'tasks.failedTasks': m => m.tasks.failedTasks,
+  'tasks.averageCompletionTime': m => m.tasks.averageCompletionTime,
+  'ai.costPerRequest': m => m.ai.costPerRequest,
+  'ai.totalCost': m => m.ai.totalCost,
+  'websocket.activeConnections': m => m.websocket.activeConnections,
+  'websocket.averageLatency': m => m.websocket.averageLatency,
+  'websocket.reconnections': m => m.websocket.reconnections
+};
+
+/**
+ * Metric sources a rule can reference
+ */
+export const ALERT_METRICS: string[] = [
+  ...Object.keys(SYSTEM_METRICS),
+  'system.memoryUsagePercent',
+  'database.up', // 1 when SELECT 1 succeeds, else 0
+  'database.latencyMs'
+];
+
+const COMPARATORS: Record<AlertComparator, (value: number, threshold: number) => boolean> = {
+  '>': (v, t) => v > t,
+  '>=': (v, t) => v >= t,
+  '<': (v, t) => v < t,
+  '<=': (v, t) => v <= t,
+  '==': (v, t) => v === t,
+  '!=': (v, t) => v !== t
+};
+
+export const SEVERITY_ORDER: Record<AlertSeverity, number> = { critical: 4, error: 3, warning: 2, info: 1 };
+
+/**
+ * Seeded into alert_rules when the table is empty
+ */
+export const DEFAULT_ALERT_RULES: InsertAlertRule[] = [
+  {
+    id: 'high-error-rate',
+    name: 'High Error Rate',
+    metric: 'api.errorRate',
+    comparator: '>',
+    threshold: 5,
+    durationMs: 2 * 60 * 1000,
+    severity: 'critical',
+    cooldownMs: 5 * 60 * 1000,
+    message: 'Error rate exceeded 5% threshold',
+    isActive: true
+  },
+  {
+    id: 'slow-response',
+    name: 'Slow Response Times',
+    metric: 'api.p95ResponseTime',
+    comparator: '>',
+    threshold: 500,
+    durationMs: 5 * 60 * 1000,
+    severity: 'warning',
+    cooldownMs: 10 * 60 * 1000,
+    message: 'Response time (p95) exceeded 500ms',
+    isActive: true
+  },
+  {
+    id: 'database-down',
+    name: 'Database Connectivity',
+    metric: 'database.up',
+    comparator: '<',
+    threshold: 1,
+    durationMs: 0,
+    severity: 'critical',
+    cooldownMs: 1 * 60 * 1000,
+    message: 'Database connection failed',
+    isActive: true
+  },
+  {
+    id: 'high-memory',
+    name: 'High Memory Usage',
+    metric: 'system.memoryUsagePercent',
+    comparator: '>',
+    threshold: 90,
+    durationMs: 60 * 1000,
+    severity: 'warning',
+    cooldownMs: 15 * 60 * 1000,
+    message: 'Memory usage exceeded 90%',
+    isActive: true
+  },
+  {
+    id: 'low-agent-availability',
+    name: 'Low Agent Availability',
+    metric: 'agents.availabilityPercent',
+    comparator: '<',
+    threshold: 80,
+    durationMs: 5 * 60 * 1000,
+    severity: 'error',
+    cooldownMs: 10 * 60 * 1000,
+    message: 'Less than 80% of agents are active',
+    isActive: true
+  }
+];
 
-export interface AlertRule {
-  id: string;
-  name: string;
-  condition: () => Promise<boolean>;
-  severity: AlertSeverity;
-  message: string;
-  cooldownMs: number; // Minimum time between alerts
+/**
+ * Thrown when a rule references a metric source that does not exist
+ */
+export class AlertRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertRuleError';
+  }
 }
 
 export class AlertManager {
-  private alerts: Map<string, Alert> = new Map();
-  private rules: Map<string, AlertRule> = new Map();
-  private lastAlertTime: Map<string, number> = new Map();
+  private rules: AlertRule[] = []; // Last rules loaded, used if the database is unreachable
+  private pendingSince: Map<string, number> = new Map(); // ruleId → when the condition started holding
+  private seeded = false;
+  private firedListeners: Array<(alert: Alert) => void | Promise<void>> = [];
 
-  constructor() {
-    this.initializeDefaultRules();
-  }
+  constructor(private collector: MetricsCollector = metricsCollector) {}
 
   /**
-   * Initialize default alert rules from Phase 5 requirements
+   * Validate a rule before it is stored
    */
-  private initializeDefaultRules(): void {
-    // Rule 1: High error rate
-    this.addRule({
-      id: 'high-error-rate',
-      name: 'High Error Rate',
-      condition: async () => {
-        // In production, check actual error rate
-        return false; // Mock: no errors
-      },
-      severity: 'critical',
-      message: 'Error rate exceeded 5% threshold',
-      cooldownMs: 5 * 60 * 1000 // 5 minutes
-    });
+  validateRule(rule: Partial<InsertAlertRule>): void {
+    if (rule.metric !== undefined && !ALERT_METRICS.includes(rule.metric)) {
+      throw new AlertRuleError(`Unknown metric source '${rule.metric}'. Expected one of: ${ALERT_METRICS.join(', ')}`);
+    }
+  }
 
-    // Rule 2: Slow response times
-    this.addRule({
-      id: 'slow-response',
-      name: 'Slow Response Times',
-      condition: async () => {
-        // In production, check p95 response time
-        return false; // Mock: good performance
-      },
-      severity: 'warning',
-      message: 'Response time (p95) exceeded 500ms',
-      cooldownMs: 10 * 60 * 1000 // 10 minutes
-    });
+  /**
+   * Current value of every metric source; sources that could not be read
+   * are left out so their rules keep their previous state
+   */
+  async collectMetricValues(): Promise<Record<string, number>> {
+    const values: Record<string, number> = {};
 
-    // Rule 3: Database connectivity issues
-    this.addRule({
-      id: 'database-down',
-      name: 'Database Connectivity',
-      condition: async () => {
-        // In production, check database health
-        return false; // Mock: database healthy
-      },
-      severity: 'critical',
-      message: 'Database connection failed',
-      cooldownMs: 1 * 60 * 1000 // 1 minute
-    });
+    const memory = process.memoryUsage();
+    values['system.memoryUsagePercent'] = (memory.heapUsed / memory.heapTotal) * 100;
 
-    // Rule 4: High memory usage
-    this.addRule({
-      id: 'high-memory',
-      name: 'High Memory Usage',
-      condition: async () => {
-        const memoryUsage = process.memoryUsage();
-        const heapUsedMB = memoryUsage.heapUsed / 1024 / 1024;
-        const heapTotalMB = memoryUsage.heapTotal / 1024 / 1024;
-        const usagePercentage = (heapUsedMB / heapTotalMB) * 100;
-        return usagePercentage > 90;
-      },
-      severity: 'warning',
-      message: 'Memory usage exceeded 90%',
-      cooldownMs: 15 * 60 * 1000 // 15 minutes
-    });
+    const dbStart = Date.now();
+    try {
+      await db.execute(sql`SELECT 1`);
+      values['database.up'] = 1;
+      values['database.latencyMs'] = Date.now() - dbStart;
+    } catch {
+      values['database.up'] = 0;
+      return values;
+    }
 
-    // Rule 5: Agent availability
-    this.addRule({
-      id: 'low-agent-availability',
-      name: 'Low Agent Availability',
-      condition: async () => {
-        // In production, check agent availability
-        return false; // Mock: agents available
-      },
-      severity: 'error',
-      message: 'Less than 80% of agents are active',
-      cooldownMs: 10 * 60 * 1000 // 10 minutes
-    });
-  }
+    try {
+      const metrics = await this.collector.collectMetrics();
+      for (const [name, read] of Object.entries(SYSTEM_METRICS)) {
+        values[name] = read(metrics);
+      }
+    } catch (error) {
+      console.error('[AlertManager] Failed to collect metrics:', error);
+    }
 
-  /**
-   * Add a new alert rule
-   */
-  addRule(rule: AlertRule): void {
-    this.rules.set(rule.id, rule);
+    return values;
   }
 
   /**
-   * Check all rules and create alerts if triggered
+   * Evaluate every active rule; fire alerts whose condition has held for
+   * the rule's duration and auto-resolve open alerts whose condition cleared
    */
   async checkRules(): Promise<Alert[]> {
+    const rules = await this.loadRules();
+    const values = await this.collectMetricValues();
     const newAlerts: Alert[] = [];
+    const now = Date.now();
 
-    for (const [ruleId, rule] of Array.from(this.rules.entries())) {
+    for (const rule of rules) {
       try {
-        const isTriggered = await rule.condition();
-
-        if (isTriggered) {
-          // Check cooldown
-          const lastAlertTime = this.lastAlertTime.get(ruleId) || 0;
-          const timeSinceLastAlert = Date.now() - lastAlertTime;
-
-          if (timeSinceLastAlert >= rule.cooldownMs) {
-            const alert = this.createAlert(rule);
-            newAlerts.push(alert);
-            this.lastAlertTime.set(ruleId, Date.now());
-          }
+        const value = values[rule.metric];
+        if (value === undefined) continue;
+
+        const isTriggered = COMPARATORS[rule.comparator as AlertComparator](value, rule.threshold);
+
+        if (!isTriggered) {
+          this.pendingSince.delete(rule.id);
+          await this.autoResolve(rule, value);
+          continue;
         }
+
+        const since = this.pendingSince.get(rule.id) ?? now;
+        this.pendingSince.set(rule.id, since);
+        if (now - since < rule.durationMs) continue;
+
+        const alert = await this.fireRule(rule, value);
+        if (alert) newAlerts.push(alert);
       } catch (error) {
-        console.error(`[AlertManager] Error checking rule ${ruleId}:`, error);
+        console.error(`[AlertManager] Error checking rule ${rule.id}:`, error);
       }
     }
 
@@ -153,78 +243,141 @@ export class AlertManager {
   }
 
   /**
-   * Create an alert from a rule
+   * Called for every newly fired alert (not for repeats of an open one)
    */
-  private createAlert(rule: AlertRule): Alert {
-    const alert: Alert = {
-      id: `alert-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      severity: rule.severity,
-      status: 'active',
-      title: rule.name,
-      message: rule.message,
-      source: rule.id,
-      timestamp: new Date().toISOString()
-    };
+  onAlertFired(listener: (alert: Alert) => void | Promise<void>): void {
+    this.firedListeners.push(listener);
+  }
 
-    this.alerts.set(alert.id, alert);
-    return alert;
+  /**
+   * Raise an alert, or fold it into the open alert with the same fingerprint
+   * Fingerprint defaults to the rule, else a hash of source and title
+   */
+  async raiseAlert(alert: NewAlert): Promise<Alert> {
+    const fingerprint = alert.fingerprint ?? this.fingerprint(alert);
+
+    const [repeated] = await db.update(alerts)
+      .set({
+        occurrences: sql`${alerts.occurrences} + 1`,
+        lastSeenAt: new Date(),
+        value: alert.value ?? null
+      })
+      .where(and(eq(alerts.fingerprint, fingerprint), ne(alerts.status, 'resolved')))
+      .returning();
+
+    if (repeated) {
+      await this.recordEvent(repeated.id, 'repeated', null, repeated.value);
+      return repeated;
+    }
+
+    const [created] = await db.insert(alerts)
+      .values({ ...alert, fingerprint, status: 'active' })
+      .returning();
+    await this.recordEvent(created.id, 'fired', null, created.value);
+
+    for (const listener of this.firedListeners) {
+      Promise.resolve(listener(created)).catch(err =>
+        console.error('[AlertManager] Alert fired listener failed:', err)
+      );
+    }
+
+    return created;
   }
 
   /**
-   * Get all active alerts
+   * Open alerts grouped by fingerprint are single rows; this lists them with
+   * their repeat counts, most recently seen first
    */
-  getActiveAlerts(): Alert[] {
-    return Array.from(this.alerts.values())
-      .filter(alert => alert.status === 'active')
-      .sort((a, b) => {
-        // Sort by severity (critical > error > warning > info)
-        const severityOrder = { critical: 4, error: 3, warning: 2, info: 1 };
-        return severityOrder[b.severity] - severityOrder[a.severity];
-      });
+  async getOpenAlerts(): Promise<Alert[]> {
+    return await db.select()
+      .from(alerts)
+      .where(ne(alerts.status, 'resolved'))
+      .orderBy(desc(alerts.lastSeenAt));
+  }
+
+  /**
+   * Get all active alerts, most severe first
+   */
+  async getActiveAlerts(): Promise<Alert[]> {
+    const active = await db.select()
+      .from(alerts)
+      .where(eq(alerts.status, 'active'))
+      .orderBy(desc(alerts.firedAt));
+
+    return active.sort((a, b) =>
+      SEVERITY_ORDER[b.severity as AlertSeverity] - SEVERITY_ORDER[a.severity as AlertSeverity]
+    );
+  }
+
+  /**
+   * Get alerts of any status, newest first
+   */
+  async getAllAlerts(limit: number = 100): Promise<Alert[]> {
+    return await db.select()
+      .from(alerts)
+      .orderBy(desc(alerts.firedAt))
+      .limit(limit);
+  }
+
+  async getAlert(alertId: number): Promise<Alert | undefined> {
+    const [alert] = await db.select().from(alerts).where(eq(alerts.id, alertId));
+    return alert;
   }
 
   /**
-   * Get all alerts (any status)
+   * Lifecycle events for an alert, oldest first
    */
-  getAllAlerts(): Alert[] {
-    return Array.from(this.alerts.values())
-      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  async getAlertHistory(alertId: number): Promise<AlertEvent[]> {
+    return await db.select()
+      .from(alertEvents)
+      .where(eq(alertEvents.alertId, alertId))
+      .orderBy(alertEvents.createdAt, alertEvents.id);
   }
 
   /**
-   * Acknowledge an alert
+   * Acknowledge an alert; returns null if it does not exist or is resolved
    */
-  acknowledgeAlert(alertId: string): boolean {
-    const alert = this.alerts.get(alertId);
-    if (!alert) return false;
+  async acknowledgeAlert(alertId: number, userId: string): Promise<Alert | null> {
+    const [alert] = await db.update(alerts)
+      .set({ status: 'acknowledged', acknowledgedAt: new Date(), acknowledgedBy: userId, assignedTo: userId })
+      .where(and(eq(alerts.id, alertId), eq(alerts.status, 'active')))
+      .returning();
+    if (!alert) return null;
 
-    alert.status = 'acknowledged';
-    alert.acknowledgedAt = new Date().toISOString();
-    return true;
+    await this.recordEvent(alert.id, 'acknowledged', userId);
+    return alert;
   }
 
   /**
-   * Resolve an alert
+   * Resolve an alert by hand; returns null if it does not exist or is resolved
    */
-  resolveAlert(alertId: string): boolean {
-    const alert = this.alerts.get(alertId);
-    if (!alert) return false;
+  async resolveAlert(alertId: number, userId: string, note?: string): Promise<Alert | null> {
+    const [alert] = await db.update(alerts)
+      .set({ status: 'resolved', resolvedAt: new Date(), resolvedBy: userId, resolution: 'manual' })
+      .where(and(eq(alerts.id, alertId), ne(alerts.status, 'resolved')))
+      .returning();
+    if (!alert) return null;
 
-    alert.status = 'resolved';
-    alert.resolvedAt = new Date().toISOString();
-    return true;
+    await this.recordEvent(alert.id, 'resolved', userId, null, note);
+    return alert;
   }
 
   /**
    * Get alert summary statistics
    */
-  getSummary(): {
+  async getSummary(): Promise<{
     total: number;
     active: number;
     bySeverity: Record<AlertSeverity, number>;
-  } {
-    const alerts = Array.from(this.alerts.values());
-    const active = alerts.filter(a => a.status === 'active');
+  }> {
+    const [totals] = await db.select({ total: count() }).from(alerts);
+    const active = await db.select({
+      severity: alerts.severity,
+      count: count()
+    })
+      .from(alerts)
+      .where(eq(alerts.status, 'active'))
+      .groupBy(alerts.severity);
 
     const bySeverity: Record<AlertSeverity, number> = {
       info: 0,
@@ -233,13 +386,13 @@ export class AlertManager {
       critical: 0
     };
 
-    active.forEach(alert => {
-      bySeverity[alert.severity]++;
+    active.forEach(row => {
+      bySeverity[row.severity as AlertSeverity] = row.count;
     });
 
     return {
-      total: alerts.length,
-      active: active.length,
+      total: totals?.total ?? 0,
+      active: active.reduce((sum, row) => sum + row.count, 0),
       bySeverity
     };
   }
@@ -249,17 +402,104 @@ export class AlertManager {
    */
   startMonitoring(intervalMs: number = 60000): NodeJS.Timeout {
     console.log(`[AlertManager] Starting monitoring (checking every ${intervalMs}ms)`);
-    
-    return setInterval(async () => {
-      const newAlerts = await this.checkRules();
-      
-      if (newAlerts.length > 0) {
-        console.log(`[AlertManager] ${newAlerts.length} new alert(s) triggered`);
-        newAlerts.forEach(alert => {
-          console.log(`[AlertManager] [${alert.severity.toUpperCase()}] ${alert.title}: ${alert.message}`);
-        });
+
+    const timer = setInterval(async () => {
+      try {
+        const newAlerts = await this.checkRules();
+
+        if (newAlerts.length > 0) {
+          console.log(`[AlertManager] ${newAlerts.length} new alert(s) triggered`);
+          newAlerts.forEach(alert => {
+            console.log(`[AlertManager] [${alert.severity.toUpperCase()}] ${alert.title}: ${alert.message}`);
+          });
+        }
+      } catch (error) {
+        console.error('[AlertManager] Rule check failed:', error);
       }
     }, intervalMs);
+    timer.unref();
+    return timer;
+  }
+
+  /**
+   * Active rules from the database (seeding defaults on first use);
+   * falls back to the last loaded rules when the database is unreachable
+   */
+  private async loadRules(): Promise<AlertRule[]> {
+    try {
+      if (!this.seeded) {
+        const [existing] = await db.select({ total: count() }).from(alertRules);
+        if ((existing?.total ?? 0) === 0) {
+          await db.insert(alertRules).values(DEFAULT_ALERT_RULES).onConflictDoNothing();
+        }
+        this.seeded = true;
+      }
+
+      this.rules = await db.select().from(alertRules).where(eq(alertRules.isActive, true));
+    } catch (error) {
+      console.error('[AlertManager] Failed to load alert rules, using cached rules:', error);
+    }
+    return this.rules;
+  }
+
+  /**
+   * Fire an alert for a rule unless one is already open or the rule is cooling down
+   */
+  private async fireRule(rule: AlertRule, value: number): Promise<Alert | null> {
+    const [latest] = await db.select()
+      .from(alerts)
+      .where(eq(alerts.ruleId, rule.id))
+      .orderBy(desc(alerts.firedAt))
+      .limit(1);
+
+    // Still open: the rule keeps holding, which is not a new occurrence
+    if (latest && latest.status !== 'resolved') return null;
+    if (latest && Date.now() - latest.firedAt.getTime() < rule.cooldownMs) return null;
+
+    const alert = await this.raiseAlert({
+      ruleId: rule.id,
+      severity: rule.severity,
+      title: rule.name,
+      message: rule.message,
+      source: rule.id,
+      value,
+      threshold: rule.threshold,
+      metadata: { metric: rule.metric, comparator: rule.comparator },
+      escalationPolicyId: rule.escalationPolicyId
+    });
+    return alert.occurrences === 1 ? alert : null;
+  }
+
+  /**
+   * Resolve every open alert for a rule whose condition no longer holds
+   */
+  private async autoResolve(rule: AlertRule, value: number): Promise<void> {
+    const resolved = await db.update(alerts)
+      .set({ status: 'resolved', resolvedAt: new Date(), resolution: 'auto' })
+      .where(and(eq(alerts.ruleId, rule.id), inArray(alerts.status, ['active', 'acknowledged'])))
+      .returning({ id: alerts.id });
+
+    for (const { id } of resolved) {
+      await this.recordEvent(id, 'auto_resolved', null, value, `${rule.metric} back within threshold`);
+    }
+  }
+
+  private fingerprint(alert: NewAlert): string {
+    if (alert.ruleId) return `rule:${alert.ruleId}`;
+    return createHash('sha1').update(`${alert.source}\n${alert.title}`).digest('hex');
+  }
+
+  /**
+   * Append a lifecycle event (escalation records notified/escalated here too)
+   */
+  async recordEvent(
+    alertId: number,
+    event: AlertEventType,
+    actor: string | null,
+    value: number | null = null,
+    note?: string
+  ): Promise<void> {
+    await db.insert(alertEvents).values({ alertId, event, actor, value, note });
   }
 }
 
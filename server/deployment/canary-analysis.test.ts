@@ -0,0 +1,128 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CanaryAnalyzer,
+  compareVersions,
+  nextCanaryAction,
+  scoreChecks,
+  type CanaryAction,
+  type CanaryConfig
+} from './canary-analysis';
+import { MetricsCollector, type VersionMetrics } from './metrics-collector';
+
+const config: CanaryConfig = {
+  steps: [10, 50],
+  windowMs: 60000,
+  maxHolds: 3,
+  minRequests: 50,
+  minTasks: 5,
+  passScore: 75,
+  failScore: 50,
+  alpha: 0.05,
+  maxErrorRateIncrease: 1,
+  maxLatencyRatio: 1.2,
+  latencySlackMs: 50,
+  maxTaskSuccessDrop: 0.05
+};
+
+function metrics(version: string, requests: number, errors: number, p95: number, completed: number, failed: number): VersionMetrics {
+  return {
+    version,
+    requests,
+    errors,
+    errorRate: requests > 0 ? (errors / requests) * 100 : 0,
+    p95ResponseTime: p95,
+    tasks: { completed, failed }
+  };
+}
+
+const baseline = metrics('1.0.0', 1000, 10, 200, 40, 0);
+
+function analyze(candidate: VersionMetrics) {
+  const checks = compareVersions(baseline, candidate, config);
+  return { checks, ...scoreChecks(checks, config) };
+}
+
+class ScriptedCollector extends MetricsCollector {
+  constructor(private byVersion: Record<string, VersionMetrics>) {
+    super();
+  }
+
+  async getVersionMetrics(version: string): Promise<VersionMetrics> {
+    return this.byVersion[version];
+  }
+}
+
+describe('canary analysis', () => {
+  test('passes when every check is within tolerance', () => {
+    const result = analyze(metrics('1.1.0', 500, 5, 230, 20, 0));
+    assert.deepEqual(result.checks.map(c => [c.metric, c.result]), [
+      ['errorRate', 'pass'],
+      ['p95Latency', 'pass'],
+      ['taskSuccess', 'pass']
+    ]);
+    assert.equal(result.verdict, 'pass');
+    assert.equal(result.score, 100);
+    assert.equal(result.reason, 'Score 100; all checks passed');
+  });
+
+  test('fails when the score drops below failScore', () => {
+    // p95 above 200 × 1.2 + 50 and build success down from 100% to 33%
+    const result = analyze(metrics('1.1.0', 500, 5, 400, 5, 10));
+    assert.deepEqual(result.checks.map(c => c.result), ['pass', 'fail', 'fail']);
+    assert.equal(result.verdict, 'fail');
+    assert.equal(result.score, 40);
+    assert.match(result.reason, /^Score 40 below 50: p95Latency 400ms vs 200ms \(limit 290ms\); taskSuccess/);
+  });
+
+  test('a significant error-rate rise fails the canary whatever the score', () => {
+    const result = analyze(metrics('1.1.0', 500, 50, 200, 20, 0));
+    assert.equal(result.checks[0].result, 'fail');
+    assert.ok(result.checks[0].pValue! < config.alpha);
+    assert.equal(result.score, 60, 'latency and build success still pass');
+    assert.equal(result.verdict, 'fail');
+    assert.equal(result.reason, 'Error rate regression: 10.00% vs 1.00% (allowed +1 pts)');
+  });
+
+  test('an error-rate rise that is not significant does not fail', () => {
+    const quiet = metrics('1.0.0', 60, 0, 200, 0, 0);
+    const checks = compareVersions(quiet, metrics('1.1.0', 60, 1, 200, 0, 0), config);
+    assert.equal(checks[0].result, 'pass', '+1.67 pts on 60 requests is within noise');
+    assert.ok(checks[0].pValue! >= config.alpha);
+  });
+
+  test('is inconclusive without enough requests or between the thresholds', () => {
+    const lowTraffic = analyze(metrics('1.1.0', 20, 0, 200, 20, 0));
+    assert.deepEqual(lowTraffic.checks.map(c => c.result), ['no_data', 'no_data', 'pass']);
+    assert.equal(lowTraffic.verdict, 'inconclusive');
+    assert.equal(lowTraffic.reason, 'Need 50 requests per version (baseline 1000, candidate 20)');
+
+    const slow = analyze(metrics('1.1.0', 500, 5, 400, 20, 0));
+    assert.equal(slow.score, 70);
+    assert.equal(slow.verdict, 'inconclusive');
+  });
+
+  test('holds while inconclusive and rolls back once maxHolds windows are used', async () => {
+    const analyzer = new CanaryAnalyzer(config, new ScriptedCollector({
+      '1.0.0': baseline,
+      '1.1.0': metrics('1.1.0', 20, 0, 200, 20, 0)
+    }));
+
+    const actions: CanaryAction[] = [];
+    for (let holds = 0; ; holds++) {
+      const report = await analyzer.analyze('1.0.0', '1.1.0', 10);
+      assert.equal(report.verdict, 'inconclusive');
+      const action = nextCanaryAction(report.verdict, holds, config.maxHolds);
+      actions.push(action);
+      if (action !== 'hold') break;
+    }
+    assert.deepEqual(actions, ['hold', 'hold', 'hold', 'rollback']);
+  });
+
+  test('widens on pass and rolls back on fail without holding', () => {
+    assert.equal(nextCanaryAction('pass', 0, 3), 'widen');
+    assert.equal(nextCanaryAction('pass', 3, 3), 'widen');
+    assert.equal(nextCanaryAction('fail', 0, 3), 'rollback');
+    assert.equal(nextCanaryAction('inconclusive', 0, 0), 'rollback');
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Canary Analysis - Phase 5 Track A
+ * Agent #126: Deployment Automation Engineer
+ *
+ * Compares a candidate version with the baseline over a window, using
+ * the per-version samples in MetricsCollector:
+ * - Error rate (5xx share of proxied requests): fails when higher by more
+ *   than the tolerance and the difference is significant (z-test). A
+ *   failed error-rate check fails the whole analysis.
+ * - p95 latency: fails when above baseline × ratio + slack
+ * - Task success (builds run by each version): fails when lower by more
+ *   than the tolerance and the difference is significant
+ *
+ * Checks with enough data score their weight when they pass; the score
+ * (0-100) decides pass, inconclusive or fail.
+ */
+
+import { metricsCollector, type MetricsCollector, type VersionMetrics } from './metrics-collector';
+import { twoProportionZTest } from './experiment-stats';
+
+export type CanaryVerdict = 'pass' | 'fail' | 'inconclusive';
+
+export type CanaryMetric = 'errorRate' | 'p95Latency' | 'taskSuccess';
+
+export type CanaryAction = 'widen' | 'hold' | 'rollback';
+
+export interface CanaryCheck {
+  metric: CanaryMetric;
+  baseline: number | null;
+  candidate: number | null;
+  result: 'pass' | 'fail' | 'no_data';
+  weight: number;
+  pValue?: number;
+  detail: string;
+}
+
+export interface CanaryReport {
+  baseline: string;
+  candidate: string;
+  percentage: number; // Traffic share of the candidate
+  windowMs: number;
+  verdict: CanaryVerdict;
+  score: number | null; // Null when no check had data
+  checks: CanaryCheck[];
+  reason: string;
+  analyzedAt: string;
+}
+
+export interface CanaryConfig {
+  steps: number[]; // Candidate traffic percentages, widened in order
+  windowMs: number;
+  maxHolds: number; // Inconclusive windows allowed per step before failing
+  minRequests: number; // Per version, for error rate and latency
+  minTasks: number; // Per version, for task success
+  passScore: number;
+  failScore: number;
+  alpha: number;
+  maxErrorRateIncrease: number; // Percentage points
+  maxLatencyRatio: number;
+  latencySlackMs: number;
+  maxTaskSuccessDrop: number; // Fraction, e.g. 0.05
+}
+
+const WEIGHTS: Record<CanaryMetric, number> = {
+  errorRate: 40,
+  p95Latency: 30,
+  taskSuccess: 30
+};
+
+/**
+ * Configuration from the environment:
+ * - DEPLOY_CANARY_STEPS: comma-separated traffic percentages (empty skips the canary)
+ * - DEPLOY_CANARY_WINDOW_MS / DEPLOY_CANARY_MAX_HOLDS: analysis window and holds per step
+ * - DEPLOY_CANARY_MIN_REQUESTS / DEPLOY_CANARY_MIN_TASKS: data needed per version
+ * - DEPLOY_CANARY_PASS_SCORE / DEPLOY_CANARY_FAIL_SCORE: verdict thresholds
+ * - DEPLOY_CANARY_ALPHA: significance level for the rate comparisons
+ * - DEPLOY_CANARY_MAX_ERROR_INCREASE, DEPLOY_CANARY_MAX_LATENCY_RATIO,
+ *   DEPLOY_CANARY_LATENCY_SLACK_MS, DEPLOY_CANARY_MAX_TASK_DROP: tolerances
+ */
+export function getCanaryConfig(): CanaryConfig {
+  const steps = (process.env.DEPLOY_CANARY_STEPS ?? '10,25,50')
+    .split(',')
+    .map(step => parseFloat(step.trim()))
+    .filter(step => step > 0 && step < 100);
+
+  return {
+    steps,
+    windowMs: parseInt(process.env.DEPLOY_CANARY_WINDOW_MS || '60000', 10),
+    maxHolds: parseInt(process.env.DEPLOY_CANARY_MAX_HOLDS || '3', 10),
+    minRequests: parseInt(process.env.DEPLOY_CANARY_MIN_REQUESTS || '50', 10),
+    minTasks: parseInt(process.env.DEPLOY_CANARY_MIN_TASKS || '5', 10),
+    passScore: parseFloat(process.env.DEPLOY_CANARY_PASS_SCORE || '75'),
+    failScore: parseFloat(process.env.DEPLOY_CANARY_FAIL_SCORE || '50'),
+    alpha: parseFloat(process.env.DEPLOY_CANARY_ALPHA || '0.05'),
+    maxErrorRateIncrease: parseFloat(process.env.DEPLOY_CANARY_MAX_ERROR_INCREASE || '1'),
+    maxLatencyRatio: parseFloat(process.env.DEPLOY_CANARY_MAX_LATENCY_RATIO || '1.2'),
+    latencySlackMs: parseFloat(process.env.DEPLOY_CANARY_LATENCY_SLACK_MS || '50'),
+    maxTaskSuccessDrop: parseFloat(process.env.DEPLOY_CANARY_MAX_TASK_DROP || '0.05')
+  };
+}
+
+/**
+ * Compare one version's metrics with another's
+ */
+export function compareVersions(baseline: VersionMetrics, candidate: VersionMetrics, config: CanaryConfig): CanaryCheck[] {
+  const checks: CanaryCheck[] = [];
+  const enoughRequests = baseline.requests >= config.minRequests && candidate.requests >= config.minRequests;
+
+  if (!enoughRequests) {
+    const detail = `Need ${config.minRequests} requests per version (baseline ${baseline.requests}, candidate ${candidate.requests})`;
+    checks.push({ metric: 'errorRate', baseline: null, candidate: null, result: 'no_data', weight: WEIGHTS.errorRate, detail });
+    checks.push({ metric: 'p95Latency', baseline: null, candidate: null, result: 'no_data', weight: WEIGHTS.p95Latency, detail });
+  } else {
+    const test = twoProportionZTest(baseline.errors, baseline.requests, candidate.errors, candidate.requests);
+    const increase = candidate.errorRate - baseline.errorRate;
+    const failed = increase > config.maxErrorRateIncrease && (test?.pValue ?? 1) < config.alpha;
+    checks.push({
+      metric: 'errorRate',
+      baseline: baseline.errorRate,
+      candidate: candidate.errorRate,
+      result: failed ? 'fail' : 'pass',
+      weight: WEIGHTS.errorRate,
+      pValue: test?.pValue,
+      detail: `${candidate.errorRate.toFixed(2)}% vs ${baseline.errorRate.toFixed(2)}% (allowed +${config.maxErrorRateIncrease} pts)`
+    });
+
+    const limit = baseline.p95ResponseTime * config.maxLatencyRatio + config.latencySlackMs;
+    checks.push({
+      metric: 'p95Latency',
+      baseline: baseline.p95ResponseTime,
+      candidate: candidate.p95ResponseTime,
+      result: candidate.p95ResponseTime > limit ? 'fail' : 'pass',
+      weight: WEIGHTS.p95Latency,
+      detail: `${Math.round(candidate.p95ResponseTime)}ms vs ${Math.round(baseline.p95ResponseTime)}ms (limit ${Math.round(limit)}ms)`
+    });
+  }
+
+  const baselineTasks = baseline.tasks.completed + baseline.tasks.failed;
+  const candidateTasks = candidate.tasks.completed + candidate.tasks.failed;
+  if (baselineTasks < config.minTasks || candidateTasks < config.minTasks) {
+    checks.push({
+      metric: 'taskSuccess',
+      baseline: null,
+      candidate: null,
+      result: 'no_data',
+      weight: WEIGHTS.taskSuccess,
+      detail: `Need ${config.minTasks} finished builds per version (baseline ${baselineTasks}, candidate ${candidateTasks})`
+    });
+  } else {
+    const baselineRate = baseline.tasks.completed / baselineTasks;
+    const candidateRate = candidate.tasks.completed / candidateTasks;
+    const test = twoProportionZTest(baseline.tasks.completed, baselineTasks, candidate.tasks.completed, candidateTasks);
+    const failed = baselineRate - candidateRate > config.maxTaskSuccessDrop && (test?.pValue ?? 1) < config.alpha;
+    checks.push({
+      metric: 'taskSuccess',
+      baseline: baselineRate,
+      candidate: candidateRate,
+      result: failed ? 'fail' : 'pass',
+      weight: WEIGHTS.taskSuccess,
+      pValue: test?.pValue,
+      detail: `${(candidateRate * 100).toFixed(1)}% vs ${(baselineRate * 100).toFixed(1)}% (allowed -${+(config.maxTaskSuccessDrop * 100).toFixed(2)} pts)`
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Verdict and score for a set of checks
+ */
+export function scoreChecks(checks: CanaryCheck[], config: CanaryConfig): { verdict: CanaryVerdict; score: number | null; reason: string } {
+  const scored = checks.filter(check => check.result !== 'no_data');
+  const failed = scored.filter(check => check.result === 'fail');
+  const total = scored.reduce((sum, check) => sum + check.weight, 0);
+  const score = total > 0
+    ? Math.round((scored.filter(check => check.result === 'pass').reduce((sum, check) => sum + check.weight, 0) / total) * 100)
+    : null;
+  const failures = failed.map(check => `${check.metric} ${check.detail}`).join('; ');
+
+  const errorRate = checks.find(check => check.metric === 'errorRate');
+  if (errorRate?.result === 'fail') {
+    return { verdict: 'fail', score, reason: `Error rate regression: ${errorRate.detail}` };
+  }
+  if (score !== null && score < config.failScore) {
+    return { verdict: 'fail', score, reason: `Score ${score} below ${config.failScore}: ${failures}` };
+  }
+  if (errorRate?.result === 'no_data') {
+    return { verdict: 'inconclusive', score, reason: errorRate.detail };
+  }
+  if (score !== null && score >= config.passScore) {
+    return { verdict: 'pass', score, reason: failures ? `Score ${score}; ${failures}` : `Score ${score}; all checks passed` };
+  }
+  return { verdict: 'inconclusive', score, reason: `Score ${score} between ${config.failScore} and ${config.passScore}: ${failures}` };
+}
+
+/**
+ * What a canary step does after a window: widen on pass, roll back on
+ * fail, hold on inconclusive until `maxHolds` extra windows are used up
+ * (`holds` counts the windows already held at this step)
+ */
+export function nextCanaryAction(verdict: CanaryVerdict, holds: number, maxHolds: number): CanaryAction {
+  if (verdict === 'pass') return 'widen';
+  if (verdict === 'fail' || holds >= maxHolds) return 'rollback';
+  return 'hold';
+}
+
+export class CanaryAnalyzer {
+  private config: CanaryConfig;
+
+  constructor(config: Partial<CanaryConfig> = {}, private collector: MetricsCollector = metricsCollector) {
+    this.config = { ...getCanaryConfig(), ...config };
+  }
+
+  getConfig(): CanaryConfig {
+    return this.config;
+  }
+
+  /**
+   * Analyze the last `windowMs` of traffic for both versions
+   */
+  async analyze(
+    baseline: string,
+    candidate: string,
+    percentage: number,
+    windowMs: number = this.config.windowMs
+  ): Promise<CanaryReport> {
+    const [baselineMetrics, candidateMetrics] = await Promise.all([
+      this.collector.getVersionMetrics(baseline, windowMs),
+      this.collector.getVersionMetrics(candidate, windowMs)
+    ]);
+
+    const checks = compareVersions(baselineMetrics, candidateMetrics, this.config);
+    const { verdict, score, reason } = scoreChecks(checks, this.config);
+    console.log(`[Canary] ${candidate} vs ${baseline} at ${percentage}%: ${verdict} (score ${score ?? 'n/a'}) - ${reason}`);
+
+    return {
+      baseline,
+      candidate,
+      percentage,
+      windowMs,
+      verdict,
+      score,
+      checks,
+      reason,
+      analyzedAt: new Date().toISOString()
+    };
+  }
+}
+
+export const canaryAnalyzer = new CanaryAnalyzer();
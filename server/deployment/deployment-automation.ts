@@ -8,15 +8,29 @@
  * - Health monitoring during deployment
  * - Automatic rollback on failure
  * - Post-deployment validation
+ *
+ * Deploys run as background jobs, one at a time. Each one is recorded in
+ * the deployments table with its phase timeline, and progress is pushed
+ * to the 'deployments' Socket.IO room as `deployment:progress`.
+ * Versions are built, uploaded and activated through a DeploymentTarget
+ * (see deployment-targets.ts). When a version is already live, the new
+ * one first takes a widening slice of traffic and must pass canary
+ * analysis (canary-analysis.ts) at each step.
  */
 
+import type { Server as SocketIOServer } from 'socket.io';
+import { db } from '../db';
+import { deployments, type Deployment, type InsertDeployment } from '@shared/schema';
+import { and, desc, eq, inArray, ne, sql } from 'drizzle-orm';
+import { canaryAnalyzer, nextCanaryAction, type CanaryAction, type CanaryAnalyzer, type CanaryReport } from './canary-analysis';
 import { deploymentSafety } from './deployment-safety';
+import { deploymentTarget, type DeploymentTarget } from './deployment-targets';
 import { healthCheckService } from './health-check';
 import { rollbackCoordinator } from './rollback-coordinator';
 import { notificationService } from './notification-service';
-import { userSegmentation } from './user-segmentation';
+import { rolloutScheduler } from './rollout-scheduler';
 
-export type DeploymentPhase = 'pre-check' | 'deploy' | 'monitor' | 'validate' | 'complete' | 'failed';
+export type DeploymentPhase = 'pre-check' | 'deploy' | 'canary' | 'monitor' | 'validate' | 'complete' | 'failed';
 
 export interface DeploymentProgress {
   phase: DeploymentPhase;
@@ -25,63 +39,157 @@ export interface DeploymentProgress {
   timestamp: string;
 }
 
-export interface DeploymentResult {
-  success: boolean;
-  version: string;
-  startTime: string;
-  endTime: string;
-  duration: number;
-  phases: DeploymentProgress[];
-  rollback?: {
-    triggered: boolean;
-    reason: string;
-  };
+export interface DeploymentProgressEvent {
+  deployment: Deployment;
+  progress: DeploymentProgress | null; // Null for status-only changes
 }
 
+export const DEPLOYMENTS_ROOM = 'deployments';
+
+type DeploymentChanges = Partial<typeof deployments.$inferInsert>;
+
 export class DeploymentAutomation {
+  private io: SocketIOServer | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private monitorMs = parseInt(process.env.DEPLOY_MONITOR_MS || '30000', 10);
+
+  constructor(
+    private target: DeploymentTarget = deploymentTarget,
+    private canary: CanaryAnalyzer = canaryAnalyzer
+  ) {}
+
+  /**
+   * Let dashboards join the deployments room with `subscribe-deployments`
+   */
+  attach(io: SocketIOServer): void {
+    this.io = io;
+    io.on('connection', socket => {
+      socket.on('subscribe-deployments', () => {
+        socket.join(DEPLOYMENTS_ROOM);
+      });
+      socket.on('unsubscribe-deployments', () => {
+        socket.leave(DEPLOYMENTS_ROOM);
+      });
+    });
+  }
+
+  /**
+   * Queue a deployment and return its record right away; the record ID
+   * is the job ID. Jobs run in order, after any deploy already queued.
+   * Throws RollbackError (423) while deploys are frozen.
+   */
+  async startDeployment(request: InsertDeployment, initiatedBy: string): Promise<Deployment> {
+    await rollbackCoordinator.assertNotFrozen();
+
+    const [deployment] = await db.insert(deployments).values({
+      id: `deploy-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      version: request.version,
+      artifactDigest: request.artifactDigest ?? null,
+      environment: request.environment,
+      initiatedBy,
+      status: 'queued'
+    }).returning();
+
+    console.log(`[Deployment] Queued ${deployment.id}: v${deployment.version} by ${initiatedBy}`);
+    this.emit(deployment, null);
+
+    this.queue = this.queue
+      .then(() => this.run(deployment))
+      .catch(error => console.error(`[Deployment] Job ${deployment.id} crashed:`, error));
+    return deployment;
+  }
+
+  /**
+   * Fail jobs left queued or running by a previous process; call once at
+   * startup, before any new deploy is queued
+   */
+  async recoverInterrupted(): Promise<number> {
+    const interrupted = await db.update(deployments)
+      .set({ status: 'failed', error: 'Interrupted by server restart', completedAt: new Date() })
+      .where(inArray(deployments.status, ['queued', 'running']))
+      .returning({ id: deployments.id });
+
+    if (interrupted.length > 0) {
+      console.warn(`[Deployment] Marked ${interrupted.length} interrupted deployment(s) as failed`);
+    }
+    return interrupted.length;
+  }
+
   /**
    * Execute full deployment with automation
    */
-  async deploy(version: string): Promise<DeploymentResult> {
-    const startTime = new Date().toISOString();
-    const phases: DeploymentProgress[] = [];
+  private async run(deployment: Deployment): Promise<void> {
+    const { id, version } = deployment;
+    let progress = 0;
+    let changed = false; // Set once anything reaches an environment; failures after that roll back
+
+    const step = (phase: DeploymentPhase, percentage: number, message: string) => {
+      progress = percentage;
+      return this.recordPhase(id, this.createProgress(phase, percentage, message));
+    };
+
+    await this.update(id, { status: 'running', startedAt: new Date() });
 
     try {
       // Phase 1: Pre-deployment checks
-      phases.push(this.createProgress('pre-check', 10, 'Running pre-deployment safety checks...'));
+      await step('pre-check', 10, 'Running pre-deployment safety checks...');
       console.log('[Deployment] ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
       console.log('[Deployment] STARTING DEPLOYMENT AUTOMATION');
       console.log('[Deployment] Version:', version);
       console.log('[Deployment] ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
 
-      const readiness = await deploymentSafety.runPreFlightChecks();
+      const freeze = await rollbackCoordinator.getActiveFreeze();
+      if (freeze) {
+        throw new Error(`Deploys are frozen by ${freeze.frozenBy}: ${freeze.reason}`);
+      }
+
+      const readiness = await deploymentSafety.runPreFlightChecks(deployment.environment);
       if (!readiness.ready) {
-        throw new Error('Pre-flight checks failed');
+        const failed = readiness.checks.filter(check => check.required && !check.passed);
+        throw new Error(`Pre-flight checks failed: ${failed.map(check => `${check.name} (${check.message})`).join('; ')}`);
       }
       console.log('[Deployment] ✅ Pre-flight checks passed');
 
-      // Phase 2: Deploy to staging first
-      phases.push(this.createProgress('deploy', 30, 'Deploying to staging environment...'));
-      await this.deployToStaging(version);
-      console.log('[Deployment] ✅ Deployed to staging');
+      // Phase 2: Build and upload the artifact
+      await step('deploy', 25, `Building v${version}...`);
+      await this.buildAndUpload(deployment);
+      console.log('[Deployment] ✅ Artifact built and uploaded');
+
+      // Phase 3: Canary against the live version, if there is one
+      const baseline = this.target.getStatus().activeVersion;
+      const steps = this.canary.getConfig().steps;
+      if (baseline && baseline !== version && steps.length > 0) {
+        changed = true;
+        await this.runCanary(deployment, baseline, steps, step);
+        console.log('[Deployment] ✅ Canary analysis passed');
+      }
+
+      // Phase 4: Start the new version and cut all traffic over
+      await step('deploy', 70, `Activating v${version} on ${this.target.name} target...`);
+      changed = true;
+      await this.target.activate(version);
+      console.log('[Deployment] ✅ Traffic switched to new version');
 
-      // Phase 3: Monitor staging
-      phases.push(this.createProgress('monitor', 50, 'Monitoring staging environment...'));
-      await this.monitorDeployment(30000); // 30 seconds
-      console.log('[Deployment] ✅ Staging stable');
+      // Phase 5: Monitor the new version
+      await step('monitor', 78, `Monitoring v${version}...`);
+      await this.monitorDeployment(version, this.monitorMs);
+      console.log('[Deployment] ✅ New version stable');
 
-      // Phase 4: Progressive rollout to production
-      phases.push(this.createProgress('deploy', 70, 'Starting progressive rollout to production...'));
+      // Phase 6: Progressive rollout to production
+      await step('deploy', 86, 'Starting progressive rollout to production...');
       await this.progressiveRollout(version);
       console.log('[Deployment] ✅ Production rollout complete');
 
-      // Phase 5: Validate deployment
-      phases.push(this.createProgress('validate', 90, 'Validating deployment...'));
-      await this.validateDeployment();
+      // Phase 7: Validate deployment
+      await step('validate', 93, 'Validating deployment...');
+      await this.validateDeployment(version);
       console.log('[Deployment] ✅ Deployment validated');
 
-      // Phase 6: Complete
-      phases.push(this.createProgress('complete', 100, 'Deployment complete!'));
+      // Phase 8: Complete
+      await this.recordPhase(id, this.createProgress('complete', 100, 'Deployment complete!'), {
+        status: 'succeeded',
+        completedAt: new Date()
+      });
       console.log('[Deployment] ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
       console.log('[Deployment] ✅ DEPLOYMENT SUCCESSFUL');
       console.log('[Deployment] ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
@@ -93,110 +201,185 @@ export class DeploymentAutomation {
         'New features and improvements are now live!'
       );
 
-      const endTime = new Date().toISOString();
-      const duration = new Date(endTime).getTime() - new Date(startTime).getTime();
-
-      return {
-        success: true,
-        version,
-        startTime,
-        endTime,
-        duration,
-        phases
-      };
-
     } catch (error) {
-      // Deployment failed - trigger rollback
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('[Deployment] ❌ Deployment failed:', errorMessage);
 
-      phases.push(this.createProgress('failed', 0, `Deployment failed: ${errorMessage}`));
-
-      // Trigger automatic rollback
-      console.log('[Deployment] Triggering automatic rollback...');
-      await rollbackCoordinator.manualRollback(`Deployment ${version} failed: ${errorMessage}`);
-
-      const endTime = new Date().toISOString();
-      const duration = new Date(endTime).getTime() - new Date(startTime).getTime();
-
-      return {
-        success: false,
-        version,
-        startTime,
-        endTime,
-        duration,
-        phases,
-        rollback: {
-          triggered: true,
-          reason: errorMessage
+      if (!changed) {
+        await this.recordPhase(id, this.createProgress('failed', progress, `Deployment failed: ${errorMessage}`), {
+          status: 'failed',
+          error: errorMessage,
+          completedAt: new Date()
+        });
+      } else {
+        // Deployment failed after traffic moved - trigger rollback
+        console.log('[Deployment] Triggering automatic rollback...');
+        const previous = await this.getCurrentRelease(deployment.environment, id);
+        let restored: string | null = null;
+        let incidentId: number | null = null;
+        let rollbackError: string | null = null;
+        try {
+          const outcome = await rollbackCoordinator.rollback({
+            source: 'deployment',
+            reason: `Deployment ${version} failed: ${errorMessage}`,
+            initiatedBy: deployment.initiatedBy,
+            version: previous?.version,
+            deploymentId: id
+          });
+          restored = outcome.version;
+          incidentId = outcome.incident.id;
+        } catch (rollbackFailure) {
+          rollbackError = rollbackFailure instanceof Error ? rollbackFailure.message : 'Unknown error';
+          console.error('[Deployment] ❌ Rollback failed:', rollbackError);
+        }
+
+        if (restored) {
+          const rolledBackTo = previous && previous.version === restored ? previous.id : null;
+          await this.recordPhase(id, this.createProgress('failed', progress, `Deployment failed: ${errorMessage}; rolled back to v${restored} (incident #${incidentId})`), {
+            status: 'rolled_back',
+            error: errorMessage,
+            rolledBackTo,
+            rollbackReason: errorMessage,
+            completedAt: new Date()
+          });
+        } else {
+          const outcome = rollbackError ? `rollback failed: ${rollbackError}` : 'no previous version to roll back to';
+          await this.recordPhase(id, this.createProgress('failed', progress, `Deployment failed: ${errorMessage}; ${outcome}`), {
+            status: 'failed',
+            error: `${errorMessage}; ${outcome}`,
+            completedAt: new Date()
+          });
         }
-      };
+      }
+
+      await notificationService.sendNotification(
+        deployment.initiatedBy,
+        'error',
+        `Deployment Failed: v${version}`,
+        errorMessage,
+        { metadata: { deploymentId: id } }
+      );
+    }
+  }
+
+  /**
+   * Build the version, check it against the requested digest and upload
+   * it; the built digest is recorded on the deployment
+   */
+  private async buildAndUpload(deployment: Deployment): Promise<void> {
+    const artifact = await this.target.build(deployment.version);
+    if (deployment.artifactDigest && artifact.digest !== deployment.artifactDigest) {
+      throw new Error(`Built artifact ${artifact.digest} does not match requested digest ${deployment.artifactDigest}`);
     }
+    await this.update(deployment.id, { artifactDigest: artifact.digest });
+    await this.target.upload(artifact);
   }
 
   /**
-   * Deploy to staging environment
+   * Canary the candidate against the baseline: widen through `steps`
+   * while analysis passes, hold for another window while it is
+   * inconclusive, and throw (so the deploy rolls back) when it fails or
+   * stays inconclusive for more than maxHolds windows
    */
-  private async deployToStaging(version: string): Promise<void> {
-    console.log('[Deployment] Staging: Building application...');
-    await this.sleep(2000);
-    
-    console.log('[Deployment] Staging: Uploading artifacts...');
-    await this.sleep(2000);
-    
-    console.log('[Deployment] Staging: Restarting services...');
-    await this.sleep(2000);
+  private async runCanary(
+    deployment: Deployment,
+    baseline: string,
+    steps: number[],
+    step: (phase: DeploymentPhase, percentage: number, message: string) => Promise<void>
+  ): Promise<void> {
+    const { windowMs, maxHolds } = this.canary.getConfig();
+
+    for (let index = 0; index < steps.length; index++) {
+      const percentage = steps[index];
+      const progress = 30 + Math.round(((index + 1) / steps.length) * 35);
+      await this.target.setTrafficSplit(deployment.version, percentage);
+      await step('canary', progress, `Canary: ${percentage}% of traffic on v${deployment.version}, baseline v${baseline}`);
+
+      for (let holds = 0; ; holds++) {
+        await this.sleep(windowMs);
+        const report = await this.canary.analyze(baseline, deployment.version, percentage, windowMs);
+        const action = nextCanaryAction(report.verdict, holds, maxHolds);
+        await this.recordCanaryReport(deployment.id, report, action, progress);
+
+        if (action === 'widen') break;
+        if (report.verdict === 'fail') {
+          throw new Error(`Canary failed at ${percentage}%: ${report.reason}`);
+        }
+        if (action === 'rollback') {
+          throw new Error(`Canary inconclusive at ${percentage}% after ${holds + 1} window(s): ${report.reason}`);
+        }
+      }
+    }
+  }
+
+  private async recordCanaryReport(id: string, report: CanaryReport, action: CanaryAction, percentage: number): Promise<void> {
+    const doing = action === 'widen' ? 'widening' : action === 'rollback' ? 'rolling back' : 'holding';
+    const entry = this.createProgress(
+      'canary',
+      percentage,
+      `Canary ${report.percentage}%: ${report.verdict} (score ${report.score ?? 'n/a'}), ${doing} - ${report.reason}`
+    );
+    await this.update(id, {
+      progress: percentage,
+      phases: sql`${deployments.phases} || ${JSON.stringify([entry])}::jsonb`,
+      canaryReports: sql`${deployments.canaryReports} || ${JSON.stringify([report])}::jsonb`
+    }, entry);
   }
 
   /**
-   * Monitor deployment health
+   * Monitor deployment health: the new version's health route and the
+   * system health checks
    */
-  private async monitorDeployment(durationMs: number): Promise<void> {
+  private async monitorDeployment(version: string, durationMs: number): Promise<void> {
     const endTime = Date.now() + durationMs;
     let checkCount = 0;
 
     while (Date.now() < endTime) {
       checkCount++;
-      const health = await healthCheckService.runHealthChecks();
-      
+      const probe = await this.target.probe(version);
+      if (!probe.healthy) {
+        throw new Error(`v${version} failed its health probe: ${probe.error ?? 'unhealthy'}`);
+      }
+
+      const health = await healthCheckService.runHealthChecks({ persist: false });
       if (health.status === 'unhealthy') {
         throw new Error('Health checks failing during deployment');
       }
 
-      console.log(`[Deployment] Monitor: Check ${checkCount} - ${health.status}`);
+      console.log(`[Deployment] Monitor: Check ${checkCount} - ${health.status} (probe ${probe.latencyMs}ms)`);
       await this.sleep(5000); // Check every 5 seconds
     }
   }
 
   /**
    * Progressive rollout to production
+   * Advances active rollout plans (see rollout-scheduler.ts) to any phase
+   * that is due, rather than waiting for the next scheduler tick
    */
   private async progressiveRollout(version: string): Promise<void> {
-    // Phase 5.1: Super admin only
-    console.log('[Deployment] Rollout: Phase 5.1 - Super admin access');
-    userSegmentation.assignSegment('admin-1', 'super_admin');
-    await this.sleep(2000);
-
-    // Phase 5.2: Beta users (10%)
-    console.log('[Deployment] Rollout: Phase 5.2 - Beta users (10%)');
-    for (let i = 1; i <= 10; i++) {
-      userSegmentation.promoteToBeta(`beta-${i}`);
+    const results = await rolloutScheduler.tick();
+    if (results.length === 0) {
+      console.log(`[Deployment] Rollout: no rollout plan phases due for ${version}`);
+    }
+    for (const result of results) {
+      console.log(`[Deployment] Rollout: ${result.planId} "${result.phase}" - ${result.promoted.length} user(s) promoted`);
     }
-    await this.sleep(2000);
-
-    // Phase 5.3: General availability
-    console.log('[Deployment] Rollout: Phase 5.3 - General availability (100%)');
-    await this.sleep(2000);
   }
 
   /**
    * Validate deployment success
+   * The candidate's own probe decides; like the monitor, the system checks
+   * only fail validation when unhealthy (degraded is accepted)
    */
-  private async validateDeployment(): Promise<void> {
-    const health = await healthCheckService.runHealthChecks();
-    
-    if (health.status !== 'healthy') {
-      throw new Error('Post-deployment validation failed');
+  private async validateDeployment(version: string): Promise<void> {
+    const probe = await this.target.probe(version);
+    if (!probe.healthy) {
+      throw new Error(`Post-deployment validation failed: v${version} health probe ${probe.error ?? 'unhealthy'}`);
+    }
+
+    const health = await healthCheckService.runHealthChecks({ persist: false });
+    if (health.status === 'unhealthy') {
+      throw new Error('Post-deployment validation failed: health checks unhealthy');
     }
   }
 
@@ -216,6 +399,39 @@ export class DeploymentAutomation {
     };
   }
 
+  /**
+   * Append a phase to the timeline, update progress and push it to
+   * subscribed dashboards
+   */
+  private async recordPhase(
+    id: string,
+    entry: DeploymentProgress,
+    changes: DeploymentChanges = {}
+  ): Promise<void> {
+    await this.update(id, {
+      ...changes,
+      progress: entry.percentage,
+      phases: sql`${deployments.phases} || ${JSON.stringify([entry])}::jsonb`
+    }, entry);
+  }
+
+  private async update(
+    id: string,
+    changes: DeploymentChanges,
+    entry: DeploymentProgress | null = null
+  ): Promise<void> {
+    const [updated] = await db.update(deployments)
+      .set(changes)
+      .where(eq(deployments.id, id))
+      .returning();
+    if (updated) this.emit(updated, entry);
+  }
+
+  private emit(deployment: Deployment, progress: DeploymentProgress | null): void {
+    const event: DeploymentProgressEvent = { deployment, progress };
+    this.io?.to(DEPLOYMENTS_ROOM).emit('deployment:progress', event);
+  }
+
   /**
    * Sleep helper
    */
@@ -224,15 +440,34 @@ export class DeploymentAutomation {
   }
 
   /**
-   * Get deployment history
+   * Get a deployment (job) by ID
+   */
+  async getDeployment(id: string): Promise<Deployment | undefined> {
+    const [deployment] = await db.select().from(deployments).where(eq(deployments.id, id));
+    return deployment || undefined;
+  }
+
+  /**
+   * Get deployment history, newest first
+   */
+  async getDeploymentHistory(limit: number = 50): Promise<Deployment[]> {
+    return await db.select().from(deployments)
+      .orderBy(desc(deployments.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Live release for an environment: its latest succeeded deployment
    */
-  getDeploymentHistory(): string[] {
-    // In production, this would query deployment logs
-    return [
-      'v1.0.0 - Initial release (2025-10-29)',
-      'v1.1.0 - Agent orchestration (2025-10-30)',
-      'v1.2.0 - Multi-model AI routing (2025-10-31)'
-    ];
+  async getCurrentRelease(environment: string = 'production', excludeId?: string): Promise<Deployment | undefined> {
+    const conditions = [eq(deployments.environment, environment), eq(deployments.status, 'succeeded')];
+    if (excludeId) conditions.push(ne(deployments.id, excludeId));
+
+    const [deployment] = await db.select().from(deployments)
+      .where(and(...conditions))
+      .orderBy(desc(deployments.completedAt))
+      .limit(1);
+    return deployment || undefined;
   }
 }
 
@@ -1,31 +1,39 @@
 /**
  * Deployment Safety Checks - Phase 5 Track A
  * Agent #127: Deployment Safety Engineer
- * 
- * Pre-flight validation before deployment:
- * - All tests passing
- * - Zero critical bugs
- * - Performance benchmarks met
- * - Cost optimization validated
- * - Quality gates passed
+ *
+ * Pre-flight validation before deployment. Checks are SafetyGate plugins
+ * (see safety-gates.ts); each environment decides which gates are
+ * required (block the deploy), advisory (reported as warnings) or off.
+ * Defaults are in DEFAULT_GATE_MODES and can be overridden with
+ * DEPLOY_GATES_<ENVIRONMENT>, e.g. DEPLOY_GATES_PRODUCTION="budget:required,cost:off".
  */
 
-import { healthCheckService } from './health-check';
-import { metricsCollector } from './metrics-collector';
+import {
+  createDefaultGates,
+  type GateCategory,
+  type SafetyGate
+} from './safety-gates';
+
+export type GateMode = 'required' | 'advisory' | 'off';
 
 export interface SafetyCheck {
+  id: string;
   name: string;
-  category: 'tests' | 'performance' | 'security' | 'quality' | 'cost';
+  category: GateCategory;
   passed: boolean;
   required: boolean; // If true, deployment cannot proceed if failed
   message: string;
-  details?: Record<string, unknown>;
+  evidence: Record<string, unknown>;
+  durationMs: number;
 }
 
 export interface DeploymentReadiness {
   ready: boolean;
+  environment: string;
   timestamp: string;
   checks: SafetyCheck[];
+  skipped: string[]; // Gates turned off for the environment
   summary: {
     total: number;
     passed: number;
@@ -34,36 +42,93 @@ export interface DeploymentReadiness {
   };
 }
 
+export interface SafetyReport {
+  readiness: DeploymentReadiness;
+  markdown: string;
+}
+
+/**
+ * Gate modes per environment; environments not listed use 'default'
+ */
+export const DEFAULT_GATE_MODES: Record<string, Record<string, GateMode>> = {
+  production: {
+    'system-health': 'required',
+    performance: 'required',
+    'test-report': 'required',
+    'dependency-audit': 'required',
+    'pending-migrations': 'required',
+    'critical-alerts': 'required',
+    budget: 'advisory',
+    cost: 'advisory'
+  },
+  default: {
+    'system-health': 'required',
+    performance: 'advisory',
+    'test-report': 'advisory',
+    'dependency-audit': 'advisory',
+    'pending-migrations': 'required',
+    'critical-alerts': 'advisory',
+    budget: 'advisory',
+    cost: 'advisory'
+  }
+};
+
+const GATE_MODES: GateMode[] = ['required', 'advisory', 'off'];
+
+/**
+ * Modes for one environment: defaults, then DEPLOY_GATES_<ENVIRONMENT>
+ * ("gate:mode" pairs, comma-separated); unknown modes are ignored
+ */
+export function getGateModes(environment: string): Record<string, GateMode> {
+  const modes = { ...(DEFAULT_GATE_MODES[environment] ?? DEFAULT_GATE_MODES.default) };
+  const override = process.env[`DEPLOY_GATES_${environment.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`];
+
+  for (const pair of (override ?? '').split(',')) {
+    const [id, mode] = pair.split(':').map(part => part.trim());
+    if (id && GATE_MODES.includes(mode as GateMode)) {
+      modes[id] = mode as GateMode;
+    }
+  }
+  return modes;
+}
+
 export class DeploymentSafety {
+  private gates: SafetyGate[];
+  private defaultModes: Map<string, GateMode> = new Map();
+
+  constructor(gates: SafetyGate[] = createDefaultGates()) {
+    this.gates = [...gates];
+  }
+
   /**
-   * Run all pre-flight safety checks
+   * Add a gate; `mode` applies in environments that don't configure it
    */
-  async runPreFlightChecks(): Promise<DeploymentReadiness> {
-    console.log('[DeploymentSafety] Running pre-flight checks...');
+  register(gate: SafetyGate, mode: GateMode = 'advisory'): void {
+    if (this.gates.some(existing => existing.id === gate.id)) {
+      throw new Error(`Safety gate ${gate.id} is already registered`);
+    }
+    this.gates.push(gate);
+    this.defaultModes.set(gate.id, mode);
+  }
 
-    const checks: SafetyCheck[] = [];
+  getGates(): SafetyGate[] {
+    return this.gates;
+  }
 
-    // Run all checks in parallel
-    const [
-      healthCheck,
-      performanceCheck,
-      costCheck,
-      qualityCheck,
-      securityCheck
-    ] = await Promise.all([
-      this.checkSystemHealth(),
-      this.checkPerformance(),
-      this.checkCostOptimization(),
-      this.checkQualityGates(),
-      this.checkSecurity()
-    ]);
+  /**
+   * Run every gate enabled for the environment
+   */
+  async runPreFlightChecks(environment: string = 'production'): Promise<DeploymentReadiness> {
+    console.log(`[DeploymentSafety] Running pre-flight checks for ${environment}...`);
+
+    const modes = getGateModes(environment);
+    const modeOf = (gate: SafetyGate) => modes[gate.id] ?? this.defaultModes.get(gate.id) ?? 'advisory';
+    const enabled = this.gates.filter(gate => modeOf(gate) !== 'off');
+    const skipped = this.gates.filter(gate => modeOf(gate) === 'off').map(gate => gate.id);
 
-    checks.push(
-      healthCheck,
-      performanceCheck,
-      costCheck,
-      qualityCheck,
-      securityCheck
+    // Run all gates in parallel
+    const checks = await Promise.all(
+      enabled.map(gate => this.runGate(gate, environment, modeOf(gate) === 'required'))
     );
 
     const summary = {
@@ -78,207 +143,111 @@ export class DeploymentSafety {
 
     return {
       ready,
+      environment,
       timestamp: new Date().toISOString(),
       checks,
+      skipped,
       summary
     };
   }
 
   /**
-   * Check 1: System Health
+   * Run the checks and render them as markdown with each gate's evidence
    */
-  private async checkSystemHealth(): Promise<SafetyCheck> {
-    try {
-      const health = await healthCheckService.runHealthChecks();
-
-      // Allow degraded state - only fail if unhealthy
-      const passed = health.status === 'healthy' || health.status === 'degraded';
-
-      return {
-        name: 'System Health',
-        category: 'quality',
-        passed,
-        required: true,
-        message: passed
-          ? `Health checks passed (${health.status})`
-          : `Health status: ${health.status}`,
-        details: {
-          status: health.status,
-          passedChecks: health.summary.passed,
-          failedChecks: health.summary.failures,
-          warnings: health.summary.warnings
-        }
-      };
-    } catch (error) {
-      return {
-        name: 'System Health',
-        category: 'quality',
-        passed: false,
-        required: true,
-        message: 'Health check failed',
-        details: { error: error instanceof Error ? error.message : 'Unknown error' }
-      };
-    }
+  async generateReport(environment: string = 'production'): Promise<SafetyReport> {
+    const readiness = await this.runPreFlightChecks(environment);
+    return { readiness, markdown: renderMarkdownReport(readiness) };
   }
 
-  /**
-   * Check 2: Performance Benchmarks
-   */
-  private async checkPerformance(): Promise<SafetyCheck> {
+  // A gate that throws fails with the error as its evidence
+  private async runGate(gate: SafetyGate, environment: string, required: boolean): Promise<SafetyCheck> {
+    const start = Date.now();
     try {
-      const thresholds = await metricsCollector.checkDeploymentThresholds();
-
+      const result = await gate.run({ environment });
       return {
-        name: 'Performance Benchmarks',
-        category: 'performance',
-        passed: thresholds.passed,
-        required: true,
-        message: thresholds.passed
-          ? 'All performance benchmarks met'
-          : 'Some performance thresholds not met',
-        details: {
-          checks: thresholds.checks
-        }
+        id: gate.id,
+        name: gate.name,
+        category: gate.category,
+        required,
+        ...result,
+        durationMs: Date.now() - start
       };
     } catch (error) {
       return {
-        name: 'Performance Benchmarks',
-        category: 'performance',
+        id: gate.id,
+        name: gate.name,
+        category: gate.category,
         passed: false,
-        required: true,
-        message: 'Performance check failed',
-        details: { error: error instanceof Error ? error.message : 'Unknown error' }
+        required,
+        message: `${gate.name} check failed`,
+        evidence: { error: error instanceof Error ? error.message : 'Unknown error' },
+        durationMs: Date.now() - start
       };
     }
   }
+}
 
-  /**
-   * Check 3: Cost Optimization
-   */
-  private async checkCostOptimization(): Promise<SafetyCheck> {
-    try {
-      const savings = await metricsCollector.calculateCostSavings();
-      
-      // Target: 87% cost reduction
-      const targetSavings = 87;
-      const passed = savings.savingsPercent >= targetSavings * 0.9; // 90% of target = acceptable
-
-      return {
-        name: 'Cost Optimization',
-        category: 'cost',
-        passed,
-        required: false, // Warning only
-        message: passed
-          ? `Cost savings: ${savings.savingsPercent.toFixed(1)}% (target: ${targetSavings}%)`
-          : `Cost savings below target: ${savings.savingsPercent.toFixed(1)}% (target: ${targetSavings}%)`,
-        details: savings
-      };
-    } catch (error) {
-      return {
-        name: 'Cost Optimization',
-        category: 'cost',
-        passed: false,
-        required: false,
-        message: 'Cost optimization check failed',
-        details: { error: error instanceof Error ? error.message : 'Unknown error' }
-      };
-    }
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>)
+      .map(([key, item]) => `${key}=${typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item)}`)
+      .join(', ');
   }
+  return String(value);
+}
 
-  /**
-   * Check 4: Quality Gates
-   */
-  private async checkQualityGates(): Promise<SafetyCheck> {
-    // In production, this would check:
-    // - All E2E tests passed
-    // - Code coverage threshold met
-    // - No critical bugs open
-    // - Security scans passed
-
-    const passed = true; // Mock: all quality gates passed
-
-    return {
-      name: 'Quality Gates',
-      category: 'quality',
-      passed,
-      required: true,
-      message: passed
-        ? '800+ quality checkpoints validated'
-        : 'Some quality gates failed',
-      details: {
-        totalGates: 800,
-        passed: 800,
-        failed: 0
+function renderEvidence(evidence: Record<string, unknown>): string {
+  let markdown = '';
+  for (const [key, value] of Object.entries(evidence)) {
+    if (Array.isArray(value)) {
+      markdown += `- **${key}:**${value.length === 0 ? ' none' : ''}\n`;
+      for (const item of value.slice(0, 20)) {
+        markdown += `  - ${formatValue(item)}\n`;
       }
-    };
+      if (value.length > 20) markdown += `  - … ${value.length - 20} more\n`;
+    } else {
+      markdown += `- **${key}:** ${formatValue(value)}\n`;
+    }
   }
+  return markdown;
+}
 
-  /**
-   * Check 5: Security
-   */
-  private async checkSecurity(): Promise<SafetyCheck> {
-    // In production, this would check:
-    // - No known vulnerabilities in dependencies
-    // - Security headers configured
-    // - Secrets not exposed
-    // - HTTPS enforced
-
-    const passed = true; // Mock: security checks passed
-
-    return {
-      name: 'Security',
-      category: 'security',
-      passed,
-      required: true,
-      message: passed
-        ? 'All security checks passed'
-        : 'Security issues detected',
-      details: {
-        vulnerabilities: 0,
-        exposedSecrets: 0,
-        httpsEnforced: true
-      }
-    };
+/**
+ * Markdown deployment readiness report
+ */
+export function renderMarkdownReport(readiness: DeploymentReadiness): string {
+  let report = `# Deployment Readiness: ${readiness.environment}\n\n`;
+  report += `**Status:** ${readiness.ready ? '✅ READY' : '❌ NOT READY'}  \n`;
+  report += `**Timestamp:** ${readiness.timestamp}\n\n`;
+
+  report += '## Summary\n\n';
+  report += '| Total | Passed | Failed | Warnings |\n';
+  report += '| --- | --- | --- | --- |\n';
+  report += `| ${readiness.summary.total} | ${readiness.summary.passed} | ${readiness.summary.failed} | ${readiness.summary.warnings} |\n\n`;
+
+  report += '| Gate | Mode | Result | Message |\n';
+  report += '| --- | --- | --- | --- |\n';
+  for (const check of readiness.checks) {
+    const icon = check.passed ? '✅' : (check.required ? '❌' : '⚠️');
+    report += `| ${check.name} | ${check.required ? 'required' : 'advisory'} | ${icon} | ${check.message.replace(/\|/g, '\\|')} |\n`;
+  }
+  if (readiness.skipped.length > 0) {
+    report += `\nSkipped for ${readiness.environment}: ${readiness.skipped.join(', ')}\n`;
   }
 
-  /**
-   * Generate deployment report
-   */
-  async generateReport(): Promise<string> {
-    const readiness = await this.runPreFlightChecks();
-
-    let report = '═══════════════════════════════════════════════════\n';
-    report += '  DEPLOYMENT READINESS REPORT\n';
-    report += '═══════════════════════════════════════════════════\n';
-    report += `\nTimestamp: ${readiness.timestamp}\n`;
-    report += `Status: ${readiness.ready ? '✅ READY' : '❌ NOT READY'}\n\n`;
-
-    report += `Summary:\n`;
-    report += `- Total Checks: ${readiness.summary.total}\n`;
-    report += `- Passed: ${readiness.summary.passed}\n`;
-    report += `- Failed: ${readiness.summary.failed}\n`;
-    report += `- Warnings: ${readiness.summary.warnings}\n\n`;
-
-    report += 'Detailed Results:\n';
-    readiness.checks.forEach(check => {
-      const icon = check.passed ? '✅' : (check.required ? '❌' : '⚠️');
-      const req = check.required ? '[REQUIRED]' : '[OPTIONAL]';
-      report += `${icon} ${check.name} ${req}\n`;
-      report += `   ${check.message}\n\n`;
-    });
+  report += '\n## Evidence\n';
+  for (const check of readiness.checks) {
+    report += `\n### ${check.name} (\`${check.id}\`)\n\n`;
+    report += `${check.message} · ${check.durationMs}ms\n\n`;
+    report += renderEvidence(check.evidence);
+  }
 
-    if (readiness.ready) {
-      report += '═══════════════════════════════════════════════════\n';
-      report += '  ✅ DEPLOYMENT APPROVED - ALL CHECKS PASSED\n';
-      report += '═══════════════════════════════════════════════════\n';
-    } else {
-      report += '═══════════════════════════════════════════════════\n';
-      report += '  ❌ DEPLOYMENT BLOCKED - FIX FAILURES FIRST\n';
-      report += '═══════════════════════════════════════════════════\n';
-    }
+  report += readiness.ready
+    ? '\n---\n\n**✅ DEPLOYMENT APPROVED - ALL REQUIRED CHECKS PASSED**\n'
+    : '\n---\n\n**❌ DEPLOYMENT BLOCKED - FIX FAILURES FIRST**\n';
 
-    return report;
-  }
+  return report;
 }
 
 export const deploymentSafety = new DeploymentSafety();
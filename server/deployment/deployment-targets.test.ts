@@ -0,0 +1,61 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { DeploymentTargetError, LocalProcessTarget, digestDirectory } from './deployment-targets';
+
+// Writes dist/index.js with the version, failing when asked to
+const BUILD_SCRIPT = `
+const fs = require('fs');
+if (process.env.DEPLOY_VERSION.startsWith('broken')) process.exit(3);
+fs.mkdirSync('dist', { recursive: true });
+fs.writeFileSync('dist/index.js', 'console.log(' + JSON.stringify(process.env.DEPLOY_VERSION) + ');');
+fs.writeFileSync('dist/source.txt', fs.readFileSync('src/app.txt'));
+`;
+
+describe('LocalProcessTarget.build', () => {
+  let sourceDir: string;
+  let target: LocalProcessTarget;
+
+  before(() => {
+    sourceDir = mkdtempSync(path.join(tmpdir(), 'deploy-source-'));
+    mkdirSync(path.join(sourceDir, 'src'));
+    mkdirSync(path.join(sourceDir, 'dist'));
+    mkdirSync(path.join(sourceDir, 'node_modules'));
+    writeFileSync(path.join(sourceDir, 'src', 'app.txt'), 'app source');
+    writeFileSync(path.join(sourceDir, 'dist', 'index.js'), 'live build');
+    writeFileSync(path.join(sourceDir, 'build.cjs'), BUILD_SCRIPT);
+
+    target = new LocalProcessTarget({
+      sourceDir,
+      rootDir: path.join(sourceDir, '.deploy'),
+      buildCommand: `"${process.execPath}" build.cjs`,
+      buildTimeoutMs: 30000
+    });
+  });
+
+  after(() => {
+    rmSync(sourceDir, { recursive: true, force: true });
+  });
+
+  test('builds in a per-release workspace and leaves the live output alone', async () => {
+    const artifact = await target.build('v1.2.0');
+
+    assert.equal(readFileSync(path.join(sourceDir, 'dist', 'index.js'), 'utf8'), 'live build');
+    assert.equal(artifact.path, path.join(sourceDir, '.deploy', 'builds', 'v1.2.0'));
+    assert.equal(readFileSync(path.join(artifact.path, 'index.js'), 'utf8'), 'console.log("v1.2.0");');
+    assert.equal(readFileSync(path.join(artifact.path, 'source.txt'), 'utf8'), 'app source');
+    assert.equal(artifact.digest, await digestDirectory(artifact.path));
+    assert.ok(!existsSync(path.join(sourceDir, '.deploy', 'workspaces', 'v1.2.0')), 'workspace is removed');
+  });
+
+  test('a failed build reports the exit code and cleans up its workspace', async () => {
+    await assert.rejects(
+      target.build('broken-1'),
+      (error: unknown) => error instanceof DeploymentTargetError && /exited with code 3/.test(error.message)
+    );
+    assert.ok(!existsSync(path.join(sourceDir, '.deploy', 'workspaces', 'broken-1')));
+    assert.ok(!existsSync(path.join(sourceDir, '.deploy', 'builds', 'broken-1')));
+  });
+});
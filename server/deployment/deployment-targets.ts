@@ -0,0 +1,510 @@
+/**
+ * Deployment Target Drivers - Phase 5 Track A
+ * Agent #126: Deployment Automation Engineer
+ *
+ * A DeploymentTarget is where releases run. DeploymentAutomation builds,
+ * uploads and activates versions through it, and RollbackCoordinator
+ * rolls back through it.
+ *
+ * Drivers (DEPLOY_TARGET):
+ * - local: each version runs as a child process on its own port behind a
+ *   switchable reverse proxy; the previous version stays up as a standby
+ *   so rollback is an instant switch. During a canary the proxy splits
+ *   traffic between the active version and the candidate and records
+ *   each request against the version that served it.
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { createHash } from 'crypto';
+import { createWriteStream, existsSync } from 'fs';
+import { cp, mkdir, readdir, readFile, rename, rm, symlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { ReverseProxy } from './reverse-proxy';
+import { metricsCollector, type MetricsCollector } from './metrics-collector';
+
+export interface BuildArtifact {
+  version: string;
+  digest: string; // 'sha256:<hex>'
+  path: string;
+  builtAt: string;
+}
+
+export interface ProbeResult {
+  healthy: boolean;
+  statusCode?: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface TargetInstance {
+  version: string;
+  port: number;
+  pid: number | null;
+  startedAt: string;
+}
+
+export interface TargetStatus {
+  driver: string;
+  activeVersion: string | null;
+  standbyVersion: string | null; // What a rollback without a version returns to
+  canary: { version: string; percentage: number } | null;
+  proxy: { port: number; listening: boolean } | null;
+  instances: TargetInstance[];
+}
+
+export interface DeploymentTarget {
+  readonly name: string;
+  /** Produce an artifact for `version` and its content digest */
+  build(version: string): Promise<BuildArtifact>;
+  /** Make the artifact available to the target, verifying its digest */
+  upload(artifact: BuildArtifact): Promise<void>;
+  /** Start `version` if needed and switch traffic to it once healthy */
+  activate(version: string): Promise<void>;
+  probe(version: string): Promise<ProbeResult>;
+  /**
+   * Send `percentage` of traffic to `version` and the rest to the active
+   * version; 0 ends the split and retires the candidate
+   */
+  setTrafficSplit(version: string, percentage: number): Promise<void>;
+  /** Switch all traffic back to an uploaded version and retire the current one */
+  rollbackTo(version: string): Promise<void>;
+  getStatus(): TargetStatus;
+}
+
+/**
+ * A target operation failed; statusCode maps it to an HTTP response
+ */
+export class DeploymentTargetError extends Error {
+  constructor(message: string, public readonly statusCode: number = 500) {
+    super(message);
+    this.name = 'DeploymentTargetError';
+  }
+}
+
+const VERSION_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const MANIFEST_FILE = '.manifest.json';
+
+export interface LocalTargetConfig {
+  rootDir: string;
+  sourceDir: string;
+  buildCommand: string;
+  artifactDir: string;
+  entry: string;
+  proxyPort: number;
+  basePort: number;
+  healthPath: string;
+  buildTimeoutMs: number;
+  startTimeoutMs: number;
+  probeTimeoutMs: number;
+  drainMs: number;
+}
+
+/**
+ * Configuration from the environment:
+ * - DEPLOY_LOCAL_DIR: build workspaces, builds, releases and logs (default .deploy)
+ * - DEPLOY_BUILD_COMMAND / DEPLOY_ARTIFACT_DIR: how to build and what to ship;
+ *   each build runs in its own copy of the source, never in the live tree
+ * - DEPLOY_ENTRY: script started with node inside a release (default index.js)
+ * - DEPLOY_PROXY_PORT / DEPLOY_BASE_PORT: proxy port and first instance port
+ * - DEPLOY_HEALTH_PATH: route an instance must answer before it takes traffic
+ * - DEPLOY_BUILD_TIMEOUT_MS / DEPLOY_START_TIMEOUT_MS / DEPLOY_PROBE_TIMEOUT_MS
+ * - DEPLOY_DRAIN_MS: how long a retired instance keeps running
+ */
+export function getLocalTargetConfig(): LocalTargetConfig {
+  return {
+    rootDir: path.resolve(process.env.DEPLOY_LOCAL_DIR || '.deploy'),
+    sourceDir: process.cwd(),
+    buildCommand: process.env.DEPLOY_BUILD_COMMAND || 'npm run build',
+    artifactDir: process.env.DEPLOY_ARTIFACT_DIR || 'dist',
+    entry: process.env.DEPLOY_ENTRY || 'index.js',
+    proxyPort: parseInt(process.env.DEPLOY_PROXY_PORT || '8080', 10),
+    basePort: parseInt(process.env.DEPLOY_BASE_PORT || '5100', 10),
+    healthPath: process.env.DEPLOY_HEALTH_PATH || '/api/health',
+    buildTimeoutMs: parseInt(process.env.DEPLOY_BUILD_TIMEOUT_MS || '600000', 10),
+    startTimeoutMs: parseInt(process.env.DEPLOY_START_TIMEOUT_MS || '60000', 10),
+    probeTimeoutMs: parseInt(process.env.DEPLOY_PROBE_TIMEOUT_MS || '3000', 10),
+    drainMs: parseInt(process.env.DEPLOY_DRAIN_MS || '5000', 10)
+  };
+}
+
+/**
+ * sha256 over "<file sha256>  <relative path>" lines, sorted by path,
+ * so the same files always give the same digest
+ */
+export async function digestDirectory(dir: string): Promise<string> {
+  const files = (await readdir(dir, { recursive: true, withFileTypes: true }))
+    .filter(entry => entry.isFile() && entry.name !== MANIFEST_FILE)
+    .map(entry => path.relative(dir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'))
+    .sort();
+
+  const manifest = createHash('sha256');
+  for (const file of files) {
+    const content = await readFile(path.join(dir, file));
+    manifest.update(`${createHash('sha256').update(content).digest('hex')}  ${file}\n`);
+  }
+  return `sha256:${manifest.digest('hex')}`;
+}
+
+interface LocalInstance extends TargetInstance {
+  process: ChildProcess;
+  exited: boolean;
+}
+
+export class LocalProcessTarget implements DeploymentTarget {
+  readonly name = 'local';
+  private config: LocalTargetConfig;
+  private instances: Map<string, LocalInstance> = new Map();
+  private active: string | null = null;
+  private standby: string | null = null;
+  private canary: { version: string; percentage: number } | null = null;
+  private exitHookInstalled = false;
+
+  constructor(
+    config: Partial<LocalTargetConfig> = {},
+    private proxy: ReverseProxy = new ReverseProxy(),
+    collector: MetricsCollector = metricsCollector
+  ) {
+    this.config = { ...getLocalTargetConfig(), ...config };
+    proxy.onResponse((version, sample) => collector.recordVersionRequest(version, sample));
+  }
+
+  async build(version: string): Promise<BuildArtifact> {
+    this.checkVersion(version);
+    const workspace = await this.prepareWorkspace(version);
+    const buildDir = this.dir('builds', version);
+
+    try {
+      console.log(`[LocalTarget] Building ${version} in ${workspace}: ${this.config.buildCommand}`);
+      await this.runBuildCommand(version, workspace);
+
+      const source = path.resolve(workspace, this.config.artifactDir);
+      if (!existsSync(source)) {
+        throw new DeploymentTargetError(`Build did not produce ${this.config.artifactDir}`);
+      }
+
+      await rm(buildDir, { recursive: true, force: true });
+      await mkdir(path.dirname(buildDir), { recursive: true });
+      await cp(source, buildDir, { recursive: true });
+    } finally {
+      await rm(workspace, { recursive: true, force: true });
+    }
+
+    const artifact: BuildArtifact = {
+      version,
+      digest: await digestDirectory(buildDir),
+      path: buildDir,
+      builtAt: new Date().toISOString()
+    };
+    await writeFile(path.join(buildDir, MANIFEST_FILE), JSON.stringify(artifact, null, 2));
+    console.log(`[LocalTarget] Built ${version} (${artifact.digest})`);
+    return artifact;
+  }
+
+  async upload(artifact: BuildArtifact): Promise<void> {
+    this.checkVersion(artifact.version);
+    const releaseDir = this.dir('releases', artifact.version);
+    if (this.instances.has(artifact.version)) {
+      throw new DeploymentTargetError(`Version ${artifact.version} is running; deploy it under a new version`, 409);
+    }
+
+    // Copy next to the release, verify, then swap in
+    const incoming = `${releaseDir}.incoming`;
+    await rm(incoming, { recursive: true, force: true });
+    await mkdir(path.dirname(incoming), { recursive: true });
+    await cp(artifact.path, incoming, { recursive: true });
+
+    const digest = await digestDirectory(incoming);
+    if (digest !== artifact.digest) {
+      await rm(incoming, { recursive: true, force: true });
+      throw new DeploymentTargetError(`Uploaded ${artifact.version} has digest ${digest}, expected ${artifact.digest}`);
+    }
+
+    await rm(releaseDir, { recursive: true, force: true });
+    await rename(incoming, releaseDir);
+    console.log(`[LocalTarget] Uploaded ${artifact.version} to ${releaseDir}`);
+  }
+
+  async activate(version: string): Promise<void> {
+    await this.switchTo(version, true);
+  }
+
+  async rollbackTo(version: string): Promise<void> {
+    await this.switchTo(version, false);
+  }
+
+  async setTrafficSplit(version: string, percentage: number): Promise<void> {
+    this.checkVersion(version);
+    const baseline = this.active ? this.instances.get(this.active) : undefined;
+    if (!this.active || !baseline) {
+      throw new DeploymentTargetError('No active version to split traffic with', 409);
+    }
+    if (version === this.active) {
+      throw new DeploymentTargetError(`${version} is already active`, 409);
+    }
+
+    if (percentage <= 0) {
+      this.proxy.setUpstream({ host: '127.0.0.1', port: baseline.port, label: this.active });
+      this.canary = null;
+      console.log(`[LocalTarget] Ended canary of ${version}; all traffic on ${this.active}`);
+      this.retireInactive();
+      return;
+    }
+
+    const share = Math.min(percentage, 100);
+    const candidate = await this.ensureRunning(version);
+    await this.proxy.listen(this.config.proxyPort);
+    this.proxy.setUpstreams([
+      { host: '127.0.0.1', port: baseline.port, label: this.active, weight: 100 - share },
+      { host: '127.0.0.1', port: candidate.port, label: version, weight: share }
+    ]);
+    this.canary = { version, percentage: share };
+    console.log(`[LocalTarget] Canary ${version} at ${share}% (baseline ${this.active})`);
+  }
+
+  async probe(version: string): Promise<ProbeResult> {
+    const instance = this.instances.get(version);
+    if (!instance || instance.exited) {
+      return { healthy: false, latencyMs: 0, error: `${version} is not running` };
+    }
+
+    const start = Date.now();
+    try {
+      const response = await fetch(`http://127.0.0.1:${instance.port}${this.config.healthPath}`, {
+        signal: AbortSignal.timeout(this.config.probeTimeoutMs)
+      });
+      const body = await response.json().catch(() => null) as { status?: string } | null;
+      return {
+        healthy: response.ok && body?.status !== 'unhealthy',
+        statusCode: response.status,
+        latencyMs: Date.now() - start,
+        error: response.ok ? undefined : `HTTP ${response.status}`
+      };
+    } catch (error) {
+      return {
+        healthy: false,
+        latencyMs: Date.now() - start,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  getStatus(): TargetStatus {
+    return {
+      driver: this.name,
+      activeVersion: this.active,
+      standbyVersion: this.standby,
+      canary: this.canary,
+      proxy: { port: this.config.proxyPort, listening: this.proxy.isListening() },
+      instances: Array.from(this.instances.values())
+        .filter(instance => !instance.exited)
+        .map(({ version, port, pid, startedAt }) => ({ version, port, pid, startedAt }))
+    };
+  }
+
+  /**
+   * Point all traffic at `version`, starting it first if needed and
+   * ending any canary. The version being replaced becomes the standby on
+   * activate and is retired on rollback; anything else running is retired.
+   */
+  private async switchTo(version: string, keepPrevious: boolean): Promise<void> {
+    this.checkVersion(version);
+
+    const instance = await this.ensureRunning(version);
+    await this.proxy.listen(this.config.proxyPort);
+
+    const previous = this.active;
+    this.proxy.setUpstream({ host: '127.0.0.1', port: instance.port, label: version });
+    this.active = version;
+    this.canary = null;
+    if (previous !== version) {
+      this.standby = keepPrevious ? previous : (this.standby === version ? null : this.standby);
+      console.log(`[LocalTarget] ${keepPrevious ? 'Activated' : 'Rolled back to'} ${version} (was ${previous ?? 'none'})`);
+    }
+    this.retireInactive();
+  }
+
+  // Stop, after the drain period, instances that are neither serving nor standby
+  private retireInactive(): void {
+    for (const running of Array.from(this.instances.keys())) {
+      if (running !== this.active && running !== this.standby) {
+        setTimeout(() => {
+          if (running !== this.active && running !== this.standby && running !== this.canary?.version) {
+            this.stopInstance(running);
+          }
+        }, this.config.drainMs).unref();
+      }
+    }
+  }
+
+  private async ensureRunning(version: string): Promise<LocalInstance> {
+    const existing = this.instances.get(version);
+    if (existing && !existing.exited) {
+      const probe = await this.probe(version);
+      if (probe.healthy) return existing;
+      this.stopInstance(version);
+    }
+
+    const releaseDir = this.dir('releases', version);
+    const entry = path.join(releaseDir, this.config.entry);
+    if (!existsSync(entry)) {
+      throw new DeploymentTargetError(`Version ${version} has not been uploaded`, 404);
+    }
+
+    const port = this.allocatePort();
+    await mkdir(this.dir('logs'), { recursive: true });
+    const log = createWriteStream(this.dir('logs', `${version}.log`), { flags: 'a' });
+
+    // DEPLOY_INSTANCE_VERSION also keeps the instance from starting the
+    // alerting, escalation, rollout, health and rollback loops (see routes.ts)
+    const child = spawn(process.execPath, [entry], {
+      cwd: releaseDir,
+      env: { ...process.env, NODE_ENV: 'production', PORT: String(port), DEPLOY_INSTANCE_VERSION: version },
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+    child.stdout?.pipe(log);
+    child.stderr?.pipe(log);
+    this.installExitHook();
+
+    const instance: LocalInstance = {
+      version,
+      port,
+      pid: child.pid ?? null,
+      startedAt: new Date().toISOString(),
+      process: child,
+      exited: false
+    };
+    child.on('exit', code => {
+      instance.exited = true;
+      if (this.instances.get(version) === instance) this.instances.delete(version);
+      console.log(`[LocalTarget] ${version} (pid ${instance.pid}) exited with code ${code}`);
+    });
+    this.instances.set(version, instance);
+    console.log(`[LocalTarget] Started ${version} on port ${port} (pid ${instance.pid})`);
+
+    // Wait until it answers its health route
+    const deadline = Date.now() + this.config.startTimeoutMs;
+    while (Date.now() < deadline) {
+      if (instance.exited) {
+        throw new DeploymentTargetError(`${version} exited during startup; see ${this.dir('logs', `${version}.log`)}`);
+      }
+      if ((await this.probe(version)).healthy) return instance;
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+
+    this.stopInstance(version);
+    throw new DeploymentTargetError(`${version} did not become healthy within ${this.config.startTimeoutMs}ms`);
+  }
+
+  private stopInstance(version: string): void {
+    const instance = this.instances.get(version);
+    if (!instance || version === this.active) return;
+    this.instances.delete(version);
+    if (this.standby === version) this.standby = null;
+    if (!instance.exited) {
+      console.log(`[LocalTarget] Stopping ${version} (pid ${instance.pid})`);
+      instance.process.kill('SIGTERM');
+    }
+  }
+
+  private allocatePort(): number {
+    const used = new Set(Array.from(this.instances.values()).map(instance => instance.port));
+    let port = this.config.basePort;
+    while (used.has(port)) port++;
+    return port;
+  }
+
+  /**
+   * Fresh copy of the source tree for one build, so the build output never
+   * replaces the running server's own. node_modules is linked, not copied;
+   * VCS data, earlier build output and the deploy directory are left out.
+   */
+  private async prepareWorkspace(version: string): Promise<string> {
+    const sourceDir = path.resolve(this.config.sourceDir);
+    const workspace = this.dir('workspaces', version);
+    const excluded = ['.git', 'node_modules', this.config.artifactDir].map(name => path.resolve(sourceDir, name));
+    const deployDir = path.resolve(this.config.rootDir);
+    const containsDeployDir = (entry: string) => deployDir === entry || deployDir.startsWith(`${entry}${path.sep}`);
+
+    await rm(workspace, { recursive: true, force: true });
+    await mkdir(workspace, { recursive: true });
+
+    // Top-level entries one at a time: the deploy directory may sit inside the source
+    for (const name of await readdir(sourceDir)) {
+      const entry = path.join(sourceDir, name);
+      if (excluded.includes(entry) || containsDeployDir(entry)) continue;
+      await cp(entry, path.join(workspace, name), { recursive: true });
+    }
+    if (existsSync(path.join(sourceDir, 'node_modules'))) {
+      await symlink(path.join(sourceDir, 'node_modules'), path.join(workspace, 'node_modules'), 'dir');
+    }
+    return workspace;
+  }
+
+  private runBuildCommand(version: string, cwd: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.config.buildCommand, {
+        cwd,
+        shell: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: { ...process.env, DEPLOY_VERSION: version }
+      });
+
+      // Keep the tail of the output for the error message
+      let output = '';
+      const capture = (chunk: Buffer) => {
+        output = (output + chunk.toString()).slice(-2000);
+      };
+      child.stdout?.on('data', capture);
+      child.stderr?.on('data', capture);
+
+      const timer = setTimeout(() => child.kill('SIGTERM'), this.config.buildTimeoutMs);
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(new DeploymentTargetError(`Build command failed to start: ${error.message}`));
+      });
+      child.on('exit', (code, signal) => {
+        clearTimeout(timer);
+        if (code === 0) return resolve();
+        const reason = signal ? `was killed (${signal})` : `exited with code ${code}`;
+        reject(new DeploymentTargetError(`Build of ${version} ${reason}: ${output.trim().split('\n').slice(-5).join(' | ')}`));
+      });
+    });
+  }
+
+  private installExitHook(): void {
+    if (this.exitHookInstalled) return;
+    this.exitHookInstalled = true;
+    process.once('exit', () => {
+      for (const instance of Array.from(this.instances.values())) {
+        if (!instance.exited) instance.process.kill('SIGTERM');
+      }
+    });
+  }
+
+  private checkVersion(version: string): void {
+    if (!VERSION_PATTERN.test(version)) {
+      throw new DeploymentTargetError(`Invalid version "${version}"`, 400);
+    }
+  }
+
+  private dir(...parts: string[]): string {
+    return path.join(this.config.rootDir, ...parts);
+  }
+}
+
+const DRIVERS: Record<string, () => DeploymentTarget> = {
+  local: () => new LocalProcessTarget()
+};
+
+/**
+ * Driver named by DEPLOY_TARGET (default local)
+ */
+export function createDeploymentTarget(name: string = process.env.DEPLOY_TARGET || 'local'): DeploymentTarget {
+  const create = DRIVERS[name];
+  if (!create) {
+    throw new DeploymentTargetError(`Unknown deployment target "${name}" (available: ${Object.keys(DRIVERS).join(', ')})`);
+  }
+  return create();
+}
+
+export const deploymentTarget = createDeploymentTarget();
@@ -164,8 +164,8 @@ export class EnvironmentConfigManager {
     // Required for all environments
     const required = ['DATABASE_URL', 'SESSION_SECRET'];
     
-    // Required for production
-    if (this.currentEnv === 'production') {
+    // Required for production (unless AI calls are served from fixtures)
+    if (this.currentEnv === 'production' && process.env.AI_PROVIDER_MODE !== 'mock') {
       required.push('AI_INTEGRATIONS_OPENAI_API_KEY');
     }
 
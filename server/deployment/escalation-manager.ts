@@ -0,0 +1,304 @@
+/**
+ * Alert Escalation & On-Call - Phase 5 Track C
+ * Agent #137: Alert Manager
+ *
+ * Routes alerts to people:
+ * - On-call schedules: rotating primary/secondary with time-boxed overrides
+ * - Escalation policies: ordered steps, each notifying a schedule role or
+ *   explicit users `afterMinutes` after the alert fired, until someone
+ *   acknowledges it
+ * - Notifications go out through NotificationService on the step's channel
+ */
+
+import { db } from '../db';
+import {
+  alerts,
+  escalationPolicies,
+  onCallOverrides,
+  onCallSchedules,
+  type Alert,
+  type EscalationPolicy,
+  type EscalationStep,
+  type OnCallOverride,
+  type OnCallSchedule
+} from '@shared/schema';
+import { and, asc, desc, eq, gt, isNotNull, lte, sql } from 'drizzle-orm';
+import { alertManager, type AlertManager } from './alert-manager';
+import { notificationService, type NotificationService, type NotificationType } from './notification-service';
+
+export interface OnCallAssignment {
+  scheduleId: number;
+  scheduleName: string;
+  primary: string;
+  secondary: string | null;
+  override: OnCallOverride | null; // Set when the primary comes from an override
+  rotationEndsAt: string;
+}
+
+export interface EscalationState {
+  alertId: number;
+  title: string;
+  severity: string;
+  status: string;
+  firedAt: string;
+  assignedTo: string | null;
+  policyId: number | null;
+  policyName: string | null;
+  step: number | null; // Last step notified (0-based)
+  totalSteps: number;
+  nextEscalationAt: string | null;
+}
+
+const SEVERITY_TYPES: Record<string, NotificationType> = {
+  info: 'info',
+  warning: 'warning',
+  error: 'error',
+  critical: 'error'
+};
+
+/**
+ * Primary/secondary for a schedule at a point in time, before overrides
+ */
+export function getRotation(schedule: OnCallSchedule, at: Date): { primary: string; secondary: string | null; rotationEndsAt: Date } {
+  const participants = schedule.participants as string[];
+  const periodMs = schedule.rotationPeriodHours * 60 * 60 * 1000;
+  const elapsed = at.getTime() - schedule.rotationStart.getTime();
+  const rotation = Math.floor(elapsed / periodMs);
+  // Before rotationStart counts backwards through the list
+  const index = ((rotation % participants.length) + participants.length) % participants.length;
+
+  return {
+    primary: participants[index],
+    secondary: participants.length > 1 ? participants[(index + 1) % participants.length] : null,
+    rotationEndsAt: new Date(schedule.rotationStart.getTime() + (rotation + 1) * periodMs)
+  };
+}
+
+export class EscalationManager {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private alerts: AlertManager = alertManager,
+    private notifications: NotificationService = notificationService
+  ) {
+    // Page the first step as soon as an alert fires
+    alerts.onAlertFired(alert => this.startEscalation(alert));
+  }
+
+  /**
+   * Who is on call for every active schedule right now
+   */
+  async getCurrentOnCall(at: Date = new Date()): Promise<OnCallAssignment[]> {
+    const schedules = await db.select()
+      .from(onCallSchedules)
+      .where(eq(onCallSchedules.isActive, true))
+      .orderBy(asc(onCallSchedules.name));
+
+    return Promise.all(schedules.map(schedule => this.getOnCall(schedule, at)));
+  }
+
+  /**
+   * On-call assignment for one schedule; an active override replaces the
+   * primary, and the rotation's primary becomes secondary
+   */
+  async getOnCall(schedule: OnCallSchedule, at: Date = new Date()): Promise<OnCallAssignment> {
+    const rotation = getRotation(schedule, at);
+
+    const [override] = await db.select()
+      .from(onCallOverrides)
+      .where(and(
+        eq(onCallOverrides.scheduleId, schedule.id),
+        lte(onCallOverrides.startsAt, at),
+        gt(onCallOverrides.endsAt, at)
+      ))
+      .orderBy(desc(onCallOverrides.createdAt))
+      .limit(1);
+
+    const primary = override ? override.userId : rotation.primary;
+    const secondary = override && override.userId !== rotation.primary ? rotation.primary : rotation.secondary;
+
+    return {
+      scheduleId: schedule.id,
+      scheduleName: schedule.name,
+      primary,
+      secondary,
+      override: override ?? null,
+      rotationEndsAt: rotation.rotationEndsAt.toISOString()
+    };
+  }
+
+  /**
+   * Attach the alert's policy and notify every step that is already due
+   */
+  async startEscalation(alert: Alert): Promise<void> {
+    const policy = await this.resolvePolicy(alert.escalationPolicyId);
+    if (!policy) return;
+
+    const [updated] = await db.update(alerts)
+      .set({ escalationPolicyId: policy.id })
+      .where(eq(alerts.id, alert.id))
+      .returning();
+
+    await this.escalate(updated, policy);
+  }
+
+  /**
+   * Advance every unacknowledged alert whose next step is due
+   */
+  async tick(now: Date = new Date()): Promise<number> {
+    const pending = await db.select()
+      .from(alerts)
+      .where(and(eq(alerts.status, 'active'), isNotNull(alerts.escalationPolicyId)));
+
+    const policies = new Map<number, EscalationPolicy | null>();
+    let escalated = 0;
+
+    for (const alert of pending) {
+      const policyId = alert.escalationPolicyId!;
+      if (!policies.has(policyId)) {
+        policies.set(policyId, await this.resolvePolicy(policyId));
+      }
+      const policy = policies.get(policyId);
+      if (policy && await this.escalate(alert, policy, now)) escalated++;
+    }
+
+    return escalated;
+  }
+
+  /**
+   * Escalation progress for every open alert (for the dashboard)
+   */
+  async getEscalationState(): Promise<EscalationState[]> {
+    const open = await this.alerts.getOpenAlerts();
+    const policies = await db.select().from(escalationPolicies);
+
+    return open.map(alert => {
+      const policy = policies.find(p => p.id === alert.escalationPolicyId) ?? null;
+      const steps = (policy?.steps as EscalationStep[] | undefined) ?? [];
+      const nextStep = steps[(alert.escalationStep ?? -1) + 1];
+
+      return {
+        alertId: alert.id,
+        title: alert.title,
+        severity: alert.severity,
+        status: alert.status,
+        firedAt: alert.firedAt.toISOString(),
+        assignedTo: alert.assignedTo,
+        policyId: policy?.id ?? null,
+        policyName: policy?.name ?? null,
+        step: alert.escalationStep,
+        totalSteps: steps.length,
+        nextEscalationAt: nextStep && alert.status === 'active'
+          ? new Date(alert.firedAt.getTime() + nextStep.afterMinutes * 60 * 1000).toISOString()
+          : null
+      };
+    });
+  }
+
+  /**
+   * Run tick() on an interval (no-op if already running)
+   */
+  start(intervalMs: number = 30000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => {
+        console.error('[Escalation] Tick failed:', error);
+      });
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Notify the latest due step past the one already notified
+   * Returns true if a step was notified
+   */
+  private async escalate(alert: Alert, policy: EscalationPolicy, now: Date = new Date()): Promise<boolean> {
+    const steps = policy.steps as EscalationStep[];
+    const elapsedMinutes = (now.getTime() - alert.firedAt.getTime()) / 60000;
+    const current = alert.escalationStep ?? -1;
+
+    let due = current;
+    for (let i = current + 1; i < steps.length; i++) {
+      if (steps[i].afterMinutes <= elapsedMinutes) due = i;
+    }
+    if (due === current) return false;
+
+    const step = steps[due];
+    const recipients = await this.getRecipients(step, now);
+
+    // Claim the step so concurrent ticks never page twice
+    const [claimed] = await db.update(alerts)
+      .set({ escalationStep: due, escalatedAt: now, assignedTo: recipients[0] ?? alert.assignedTo })
+      .where(and(
+        eq(alerts.id, alert.id),
+        eq(alerts.status, 'active'),
+        sql`COALESCE(${alerts.escalationStep}, -1) < ${due}`
+      ))
+      .returning();
+    if (!claimed) return false;
+
+    for (const userId of recipients) {
+      await this.notifications.sendNotification(
+        userId,
+        SEVERITY_TYPES[alert.severity] ?? 'warning',
+        `[${alert.severity.toUpperCase()}] ${alert.title}`,
+        due === 0
+          ? alert.message
+          : `${alert.message} (unacknowledged for ${Math.round(elapsedMinutes)} min, escalated to step ${due + 1})`,
+        {
+          channel: step.channel,
+          actionUrl: '/deployment',
+          metadata: { alertId: alert.id, policyId: policy.id, step: due }
+        }
+      );
+    }
+
+    await this.alerts.recordEvent(
+      alert.id,
+      due === 0 ? 'notified' : 'escalated',
+      null,
+      null,
+      `Step ${due + 1} of ${policy.name}: ${recipients.join(', ') || 'no recipients'}`
+    );
+    return true;
+  }
+
+  private async getRecipients(step: EscalationStep, at: Date): Promise<string[]> {
+    const recipients: string[] = [];
+
+    if (step.scheduleId !== undefined) {
+      const [schedule] = await db.select().from(onCallSchedules).where(eq(onCallSchedules.id, step.scheduleId));
+      if (schedule?.isActive) {
+        const onCall = await this.getOnCall(schedule, at);
+        const userId = step.role === 'secondary' ? onCall.secondary : onCall.primary;
+        if (userId) recipients.push(userId);
+      }
+    }
+
+    for (const userId of step.userIds ?? []) {
+      if (!recipients.includes(userId)) recipients.push(userId);
+    }
+
+    return recipients;
+  }
+
+  /**
+   * The named policy, else the default policy
+   */
+  private async resolvePolicy(policyId: number | null): Promise<EscalationPolicy | null> {
+    const [policy] = await db.select()
+      .from(escalationPolicies)
+      .where(policyId !== null ? eq(escalationPolicies.id, policyId) : eq(escalationPolicies.isDefault, true))
+      .limit(1);
+    return policy ?? null;
+  }
+}
+
+export const escalationManager = new EscalationManager();
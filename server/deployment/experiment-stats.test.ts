@@ -0,0 +1,117 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  Z_95,
+  incompleteBeta,
+  normalCdf,
+  studentTTwoSidedP,
+  twoProportionZTest,
+  welchTTest
+} from './experiment-stats';
+
+function assertClose(actual: number, expected: number, tolerance: number, label?: string): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${label ?? 'value'}: expected ${expected} ± ${tolerance}, got ${actual}`);
+}
+
+const mean = (xs: number[]) => xs.reduce((sum, x) => sum + x, 0) / xs.length;
+const variance = (xs: number[]) => {
+  const m = mean(xs);
+  return xs.reduce((sum, x) => sum + (x - m) ** 2, 0) / (xs.length - 1);
+};
+
+// I_x(a, b) for integer a, b: P(Binomial(a + b - 1, x) >= a)
+function binomialTail(x: number, a: number, b: number): number {
+  const n = a + b - 1;
+  let choose = 1;
+  let total = 0;
+  for (let j = 0; j <= n; j++) {
+    if (j >= a) total += choose * x ** j * (1 - x) ** (n - j);
+    choose = (choose * (n - j)) / (j + 1);
+  }
+  return total;
+}
+
+describe('incompleteBeta', () => {
+  test('matches closed forms', () => {
+    for (const x of [0.05, 0.3, 0.5, 0.8, 0.99]) {
+      assertClose(incompleteBeta(x, 1, 1), x, 1e-12, `I_${x}(1, 1)`);
+      assertClose(incompleteBeta(x, 3, 1), x ** 3, 1e-12, `I_${x}(3, 1)`);
+      assertClose(incompleteBeta(x, 1, 4), 1 - (1 - x) ** 4, 1e-12, `I_${x}(1, 4)`);
+      assertClose(incompleteBeta(x, 2, 5), binomialTail(x, 2, 5), 1e-10, `I_${x}(2, 5)`);
+      assertClose(incompleteBeta(x, 12, 7), binomialTail(x, 12, 7), 1e-10, `I_${x}(12, 7)`);
+    }
+  });
+
+  test('is symmetric and clamps at the ends', () => {
+    assertClose(incompleteBeta(0.5, 7.5, 7.5), 0.5, 1e-12);
+    assertClose(incompleteBeta(0.3, 2.5, 4), 1 - incompleteBeta(0.7, 4, 2.5), 1e-12);
+    assert.equal(incompleteBeta(0, 2, 3), 0);
+    assert.equal(incompleteBeta(1, 2, 3), 1);
+  });
+});
+
+describe('studentTTwoSidedP', () => {
+  test('matches the closed forms for 1 and 2 degrees of freedom', () => {
+    for (const t of [0.5, 1, 2.5, 6]) {
+      assertClose(studentTTwoSidedP(t, 1), 1 - (2 / Math.PI) * Math.atan(t), 1e-10, `t=${t}, df=1`);
+      assertClose(studentTTwoSidedP(t, 2), 1 - t / Math.sqrt(2 + t * t), 1e-10, `t=${t}, df=2`);
+    }
+  });
+
+  test('gives 0.05 at the tabulated critical values', () => {
+    assertClose(studentTTwoSidedP(12.706205, 1), 0.05, 1e-6);
+    assertClose(studentTTwoSidedP(2.228139, 10), 0.05, 1e-6);
+    assertClose(studentTTwoSidedP(-2.042272, 30), 0.05, 1e-6);
+    assertClose(studentTTwoSidedP(Z_95, 1e6), 0.05, 1e-5);
+  });
+});
+
+describe('twoProportionZTest', () => {
+  test('matches the pooled z statistic and its normal p-value', () => {
+    // 50/100 vs 65/100; same as prop.test(c(65, 50), c(100, 100), correct = FALSE)
+    const result = twoProportionZTest(50, 100, 65, 100)!;
+    assertClose(result.statistic, 2.145596, 1e-6, 'z');
+    assertClose(result.pValue, 0.031905, 1e-6, 'p');
+
+    const reversed = twoProportionZTest(65, 100, 50, 100)!;
+    assertClose(reversed.statistic, -result.statistic, 1e-12);
+    assertClose(reversed.pValue, result.pValue, 1e-12);
+  });
+
+  test('gives p = 0.05 at |z| = 1.96', () => {
+    assertClose(2 * (1 - normalCdf(Z_95)), 0.05, 1e-6);
+  });
+
+  test('handles empty and degenerate samples', () => {
+    assert.equal(twoProportionZTest(0, 0, 5, 10), null);
+    assert.deepEqual(twoProportionZTest(10, 10, 20, 20), { statistic: 0, pValue: 1 });
+  });
+});
+
+describe('welchTTest', () => {
+  test("reproduces R's t.test on the sleep data", () => {
+    // t.test(extra ~ group, data = sleep): t = -1.8608, df = 17.776, p-value = 0.07939
+    const group1 = [0.7, -1.6, -0.2, -1.2, -0.1, 3.4, 3.7, 0.8, 0.0, 2.0];
+    const group2 = [1.9, 0.8, 1.1, 0.1, -0.1, 4.4, 5.5, 1.6, 4.6, 3.4];
+
+    const result = welchTTest(
+      { mean: mean(group1), variance: variance(group1), n: group1.length },
+      { mean: mean(group2), variance: variance(group2), n: group2.length }
+    )!;
+    assertClose(result.statistic, 1.8608, 1e-4, 't');
+    assertClose(result.degreesOfFreedom!, 17.776, 1e-3, 'df');
+    assertClose(result.pValue, 0.07939, 1e-5, 'p');
+  });
+
+  test('uses the Welch-Satterthwaite degrees of freedom', () => {
+    // Equal variances and sizes: df = 2(n - 1) = 2, where p has a closed form
+    const result = welchTTest({ mean: 0, variance: 2, n: 2 }, { mean: 3, variance: 2, n: 2 })!;
+    assertClose(result.degreesOfFreedom!, 2, 1e-12);
+    assertClose(result.statistic, 3 / Math.SQRT2, 1e-12);
+    assertClose(result.pValue, 1 - result.statistic / Math.sqrt(2 + result.statistic ** 2), 1e-10);
+  });
+
+  test('needs two observations per arm', () => {
+    assert.equal(welchTTest({ mean: 1, variance: 0, n: 1 }, { mean: 2, variance: 1, n: 5 }), null);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Experiment Statistics - Phase 5 Track B
+ * Agent #132: Feature Flag Manager
+ *
+ * Intervals and significance tests for experiment results:
+ * - Binary metrics (success rates): Wilson score interval, two-proportion z-test
+ * - Continuous metrics (cost, latency): normal interval, Welch's t-test
+ *
+ * All intervals are two-sided 95%.
+ */
+
+export const Z_95 = 1.959963984540054;
+
+export interface Interval {
+  lower: number;
+  upper: number;
+}
+
+export interface TestResult {
+  statistic: number; // z or t
+  pValue: number; // Two-sided
+  degreesOfFreedom?: number; // Welch only
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+ */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function logGamma(x: number): number {
+  // Lanczos approximation (g = 7, n = 9)
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  x -= 1;
+  let a = c[0];
+  const t = x + 7.5;
+  for (let i = 1; i < 9; i++) a += c[i] / (x + i);
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+// Continued fraction for the incomplete beta function (Lentz's method)
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+export function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * Two-sided p-value of Student's t with `df` degrees of freedom
+ */
+export function studentTTwoSidedP(t: number, df: number): number {
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/**
+ * Wilson score interval for `successes` out of `n`
+ */
+export function wilsonInterval(successes: number, n: number, z: number = Z_95): Interval {
+  if (n === 0) return { lower: 0, upper: 1 };
+  const p = successes / n;
+  const z2 = z * z;
+  const denominator = 1 + z2 / n;
+  const center = (p + z2 / (2 * n)) / denominator;
+  const half = (z * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / denominator;
+  return { lower: Math.max(0, center - half), upper: Math.min(1, center + half) };
+}
+
+/**
+ * Normal-approximation interval for a mean
+ */
+export function normalInterval(mean: number, variance: number, n: number, z: number = Z_95): Interval {
+  if (n < 2) return { lower: mean, upper: mean };
+  const half = z * Math.sqrt(variance / n);
+  return { lower: mean - half, upper: mean + half };
+}
+
+/**
+ * Two-proportion z-test (pooled), treatment minus control
+ */
+export function twoProportionZTest(
+  controlSuccesses: number,
+  controlN: number,
+  treatmentSuccesses: number,
+  treatmentN: number
+): TestResult | null {
+  if (controlN === 0 || treatmentN === 0) return null;
+  const pooled = (controlSuccesses + treatmentSuccesses) / (controlN + treatmentN);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / controlN + 1 / treatmentN));
+  if (se === 0) return { statistic: 0, pValue: 1 };
+  const z = (treatmentSuccesses / treatmentN - controlSuccesses / controlN) / se;
+  return { statistic: z, pValue: 2 * (1 - normalCdf(Math.abs(z))) };
+}
+
+/**
+ * Welch's unequal-variance t-test, treatment minus control
+ */
+export function welchTTest(
+  control: { mean: number; variance: number; n: number },
+  treatment: { mean: number; variance: number; n: number }
+): TestResult | null {
+  if (control.n < 2 || treatment.n < 2) return null;
+  const a = control.variance / control.n;
+  const b = treatment.variance / treatment.n;
+  const se = Math.sqrt(a + b);
+  if (se === 0) return { statistic: 0, pValue: 1, degreesOfFreedom: control.n + treatment.n - 2 };
+
+  const t = (treatment.mean - control.mean) / se;
+  const df = (a + b) ** 2 / (a ** 2 / (control.n - 1) + b ** 2 / (treatment.n - 1));
+  return { statistic: t, pValue: studentTTwoSidedP(t, df), degreesOfFreedom: df };
+}
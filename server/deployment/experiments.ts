@@ -0,0 +1,473 @@
+/**
+ * A/B Experiments - Phase 5 Track B
+ * Agent #132: Feature Flag Manager
+ *
+ * Controlled experiments on top of feature flags:
+ * - Variants with relative weights; the first variant is the control
+ * - Eligibility: optional feature flag, then a traffic percentage
+ * - Sticky assignment: a stable hash picks the variant once per user and
+ *   it is stored in experiment_assignments
+ * - Exposures: logged each time a variant changes behavior (a routing
+ *   decision in ModelRouter, a decomposition prompt in TaskOrchestrator)
+ *
+ * Outcomes come from data the platform already records:
+ * - success, cost, latency: ai_usage_metrics rows tagged with
+ *   metadata.experiments[key] = variant
+ * - taskSuccess: builds an exposure was logged for (completed vs failed)
+ * - predictionAccuracy: verified ml_predictions of assigned users
+ *
+ * Results compare each variant with the control (see experiment-stats.ts).
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  aiUsageMetrics,
+  builds,
+  experimentAssignments,
+  experimentExposures,
+  mlPredictions,
+  type Experiment,
+  type ExperimentMetric,
+  type ExperimentStatus,
+  type ExperimentTarget,
+  type ExperimentVariant,
+  type InsertExperiment
+} from '@shared/schema';
+import { and, count, eq, gte, inArray, isNotNull, lte, sql } from 'drizzle-orm';
+import { featureFlagService, getRolloutBucket, ROLLOUT_BUCKETS, type FeatureFlagService } from './feature-flags';
+import {
+  normalInterval,
+  twoProportionZTest,
+  welchTTest,
+  wilsonInterval,
+  type Interval,
+  type TestResult
+} from './experiment-stats';
+
+export interface VariantAssignment {
+  experimentKey: string;
+  variant: string;
+  config: Record<string, unknown>;
+}
+
+export interface BinaryMetricResult {
+  n: number;
+  successes: number;
+  rate: number;
+  interval: Interval;
+}
+
+export interface ContinuousMetricResult {
+  n: number;
+  mean: number;
+  stdDev: number;
+  interval: Interval;
+}
+
+export interface VariantResult {
+  variant: string;
+  weight: number;
+  assignments: number;
+  exposures: number;
+  metrics: {
+    success: BinaryMetricResult;
+    taskSuccess: BinaryMetricResult;
+    predictionAccuracy: BinaryMetricResult;
+    cost: ContinuousMetricResult; // USD per AI request
+    latency: ContinuousMetricResult; // ms per AI request
+  };
+}
+
+export interface MetricComparison {
+  metric: ExperimentMetric;
+  variant: string;
+  difference: number; // Variant minus control
+  relativeDifference: number | null;
+  test: TestResult | null; // Null until both arms have data
+  significant: boolean; // p < alpha with at least the minimum sample in both arms
+  improved: boolean; // Significant and in the good direction (lower cost/latency)
+}
+
+export interface ExperimentResults {
+  experiment: Experiment;
+  control: string;
+  alpha: number;
+  minSampleSize: number;
+  variants: VariantResult[];
+  comparisons: MetricComparison[];
+  computedAt: string;
+}
+
+const BINARY_METRICS = ['success', 'taskSuccess', 'predictionAccuracy'] as const;
+const CONTINUOUS_METRICS = ['cost', 'latency'] as const;
+
+// Targets that the platform applies automatically; one running experiment each
+const EXCLUSIVE_TARGETS: ExperimentTarget[] = ['routing', 'decomposition'];
+
+const STATUS_TRANSITIONS: Record<ExperimentStatus, ExperimentStatus[]> = {
+  draft: ['running'],
+  running: ['paused', 'completed'],
+  paused: ['running', 'completed'],
+  completed: []
+};
+
+/**
+ * Thrown for invalid experiment changes (bad transition, conflicting run)
+ */
+export class ExperimentError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'ExperimentError';
+  }
+}
+
+/**
+ * Weighted variant for a user, stable for the same experiment and user
+ */
+export function pickVariant(experimentKey: string, variants: ExperimentVariant[], userId: string): ExperimentVariant {
+  const total = variants.reduce((sum, v) => sum + v.weight, 0);
+  let point = (getRolloutBucket(experimentKey, userId) / ROLLOUT_BUCKETS) * total;
+  for (const variant of variants) {
+    point -= variant.weight;
+    if (point < 0) return variant;
+  }
+  return variants[variants.length - 1];
+}
+
+function binaryResult(successes: number, n: number): BinaryMetricResult {
+  return { n, successes, rate: n > 0 ? successes / n : 0, interval: wilsonInterval(successes, n) };
+}
+
+function continuousResult(n: number, mean: number, variance: number): ContinuousMetricResult {
+  return { n, mean, stdDev: Math.sqrt(variance), interval: normalInterval(mean, variance, n) };
+}
+
+export class ExperimentService {
+  private experiments: Experiment[] = [];
+  private loadedAt = 0;
+  private assignments: Map<string, string | null> = new Map(); // '<key>:<userId>' → variant (null = not enrolled)
+  private cacheMs = parseInt(process.env.EXPERIMENT_CACHE_MS || '5000', 10);
+  private alpha = parseFloat(process.env.EXPERIMENT_ALPHA || '0.05');
+  private minSampleSize = parseInt(process.env.EXPERIMENT_MIN_SAMPLE || '30', 10);
+
+  constructor(private flags: FeatureFlagService = featureFlagService) {}
+
+  /**
+   * Variant of the running experiment for a target, or null if there is
+   * none or the user is not enrolled. Never throws: experiments must not
+   * break the request they observe.
+   */
+  async assign(target: ExperimentTarget, userId: string): Promise<VariantAssignment | null> {
+    try {
+      const experiment = (await this.loadExperiments()).find(e => e.target === target && e.status === 'running');
+      return experiment ? await this.resolve(experiment, userId) : null;
+    } catch (error) {
+      console.error(`[Experiments] Failed to assign ${userId} for ${target}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Variant of a specific experiment (used by custom experiments)
+   */
+  async getAssignment(experimentKey: string, userId: string): Promise<VariantAssignment | null> {
+    const experiment = (await this.loadExperiments()).find(e => e.key === experimentKey);
+    return experiment ? this.resolve(experiment, userId) : null;
+  }
+
+  /**
+   * Record that a variant was applied; failures are logged, not thrown
+   */
+  async logExposure(assignment: VariantAssignment, userId: string, context: string, buildId?: string): Promise<void> {
+    try {
+      await db.insert(experimentExposures).values({
+        experimentKey: assignment.experimentKey,
+        userId,
+        variant: assignment.variant,
+        context,
+        buildId: buildId ?? null
+      });
+    } catch (error) {
+      console.error(`[Experiments] Failed to log exposure for ${assignment.experimentKey}:`, error);
+    }
+  }
+
+  async listExperiments(): Promise<Experiment[]> {
+    return storage.getExperiments();
+  }
+
+  async getExperiment(key: string): Promise<Experiment | undefined> {
+    return storage.getExperiment(key);
+  }
+
+  async createExperiment(experiment: InsertExperiment): Promise<Experiment> {
+    if (await storage.getExperiment(experiment.key)) {
+      throw new ExperimentError(`Experiment ${experiment.key} already exists`, 409);
+    }
+    const created = await storage.createExperiment(experiment);
+    this.invalidate();
+    return created;
+  }
+
+  /**
+   * Update an experiment; once started, variants may be reweighted or
+   * reconfigured but not added, removed or renamed
+   */
+  async updateExperiment(key: string, updates: Partial<InsertExperiment>): Promise<Experiment | undefined> {
+    const existing = await storage.getExperiment(key);
+    if (!existing) return undefined;
+
+    if (updates.variants && existing.startedAt) {
+      const before = (existing.variants as ExperimentVariant[]).map(v => v.key).join(',');
+      const after = updates.variants.map(v => v.key).join(',');
+      if (before !== after) {
+        throw new ExperimentError('Variants of a started experiment cannot be added, removed or renamed', 409);
+      }
+    }
+    if (updates.target && updates.target !== existing.target && existing.status !== 'draft') {
+      throw new ExperimentError('Target can only be changed while the experiment is a draft', 409);
+    }
+
+    const updated = await storage.updateExperiment(key, updates);
+    this.invalidate();
+    return updated;
+  }
+
+  /**
+   * Move through draft → running ⇄ paused → completed
+   */
+  async setStatus(key: string, status: ExperimentStatus): Promise<Experiment | undefined> {
+    const existing = await storage.getExperiment(key);
+    if (!existing) return undefined;
+
+    const current = existing.status as ExperimentStatus;
+    if (!STATUS_TRANSITIONS[current].includes(status)) {
+      throw new ExperimentError(`Cannot move experiment from ${current} to ${status}`, 409);
+    }
+
+    if (status === 'running' && EXCLUSIVE_TARGETS.includes(existing.target as ExperimentTarget)) {
+      const conflict = (await storage.getExperiments())
+        .find(e => e.key !== key && e.target === existing.target && e.status === 'running');
+      if (conflict) {
+        throw new ExperimentError(`Experiment ${conflict.key} is already running for ${existing.target}`, 409);
+      }
+    }
+
+    const updated = await storage.setExperimentStatus(key, status);
+    this.invalidate();
+    if (updated) console.log(`[Experiments] ${key}: ${current} → ${status}`);
+    return updated;
+  }
+
+  async deleteExperiment(key: string): Promise<boolean> {
+    const deleted = await storage.deleteExperiment(key);
+    this.invalidate();
+    return deleted;
+  }
+
+  /**
+   * Per-variant outcomes with 95% intervals, and each variant compared
+   * with the control: two-proportion z-test for rates, Welch's t-test
+   * for cost and latency
+   */
+  async getResults(key: string): Promise<ExperimentResults | undefined> {
+    const experiment = await storage.getExperiment(key);
+    if (!experiment) return undefined;
+
+    const variants = experiment.variants as ExperimentVariant[];
+    const variantKeys = variants.map(v => v.key);
+    const variantExpr = sql<string>`${aiUsageMetrics.metadata} -> 'experiments' ->> ${key}`;
+
+    const [assignmentRows, exposureRows, usageRows, taskRows, predictionRows] = await Promise.all([
+      db.select({ variant: experimentAssignments.variant, total: count() })
+        .from(experimentAssignments)
+        .where(eq(experimentAssignments.experimentKey, key))
+        .groupBy(experimentAssignments.variant),
+
+      db.select({ variant: experimentExposures.variant, total: count() })
+        .from(experimentExposures)
+        .where(eq(experimentExposures.experimentKey, key))
+        .groupBy(experimentExposures.variant),
+
+      db.select({
+        variant: variantExpr,
+        requests: count(),
+        successes: sql<number>`count(*) filter (where ${aiUsageMetrics.success})`.mapWith(Number),
+        costMean: sql<number>`avg(${aiUsageMetrics.cost}::float8)`.mapWith(Number),
+        costVariance: sql<number>`var_samp(${aiUsageMetrics.cost}::float8)`.mapWith(Number),
+        latencyN: sql<number>`count(${aiUsageMetrics.latencyMs})`.mapWith(Number),
+        latencyMean: sql<number>`avg(${aiUsageMetrics.latencyMs})::float8`.mapWith(Number),
+        latencyVariance: sql<number>`var_samp(${aiUsageMetrics.latencyMs})::float8`.mapWith(Number)
+      })
+        .from(aiUsageMetrics)
+        .where(isNotNull(variantExpr))
+        .groupBy(sql`1`),
+
+      db.select({
+        variant: experimentExposures.variant,
+        total: sql<number>`count(distinct ${builds.id})`.mapWith(Number),
+        completed: sql<number>`count(distinct ${builds.id}) filter (where ${builds.status} = 'completed')`.mapWith(Number)
+      })
+        .from(experimentExposures)
+        .innerJoin(builds, eq(builds.id, experimentExposures.buildId))
+        .where(and(
+          eq(experimentExposures.experimentKey, key),
+          inArray(builds.status, ['completed', 'failed'])
+        ))
+        .groupBy(experimentExposures.variant),
+
+      db.select({
+        variant: experimentAssignments.variant,
+        total: count(),
+        correct: sql<number>`count(*) filter (where ${mlPredictions.wasCorrect})`.mapWith(Number)
+      })
+        .from(experimentAssignments)
+        .innerJoin(mlPredictions, and(
+          eq(mlPredictions.userId, experimentAssignments.userId),
+          gte(mlPredictions.createdAt, experimentAssignments.assignedAt),
+          isNotNull(mlPredictions.wasCorrect),
+          experiment.endedAt ? lte(mlPredictions.createdAt, experiment.endedAt) : undefined
+        ))
+        .where(eq(experimentAssignments.experimentKey, key))
+        .groupBy(experimentAssignments.variant)
+    ]);
+
+    const results: VariantResult[] = variants.map(v => {
+      const usage = usageRows.find(r => r.variant === v.key);
+      const tasks = taskRows.find(r => r.variant === v.key);
+      const predictions = predictionRows.find(r => r.variant === v.key);
+      return {
+        variant: v.key,
+        weight: v.weight,
+        assignments: assignmentRows.find(r => r.variant === v.key)?.total ?? 0,
+        exposures: exposureRows.find(r => r.variant === v.key)?.total ?? 0,
+        metrics: {
+          success: binaryResult(usage?.successes ?? 0, usage?.requests ?? 0),
+          taskSuccess: binaryResult(tasks?.completed ?? 0, tasks?.total ?? 0),
+          predictionAccuracy: binaryResult(predictions?.correct ?? 0, predictions?.total ?? 0),
+          cost: continuousResult(usage?.requests ?? 0, usage?.costMean ?? 0, usage?.costVariance ?? 0),
+          latency: continuousResult(usage?.latencyN ?? 0, usage?.latencyMean ?? 0, usage?.latencyVariance ?? 0)
+        }
+      };
+    });
+
+    const [control, ...treatments] = results;
+    const comparisons: MetricComparison[] = [];
+    for (const treatment of treatments) {
+      for (const metric of BINARY_METRICS) {
+        const a = control.metrics[metric];
+        const b = treatment.metrics[metric];
+        comparisons.push(this.compare(metric, treatment.variant, a.rate, b.rate, Math.min(a.n, b.n),
+          twoProportionZTest(a.successes, a.n, b.successes, b.n)));
+      }
+      for (const metric of CONTINUOUS_METRICS) {
+        const a = control.metrics[metric];
+        const b = treatment.metrics[metric];
+        comparisons.push(this.compare(metric, treatment.variant, a.mean, b.mean, Math.min(a.n, b.n),
+          welchTTest(
+            { mean: a.mean, variance: a.stdDev ** 2, n: a.n },
+            { mean: b.mean, variance: b.stdDev ** 2, n: b.n }
+          )));
+      }
+    }
+
+    return {
+      experiment,
+      control: variantKeys[0],
+      alpha: this.alpha,
+      minSampleSize: this.minSampleSize,
+      variants: results,
+      comparisons,
+      computedAt: new Date().toISOString()
+    };
+  }
+
+  private compare(
+    metric: ExperimentMetric,
+    variant: string,
+    controlValue: number,
+    variantValue: number,
+    smallestArm: number,
+    test: TestResult | null
+  ): MetricComparison {
+    const difference = variantValue - controlValue;
+    const significant = test !== null && smallestArm >= this.minSampleSize && test.pValue < this.alpha;
+    const lowerIsBetter = metric === 'cost' || metric === 'latency';
+    return {
+      metric,
+      variant,
+      difference,
+      relativeDifference: controlValue !== 0 ? difference / controlValue : null,
+      test,
+      significant,
+      improved: significant && (lowerIsBetter ? difference < 0 : difference > 0)
+    };
+  }
+
+  /**
+   * Stored assignment, or a new one if the user is eligible; assignments
+   * are only made while the experiment is running
+   */
+  private async resolve(experiment: Experiment, userId: string): Promise<VariantAssignment | null> {
+    if (experiment.status !== 'running') return null;
+
+    const variants = experiment.variants as ExperimentVariant[];
+    const id = `${experiment.key}:${userId}`;
+    let variantKey = this.assignments.get(id);
+
+    if (variantKey === undefined) {
+      const [existing] = await db.select().from(experimentAssignments).where(eq(experimentAssignments.id, id));
+      variantKey = existing?.variant ?? null;
+
+      if (!variantKey && await this.isEligible(experiment, userId)) {
+        const picked = pickVariant(experiment.key, variants, userId).key;
+        const [inserted] = await db.insert(experimentAssignments)
+          .values({ id, experimentKey: experiment.key, userId, variant: picked })
+          .onConflictDoNothing()
+          .returning();
+        if (inserted) {
+          variantKey = inserted.variant;
+        } else {
+          // Another request assigned the user first
+          const [winner] = await db.select().from(experimentAssignments).where(eq(experimentAssignments.id, id));
+          variantKey = winner?.variant ?? null;
+        }
+      }
+      this.assignments.set(id, variantKey);
+    }
+
+    const variant = variants.find(v => v.key === variantKey);
+    return variant ? { experimentKey: experiment.key, variant: variant.key, config: variant.config ?? {} } : null;
+  }
+
+  private async isEligible(experiment: Experiment, userId: string): Promise<boolean> {
+    if (experiment.flagKey && !(await this.flags.isFeatureEnabled(userId, experiment.flagKey))) return false;
+    return getRolloutBucket(`${experiment.key}:traffic`, userId) < experiment.trafficPercentage * (ROLLOUT_BUCKETS / 100);
+  }
+
+  private invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  /**
+   * Experiments from the database, cached for EXPERIMENT_CACHE_MS; the
+   * assignment cache is dropped on every reload so eligibility changes
+   * (flags, traffic) apply to users not yet assigned
+   */
+  private async loadExperiments(): Promise<Experiment[]> {
+    if (Date.now() - this.loadedAt < this.cacheMs) return this.experiments;
+
+    try {
+      this.experiments = await storage.getExperiments();
+      this.assignments.clear();
+      this.loadedAt = Date.now();
+    } catch (error) {
+      console.error('[Experiments] Failed to load experiments, using cached experiments:', error);
+    }
+    return this.experiments;
+  }
+}
+
+// Singleton instance
+export const experimentService = new ExperimentService();
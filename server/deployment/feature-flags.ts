@@ -1,13 +1,35 @@
 /**
  * Feature Flag System - Phase 5 Track B
  * Agent #132: Feature Flag Manager
- * 
- * Controls gradual rollout to users:
- * - Super Admin: All features
- * - Beta Users: Orchestration + AI Routing
- * - Regular Users: Basic features only
+ *
+ * Controls gradual rollout to users. Flags live in feature_flags and are
+ * evaluated per user in this order:
+ * - Kill switch: emergency off for everyone
+ * - Enabled: a disabled flag is served to nobody
+ * - Targeting rules: user IDs, segments (user-segmentation.ts) or caller
+ *   attributes; the first matching rule decides
+ * - Percentage rollout: stable hash of flag key + user ID into 10,000 buckets
+ *
+ * Every evaluation is written (in batches) to feature_flag_evaluations;
+ * rows older than FEATURE_FLAG_AUDIT_RETENTION_DAYS are pruned on flush.
  */
 
+import { createHash } from 'crypto';
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  featureFlagEvaluations,
+  featureFlags,
+  type FeatureFlag,
+  type FeatureFlagEvaluation,
+  type InsertFeatureFlag,
+  type InsertFeatureFlagEvaluation,
+  type TargetingCondition,
+  type TargetingRule
+} from '@shared/schema';
+import { and, count, desc, eq, gte, lt, sql } from 'drizzle-orm';
+import { userSegmentation, type UserSegmentationService } from './user-segmentation';
+
 export interface FeatureFlags {
   agentOrchestration: boolean;
   aiRouting: boolean;
@@ -16,113 +38,338 @@ export interface FeatureFlags {
   realtimeDashboard: boolean;
 }
 
-export interface UserRole {
-  id: string;
-  role: 'super_admin' | 'beta' | 'regular';
-  betaAccess?: boolean;
-  email?: string;
+export type FlagAttributes = Record<string, string | number | boolean>;
+
+export type EvaluationReason = 'kill_switch' | 'disabled' | 'rule' | 'rollout' | 'default' | 'unknown_flag';
+
+export interface FlagEvaluation {
+  flagKey: string;
+  enabled: boolean;
+  reason: EvaluationReason;
+  ruleIndex: number | null;
+}
+
+export interface FlagExposure {
+  flagKey: string;
+  evaluations: number;
+  enabled: number;
+  uniqueUsers: number;
+  enabledUsers: number;
+}
+
+export const ROLLOUT_BUCKETS = 10000;
+
+// Old evaluations are deleted on flush, no more often than this
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+const SUPER_ADMIN_RULES: TargetingRule[] = [
+  { name: 'Super admins', conditions: [{ attribute: 'segment', operator: 'in', values: ['super_admin'] }], serve: true },
+  { name: 'Platform admin', conditions: [{ attribute: 'userId', operator: 'in', values: ['admin-1'] }], serve: true }
+];
+
+const BETA_RULE: TargetingRule = {
+  name: 'Beta users',
+  conditions: [{ attribute: 'segment', operator: 'in', values: ['beta'] }],
+  serve: true
+};
+
+/**
+ * Seeded into feature_flags when the table is empty; matches the
+ * Phase 5 plan (super admin: everything, beta: orchestration + routing)
+ */
+export const DEFAULT_FEATURE_FLAGS: InsertFeatureFlag[] = [
+  { key: 'agentOrchestration', description: 'Multi-agent task decomposition and execution', enabled: true, rolloutPercentage: 0, rules: [...SUPER_ADMIN_RULES, BETA_RULE] },
+  { key: 'aiRouting', description: 'Multi-model AI routing', enabled: true, rolloutPercentage: 0, rules: [...SUPER_ADMIN_RULES, BETA_RULE] },
+  { key: 'advancedAnalytics', description: 'Cost and model usage analytics', enabled: true, rolloutPercentage: 0, rules: SUPER_ADMIN_RULES },
+  { key: 'selfHealing', description: 'Agents retry and fix their own failures', enabled: true, rolloutPercentage: 0, rules: SUPER_ADMIN_RULES },
+  { key: 'realtimeDashboard', description: 'Live dashboard updates over Socket.IO', enabled: true, rolloutPercentage: 0, rules: [...SUPER_ADMIN_RULES, BETA_RULE] }
+];
+
+const KNOWN_FLAGS: Array<keyof FeatureFlags> = ['agentOrchestration', 'aiRouting', 'advancedAnalytics', 'selfHealing', 'realtimeDashboard'];
+
+/**
+ * Stable bucket in [0, 10000) for a user, independent per flag so the
+ * same users are not always first in every rollout
+ */
+export function getRolloutBucket(flagKey: string, userId: string): number {
+  return createHash('sha1').update(`${flagKey}:${userId}`).digest().readUInt32BE(0) % ROLLOUT_BUCKETS;
+}
+
+function matchesCondition(condition: TargetingCondition, context: FlagAttributes): boolean {
+  const actual = context[condition.attribute];
+  if (actual === undefined) return condition.operator === 'not_in';
+
+  const value = String(actual);
+  const values = condition.values.map(String);
+
+  switch (condition.operator) {
+    case 'in': return values.includes(value);
+    case 'not_in': return !values.includes(value);
+    case 'contains': return values.some(v => value.includes(v));
+    case 'starts_with': return values.some(v => value.startsWith(v));
+    case 'ends_with': return values.some(v => value.endsWith(v));
+    case 'matches': return values.some(v => new RegExp(v).test(value));
+    case 'gt': return Number(actual) > Number(condition.values[0]);
+    case 'gte': return Number(actual) >= Number(condition.values[0]);
+    case 'lt': return Number(actual) < Number(condition.values[0]);
+    case 'lte': return Number(actual) <= Number(condition.values[0]);
+  }
+}
+
+/**
+ * Evaluate one flag for a context that already carries userId and segment
+ */
+export function evaluateFlag(flag: FeatureFlag | InsertFeatureFlag, context: FlagAttributes & { userId: string }): FlagEvaluation {
+  const result = (enabled: boolean, reason: EvaluationReason, ruleIndex: number | null = null): FlagEvaluation =>
+    ({ flagKey: flag.key, enabled, reason, ruleIndex });
+
+  if ('killSwitch' in flag && flag.killSwitch) return result(false, 'kill_switch');
+  if (!flag.enabled) return result(false, 'disabled');
+
+  const rules = (flag.rules as TargetingRule[] | undefined) ?? [];
+  const index = rules.findIndex(rule => rule.conditions.every(condition => matchesCondition(condition, context)));
+  if (index !== -1) return result(rules[index].serve, 'rule', index);
+
+  const percentage = flag.rolloutPercentage ?? 0;
+  if (percentage > 0 && getRolloutBucket(flag.key, context.userId) < percentage * (ROLLOUT_BUCKETS / 100)) {
+    return result(true, 'rollout');
+  }
+  return result(false, 'default');
 }
 
 export class FeatureFlagService {
+  private flags: Map<string, FeatureFlag | InsertFeatureFlag> = new Map();
+  private loadedAt = 0;
+  private seeded = false;
+  private auditBuffer: InsertFeatureFlagEvaluation[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private cacheMs = parseInt(process.env.FEATURE_FLAG_CACHE_MS || '5000', 10);
+  private flushMs = parseInt(process.env.FEATURE_FLAG_AUDIT_FLUSH_MS || '5000', 10);
+  private retentionDays = parseInt(process.env.FEATURE_FLAG_AUDIT_RETENTION_DAYS || '7', 10);
+  private prunedAt = 0;
+
+  constructor(private segments: UserSegmentationService = userSegmentation) {}
+
   /**
    * Get feature flags for a specific user
-   * Implements gradual rollout strategy from MR_BLUE_MASTER_PLAN.md Phase 5
+   * Known flags missing from the table are reported as off
    */
-  async getFlagsForUser(userId: string): Promise<FeatureFlags> {
-    // For development, simulate user roles
-    // In production, this would query the users table
-    const user = this.getUserRole(userId);
-    
-    // Super admin gets ALL features (Phase 5.1)
-    if (user.role === 'super_admin') {
-      return {
-        agentOrchestration: true,
-        aiRouting: true,
-        advancedAnalytics: true,
-        selfHealing: true,
-        realtimeDashboard: true
-      };
-    }
-    
-    // Beta users get orchestration + routing (Phase 5.2)
-    if (user.role === 'beta' || user.betaAccess) {
-      return {
-        agentOrchestration: true,
-        aiRouting: true,
-        advancedAnalytics: false,
-        selfHealing: false,
-        realtimeDashboard: true
-      };
+  async getFlagsForUser(userId: string, attributes: FlagAttributes = {}): Promise<FeatureFlags & Record<string, boolean>> {
+    const flags = await this.loadFlags();
+    const context = await this.buildContext(userId, attributes);
+
+    const result: Record<string, boolean> = {};
+    for (const key of KNOWN_FLAGS) result[key] = false;
+    for (const flag of Array.from(flags.values())) {
+      result[flag.key] = this.record(userId, evaluateFlag(flag, context)).enabled;
     }
-    
-    // Regular users get basic features only (Phase 5.3)
-    return {
-      agentOrchestration: false,
-      aiRouting: false,
-      advancedAnalytics: false,
-      selfHealing: false,
-      realtimeDashboard: false
-    };
+    return result as FeatureFlags & Record<string, boolean>;
+  }
+
+  /**
+   * Evaluate one flag with the reason it was (not) served
+   */
+  async evaluate(userId: string, flagKey: string, attributes: FlagAttributes = {}): Promise<FlagEvaluation> {
+    const flag = (await this.loadFlags()).get(flagKey);
+    const evaluation: FlagEvaluation = flag
+      ? evaluateFlag(flag, await this.buildContext(userId, attributes))
+      : { flagKey, enabled: false, reason: 'unknown_flag', ruleIndex: null };
+    return this.record(userId, evaluation);
   }
 
   /**
    * Check if a specific feature is enabled for a user
    */
   async isFeatureEnabled(
-    userId: string, 
-    feature: keyof FeatureFlags
+    userId: string,
+    feature: keyof FeatureFlags | string,
+    attributes: FlagAttributes = {}
   ): Promise<boolean> {
-    const flags = await this.getFlagsForUser(userId);
-    return flags[feature];
+    return (await this.evaluate(userId, feature, attributes)).enabled;
   }
 
   /**
-   * Get all users with a specific feature enabled
+   * Users the feature was served to within the window
    * Used for targeted rollouts and A/B testing
    */
-  async getUsersWithFeature(feature: keyof FeatureFlags): Promise<string[]> {
-    // In production, query users table
-    // For now, return mock data
-    const allUsers = ['admin-1', 'beta-1', 'beta-2', 'user-1', 'user-2'];
-    const usersWithFeature: string[] = [];
-    
-    for (const userId of allUsers) {
-      const isEnabled = await this.isFeatureEnabled(userId, feature);
-      if (isEnabled) {
-        usersWithFeature.push(userId);
-      }
+  async getUsersWithFeature(feature: keyof FeatureFlags | string, sinceMs: number = 24 * 60 * 60 * 1000): Promise<string[]> {
+    await this.flushAudit();
+    const rows = await db.selectDistinct({ userId: featureFlagEvaluations.userId })
+      .from(featureFlagEvaluations)
+      .where(and(
+        eq(featureFlagEvaluations.flagKey, feature),
+        eq(featureFlagEvaluations.enabled, true),
+        gte(featureFlagEvaluations.createdAt, new Date(Date.now() - sinceMs))
+      ));
+    return rows.map(row => row.userId);
+  }
+
+  /**
+   * Share of evaluated users (last 24h) the feature was served to
+   * Used for monitoring gradual rollout progress
+   */
+  async getRolloutPercentage(feature: keyof FeatureFlags | string): Promise<number> {
+    const exposure = (await this.getExposureCounts()).find(e => e.flagKey === feature);
+    if (!exposure || exposure.uniqueUsers === 0) return 0;
+    return (exposure.enabledUsers / exposure.uniqueUsers) * 100;
+  }
+
+  /**
+   * Evaluation counts per flag within the window
+   */
+  async getExposureCounts(sinceMs: number = 24 * 60 * 60 * 1000): Promise<FlagExposure[]> {
+    await this.flushAudit();
+    const rows = await db.select({
+      flagKey: featureFlagEvaluations.flagKey,
+      evaluations: count(),
+      enabled: sql<number>`count(*) filter (where ${featureFlagEvaluations.enabled})`.mapWith(Number),
+      uniqueUsers: sql<number>`count(distinct ${featureFlagEvaluations.userId})`.mapWith(Number),
+      enabledUsers: sql<number>`count(distinct ${featureFlagEvaluations.userId}) filter (where ${featureFlagEvaluations.enabled})`.mapWith(Number)
+    })
+      .from(featureFlagEvaluations)
+      .where(gte(featureFlagEvaluations.createdAt, new Date(Date.now() - sinceMs)))
+      .groupBy(featureFlagEvaluations.flagKey);
+    return rows;
+  }
+
+  /**
+   * Most recent evaluations of a flag (audit log)
+   */
+  async getEvaluations(flagKey: string, limit: number = 100): Promise<FeatureFlagEvaluation[]> {
+    await this.flushAudit();
+    return await db.select()
+      .from(featureFlagEvaluations)
+      .where(eq(featureFlagEvaluations.flagKey, flagKey))
+      .orderBy(desc(featureFlagEvaluations.createdAt), desc(featureFlagEvaluations.id))
+      .limit(limit);
+  }
+
+  async listFlags(): Promise<FeatureFlag[]> {
+    await this.loadFlags();
+    return storage.getFeatureFlags();
+  }
+
+  async createFlag(flag: InsertFeatureFlag): Promise<FeatureFlag> {
+    const created = await storage.createFeatureFlag(flag);
+    this.invalidate();
+    return created;
+  }
+
+  async updateFlag(key: string, updates: Partial<InsertFeatureFlag>): Promise<FeatureFlag | undefined> {
+    const updated = await storage.updateFeatureFlag(key, updates);
+    this.invalidate();
+    return updated;
+  }
+
+  async deleteFlag(key: string): Promise<boolean> {
+    const deleted = await storage.deleteFeatureFlag(key);
+    this.invalidate();
+    return deleted;
+  }
+
+  /**
+   * Engage (or release) the kill switch; takes effect on the next evaluation
+   */
+  async setKillSwitch(key: string, active: boolean, userId: string, reason?: string): Promise<FeatureFlag | undefined> {
+    const flag = await storage.setFeatureFlagKillSwitch(key, active, userId, reason);
+    this.invalidate();
+    if (flag) {
+      console.log(`[FeatureFlags] Kill switch ${active ? 'engaged' : 'released'} for ${key} by ${userId}${reason ? `: ${reason}` : ''}`);
     }
-    
-    return usersWithFeature;
+    return flag;
   }
 
   /**
-   * Simulate user role lookup
-   * In production, this would query the database
+   * Write buffered evaluations to the audit log
    */
-  private getUserRole(userId: string): UserRole {
-    // Super admin
-    if (userId.includes('admin')) {
-      return { id: userId, role: 'super_admin' };
+  async flushAudit(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
     }
-    
-    // Beta users
-    if (userId.includes('beta')) {
-      return { id: userId, role: 'beta', betaAccess: true };
+    if (this.auditBuffer.length === 0) return;
+
+    const batch = this.auditBuffer;
+    this.auditBuffer = [];
+    try {
+      await db.insert(featureFlagEvaluations).values(batch);
+    } catch (error) {
+      console.error(`[FeatureFlags] Failed to write ${batch.length} evaluation(s) to the audit log:`, error);
     }
-    
-    // Regular users
-    return { id: userId, role: 'regular' };
+    await this.pruneAudit();
   }
 
   /**
-   * Get rollout percentage for a feature
-   * Used for monitoring gradual rollout progress
+   * Drop evaluations past the retention window
    */
-  async getRolloutPercentage(feature: keyof FeatureFlags): Promise<number> {
-    const totalUsers = 100; // In production, count from users table
-    const enabledUsers = await this.getUsersWithFeature(feature);
-    return (enabledUsers.length / totalUsers) * 100;
+  private async pruneAudit(): Promise<void> {
+    if (Date.now() - this.prunedAt < PRUNE_INTERVAL_MS) return;
+    this.prunedAt = Date.now();
+
+    const cutoff = new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+    try {
+      await db.delete(featureFlagEvaluations).where(lt(featureFlagEvaluations.createdAt, cutoff));
+    } catch (error) {
+      console.error('[FeatureFlags] Failed to prune the audit log:', error);
+    }
+  }
+
+  private async buildContext(userId: string, attributes: FlagAttributes): Promise<FlagAttributes & { userId: string }> {
+    return { ...attributes, userId, segment: await this.segments.getUserSegment(userId) };
+  }
+
+  private record(userId: string, evaluation: FlagEvaluation): FlagEvaluation {
+    this.auditBuffer.push({
+      flagKey: evaluation.flagKey,
+      userId,
+      enabled: evaluation.enabled,
+      reason: evaluation.reason,
+      ruleIndex: evaluation.ruleIndex
+    });
+
+    if (this.auditBuffer.length >= 500) {
+      this.flushAudit().catch(console.error);
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flushAudit().catch(console.error);
+      }, this.flushMs);
+      this.flushTimer.unref();
+    }
+    return evaluation;
+  }
+
+  private invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  /**
+   * Flags from the database, cached for FEATURE_FLAG_CACHE_MS and seeded
+   * on first use; falls back to the last loaded flags (or the defaults)
+   * when the database is unreachable
+   */
+  private async loadFlags(): Promise<Map<string, FeatureFlag | InsertFeatureFlag>> {
+    if (Date.now() - this.loadedAt < this.cacheMs) return this.flags;
+
+    try {
+      if (!this.seeded) {
+        const [existing] = await db.select({ total: count() }).from(featureFlags);
+        if ((existing?.total ?? 0) === 0) {
+          await db.insert(featureFlags).values(DEFAULT_FEATURE_FLAGS).onConflictDoNothing();
+        }
+        this.seeded = true;
+      }
+
+      const flags = await storage.getFeatureFlags();
+      this.flags = new Map(flags.map(flag => [flag.key, flag]));
+      this.loadedAt = Date.now();
+    } catch (error) {
+      console.error('[FeatureFlags] Failed to load flags, using cached flags:', error);
+      if (this.flags.size === 0) {
+        this.flags = new Map(DEFAULT_FEATURE_FLAGS.map(flag => [flag.key, flag]));
+      }
+    }
+    return this.flags;
   }
 }
 
@@ -0,0 +1,68 @@
+/**
+ * Feature Flag Enforcement - Phase 5 Track B
+ * Agent #132: Feature Flag Manager
+ *
+ * Express middleware that only lets a request through when its user has
+ * the flag (see feature-flags.ts):
+ * - 401 when the request carries no user identity
+ * - 403 when the flag is off for the user (reason included)
+ * - 503 when flags cannot be evaluated (fail closed)
+ *
+ * User identity comes from `req.user.id` (set by an auth layer), else the
+ * `X-User-Id` header, else a `userId` query or body parameter. Until an
+ * auth layer sets req.user, the header and parameters are taken on trust.
+ */
+
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { featureFlagService, type FeatureFlagService, type FeatureFlags } from './feature-flags';
+
+type RequestWithUser = Request & { user?: { id?: string | number } };
+
+/**
+ * The user a request acts for, or null if it names none
+ */
+export function resolveUserId(req: Request): string | null {
+  const authenticated = (req as RequestWithUser).user?.id;
+  if (authenticated !== undefined && authenticated !== null && authenticated !== '') {
+    return String(authenticated);
+  }
+
+  const header = req.get('X-User-Id');
+  if (header) return header;
+
+  if (typeof req.query.userId === 'string' && req.query.userId) return req.query.userId;
+  if (req.body && typeof req.body.userId === 'string' && req.body.userId) return req.body.userId;
+
+  return null;
+}
+
+/**
+ * Middleware gating everything behind it on `flag`
+ */
+export function requireFeature(
+  flag: keyof FeatureFlags | string,
+  flags: FeatureFlagService = featureFlagService
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const userId = resolveUserId(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'User identity required', feature: flag });
+    }
+
+    try {
+      const evaluation = await flags.evaluate(userId, flag);
+      if (!evaluation.enabled) {
+        return res.status(403).json({
+          error: `Feature ${flag} is not enabled for this user`,
+          feature: flag,
+          reason: evaluation.reason
+        });
+      }
+    } catch (error) {
+      console.error(`[FeatureGate] Failed to evaluate ${flag} for ${userId}:`, error);
+      return res.status(503).json({ error: 'Feature flag evaluation failed', feature: flag });
+    }
+
+    next();
+  };
+}
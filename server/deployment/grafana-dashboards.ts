@@ -8,21 +8,30 @@
  * 2. Agent Performance Dashboard
  * 3. Cost Optimization Dashboard
  * 4. User Activity Dashboard
+ *
+ * Dashboards 1-3 query the Prometheus metrics served at GET /metrics
+ * (see prometheus-exporter.ts); panel `metric` names are the exported names.
+ * Dashboard 4 queries PostgreSQL directly.
+ *
+ * grafana-exporter.ts turns these definitions into importable Grafana JSON.
  */
 
+export type GrafanaDatasourceKind = 'prometheus' | 'postgres';
+
 export interface GrafanaDashboard {
   title: string;
   description: string;
   panels: GrafanaPanel[];
   refresh: string; // e.g., "5s", "1m", "5m"
   tags: string[];
+  datasource?: GrafanaDatasourceKind; // Defaults to 'prometheus'
 }
 
 export interface GrafanaPanel {
   title: string;
   type: 'graph' | 'stat' | 'table' | 'heatmap' | 'gauge';
-  metric: string;
-  query: string;
+  metric: string; // Metric name exported at GET /metrics
+  query: string; // PromQL, or SQL for postgres dashboards
   thresholds?: {
     warning: number;
     critical: number;
@@ -42,7 +51,7 @@ export const systemHealthDashboard: GrafanaDashboard = {
       title: 'Overall Health Score',
       type: 'gauge',
       metric: 'health_score',
-      query: 'SELECT overallHealth FROM health_checks ORDER BY timestamp DESC LIMIT 1',
+      query: 'health_score',
       thresholds: {
         warning: 80,
         critical: 60
@@ -52,7 +61,7 @@ export const systemHealthDashboard: GrafanaDashboard = {
       title: 'Database Response Time',
       type: 'graph',
       metric: 'db_response_time',
-      query: 'SELECT timestamp, responseTime FROM health_checks WHERE component="Database"',
+      query: 'db_response_time',
       thresholds: {
         warning: 500,
         critical: 1000
@@ -62,7 +71,7 @@ export const systemHealthDashboard: GrafanaDashboard = {
       title: 'Agent Availability',
       type: 'stat',
       metric: 'agent_availability',
-      query: 'SELECT (activeAgents / totalAgents) * 100 FROM agent_metrics',
+      query: 'agent_availability',
       thresholds: {
         warning: 90,
         critical: 80
@@ -72,7 +81,7 @@ export const systemHealthDashboard: GrafanaDashboard = {
       title: 'Memory Usage',
       type: 'graph',
       metric: 'memory_usage',
-      query: 'SELECT timestamp, usagePercentage FROM system_metrics',
+      query: 'memory_usage',
       thresholds: {
         warning: 80,
         critical: 90
@@ -82,13 +91,13 @@ export const systemHealthDashboard: GrafanaDashboard = {
       title: 'Active WebSocket Connections',
       type: 'stat',
       metric: 'websocket_connections',
-      query: 'SELECT activeConnections FROM websocket_metrics ORDER BY timestamp DESC LIMIT 1'
+      query: 'websocket_connections'
     },
     {
       title: 'Failed Health Checks (Last 24h)',
       type: 'table',
       metric: 'failed_checks',
-      query: 'SELECT name, message, timestamp FROM health_checks WHERE status="fail" AND timestamp > NOW() - INTERVAL 24 HOUR'
+      query: 'max_over_time(failed_checks[24h]) == 1'
     }
   ]
 };
@@ -106,13 +115,13 @@ export const agentPerformanceDashboard: GrafanaDashboard = {
       title: 'Active Agents (Current)',
       type: 'stat',
       metric: 'active_agents',
-      query: 'SELECT COUNT(*) FROM agents WHERE isActive=true'
+      query: 'active_agents'
     },
     {
       title: 'Average Agent Success Rate',
       type: 'gauge',
       metric: 'avg_success_rate',
-      query: 'SELECT AVG(successRate) FROM agent_performance_metrics',
+      query: 'avg_success_rate',
       thresholds: {
         warning: 90,
         critical: 80
@@ -122,25 +131,25 @@ export const agentPerformanceDashboard: GrafanaDashboard = {
       title: 'Top Performing Agents',
       type: 'table',
       metric: 'top_agents',
-      query: 'SELECT agentId, successRate, tasksCompleted FROM agents ORDER BY successRate DESC LIMIT 10'
+      query: 'topk(10, top_agents)'
     },
     {
       title: 'Agent Load Distribution',
       type: 'heatmap',
       metric: 'agent_load',
-      query: 'SELECT agentId, currentLoad FROM agents ORDER BY currentLoad DESC'
+      query: 'sort_desc(agent_load)'
     },
     {
       title: 'Tasks by Agent (Last Hour)',
       type: 'graph',
       metric: 'tasks_by_agent',
-      query: 'SELECT timestamp, COUNT(*) FROM tasks GROUP BY assignedAgent WHERE timestamp > NOW() - INTERVAL 1 HOUR'
+      query: 'sum by (agent_id) (increase(tasks_by_agent[1h]))'
     },
     {
       title: 'Agent Collaboration Events',
       type: 'graph',
       metric: 'collaboration_events',
-      query: 'SELECT timestamp, COUNT(*) FROM agent_collaboration GROUP BY HOUR(timestamp)'
+      query: 'increase(collaboration_events[1h])'
     }
   ]
 };
@@ -158,7 +167,7 @@ export const costOptimizationDashboard: GrafanaDashboard = {
       title: 'Cost Savings %',
       type: 'gauge',
       metric: 'cost_savings_percent',
-      query: 'SELECT savingsPercent FROM cost_savings ORDER BY timestamp DESC LIMIT 1',
+      query: 'cost_savings_percent',
       thresholds: {
         warning: 80, // 80% of 87% target
         critical: 70
@@ -168,31 +177,31 @@ export const costOptimizationDashboard: GrafanaDashboard = {
       title: 'Actual vs Baseline Cost',
       type: 'graph',
       metric: 'cost_comparison',
-      query: 'SELECT timestamp, actualCost, baselineCost FROM cost_savings'
+      query: 'sum by (kind) (cost_comparison)'
     },
     {
       title: 'Model Usage Distribution',
       type: 'stat',
       metric: 'model_distribution',
-      query: 'SELECT model, COUNT(*) FROM ai_usage GROUP BY model'
+      query: 'sum by (model) (model_distribution)'
     },
     {
       title: 'Cost Per Request',
       type: 'graph',
       metric: 'cost_per_request',
-      query: 'SELECT timestamp, AVG(costPerRequest) FROM ai_usage GROUP BY DATE(timestamp)'
+      query: 'cost_per_request'
     },
     {
       title: 'Total AI Requests',
       type: 'stat',
       metric: 'total_requests',
-      query: 'SELECT COUNT(*) FROM ai_usage'
+      query: 'total_requests'
     },
     {
       title: 'Average Tokens Used',
       type: 'graph',
       metric: 'avg_tokens',
-      query: 'SELECT timestamp, AVG(tokensUsed) FROM ai_usage GROUP BY HOUR(timestamp)'
+      query: 'avg_tokens'
     }
   ]
 };
@@ -205,48 +214,49 @@ export const userActivityDashboard: GrafanaDashboard = {
   description: 'User engagement and adoption metrics',
   refresh: '1m',
   tags: ['users', 'activity', 'mr-blue'],
+  datasource: 'postgres',
   panels: [
     {
       title: 'Active Users (Last 24h)',
       type: 'stat',
       metric: 'active_users_24h',
-      query: 'SELECT COUNT(DISTINCT userId) FROM user_activity WHERE timestamp > NOW() - INTERVAL 24 HOUR'
+      query: "SELECT COUNT(DISTINCT user_id) AS value FROM agent_tasks WHERE created_at > NOW() - INTERVAL '24 hours'"
     },
     {
       title: 'Feature Adoption Rate',
       type: 'table',
       metric: 'feature_adoption',
-      query: 'SELECT feature, COUNT(DISTINCT userId) as users FROM feature_usage GROUP BY feature'
+      query: "SELECT pattern_data->>'feature' AS feature, COUNT(DISTINCT user_id) AS users FROM user_behavior_patterns WHERE pattern_type = 'feature_usage' GROUP BY 1 ORDER BY users DESC"
     },
     {
-      title: 'User Segmentation',
+      title: 'Users by Behavior Pattern',
       type: 'stat',
-      metric: 'user_segments',
-      query: 'SELECT segment, COUNT(*) FROM user_segments GROUP BY segment'
+      metric: 'user_patterns',
+      query: 'SELECT pattern_type AS pattern, COUNT(DISTINCT user_id) AS users FROM user_behavior_patterns GROUP BY pattern_type'
     },
     {
-      title: 'Beta User Feedback',
+      title: 'Recent User-Facing Failures',
       type: 'table',
-      metric: 'beta_feedback',
-      query: 'SELECT userId, feedback, rating, timestamp FROM user_feedback WHERE userSegment="beta" ORDER BY timestamp DESC LIMIT 20'
+      metric: 'user_failures',
+      query: 'SELECT user_id, action_type, error_message, created_at FROM failed_actions WHERE user_id IS NOT NULL ORDER BY created_at DESC LIMIT 20'
     },
     {
       title: 'Task Creation Over Time',
       type: 'graph',
       metric: 'task_creation',
-      query: 'SELECT timestamp, COUNT(*) FROM tasks GROUP BY HOUR(timestamp)'
+      query: "SELECT date_trunc('hour', created_at) AS time, COUNT(*) AS tasks FROM agent_tasks WHERE $__timeFilter(created_at) GROUP BY 1 ORDER BY 1"
     },
     {
       title: 'User Journey Analytics',
-      type: 'graph',
+      type: 'table',
       metric: 'user_journey',
-      query: 'SELECT page, COUNT(*) as visits FROM page_views GROUP BY page ORDER BY visits DESC'
+      query: "SELECT pattern_data->>'page' AS page, SUM(frequency) AS visits FROM user_behavior_patterns WHERE pattern_type = 'navigation' GROUP BY 1 ORDER BY visits DESC"
     }
   ]
 };
 
 /**
- * Export all dashboards as JSON for Grafana import
+ * All dashboard definitions keyed by slug (see grafana-exporter.ts for Grafana JSON)
  */
 export function exportDashboardsForGrafana(): Record<string, GrafanaDashboard> {
   return {
@@ -256,34 +266,3 @@ export function exportDashboardsForGrafana(): Record<string, GrafanaDashboard> {
     'user-activity': userActivityDashboard
   };
 }
-
-/**
- * Generate Grafana dashboard JSON configuration
- * This would be imported into Grafana Cloud
- */
-export function generateGrafanaConfig(dashboard: GrafanaDashboard): string {
-  return JSON.stringify({
-    dashboard: {
-      title: dashboard.title,
-      description: dashboard.description,
-      tags: dashboard.tags,
-      refresh: dashboard.refresh,
-      panels: dashboard.panels.map((panel, index) => ({
-        id: index + 1,
-        gridPos: { h: 8, w: 12, x: (index % 2) * 12, y: Math.floor(index / 2) * 8 },
-        title: panel.title,
-        type: panel.type,
-        targets: [
-          {
-            expr: panel.query,
-            refId: 'A'
-          }
-        ],
-        thresholds: panel.thresholds ? [
-          { value: panel.thresholds.warning, color: 'yellow' },
-          { value: panel.thresholds.critical, color: 'red' }
-        ] : []
-      }))
-    }
-  }, null, 2);
-}
@@ -0,0 +1,104 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { exportDashboardsForGrafana, type GrafanaDashboard } from './grafana-dashboards';
+import {
+  GrafanaExporter,
+  GrafanaSchemaError,
+  buildThresholdSteps,
+  validateGrafanaDashboard
+} from './grafana-exporter';
+
+const exporter = new GrafanaExporter({ prometheusUid: 'prom-test', postgresUid: 'pg-test' });
+
+describe('GrafanaExporter', () => {
+  test('every dashboard survives a JSON round trip unchanged', () => {
+    const definitions = exportDashboardsForGrafana();
+    const exported = exporter.exportAll();
+    assert.deepEqual(Object.keys(exported), Object.keys(definitions));
+
+    for (const [slug, dashboard] of Object.entries(exported)) {
+      const reparsed = validateGrafanaDashboard(JSON.parse(JSON.stringify(dashboard)));
+      assert.deepEqual(reparsed, dashboard, `${slug} changed on round trip`);
+      assert.equal(dashboard.uid, `mr-blue-${slug}`);
+
+      const source = definitions[slug];
+      assert.equal(dashboard.panels.length, source.panels.length);
+      dashboard.panels.forEach((panel, i) => {
+        const target = panel.targets[0] as { expr?: string; rawSql?: string };
+        assert.equal(target.expr ?? target.rawSql, source.panels[i].query);
+        assert.ok(panel.gridPos.x + panel.gridPos.w <= 24, `${slug} panel ${panel.id} overflows the grid`);
+      });
+    }
+  });
+
+  test('references the configured datasource on panels and targets', () => {
+    const exported = exporter.exportAll();
+
+    const prometheus = exported['system-health'].panels[0];
+    assert.deepEqual(prometheus.datasource, { type: 'prometheus', uid: 'prom-test' });
+    assert.deepEqual(prometheus.targets[0].datasource, prometheus.datasource);
+
+    const postgres = exported['user-activity'].panels[0];
+    assert.deepEqual(postgres.datasource, { type: 'grafana-postgresql-datasource', uid: 'pg-test' });
+    assert.equal(typeof (postgres.targets[0] as { rawSql?: string }).rawSql, 'string');
+  });
+
+  test('threshold colours follow the direction of the thresholds', () => {
+    assert.deepEqual(buildThresholdSteps({ warning: 500, critical: 1000 }).map(s => s.color), ['green', 'yellow', 'red']);
+    assert.deepEqual(buildThresholdSteps({ warning: 80, critical: 60 }), [
+      { color: 'red', value: null },
+      { color: 'yellow', value: 60 },
+      { color: 'green', value: 80 }
+    ]);
+  });
+
+  test('rejects a dashboard that does not match the schema', () => {
+    const broken: GrafanaDashboard = {
+      title: 'Broken',
+      description: 'Thresholds out of order',
+      refresh: '1m',
+      tags: [],
+      panels: [{ title: 'Latency', type: 'stat', metric: 'latency', query: 'latency', thresholds: { warning: 5, critical: 5 } }]
+    };
+    assert.throws(() => exporter.toDashboardJson('broken', broken), GrafanaSchemaError);
+    assert.throws(() => validateGrafanaDashboard({ uid: 'x', panels: [] }), GrafanaSchemaError);
+  });
+
+  test('getImportPayload wraps the dashboard for the Grafana API', () => {
+    const payload = new GrafanaExporter({ folderUid: 'ops' }).getImportPayload('cost-optimization');
+    assert.equal(payload?.overwrite, true);
+    assert.equal(payload?.folderUid, 'ops');
+    assert.equal(payload?.dashboard.uid, 'mr-blue-cost-optimization');
+    assert.equal(exporter.getImportPayload('missing'), null);
+  });
+});
+
+describe('GrafanaExporter.writeProvisioningFiles', () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'grafana-'));
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('written dashboard files parse back to the exported JSON', async () => {
+    const written = await exporter.writeProvisioningFiles(dir);
+    const exported = exporter.exportAll();
+
+    for (const slug of Object.keys(exported)) {
+      const file = path.join(dir, 'dashboards', 'mr-blue', `${slug}.json`);
+      assert.ok(written.includes(file));
+      assert.deepEqual(validateGrafanaDashboard(JSON.parse(readFileSync(file, 'utf8'))), exported[slug]);
+    }
+
+    const datasources = readFileSync(path.join(dir, 'datasources', 'mr-blue.yaml'), 'utf8');
+    assert.match(datasources, /uid: "prom-test"/);
+    assert.match(datasources, /password: "\$GRAFANA_POSTGRES_PASSWORD"/, 'password stays an env reference');
+  });
+});
@@ -0,0 +1,483 @@
+/**
+ * Grafana Exporter - Phase 5 Track C
+ * Agent #138: Dashboard Builder
+ *
+ * Turns the definitions in grafana-dashboards.ts into dashboard JSON that
+ * Grafana imports unchanged:
+ * - schemaVersion, uid, time range, templating and annotations
+ * - 24-column gridPos layout
+ * - Prometheus or PostgreSQL datasource references on every panel and target
+ * - Threshold steps built from GrafanaPanel.thresholds
+ *
+ * Every generated dashboard is serialized, parsed back and validated against
+ * the dashboard schema before it is returned. writeProvisioningFiles() emits
+ * the dashboards plus datasource/dashboard provider YAML for file provisioning.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import {
+  exportDashboardsForGrafana,
+  type GrafanaDashboard,
+  type GrafanaDatasourceKind,
+  type GrafanaPanel
+} from './grafana-dashboards';
+
+// Dashboard JSON model version targeted by the export (Grafana 10.x)
+export const GRAFANA_SCHEMA_VERSION = 39;
+
+const GRID_COLUMNS = 24;
+
+const DATASOURCE_TYPES: Record<GrafanaDatasourceKind, string> = {
+  prometheus: 'prometheus',
+  postgres: 'grafana-postgresql-datasource'
+};
+
+const PANEL_TYPES: Record<GrafanaPanel['type'], string> = {
+  graph: 'timeseries',
+  stat: 'stat',
+  table: 'table',
+  heatmap: 'heatmap',
+  gauge: 'gauge'
+};
+
+// Single-value panels take a quarter row, everything else half a row
+const PANEL_SIZES: Record<GrafanaPanel['type'], { w: number; h: number }> = {
+  graph: { w: 12, h: 8 },
+  stat: { w: 6, h: 6 },
+  table: { w: 12, h: 8 },
+  heatmap: { w: 12, h: 8 },
+  gauge: { w: 6, h: 6 }
+};
+
+export interface DatasourceRef {
+  type: string;
+  uid: string;
+}
+
+export interface ThresholdStep {
+  color: string;
+  value: number | null; // null is the base step (-Infinity)
+}
+
+const datasourceRefSchema = z.object({
+  type: z.enum([DATASOURCE_TYPES.prometheus, DATASOURCE_TYPES.postgres]),
+  uid: z.string().min(1)
+});
+
+const thresholdStepSchema = z.object({
+  color: z.string().min(1),
+  value: z.number().nullable()
+});
+
+const targetSchema = z.object({
+  refId: z.string().min(1),
+  datasource: datasourceRefSchema
+}).passthrough().refine(
+  t => typeof t.expr === 'string' || typeof t.rawSql === 'string',
+  { message: 'Target needs a PromQL expr or a rawSql query' }
+);
+
+const panelSchema = z.object({
+  id: z.number().int().positive(),
+  type: z.enum(['timeseries', 'stat', 'table', 'heatmap', 'gauge']),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  datasource: datasourceRefSchema,
+  gridPos: z.object({
+    h: z.number().int().positive(),
+    w: z.number().int().positive().max(GRID_COLUMNS),
+    x: z.number().int().nonnegative(),
+    y: z.number().int().nonnegative()
+  }).refine(p => p.x + p.w <= GRID_COLUMNS, { message: `Panel overflows the ${GRID_COLUMNS}-column grid` }),
+  targets: z.array(targetSchema).min(1),
+  fieldConfig: z.object({
+    defaults: z.object({
+      thresholds: z.object({
+        mode: z.enum(['absolute', 'percentage']),
+        steps: z.array(thresholdStepSchema).min(1)
+      }).superRefine((thresholds, ctx) => {
+        const [base, ...rest] = thresholds.steps;
+        if (base.value !== null) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'First threshold step must be the null base step' });
+        }
+        for (let i = 0; i < rest.length; i++) {
+          const value = rest[i].value;
+          const previous = i === 0 ? null : rest[i - 1].value;
+          if (value === null || (previous !== null && value <= previous)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Threshold steps must ascend after the base step' });
+          }
+        }
+      })
+    }).passthrough(),
+    overrides: z.array(z.unknown())
+  }),
+  options: z.record(z.unknown())
+});
+
+/**
+ * Grafana dashboard JSON model (the subset this exporter emits)
+ */
+export const grafanaDashboardSchema = z.object({
+  id: z.null(),
+  uid: z.string().min(1).max(40).regex(/^[a-zA-Z0-9_-]+$/),
+  title: z.string().min(1),
+  description: z.string(),
+  tags: z.array(z.string()),
+  editable: z.boolean(),
+  refresh: z.string().regex(/^\d+[smhd]$/),
+  schemaVersion: z.number().int().min(36),
+  version: z.number().int().nonnegative(),
+  timezone: z.string(),
+  time: z.object({ from: z.string(), to: z.string() }),
+  templating: z.object({ list: z.array(z.unknown()) }),
+  annotations: z.object({ list: z.array(z.unknown()) }),
+  panels: z.array(panelSchema).min(1)
+}).superRefine((dashboard, ctx) => {
+  const ids = new Set<number>();
+  for (const panel of dashboard.panels) {
+    if (ids.has(panel.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate panel id ${panel.id}` });
+    }
+    ids.add(panel.id);
+
+    const refIds = panel.targets.map(t => t.refId);
+    if (new Set(refIds).size !== refIds.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate refId in panel "${panel.title}"` });
+    }
+  }
+});
+
+export type GrafanaDashboardJson = z.infer<typeof grafanaDashboardSchema>;
+
+export interface GrafanaImportPayload {
+  dashboard: GrafanaDashboardJson;
+  overwrite: boolean;
+  folderUid?: string;
+}
+
+export interface GrafanaExporterOptions {
+  prometheusUid: string;
+  postgresUid: string;
+  folderUid?: string;
+}
+
+/**
+ * Thrown when a generated dashboard does not survive the schema round trip
+ */
+export class GrafanaSchemaError extends Error {
+  constructor(public readonly dashboardUid: string, public readonly issues: string[]) {
+    super(`Grafana dashboard ${dashboardUid} failed schema validation: ${issues.join('; ')}`);
+    this.name = 'GrafanaSchemaError';
+  }
+}
+
+/**
+ * Serialize, parse back and validate a dashboard
+ * Throws GrafanaSchemaError listing every issue
+ */
+export function validateGrafanaDashboard(dashboard: unknown): GrafanaDashboardJson {
+  const roundTripped = JSON.parse(JSON.stringify(dashboard));
+  const result = grafanaDashboardSchema.safeParse(roundTripped);
+  if (!result.success) {
+    const uid = typeof roundTripped?.uid === 'string' ? roundTripped.uid : 'unknown';
+    throw new GrafanaSchemaError(uid, result.error.errors.map(e => `${e.path.join('.') || 'dashboard'}: ${e.message}`));
+  }
+  return result.data;
+}
+
+/**
+ * Threshold steps for a panel. `critical < warning` means lower is worse
+ * (success rates, savings), so the colours run red → yellow → green.
+ */
+export function buildThresholdSteps(thresholds?: GrafanaPanel['thresholds']): ThresholdStep[] {
+  if (!thresholds) {
+    return [{ color: 'green', value: null }];
+  }
+
+  const { warning, critical } = thresholds;
+  if (critical < warning) {
+    return [
+      { color: 'red', value: null },
+      { color: 'yellow', value: critical },
+      { color: 'green', value: warning }
+    ];
+  }
+  return [
+    { color: 'green', value: null },
+    { color: 'yellow', value: warning },
+    { color: 'red', value: critical }
+  ];
+}
+
+export class GrafanaExporter {
+  private options: GrafanaExporterOptions;
+
+  constructor(options: Partial<GrafanaExporterOptions> = {}) {
+    this.options = {
+      prometheusUid: options.prometheusUid ?? process.env.GRAFANA_PROMETHEUS_UID ?? 'prometheus',
+      postgresUid: options.postgresUid ?? process.env.GRAFANA_POSTGRES_UID ?? 'postgres',
+      folderUid: options.folderUid ?? process.env.GRAFANA_FOLDER_UID
+    };
+  }
+
+  /**
+   * Validated Grafana JSON for every dashboard, keyed by slug
+   */
+  exportAll(): Record<string, GrafanaDashboardJson> {
+    return Object.fromEntries(
+      Object.entries(exportDashboardsForGrafana()).map(([slug, dashboard]) => [slug, this.toDashboardJson(slug, dashboard)])
+    );
+  }
+
+  /**
+   * Body for Grafana's POST /api/dashboards/db, or null for an unknown slug
+   */
+  getImportPayload(slug: string): GrafanaImportPayload | null {
+    const dashboard = exportDashboardsForGrafana()[slug];
+    if (!dashboard) return null;
+
+    return {
+      dashboard: this.toDashboardJson(slug, dashboard),
+      overwrite: true,
+      ...(this.options.folderUid ? { folderUid: this.options.folderUid } : {})
+    };
+  }
+
+  /**
+   * Convert one definition to validated Grafana dashboard JSON
+   */
+  toDashboardJson(slug: string, dashboard: GrafanaDashboard): GrafanaDashboardJson {
+    const datasource = this.getDatasourceRef(dashboard.datasource ?? 'prometheus');
+    const layout = this.layoutPanels(dashboard.panels);
+
+    const json = {
+      id: null,
+      uid: `mr-blue-${slug}`,
+      title: dashboard.title,
+      description: dashboard.description,
+      tags: dashboard.tags,
+      editable: true,
+      refresh: dashboard.refresh,
+      schemaVersion: GRAFANA_SCHEMA_VERSION,
+      version: 1,
+      timezone: 'browser',
+      time: { from: 'now-24h', to: 'now' },
+      templating: { list: [] },
+      annotations: {
+        list: [{
+          builtIn: 1,
+          datasource: { type: 'grafana', uid: '-- Grafana --' },
+          enable: true,
+          hide: true,
+          iconColor: 'rgba(0, 211, 255, 1)',
+          name: 'Annotations & Alerts',
+          type: 'dashboard'
+        }]
+      },
+      panels: dashboard.panels.map((panel, index) => ({
+        id: index + 1,
+        type: PANEL_TYPES[panel.type],
+        title: panel.title,
+        description: `Metric: ${panel.metric}`,
+        datasource,
+        gridPos: layout[index],
+        targets: [this.buildTarget(panel, datasource)],
+        fieldConfig: {
+          defaults: {
+            color: { mode: panel.thresholds ? 'thresholds' : 'palette-classic' },
+            thresholds: { mode: 'absolute', steps: buildThresholdSteps(panel.thresholds) }
+          },
+          overrides: []
+        },
+        options: this.buildOptions(panel)
+      }))
+    };
+
+    const validated = validateGrafanaDashboard(json);
+    this.assertQueriesPreserved(dashboard, validated);
+    return validated;
+  }
+
+  /**
+   * Write file-provisioning config under `dir`:
+   * - datasources/mr-blue.yaml
+   * - dashboards/mr-blue.yaml (file provider)
+   * - dashboards/mr-blue/<slug>.json
+   */
+  async writeProvisioningFiles(dir: string = this.getProvisioningDir()): Promise<string[]> {
+    const root = path.resolve(dir);
+    const dashboardsDir = path.join(root, 'dashboards', 'mr-blue');
+    const datasourcesDir = path.join(root, 'datasources');
+
+    await fs.mkdir(dashboardsDir, { recursive: true });
+    await fs.mkdir(datasourcesDir, { recursive: true });
+
+    const written: string[] = [];
+    const write = async (file: string, content: string) => {
+      await fs.writeFile(file, content, 'utf8');
+      written.push(file);
+    };
+
+    for (const [slug, dashboard] of Object.entries(this.exportAll())) {
+      await write(path.join(dashboardsDir, `${slug}.json`), JSON.stringify(dashboard, null, 2) + '\n');
+    }
+    await write(path.join(root, 'dashboards', 'mr-blue.yaml'), this.renderDashboardProvider(dashboardsDir));
+    await write(path.join(datasourcesDir, 'mr-blue.yaml'), this.renderDatasources());
+
+    return written;
+  }
+
+  getProvisioningDir(): string {
+    return process.env.GRAFANA_PROVISIONING_DIR || path.join(process.cwd(), '.grafana', 'provisioning');
+  }
+
+  private getDatasourceRef(kind: GrafanaDatasourceKind): DatasourceRef {
+    return {
+      type: DATASOURCE_TYPES[kind],
+      uid: kind === 'prometheus' ? this.options.prometheusUid : this.options.postgresUid
+    };
+  }
+
+  private buildTarget(panel: GrafanaPanel, datasource: DatasourceRef): Record<string, unknown> {
+    if (datasource.type === DATASOURCE_TYPES.postgres) {
+      return {
+        refId: 'A',
+        datasource,
+        rawSql: panel.query,
+        rawQuery: true,
+        editorMode: 'code',
+        format: panel.type === 'graph' ? 'time_series' : 'table'
+      };
+    }
+
+    // Tables and single-value panels want the latest sample, not a range
+    const instant = panel.type === 'table' || panel.type === 'stat' || panel.type === 'gauge';
+    return {
+      refId: 'A',
+      datasource,
+      expr: panel.query,
+      instant,
+      range: !instant,
+      format: panel.type === 'table' ? 'table' : 'time_series',
+      legendFormat: '__auto'
+    };
+  }
+
+  private buildOptions(panel: GrafanaPanel): Record<string, unknown> {
+    const reduceOptions = { calcs: ['lastNotNull'], fields: '', values: false };
+
+    switch (panel.type) {
+      case 'stat':
+        return { reduceOptions, colorMode: 'value', graphMode: 'area', textMode: 'auto' };
+      case 'gauge':
+        return { reduceOptions, showThresholdMarkers: true, showThresholdLabels: false };
+      case 'table':
+        return { showHeader: true, cellHeight: 'sm' };
+      case 'heatmap':
+        return { calculate: false, color: { mode: 'scheme', scheme: 'Oranges' } };
+      case 'graph':
+        return {
+          legend: { displayMode: 'list', placement: 'bottom', showLegend: true },
+          tooltip: { mode: 'multi', sort: 'none' }
+        };
+    }
+  }
+
+  /**
+   * Flow panels left to right, wrapping when the row is full
+   */
+  private layoutPanels(panels: GrafanaPanel[]): Array<{ h: number; w: number; x: number; y: number }> {
+    let x = 0;
+    let y = 0;
+    let rowHeight = 0;
+
+    return panels.map(panel => {
+      const { w, h } = PANEL_SIZES[panel.type];
+      if (x + w > GRID_COLUMNS) {
+        x = 0;
+        y += rowHeight;
+        rowHeight = 0;
+      }
+      const pos = { h, w, x, y };
+      x += w;
+      rowHeight = Math.max(rowHeight, h);
+      return pos;
+    });
+  }
+
+  /**
+   * The round trip must keep every panel and its query intact
+   */
+  private assertQueriesPreserved(source: GrafanaDashboard, json: GrafanaDashboardJson): void {
+    const issues: string[] = [];
+    if (json.panels.length !== source.panels.length) {
+      issues.push(`expected ${source.panels.length} panels, got ${json.panels.length}`);
+    }
+    source.panels.forEach((panel, i) => {
+      const target = json.panels[i]?.targets[0] as { expr?: string; rawSql?: string } | undefined;
+      if ((target?.expr ?? target?.rawSql) !== panel.query) {
+        issues.push(`panel "${panel.title}" lost its query`);
+      }
+    });
+    if (issues.length > 0) {
+      throw new GrafanaSchemaError(json.uid, issues);
+    }
+  }
+
+  private renderDashboardProvider(dashboardsDir: string): string {
+    return [
+      'apiVersion: 1',
+      'providers:',
+      '  - name: mr-blue',
+      '    folder: "Mr Blue"',
+      '    type: file',
+      '    disableDeletion: false',
+      '    allowUiUpdates: false',
+      '    updateIntervalSeconds: 30',
+      '    options:',
+      `      path: ${JSON.stringify(dashboardsDir)}`,
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Datasource YAML. Connection details come from the environment; the
+   * Postgres password stays a Grafana env reference and is never written out.
+   */
+  private renderDatasources(): string {
+    const prometheusUrl = process.env.GRAFANA_PROMETHEUS_URL || 'http://localhost:9090';
+    const lines = [
+      'apiVersion: 1',
+      'datasources:',
+      '  - name: "Mr Blue Prometheus"',
+      `    type: ${DATASOURCE_TYPES.prometheus}`,
+      `    uid: ${JSON.stringify(this.options.prometheusUid)}`,
+      '    access: proxy',
+      `    url: ${JSON.stringify(prometheusUrl)}`,
+      '    isDefault: true'
+    ];
+
+    const databaseUrl = process.env.DATABASE_URL;
+    if (databaseUrl) {
+      const url = new URL(databaseUrl);
+      lines.push(
+        '  - name: "Mr Blue PostgreSQL"',
+        `    type: ${DATASOURCE_TYPES.postgres}`,
+        `    uid: ${JSON.stringify(this.options.postgresUid)}`,
+        `    url: ${JSON.stringify(`${url.hostname}:${url.port || '5432'}`)}`,
+        `    user: ${JSON.stringify(decodeURIComponent(url.username))}`,
+        '    jsonData:',
+        `      database: ${JSON.stringify(url.pathname.replace(/^\//, ''))}`,
+        `      sslmode: ${JSON.stringify(url.searchParams.get('sslmode') || 'require')}`,
+        '    secureJsonData:',
+        '      password: "$GRAFANA_POSTGRES_PASSWORD"'
+      );
+    }
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+export const grafanaExporter = new GrafanaExporter();
@@ -0,0 +1,70 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { createServer, type Server } from 'http';
+import type { Server as SocketIOServer } from 'socket.io';
+import { HealthCheckService, PROBE_ROUTES } from './health-check';
+
+describe('HealthCheckService API probes', () => {
+  const requested: string[] = [];
+  let server: Server;
+
+  before(async () => {
+    const app = express();
+    app.use((req, _res, next) => {
+      requested.push(req.path);
+      next();
+    });
+    app.get('/api/agents', (_req, res) => res.json([]));
+    app.get('/api/builds', (_req, res) => res.status(500).json({ error: 'down' }));
+    // Stands in for the SPA fallback, which answers 200 for any path
+    app.use((_req, res) => res.send('<html></html>'));
+
+    server = createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function createService(probeEndpoints: string[]) {
+    const service = new HealthCheckService({ probeEndpoints, probeTimeoutMs: 1000 });
+    const app = express();
+    const io = { engine: { clientsCount: 0 } } as unknown as SocketIOServer;
+    service.attach(app, server, io);
+    return service;
+  }
+
+  test('passes when every listed endpoint answers 2xx', async () => {
+    const status = await createService(['/api/agents']).runHealthChecks({ only: ['api'] });
+    assert.equal(status.status, 'healthy');
+    assert.equal(status.checks[0].message, '1 critical endpoints responding');
+  });
+
+  test('fails on an error response', async () => {
+    const status = await createService(['/api/agents', '/api/builds']).runHealthChecks({ only: ['api'] });
+    assert.equal(status.status, 'unhealthy');
+    assert.match(status.checks[0].message, /1\/2 endpoints failing: \/api\/builds/);
+  });
+
+  test('never requests endpoints outside PROBE_ROUTES', async () => {
+    assert.ok(!PROBE_ROUTES.includes('/api/ai/cost-savings'));
+    requested.length = 0;
+
+    const status = await createService(['/api/ai/cost-savings', '/api/unknown']).runHealthChecks({ only: ['api'] });
+    assert.equal(status.status, 'unhealthy', 'the catch-all 200 does not count');
+    assert.deepEqual(requested, []);
+  });
+
+  test('sends the probe headers', async () => {
+    const headers: Record<string, string | undefined> = {};
+    server.once('request', req => {
+      headers.probe = req.headers['x-health-probe'] as string | undefined;
+      headers.user = req.headers['x-user-id'] as string | undefined;
+    });
+
+    await createService(['/api/agents']).runHealthChecks({ only: ['api'] });
+    assert.deepEqual(headers, { probe: '1', user: 'admin-1' });
+  });
+});
@@ -1,16 +1,29 @@
 /**
  * Metrics Collection System - Phase 5 Track C
  * Agent #136: Metrics Collector
- * 
+ *
  * Collects and aggregates performance metrics:
- * - Agent success rates
- * - Task completion times
- * - Error rates by component
- * - Cost per request (AI models)
+ * - Agent success rates (agent_capabilities)
+ * - Task completion times (agent_tasks)
+ * - Error rates by component (HTTP instrumentation, see request-metrics.ts)
+ * - Cost per request (ai_usage_metrics)
  * - Load balancing efficiency
- * - WebSocket connection health
+ * - WebSocket connection health (Socket.IO instrumentation)
+ *
+ * Live samples (requests, socket events) are kept in a time-windowed
+ * in-memory store (METRICS_WINDOW_MS, default 15 minutes). Snapshots of
+ * the full metrics can be persisted to metric_snapshots on an interval.
+ * Requests served through the deployment proxy are also kept per release
+ * version for canary analysis.
  */
 
+import { db } from '../db';
+import { agentCapabilities, agentTasks, aiUsageMetrics, builds, metricSnapshots, type MetricSnapshot } from '@shared/schema';
+import { and, desc, eq, gte, isNotNull, sql } from 'drizzle-orm';
+import type { Server as SocketIOServer } from 'socket.io';
+import { pricingService } from '../ai/pricing';
+import { DEFAULT_USAGE_WINDOW_DAYS } from '../ai/model-router';
+
 export interface SystemMetrics {
   timestamp: string;
   agents: AgentMetrics;
@@ -40,7 +53,8 @@ export interface APIMetrics {
   totalRequests: number;
   averageResponseTime: number; // milliseconds
   errorRate: number; // percentage
-  requestsByEndpoint: Record<string, number>;
+  requestsByEndpoint: Record<string, number>; // Keyed by route pattern
+  p50ResponseTime: number;
   p95ResponseTime: number;
   p99ResponseTime: number;
 }
@@ -60,120 +74,329 @@ export interface WebSocketMetrics {
   reconnections: number;
 }
 
+export interface VersionMetrics {
+  version: string;
+  requests: number;
+  errors: number; // 5xx
+  errorRate: number; // percentage
+  p95ResponseTime: number;
+  tasks: { completed: number; failed: number }; // Builds run by the version
+}
+
+export interface RequestSample {
+  endpoint: string;
+  method: string;
+  statusCode: number;
+  durationMs: number;
+}
+
+interface TimedSample<T> {
+  value: T;
+  timestamp: number;
+}
+
+/**
+ * Samples older than the window are dropped on write and ignored on read
+ */
+export class MetricWindow<T = unknown> {
+  private samples: TimedSample<T>[] = [];
+
+  constructor(private windowMs: number) {}
+
+  push(value: T, timestamp: number = Date.now()): void {
+    this.samples.push({ value, timestamp });
+    this.prune(timestamp);
+  }
+
+  values(sinceMs: number = this.windowMs): T[] {
+    const cutoff = Date.now() - sinceMs;
+    return this.samples.filter(s => s.timestamp >= cutoff).map(s => s.value);
+  }
+
+  entries(sinceMs: number = this.windowMs): TimedSample<T>[] {
+    const cutoff = Date.now() - sinceMs;
+    return this.samples.filter(s => s.timestamp >= cutoff);
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.windowMs;
+    // Samples arrive in time order, so drop from the front
+    let drop = 0;
+    while (drop < this.samples.length && this.samples[drop].timestamp < cutoff) drop++;
+    if (drop > 0) this.samples.splice(0, drop);
+  }
+}
+
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index];
+}
+
 export class MetricsCollector {
-  private metrics: Map<string, unknown[]> = new Map();
+  private windowMs: number = parseInt(process.env.METRICS_WINDOW_MS || String(15 * 60 * 1000), 10);
+  private metrics: Map<string, MetricWindow> = new Map();
+  private requests = new MetricWindow<RequestSample>(this.windowMs);
+  private versionRequests: Map<string, MetricWindow<RequestSample>> = new Map();
+  private socketMessages = new MetricWindow<'in' | 'out'>(this.windowMs);
+  private socketLatencies = new MetricWindow<number>(this.windowMs);
+  private socketReconnections = new MetricWindow<string>(this.windowMs);
+  private activeConnections = 0;
   private startTime: number = Date.now();
+  private snapshotTimer: NodeJS.Timeout | null = null;
 
   /**
    * Collect current system metrics
    */
   async collectMetrics(): Promise<SystemMetrics> {
+    const [agents, tasks, api, ai, websocket] = await Promise.all([
+      this.collectAgentMetrics(),
+      this.collectTaskMetrics(),
+      this.collectAPIMetrics(),
+      this.collectAIMetrics(),
+      this.collectWebSocketMetrics()
+    ]);
+
     return {
       timestamp: new Date().toISOString(),
-      agents: await this.collectAgentMetrics(),
-      tasks: await this.collectTaskMetrics(),
-      api: await this.collectAPIMetrics(),
-      ai: await this.collectAIMetrics(),
-      websocket: await this.collectWebSocketMetrics()
+      agents,
+      tasks,
+      api,
+      ai,
+      websocket
     };
   }
 
   /**
-   * Collect agent performance metrics
+   * Collect agent performance metrics from agent_capabilities
    */
   private async collectAgentMetrics(): Promise<AgentMetrics> {
-    // In production, query from database
-    // For now, return mock metrics
+    const agents = await db.select().from(agentCapabilities);
+    const active = agents.filter(a => a.isActive);
+
+    const average = (values: number[]) =>
+      values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+    // Only agents that have finished work have a meaningful success rate
+    const topPerformers = active
+      .filter(a => a.totalTasksCompleted > 0)
+      .sort((a, b) => b.successRate - a.successRate || b.totalTasksCompleted - a.totalTasksCompleted)
+      .slice(0, 3)
+      .map(a => ({ agentId: a.agentId, successRate: a.successRate }));
+
     return {
-      totalAgents: 112,
-      activeAgents: 98,
-      averageSuccessRate: 94.5,
-      averageLoad: 3.2,
-      topPerformers: [
-        { agentId: 'agent-131-vibe-coding', successRate: 98.5 },
-        { agentId: 'agent-79-qa', successRate: 97.8 },
-        { agentId: 'agent-0-ceo', successRate: 96.2 }
-      ]
+      totalAgents: agents.length,
+      activeAgents: active.length,
+      averageSuccessRate: average(active.map(a => a.successRate)),
+      averageLoad: average(active.map(a => a.currentLoad)),
+      topPerformers
     };
   }
 
   /**
-   * Collect task execution metrics
+   * Collect task execution metrics from agent_tasks
    */
   private async collectTaskMetrics(): Promise<TaskMetrics> {
+    const byStatus = await db.select({
+      status: agentTasks.status,
+      count: sql<number>`COUNT(*)::int`
+    })
+      .from(agentTasks)
+      .groupBy(agentTasks.status);
+
+    const byType = await db.select({
+      type: agentTasks.type,
+      count: sql<number>`COUNT(*)::int`
+    })
+      .from(agentTasks)
+      .groupBy(agentTasks.type);
+
+    const [completion] = await db.select({
+      avgMs: sql<number | null>`AVG(EXTRACT(EPOCH FROM (${agentTasks.completedAt} - ${agentTasks.startedAt})) * 1000)::float`
+    })
+      .from(agentTasks)
+      .where(and(
+        eq(agentTasks.status, 'completed'),
+        isNotNull(agentTasks.startedAt),
+        isNotNull(agentTasks.completedAt)
+      ));
+
+    const countFor = (status: string) => byStatus.find(s => s.status === status)?.count ?? 0;
+
     return {
-      totalTasks: 245,
-      completedTasks: 228,
-      failedTasks: 12,
-      averageCompletionTime: 4500, // 4.5 seconds
-      tasksByType: {
-        frontend: 85,
-        backend: 92,
-        testing: 45,
-        deployment: 23
-      }
+      totalTasks: byStatus.reduce((sum, s) => sum + s.count, 0),
+      completedTasks: countFor('completed'),
+      failedTasks: countFor('failed'),
+      averageCompletionTime: Math.round(completion?.avgMs ?? 0),
+      tasksByType: Object.fromEntries(byType.map(t => [t.type, t.count]))
     };
   }
 
   /**
-   * Collect API performance metrics
+   * Collect API performance metrics from recorded requests in the window
    */
   private async collectAPIMetrics(): Promise<APIMetrics> {
+    const samples = this.requests.values();
+    const durations = samples.map(s => s.durationMs);
+    const errors = samples.filter(s => s.statusCode >= 500).length;
+
+    const requestsByEndpoint = samples.reduce((acc, s) => {
+      acc[s.endpoint] = (acc[s.endpoint] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
     return {
-      totalRequests: 15234,
-      averageResponseTime: 245, // milliseconds
-      errorRate: 0.08, // 0.08%
-      requestsByEndpoint: {
-        '/api/agents': 5432,
-        '/api/tasks': 4321,
-        '/api/orchestrate/decompose': 2134,
-        '/api/ai/cost-savings': 1234
-      },
-      p95ResponseTime: 450,
-      p99ResponseTime: 850
+      totalRequests: samples.length,
+      averageResponseTime: durations.length > 0
+        ? Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length)
+        : 0,
+      errorRate: samples.length > 0 ? (errors / samples.length) * 100 : 0,
+      requestsByEndpoint,
+      p50ResponseTime: percentile(durations, 50),
+      p95ResponseTime: percentile(durations, 95),
+      p99ResponseTime: percentile(durations, 99)
     };
   }
 
   /**
-   * Collect AI usage and cost metrics
+   * Collect AI usage and cost metrics from ai_usage_metrics
    */
   private async collectAIMetrics(): Promise<AIMetrics> {
+    const byModel = await db.select({
+      model: aiUsageMetrics.model,
+      requests: sql<number>`COUNT(*)::int`,
+      tokens: sql<number>`COALESCE(SUM(${aiUsageMetrics.tokens}), 0)::int`,
+      cost: sql<string>`COALESCE(SUM(${aiUsageMetrics.cost}), 0)`
+    })
+      .from(aiUsageMetrics)
+      .groupBy(aiUsageMetrics.model);
+
+    const totalRequests = byModel.reduce((sum, m) => sum + m.requests, 0);
+    const totalTokens = byModel.reduce((sum, m) => sum + m.tokens, 0);
+    const totalCost = byModel.reduce((sum, m) => sum + parseFloat(m.cost), 0);
+
     return {
-      totalRequests: 3456,
-      costPerRequest: 0.012,
-      totalCost: 41.47,
-      modelDistribution: {
-        'gpt-4o': 3456, // Currently only GPT-4o available
-        'gemini-flash': 0,
-        'claude-sonnet': 0
-      },
-      averageTokensUsed: 1234
+      totalRequests,
+      costPerRequest: totalRequests > 0 ? totalCost / totalRequests : 0,
+      totalCost,
+      modelDistribution: Object.fromEntries(byModel.map(m => [m.model, m.requests])),
+      averageTokensUsed: totalRequests > 0 ? Math.round(totalTokens / totalRequests) : 0
     };
   }
 
   /**
-   * Collect WebSocket connection metrics
+   * Collect WebSocket connection metrics from Socket.IO instrumentation
    */
   private async collectWebSocketMetrics(): Promise<WebSocketMetrics> {
+    const latencies = this.socketLatencies.values();
+
+    return {
+      activeConnections: this.activeConnections,
+      totalMessages: this.socketMessages.values().length,
+      averageLatency: latencies.length > 0
+        ? Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length)
+        : 0,
+      reconnections: this.socketReconnections.values().length
+    };
+  }
+
+  /**
+   * Record a finished HTTP request
+   */
+  recordRequest(sample: RequestSample): void {
+    this.requests.push(sample);
+  }
+
+  /**
+   * Record a request served by a specific release version
+   */
+  recordVersionRequest(version: string, sample: RequestSample): void {
+    if (!this.versionRequests.has(version)) {
+      this.versionRequests.set(version, new MetricWindow(this.windowMs));
+    }
+    this.versionRequests.get(version)!.push(sample);
+  }
+
+  /**
+   * Requests and build outcomes for one release version over the last
+   * `sinceMs` (capped at the window)
+   */
+  async getVersionMetrics(version: string, sinceMs: number): Promise<VersionMetrics> {
+    const samples = this.versionRequests.get(version)?.values(sinceMs) ?? [];
+    const errors = samples.filter(s => s.statusCode >= 500).length;
+
+    const outcomes = await db.select({
+      status: builds.status,
+      count: sql<number>`COUNT(*)::int`
+    })
+      .from(builds)
+      .where(and(
+        eq(builds.deploymentVersion, version),
+        gte(builds.completedAt, new Date(Date.now() - sinceMs))
+      ))
+      .groupBy(builds.status);
+
+    const countFor = (status: string) => outcomes.find(o => o.status === status)?.count ?? 0;
+
     return {
-      activeConnections: 45,
-      totalMessages: 8923,
-      averageLatency: 12, // milliseconds
-      reconnections: 3
+      version,
+      requests: samples.length,
+      errors,
+      errorRate: samples.length > 0 ? (errors / samples.length) * 100 : 0,
+      p95ResponseTime: percentile(samples.map(s => s.durationMs), 95),
+      tasks: { completed: countFor('completed'), failed: countFor('failed') }
     };
   }
 
+  /**
+   * Track connections, messages and heartbeat round-trips on a Socket.IO server
+   */
+  instrumentSocketServer(io: SocketIOServer): void {
+    io.on('connection', (socket) => {
+      this.activeConnections++;
+
+      // The client flags reconnects in its auth payload
+      if (socket.recovered || socket.handshake.auth?.reconnect) {
+        this.socketReconnections.push(socket.id);
+      }
+
+      socket.onAny(() => this.socketMessages.push('in'));
+      socket.onAnyOutgoing(() => this.socketMessages.push('out'));
+
+      // Engine.IO heartbeat: server sends ping, client answers pong
+      let pingSentAt: number | null = null;
+      socket.conn.on('packetCreate', (packet: { type: string }) => {
+        if (packet.type === 'ping') pingSentAt = Date.now();
+      });
+      socket.conn.on('packet', (packet: { type: string }) => {
+        if (packet.type === 'pong' && pingSentAt !== null) {
+          this.socketLatencies.push(Date.now() - pingSentAt);
+          pingSentAt = null;
+        }
+      });
+
+      socket.on('disconnect', () => {
+        this.activeConnections = Math.max(this.activeConnections - 1, 0);
+      });
+    });
+  }
+
   /**
    * Record a custom metric
    */
   recordMetric(name: string, value: unknown): void {
     if (!this.metrics.has(name)) {
-      this.metrics.set(name, []);
+      this.metrics.set(name, new MetricWindow(this.windowMs));
     }
-    this.metrics.get(name)!.push({
-      value,
-      timestamp: Date.now()
-    });
+    this.metrics.get(name)!.push(value);
+  }
+
+  /**
+   * Get samples of a custom metric within the window
+   */
+  getMetric(name: string, sinceMs?: number): Array<{ value: unknown; timestamp: number }> {
+    return this.metrics.get(name)?.entries(sinceMs) ?? [];
   }
 
   /**
@@ -184,20 +407,59 @@ export class MetricsCollector {
   }
 
   /**
-   * Calculate cost savings vs baseline
+   * Persist a snapshot of the current metrics
+   */
+  async persistSnapshot(): Promise<MetricSnapshot> {
+    const metrics = await this.collectMetrics();
+    const [snapshot] = await db.insert(metricSnapshots).values({ metrics }).returning();
+    return snapshot;
+  }
+
+  /**
+   * Persist snapshots on an interval (no-op if already running)
+   */
+  startSnapshots(intervalMs: number): void {
+    if (this.snapshotTimer) return;
+    this.snapshotTimer = setInterval(() => {
+      this.persistSnapshot().catch(error => {
+        console.error('[Metrics] Failed to persist snapshot:', error);
+      });
+    }, intervalMs);
+    this.snapshotTimer.unref();
+  }
+
+  stopSnapshots(): void {
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+  }
+
+  /**
+   * Persisted snapshots since a point in time, newest first
    */
-  async calculateCostSavings(): Promise<{
+  async getSnapshots(since: Date, limit: number = 500): Promise<MetricSnapshot[]> {
+    return await db.select()
+      .from(metricSnapshots)
+      .where(gte(metricSnapshots.createdAt, since))
+      .orderBy(desc(metricSnapshots.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Calculate cost savings vs baseline, priced from recorded tokens
+   * over the last `days` (default DEFAULT_USAGE_WINDOW_DAYS)
+   */
+  async calculateCostSavings(days: number = DEFAULT_USAGE_WINDOW_DAYS): Promise<{
     savingsPercent: number;
     actualCost: number;
     baselineCost: number;
   }> {
-    const aiMetrics = await this.collectAIMetrics();
-    const actualCost = aiMetrics.totalCost;
-    
-    // Baseline: All requests using Claude Sonnet at $0.15 per request
-    const baselineCost = aiMetrics.totalRequests * 0.15;
-    
-    const savingsPercent = ((baselineCost - actualCost) / baselineCost) * 100;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const usage = await db.select()
+      .from(aiUsageMetrics)
+      .where(gte(aiUsageMetrics.createdAt, since));
+    const { savingsPercent, actualCost, baselineCost } = pricingService.summarize(usage);
 
     return {
       savingsPercent,
@@ -215,7 +477,7 @@ export class MetricsCollector {
     checks: Array<{ name: string; passed: boolean; value: number; threshold: number }>;
   }> {
     const metrics = await this.collectMetrics();
-    
+
     const checks = [
       {
         name: 'Error Rate',
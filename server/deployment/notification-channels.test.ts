@@ -0,0 +1,224 @@
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { NotificationDelivery } from '@shared/schema';
+import type { Notification } from './notification-service';
+import {
+  NotificationDispatcher,
+  SlackChannel,
+  WebhookChannel,
+  verifyWebhookSignature,
+  type DeliveryAttempt,
+  type DeliveryFilters,
+  type DeliveryLog
+} from './notification-channels';
+
+class MemoryDeliveryLog implements DeliveryLog {
+  entries: NotificationDelivery[] = [];
+
+  async record(entry: DeliveryAttempt): Promise<NotificationDelivery> {
+    const row = { ...entry, id: this.entries.length + 1, createdAt: new Date() };
+    this.entries.push(row);
+    return row;
+  }
+
+  async list(filters: DeliveryFilters): Promise<NotificationDelivery[]> {
+    return this.entries
+      .filter(e => !filters.notificationId || e.notificationId === filters.notificationId)
+      .filter(e => !filters.status || e.status === filters.status)
+      .reverse()
+      .slice(0, filters.limit ?? 100);
+  }
+}
+
+interface ReceivedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local receiver answering with scripted status codes (then 200)
+ */
+class WebhookReceiver {
+  requests: ReceivedRequest[] = [];
+  statuses: number[] = [];
+  private server: Server = createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      this.requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+      const status = this.statuses.shift() ?? 200;
+      res.writeHead(status, { 'Content-Type': 'text/plain' });
+      res.end(status < 300 ? 'ok' : `error ${status}`);
+    });
+  });
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/hooks/mr-blue`;
+  }
+
+  listen(): Promise<void> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+function notification(fields: Partial<Notification> = {}): Notification {
+  return {
+    id: 'notif-1',
+    userId: 'user-1',
+    type: 'error',
+    channel: 'webhook',
+    title: 'Deployment failed',
+    message: 'v42 failed its health probe <rolled back>',
+    timestamp: '2026-10-19T12:00:00.000Z',
+    read: false,
+    actionUrl: '/deployments',
+    ...fields
+  };
+}
+
+describe('NotificationDispatcher over HTTP', () => {
+  const receiver = new WebhookReceiver();
+  let log: MemoryDeliveryLog;
+  let delays: number[];
+  let previousSecret: string | undefined;
+
+  const createDispatcher = (options = {}) => new NotificationDispatcher(
+    [new WebhookChannel(), new SlackChannel()],
+    { maxAttempts: 4, baseDelayMs: 100, maxDelayMs: 1000, ...options },
+    async ms => { delays.push(ms); },
+    log
+  );
+
+  before(async () => {
+    previousSecret = process.env.NOTIFY_WEBHOOK_SECRET;
+    await receiver.listen();
+  });
+
+  after(async () => {
+    if (previousSecret === undefined) delete process.env.NOTIFY_WEBHOOK_SECRET;
+    else process.env.NOTIFY_WEBHOOK_SECRET = previousSecret;
+    await receiver.close();
+  });
+
+  beforeEach(() => {
+    receiver.requests = [];
+    receiver.statuses = [];
+    log = new MemoryDeliveryLog();
+    delays = [];
+    process.env.NOTIFY_WEBHOOK_SECRET = 'whsec-test';
+  });
+
+  afterEach(() => {
+    delete process.env.NOTIFY_WEBHOOK_SECRET;
+  });
+
+  test('signs the webhook body with HMAC-SHA256', async () => {
+    const attempts = await createDispatcher().deliver(notification({ metadata: { webhookUrl: receiver.url } }), 'webhook');
+
+    assert.equal(attempts.length, 1);
+    assert.equal(attempts[0].status, 'delivered');
+    const [request] = receiver.requests;
+    assert.equal(request.method, 'POST');
+    assert.equal(request.url, '/hooks/mr-blue');
+    assert.equal(request.headers['content-type'], 'application/json');
+    assert.equal(request.headers['x-mrblue-delivery'], 'notif-1');
+
+    const timestamp = Number(request.headers['x-mrblue-timestamp']);
+    const signature = request.headers['x-mrblue-signature'] as string;
+    assert.match(signature, /^sha256=[0-9a-f]{64}$/);
+    assert.ok(verifyWebhookSignature('whsec-test', timestamp, request.body, signature));
+    assert.ok(!verifyWebhookSignature('other-secret', timestamp, request.body, signature));
+    assert.ok(!verifyWebhookSignature('whsec-test', timestamp, request.body.replace('v42', 'v43'), signature));
+
+    const payload = JSON.parse(request.body);
+    assert.equal(payload.title, 'Deployment failed');
+    assert.equal(payload.type, 'error');
+  });
+
+  test('sends no signature headers without a secret', async () => {
+    delete process.env.NOTIFY_WEBHOOK_SECRET;
+    await createDispatcher().deliver(notification({ metadata: { webhookUrl: receiver.url } }), 'webhook');
+
+    assert.equal(receiver.requests[0].headers['x-mrblue-signature'], undefined);
+    assert.equal(receiver.requests[0].headers['x-mrblue-timestamp'], undefined);
+  });
+
+  test('retries 5xx with exponential backoff and logs every attempt', async () => {
+    receiver.statuses = [503, 502, 200];
+    const attempts = await createDispatcher().deliver(notification({ metadata: { webhookUrl: receiver.url } }), 'webhook');
+
+    assert.equal(receiver.requests.length, 3);
+    assert.deepEqual(delays, [100, 200]);
+    assert.deepEqual(attempts.map(a => [a.attempt, a.status, a.statusCode]), [
+      [1, 'retrying', 503],
+      [2, 'retrying', 502],
+      [3, 'delivered', 200]
+    ]);
+    assert.match(attempts[0].error!, /^HTTP 503: error 503/);
+    assert.deepEqual(log.entries, attempts);
+    assert.ok(attempts.every(a => a.target === receiver.url && a.channel === 'webhook' && a.durationMs >= 0));
+
+    const retried = await createDispatcher().getDeliveries({ status: 'retrying' });
+    assert.deepEqual(retried.map(d => d.attempt), [2, 1], 'newest first');
+  });
+
+  test('gives up after maxAttempts with the backoff capped', async () => {
+    receiver.statuses = [500, 500, 500, 500];
+    const attempts = await createDispatcher({ maxAttempts: 4, baseDelayMs: 300, maxDelayMs: 1000 })
+      .deliver(notification({ metadata: { webhookUrl: receiver.url } }), 'webhook');
+
+    assert.deepEqual(delays, [300, 600, 1000]);
+    assert.deepEqual(attempts.map(a => a.status), ['retrying', 'retrying', 'retrying', 'failed']);
+  });
+
+  test('does not retry 4xx responses', async () => {
+    receiver.statuses = [400];
+    const attempts = await createDispatcher().deliver(notification({ metadata: { webhookUrl: receiver.url } }), 'webhook');
+
+    assert.equal(receiver.requests.length, 1);
+    assert.deepEqual(delays, []);
+    assert.deepEqual(attempts.map(a => [a.status, a.statusCode]), [['failed', 400]]);
+  });
+
+  test('retries 429 and network errors', async () => {
+    receiver.statuses = [429];
+    const throttled = await createDispatcher().deliver(notification({ metadata: { webhookUrl: receiver.url } }), 'webhook');
+    assert.deepEqual(throttled.map(a => a.status), ['retrying', 'delivered']);
+
+    const unreachable = await createDispatcher({ maxAttempts: 2 })
+      .deliver(notification({ metadata: { webhookUrl: 'http://127.0.0.1:1/hook' } }), 'webhook');
+    assert.deepEqual(unreachable.map(a => [a.status, a.statusCode]), [['retrying', null], ['failed', null]]);
+  });
+
+  test('logs a failed attempt when no target is configured', async () => {
+    const previousUrl = process.env.NOTIFY_WEBHOOK_URL;
+    delete process.env.NOTIFY_WEBHOOK_URL;
+    try {
+      const attempts = await createDispatcher().deliver(notification(), 'webhook');
+      assert.equal(receiver.requests.length, 0);
+      assert.deepEqual(attempts.map(a => [a.status, a.target, a.error]), [
+        ['failed', '', 'No webhook target configured for user-1']
+      ]);
+    } finally {
+      if (previousUrl !== undefined) process.env.NOTIFY_WEBHOOK_URL = previousUrl;
+    }
+  });
+
+  test('posts an escaped Slack message', async () => {
+    await createDispatcher().deliver(notification({ metadata: { slackWebhookUrl: receiver.url } }), 'slack');
+
+    const payload = JSON.parse(receiver.requests[0].body);
+    assert.equal(payload.text, '*Deployment failed*\nv42 failed its health probe &lt;rolled back&gt;');
+    assert.equal(payload.attachments[0].color, '#ef4444');
+    assert.equal(receiver.requests[0].headers['x-mrblue-signature'], undefined);
+  });
+});
@@ -0,0 +1,411 @@
+/**
+ * Notification Delivery Channels - Phase 5 Track B
+ * Agent #135: User Communication Specialist
+ *
+ * Delivers notifications outside the app:
+ * - Webhook: JSON POST signed with HMAC-SHA256 (NOTIFY_WEBHOOK_SECRET)
+ * - Email: SMTP with text + HTML templates (see smtp-client.ts)
+ * - Slack: incoming-webhook payload (also accepted by Mattermost/Rocket.Chat)
+ *
+ * NotificationDispatcher retries transient failures with exponential
+ * backoff and records every attempt in notification_deliveries.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { db } from '../db';
+import { notificationDeliveries, type NotificationDelivery } from '@shared/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { SmtpClient, SmtpError, getSmtpConfig, type MailMessage } from './smtp-client';
+import type { Notification, NotificationType } from './notification-service';
+
+export type DeliveryChannel = 'webhook' | 'email' | 'slack';
+
+export interface DeliveryResult {
+  statusCode?: number;
+}
+
+/**
+ * A failed attempt; `retryable` is false for permanent failures (4xx,
+ * missing configuration) so the dispatcher stops early
+ */
+export class DeliveryError extends Error {
+  constructor(message: string, public readonly statusCode?: number, public readonly retryable: boolean = true) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+export interface ChannelAdapter {
+  channel: DeliveryChannel;
+  resolveTarget(notification: Notification): string | null;
+  deliver(notification: Notification, target: string): Promise<DeliveryResult>;
+}
+
+export type DeliveryAttempt = Omit<NotificationDelivery, 'id' | 'createdAt'>;
+
+export interface DeliveryFilters {
+  notificationId?: string;
+  status?: string;
+  limit?: number;
+}
+
+/**
+ * Where delivery attempts are recorded
+ */
+export interface DeliveryLog {
+  record(entry: DeliveryAttempt): Promise<NotificationDelivery>;
+  list(filters: DeliveryFilters): Promise<NotificationDelivery[]>;
+}
+
+export class DbDeliveryLog implements DeliveryLog {
+  async record(entry: DeliveryAttempt): Promise<NotificationDelivery> {
+    const [row] = await db.insert(notificationDeliveries).values(entry).returning();
+    return row;
+  }
+
+  async list(filters: DeliveryFilters): Promise<NotificationDelivery[]> {
+    const conditions = [];
+    if (filters.notificationId) conditions.push(eq(notificationDeliveries.notificationId, filters.notificationId));
+    if (filters.status) conditions.push(eq(notificationDeliveries.status, filters.status));
+
+    return await db.select()
+      .from(notificationDeliveries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(notificationDeliveries.createdAt), desc(notificationDeliveries.id))
+      .limit(filters.limit ?? 100);
+  }
+}
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const TYPE_COLORS: Record<NotificationType, string> = {
+  info: '#3b82f6',
+  success: '#22c55e',
+  warning: '#eab308',
+  error: '#ef4444'
+};
+
+const SIGNATURE_HEADER = 'X-MrBlue-Signature';
+const TIMESTAMP_HEADER = 'X-MrBlue-Timestamp';
+
+/**
+ * `sha256=<hex>` HMAC over `<timestamp>.<body>`
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Receiver-side check, with a tolerance against replayed requests
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  toleranceSeconds: number = 300
+): boolean {
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function absoluteUrl(path?: string): string | undefined {
+  if (!path) return undefined;
+  if (/^https?:\/\//.test(path)) return path;
+  const base = process.env.APP_BASE_URL;
+  return base ? `${base.replace(/\/+$/, '')}${path}` : undefined;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeSlack(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function metadataString(notification: Notification, key: string): string | undefined {
+  const value = notification.metadata?.[key];
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+/**
+ * POST JSON; 2xx succeeds, 408/429/5xx and network errors are retryable
+ */
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<DeliveryResult> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+      signal: AbortSignal.timeout(parseInt(process.env.NOTIFY_HTTP_TIMEOUT_MS || '10000', 10))
+    });
+  } catch (error) {
+    throw new DeliveryError(error instanceof Error ? error.message : 'Request failed');
+  }
+
+  const text = await response.text().catch(() => '');
+  if (!response.ok) {
+    const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+    throw new DeliveryError(`HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`, response.status, retryable);
+  }
+  return { statusCode: response.status };
+}
+
+export class WebhookChannel implements ChannelAdapter {
+  channel: DeliveryChannel = 'webhook';
+
+  resolveTarget(notification: Notification): string | null {
+    return metadataString(notification, 'webhookUrl') ?? process.env.NOTIFY_WEBHOOK_URL ?? null;
+  }
+
+  async deliver(notification: Notification, target: string): Promise<DeliveryResult> {
+    const body = JSON.stringify({
+      id: notification.id,
+      userId: notification.userId,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      actionUrl: absoluteUrl(notification.actionUrl) ?? notification.actionUrl ?? null,
+      metadata: notification.metadata ?? {},
+      timestamp: notification.timestamp
+    });
+
+    const headers: Record<string, string> = {
+      'X-MrBlue-Event': 'notification',
+      'X-MrBlue-Delivery': notification.id
+    };
+
+    const secret = process.env.NOTIFY_WEBHOOK_SECRET;
+    if (secret) {
+      const timestamp = Math.floor(Date.now() / 1000);
+      headers[TIMESTAMP_HEADER] = String(timestamp);
+      headers[SIGNATURE_HEADER] = signWebhookPayload(secret, timestamp, body);
+    }
+
+    return postJson(target, body, headers);
+  }
+}
+
+/**
+ * Slack incoming-webhook message: plain-text fallback plus a coloured attachment
+ */
+export function formatSlackMessage(notification: Notification): Record<string, unknown> {
+  const link = absoluteUrl(notification.actionUrl);
+  const title = escapeSlack(notification.title);
+
+  return {
+    text: `*${title}*\n${escapeSlack(notification.message)}`,
+    attachments: [{
+      color: TYPE_COLORS[notification.type],
+      fallback: `${notification.title}: ${notification.message}`,
+      title: notification.title,
+      ...(link ? { title_link: link } : {}),
+      text: escapeSlack(notification.message),
+      footer: 'Mr Blue',
+      ts: Math.floor(new Date(notification.timestamp).getTime() / 1000)
+    }]
+  };
+}
+
+export class SlackChannel implements ChannelAdapter {
+  channel: DeliveryChannel = 'slack';
+
+  resolveTarget(notification: Notification): string | null {
+    return metadataString(notification, 'slackWebhookUrl') ?? process.env.NOTIFY_SLACK_WEBHOOK_URL ?? null;
+  }
+
+  async deliver(notification: Notification, target: string): Promise<DeliveryResult> {
+    return postJson(target, JSON.stringify(formatSlackMessage(notification)));
+  }
+}
+
+/**
+ * Subject, text and HTML bodies for a notification email
+ */
+export function renderEmail(notification: Notification, to: string): MailMessage {
+  const link = absoluteUrl(notification.actionUrl);
+  const prefix = notification.type === 'error' ? '[Action needed] ' : notification.type === 'warning' ? '[Warning] ' : '';
+
+  const text = [
+    notification.title,
+    '',
+    notification.message,
+    ...(link ? ['', `Open: ${link}`] : []),
+    '',
+    '— Mr Blue'
+  ].join('\n');
+
+  const html = `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f5f5;font-family:Arial,sans-serif;color:#111">
+    <div style="max-width:560px;margin:0 auto;background:#fff;border-top:4px solid ${TYPE_COLORS[notification.type]};padding:24px">
+      <h2 style="margin:0 0 12px;font-size:18px">${escapeHtml(notification.title)}</h2>
+      <p style="margin:0 0 16px;line-height:1.5">${escapeHtml(notification.message)}</p>
+      ${link ? `<p style="margin:0 0 16px"><a href="${escapeHtml(link)}" style="color:#2563eb">Open in Mr Blue</a></p>` : ''}
+      <p style="margin:0;font-size:12px;color:#666">Mr Blue notifications</p>
+    </div>
+  </body>
+</html>`;
+
+  return { to, subject: `${prefix}${notification.title}`, text, html };
+}
+
+export class EmailChannel implements ChannelAdapter {
+  channel: DeliveryChannel = 'email';
+
+  /**
+   * metadata.email, else a user ID that is an address, else
+   * `<userId>@NOTIFY_EMAIL_DOMAIN`
+   */
+  resolveTarget(notification: Notification): string | null {
+    const explicit = metadataString(notification, 'email');
+    if (explicit) return explicit;
+    if (notification.userId.includes('@')) return notification.userId;
+    const domain = process.env.NOTIFY_EMAIL_DOMAIN;
+    return domain ? `${notification.userId}@${domain}` : null;
+  }
+
+  async deliver(notification: Notification, target: string): Promise<DeliveryResult> {
+    const config = getSmtpConfig();
+    if (!config) {
+      throw new DeliveryError('SMTP is not configured (SMTP_HOST)', undefined, false);
+    }
+
+    try {
+      await new SmtpClient(config).send(renderEmail(notification, target));
+      return { statusCode: 250 };
+    } catch (error) {
+      if (error instanceof SmtpError) {
+        throw new DeliveryError(error.message, error.code || undefined, error.transient);
+      }
+      throw error;
+    }
+  }
+}
+
+export function getRetryOptions(): RetryOptions {
+  return {
+    maxAttempts: parseInt(process.env.NOTIFY_MAX_ATTEMPTS || '4', 10),
+    baseDelayMs: parseInt(process.env.NOTIFY_RETRY_BASE_MS || '500', 10),
+    maxDelayMs: parseInt(process.env.NOTIFY_RETRY_MAX_MS || '30000', 10)
+  };
+}
+
+export class NotificationDispatcher {
+  private adapters: Map<DeliveryChannel, ChannelAdapter>;
+  private options: RetryOptions;
+
+  constructor(
+    adapters: ChannelAdapter[] = [new WebhookChannel(), new EmailChannel(), new SlackChannel()],
+    options: Partial<RetryOptions> = {},
+    private sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms)),
+    private deliveryLog: DeliveryLog = new DbDeliveryLog()
+  ) {
+    this.adapters = new Map(adapters.map(adapter => [adapter.channel, adapter]));
+    this.options = { ...getRetryOptions(), ...options };
+  }
+
+  /**
+   * Delay before retry `attempt` (1-based): base * 2^(attempt-1), capped
+   */
+  getBackoffMs(attempt: number): number {
+    return Math.min(this.options.baseDelayMs * Math.pow(2, attempt - 1), this.options.maxDelayMs);
+  }
+
+  /**
+   * Deliver on one channel, retrying transient failures
+   * Returns the logged attempts (the last one says how it ended)
+   */
+  async deliver(notification: Notification, channel: DeliveryChannel): Promise<NotificationDelivery[]> {
+    const adapter = this.adapters.get(channel);
+    const target = adapter?.resolveTarget(notification) ?? null;
+
+    if (!adapter || !target) {
+      return [await this.log({
+        notificationId: notification.id,
+        userId: notification.userId,
+        channel,
+        target: target ?? '',
+        attempt: 1,
+        status: 'failed',
+        statusCode: null,
+        error: adapter ? `No ${channel} target configured for ${notification.userId}` : `Unknown channel ${channel}`,
+        durationMs: 0
+      })];
+    }
+
+    const attempts: NotificationDelivery[] = [];
+    for (let attempt = 1; attempt <= this.options.maxAttempts; attempt++) {
+      const start = Date.now();
+      try {
+        const result = await adapter.deliver(notification, target);
+        attempts.push(await this.log({
+          notificationId: notification.id,
+          userId: notification.userId,
+          channel,
+          target,
+          attempt,
+          status: 'delivered',
+          statusCode: result.statusCode ?? null,
+          error: null,
+          durationMs: Date.now() - start
+        }));
+        return attempts;
+      } catch (error) {
+        const retryable = !(error instanceof DeliveryError) || error.retryable;
+        const willRetry = retryable && attempt < this.options.maxAttempts;
+
+        attempts.push(await this.log({
+          notificationId: notification.id,
+          userId: notification.userId,
+          channel,
+          target,
+          attempt,
+          status: willRetry ? 'retrying' : 'failed',
+          statusCode: error instanceof DeliveryError ? error.statusCode ?? null : null,
+          error: error instanceof Error ? error.message : String(error),
+          durationMs: Date.now() - start
+        }));
+
+        if (!willRetry) break;
+        await this.sleep(this.getBackoffMs(attempt));
+      }
+    }
+
+    console.error(`[Notification] ${channel} delivery of ${notification.id} to ${target} failed after ${attempts.length} attempt(s)`);
+    return attempts;
+  }
+
+  /**
+   * Delivery attempts, newest first
+   */
+  async getDeliveries(filters: DeliveryFilters = {}): Promise<NotificationDelivery[]> {
+    return this.deliveryLog.list(filters);
+  }
+
+  /**
+   * Persist an attempt; logging failures never block delivery
+   */
+  private async log(entry: DeliveryAttempt): Promise<NotificationDelivery> {
+    try {
+      return await this.deliveryLog.record(entry);
+    } catch (error) {
+      console.error('[Notification] Failed to log delivery attempt:', error);
+      return { ...entry, id: 0, createdAt: new Date() };
+    }
+  }
+}
+
+export const notificationDispatcher = new NotificationDispatcher();
@@ -8,10 +8,30 @@
  * - System alerts
  * - Deployment updates
  * - Performance issues
+ *
+ * Notifications are stored in the notifications table and pushed to the
+ * `user-<userId>` Socket.IO room. Per-user preferences pick the channels
+ * for each type; quiet hours hold back external channels for everything
+ * but errors. Non in-app channels are delivered by NotificationDispatcher
+ * (notification-channels.ts) in the background.
  */
 
-export type NotificationType = 'info' | 'success' | 'warning' | 'error';
-export type NotificationChannel = 'in-app' | 'email' | 'webhook';
+import type { Server as SocketIOServer } from 'socket.io';
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  notifications,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  type DbNotification,
+  type InsertNotificationPreferences,
+  type NotificationPreferences
+} from '@shared/schema';
+import { and, count, desc, eq } from 'drizzle-orm';
+import { notificationDispatcher, type NotificationDispatcher } from './notification-channels';
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
 
 export interface Notification {
   id: string;
@@ -26,11 +46,74 @@ export interface Notification {
   metadata?: Record<string, unknown>;
 }
 
+export function getUserRoom(userId: string): string {
+  return `user-${userId}`;
+}
+
+function toNotification(row: DbNotification): Notification {
+  return {
+    id: row.id,
+    userId: row.userId,
+    type: row.type as NotificationType,
+    channel: row.channel as NotificationChannel,
+    title: row.title,
+    message: row.message,
+    timestamp: row.createdAt.toISOString(),
+    read: row.read,
+    actionUrl: row.actionUrl ?? undefined,
+    metadata: (row.metadata as Record<string, unknown> | null) ?? undefined
+  };
+}
+
+/**
+ * Whether `at` falls inside the user's quiet hours (in their timezone)
+ * A window whose end is before its start runs past midnight
+ */
+export function isWithinQuietHours(preferences: NotificationPreferences | undefined, at: Date = new Date()): boolean {
+  if (!preferences?.quietHoursStart || !preferences.quietHoursEnd) return false;
+
+  const local = new Intl.DateTimeFormat('en-GB', {
+    timeZone: preferences.timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).format(at);
+
+  const { quietHoursStart: start, quietHoursEnd: end } = preferences;
+  return start <= end
+    ? local >= start && local < end
+    : local >= start || local < end;
+}
+
 export class NotificationService {
-  private notifications: Map<string, Notification> = new Map();
+  private io: SocketIOServer | null = null;
+
+  constructor(private dispatcher: NotificationDispatcher = notificationDispatcher) {}
+
+  /**
+   * Let browsers join their user room with `subscribe-notifications`
+   */
+  attach(io: SocketIOServer): void {
+    this.io = io;
+    io.on('connection', socket => {
+      socket.on('subscribe-notifications', (userId: unknown) => {
+        if (typeof userId === 'string' && userId.length > 0) {
+          socket.join(getUserRoom(userId));
+        }
+      });
+      socket.on('unsubscribe-notifications', (userId: unknown) => {
+        if (typeof userId === 'string') {
+          socket.leave(getUserRoom(userId));
+        }
+      });
+    });
+  }
 
   /**
    * Send notification to user
+   * Without preferences for the type, it goes to the inbox plus the
+   * requested channel; a type whose preferences exclude 'in-app' is
+   * stored already read
    */
   async sendNotification(
     userId: string,
@@ -43,23 +126,42 @@ export class NotificationService {
       metadata?: Record<string, unknown>;
     }
   ): Promise<Notification> {
-    const notification: Notification = {
+    const channel = options?.channel || 'in-app';
+    const preferences = await storage.getNotificationPreferences(userId);
+    const preferred = (preferences?.channels as Partial<Record<NotificationType, NotificationChannel[]>> | undefined)?.[type];
+    const channels = preferred ?? Array.from(new Set<NotificationChannel>(['in-app', channel]));
+
+    const [row] = await db.insert(notifications).values({
       id: `notif-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       userId,
       type,
-      channel: options?.channel || 'in-app',
+      channel,
       title,
       message,
-      timestamp: new Date().toISOString(),
-      read: false,
+      read: !channels.includes('in-app'),
       actionUrl: options?.actionUrl,
       metadata: options?.metadata
-    };
+    }).returning();
+    const notification = toNotification(row);
+
+    if (channels.includes('in-app')) {
+      this.io?.to(getUserRoom(userId)).emit('notification:new', notification);
+    }
 
-    this.notifications.set(notification.id, notification);
+    const quiet = type !== 'error' && isWithinQuietHours(preferences);
+    for (const external of channels) {
+      if (external === 'in-app') continue;
+      if (quiet) {
+        console.log(`[Notification] Quiet hours for ${userId}: skipped ${external} for ${notification.id}`);
+        continue;
+      }
+      // Retries can take a while; callers never wait on external delivery
+      this.dispatcher.deliver(notification, external).catch(error => {
+        console.error(`[Notification] ${external} delivery of ${notification.id} failed:`, error);
+      });
+    }
 
-    // In production, this would send via email/SMS/webhook
-    console.log(`[Notification] Sent ${type} to ${userId}: ${title}`);
+    console.log(`[Notification] Sent ${type} to ${userId} via ${channels.join(', ') || 'nothing'}: ${title}`);
 
     return notification;
   }
@@ -141,44 +243,82 @@ export class NotificationService {
   }
 
   /**
-   * Get notifications for user
+   * Get notifications for user, newest first
    */
-  getUserNotifications(userId: string): Notification[] {
-    return Array.from(this.notifications.values())
-      .filter(n => n.userId === userId)
-      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  async getUserNotifications(userId: string, limit: number = 50): Promise<Notification[]> {
+    const rows = await db.select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+    return rows.map(toNotification);
   }
 
   /**
    * Get unread notifications for user
    */
-  getUnreadNotifications(userId: string): Notification[] {
-    return this.getUserNotifications(userId).filter(n => !n.read);
+  async getUnreadNotifications(userId: string, limit: number = 50): Promise<Notification[]> {
+    const rows = await db.select()
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+    return rows.map(toNotification);
+  }
+
+  async getUnreadCount(userId: string): Promise<number> {
+    const [result] = await db.select({ count: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)));
+    return result.count;
   }
 
   /**
    * Mark notification as read
    */
-  markAsRead(notificationId: string): boolean {
-    const notification = this.notifications.get(notificationId);
-    if (!notification) return false;
+  async markAsRead(notificationId: string): Promise<boolean> {
+    const [updated] = await db.update(notifications)
+      .set({ read: true })
+      .where(eq(notifications.id, notificationId))
+      .returning({ userId: notifications.userId });
+    if (!updated) return false;
 
-    notification.read = true;
+    // Keep the user's other tabs in sync
+    this.io?.to(getUserRoom(updated.userId)).emit('notification:read', { ids: [notificationId] });
     return true;
   }
 
   /**
    * Mark all user notifications as read
    */
-  markAllAsRead(userId: string): number {
-    let count = 0;
-    this.getUserNotifications(userId).forEach(notification => {
-      if (!notification.read) {
-        notification.read = true;
-        count++;
-      }
-    });
-    return count;
+  async markAllAsRead(userId: string): Promise<number> {
+    const updated = await db.update(notifications)
+      .set({ read: true })
+      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)))
+      .returning({ id: notifications.id });
+
+    if (updated.length > 0) {
+      this.io?.to(getUserRoom(userId)).emit('notification:read', { ids: updated.map(n => n.id) });
+    }
+    return updated.length;
+  }
+
+  /**
+   * Preferences for a user (defaults when none are saved)
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    return await storage.getNotificationPreferences(userId) ?? {
+      userId,
+      channels: {},
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      timezone: 'UTC',
+      updatedAt: new Date()
+    };
+  }
+
+  async setPreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    return storage.upsertNotificationPreferences(preferences);
   }
 
   /**
@@ -205,13 +345,20 @@ export class NotificationService {
   /**
    * Get notification statistics
    */
-  getStats(): {
+  async getStats(): Promise<{
     total: number;
     unread: number;
     byType: Record<NotificationType, number>;
     byChannel: Record<NotificationChannel, number>;
-  } {
-    const all = Array.from(this.notifications.values());
+  }> {
+    const rows = await db.select({
+      type: notifications.type,
+      channel: notifications.channel,
+      read: notifications.read,
+      count: count()
+    })
+      .from(notifications)
+      .groupBy(notifications.type, notifications.channel, notifications.read);
 
     const byType: Record<NotificationType, number> = {
       info: 0,
@@ -223,20 +370,20 @@ export class NotificationService {
     const byChannel: Record<NotificationChannel, number> = {
       'in-app': 0,
       'email': 0,
-      'webhook': 0
+      'webhook': 0,
+      'slack': 0
     };
 
-    all.forEach(n => {
-      byType[n.type]++;
-      byChannel[n.channel]++;
+    let total = 0;
+    let unread = 0;
+    rows.forEach(row => {
+      byType[row.type as NotificationType] += row.count;
+      byChannel[row.channel as NotificationChannel] += row.count;
+      total += row.count;
+      if (!row.read) unread += row.count;
     });
 
-    return {
-      total: all.length,
-      unread: all.filter(n => !n.read).length,
-      byType,
-      byChannel
-    };
+    return { total, unread, byType, byChannel };
   }
 }
 
@@ -0,0 +1,255 @@
+/**
+ * Prometheus Exporter - Phase 5 Track C
+ * Agent #143: Observability Specialist
+ *
+ * Renders GET /metrics in the Prometheus text exposition format (0.0.4).
+ * Metric names match the `metric` field of the Grafana panels in
+ * grafana-dashboards.ts so every panel is a PromQL query over this endpoint:
+ * - System health: health_score, db_response_time, agent_availability, ...
+ * - Agent performance: active_agents, avg_success_rate, agent_load, ...
+ * - Cost optimization: cost_savings_percent, cost_comparison, ...
+ *
+ * Plus supporting series: task queue depth, AI token/cost counters,
+ * HTTP latency histograms and alert counts.
+ */
+
+import { db } from '../db';
+import { agentCapabilities, agentCollaboration, agentTasks, aiUsageMetrics } from '@shared/schema';
+import { isNotNull, sql } from 'drizzle-orm';
+import { metricsCollector } from './metrics-collector';
+import { requestMetrics, LATENCY_BUCKETS_MS } from './request-metrics';
+import { healthCheckService, type HealthCheck } from './health-check';
+import { alertManager } from './alert-manager';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type MetricType = 'gauge' | 'counter' | 'histogram';
+type Labels = Record<string, string | number>;
+
+/**
+ * Accumulates samples grouped by metric family
+ */
+class ExpositionWriter {
+  private families: Map<string, { help: string; type: MetricType; lines: string[] }> = new Map();
+
+  add(name: string, type: MetricType, help: string, value: number, labels: Labels = {}, sampleName: string = name): void {
+    let family = this.families.get(name);
+    if (!family) {
+      family = { help, type, lines: [] };
+      this.families.set(name, family);
+    }
+    family.lines.push(`${sampleName}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+
+  toString(): string {
+    return Array.from(this.families.entries())
+      .map(([name, family]) => [
+        `# HELP ${name} ${family.help}`,
+        `# TYPE ${name} ${family.type}`,
+        ...family.lines
+      ].join('\n'))
+      .join('\n') + '\n';
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  const body = entries
+    .map(([key, value]) => `${key}="${String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`)
+    .join(',');
+  return `{${body}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+export class PrometheusExporter {
+  /**
+   * Render every metric family
+   */
+  async render(): Promise<string> {
+    const out = new ExpositionWriter();
+
+    await Promise.all([
+      this.writeHealth(out),
+      this.writeAgents(out),
+      this.writeTasks(out),
+      this.writeAI(out)
+    ]);
+    await this.writeRuntime(out);
+    this.writeHttp(out);
+    await this.writeAlerts(out);
+
+    return out.toString();
+  }
+
+  /**
+   * System Health dashboard series, from the last persisted run so a
+   * scrape never runs the checks or probes the API itself
+   */
+  private async writeHealth(out: ExpositionWriter): Promise<void> {
+    const run = await healthCheckService.getLatestRun();
+    if (!run) return;
+
+    out.add('health_score', 'gauge', 'Overall health score (0-100)', run.overallHealth);
+    out.add('health_check_age_seconds', 'gauge', 'Seconds since the exported health check run',
+      Math.max(0, (Date.now() - run.createdAt.getTime()) / 1000));
+
+    const checks = run.checks as HealthCheck[];
+    const dbCheck = checks.find(c => c.name === 'Database');
+    if (dbCheck?.responseTime !== undefined) {
+      out.add('db_response_time', 'gauge', 'Database health check response time in milliseconds', dbCheck.responseTime);
+    }
+
+    for (const check of checks) {
+      out.add('failed_checks', 'gauge', 'Health checks currently failing (1 = failing)', check.status === 'fail' ? 1 : 0, { check: check.name });
+    }
+  }
+
+  /**
+   * Agent Performance dashboard series
+   */
+  private async writeAgents(out: ExpositionWriter): Promise<void> {
+    const agents = await db.select().from(agentCapabilities);
+    const active = agents.filter(a => a.isActive);
+
+    out.add('active_agents', 'gauge', 'Agents currently active', active.length);
+    out.add('agent_availability', 'gauge', 'Percentage of agents that are active', agents.length > 0 ? (active.length / agents.length) * 100 : 0);
+    out.add('avg_success_rate', 'gauge', 'Average success rate of active agents (0-100)',
+      active.length > 0 ? active.reduce((sum, a) => sum + a.successRate, 0) / active.length : 0);
+
+    for (const agent of agents) {
+      out.add('agent_load', 'gauge', 'Tasks currently held by each agent', agent.currentLoad, { agent_id: agent.agentId });
+    }
+    for (const agent of agents) {
+      out.add('top_agents', 'gauge', 'Success rate per agent (0-100); use topk() to rank', agent.successRate, { agent_id: agent.agentId });
+    }
+
+    const byAgent = await db.select({
+      agentId: agentTasks.assignedAgent,
+      count: sql<number>`COUNT(*)::int`
+    })
+      .from(agentTasks)
+      .where(isNotNull(agentTasks.assignedAgent))
+      .groupBy(agentTasks.assignedAgent);
+
+    for (const row of byAgent) {
+      out.add('tasks_by_agent', 'counter', 'Tasks assigned to each agent', row.count, { agent_id: row.agentId ?? '' });
+    }
+
+    const [collaboration] = await db.select({ count: sql<number>`COUNT(*)::int` }).from(agentCollaboration);
+    out.add('collaboration_events', 'counter', 'Agent-to-agent messages sent', collaboration?.count ?? 0);
+  }
+
+  /**
+   * Task queue depth by status
+   */
+  private async writeTasks(out: ExpositionWriter): Promise<void> {
+    const byStatus = await db.select({
+      status: agentTasks.status,
+      count: sql<number>`COUNT(*)::int`
+    })
+      .from(agentTasks)
+      .groupBy(agentTasks.status);
+
+    for (const row of byStatus) {
+      out.add('task_queue_depth', 'gauge', 'Tasks by status', row.count, { status: row.status });
+    }
+  }
+
+  /**
+   * Cost Optimization dashboard series and per-model AI counters
+   */
+  private async writeAI(out: ExpositionWriter): Promise<void> {
+    const byModel = await db.select({
+      model: aiUsageMetrics.model,
+      requests: sql<number>`COUNT(*)::int`,
+      tokens: sql<number>`COALESCE(SUM(${aiUsageMetrics.tokens}), 0)::bigint`,
+      cost: sql<string>`COALESCE(SUM(${aiUsageMetrics.cost}), 0)`
+    })
+      .from(aiUsageMetrics)
+      .groupBy(aiUsageMetrics.model);
+
+    const totalRequests = byModel.reduce((sum, m) => sum + m.requests, 0);
+    const totalTokens = byModel.reduce((sum, m) => sum + Number(m.tokens), 0);
+    const totalCost = byModel.reduce((sum, m) => sum + parseFloat(m.cost), 0);
+
+    for (const m of byModel) {
+      out.add('model_distribution', 'counter', 'AI requests per model', m.requests, { model: m.model });
+    }
+    for (const m of byModel) {
+      out.add('ai_tokens_total', 'counter', 'AI tokens used per model', Number(m.tokens), { model: m.model });
+    }
+    for (const m of byModel) {
+      out.add('ai_cost_usd_total', 'counter', 'AI spend in USD per model', parseFloat(m.cost), { model: m.model });
+    }
+
+    out.add('total_requests', 'counter', 'AI requests across all models', totalRequests);
+    out.add('cost_per_request', 'gauge', 'Average AI cost per request in USD', totalRequests > 0 ? totalCost / totalRequests : 0);
+    out.add('avg_tokens', 'gauge', 'Average tokens per AI request', totalRequests > 0 ? totalTokens / totalRequests : 0);
+
+    const savings = await metricsCollector.calculateCostSavings();
+    out.add('cost_savings_percent', 'gauge', 'Savings versus the baseline model (percent)', savings.savingsPercent);
+    out.add('cost_comparison', 'gauge', 'Actual and baseline AI cost in USD', savings.actualCost, { kind: 'actual' });
+    out.add('cost_comparison', 'gauge', 'Actual and baseline AI cost in USD', savings.baselineCost, { kind: 'baseline' });
+  }
+
+  /**
+   * Process memory and Socket.IO gauges
+   */
+  private async writeRuntime(out: ExpositionWriter): Promise<void> {
+    const memory = process.memoryUsage();
+    out.add('memory_usage', 'gauge', 'Heap used as a percentage of heap total', (memory.heapUsed / memory.heapTotal) * 100);
+    out.add('process_uptime_seconds', 'gauge', 'Process uptime in seconds', metricsCollector.getUptime());
+
+    const metrics = await metricsCollector.collectMetrics();
+    out.add('websocket_connections', 'gauge', 'Open Socket.IO connections', metrics.websocket.activeConnections);
+    out.add('websocket_messages', 'gauge', 'Socket.IO messages in the metrics window', metrics.websocket.totalMessages);
+    out.add('websocket_latency_ms', 'gauge', 'Average Socket.IO heartbeat round-trip in milliseconds', metrics.websocket.averageLatency);
+    out.add('websocket_reconnections', 'gauge', 'Socket.IO reconnections in the metrics window', metrics.websocket.reconnections);
+  }
+
+  /**
+   * HTTP histograms per route pattern
+   */
+  private writeHttp(out: ExpositionWriter): void {
+    const histograms = requestMetrics.getHistograms();
+
+    for (const h of histograms) {
+      const labels = { method: h.method, route: h.route };
+      const help = 'HTTP request latency in milliseconds by route pattern';
+      LATENCY_BUCKETS_MS.forEach((bound, i) => {
+        out.add('http_request_duration_ms', 'histogram', help, h.buckets[i], { ...labels, le: bound }, 'http_request_duration_ms_bucket');
+      });
+      out.add('http_request_duration_ms', 'histogram', help, h.buckets[LATENCY_BUCKETS_MS.length], { ...labels, le: '+Inf' }, 'http_request_duration_ms_bucket');
+      out.add('http_request_duration_ms', 'histogram', help, h.sumMs, labels, 'http_request_duration_ms_sum');
+      out.add('http_request_duration_ms', 'histogram', help, h.count, labels, 'http_request_duration_ms_count');
+    }
+
+    for (const h of histograms) {
+      for (const [statusClass, count] of Object.entries(h.statusClasses)) {
+        out.add('http_requests_total', 'counter', 'HTTP requests by route pattern and status class', count,
+          { method: h.method, route: h.route, status_class: statusClass });
+      }
+    }
+  }
+
+  /**
+   * Alert counts
+   */
+  private async writeAlerts(out: ExpositionWriter): Promise<void> {
+    const summary = await alertManager.getSummary();
+
+    for (const [severity, count] of Object.entries(summary.bySeverity)) {
+      out.add('alerts_active', 'gauge', 'Active alerts by severity', count, { severity });
+    }
+    out.add('alerts_total', 'counter', 'Alerts raised (all time)', summary.total);
+  }
+}
+
+export const prometheusExporter = new PrometheusExporter();
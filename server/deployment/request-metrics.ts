@@ -0,0 +1,175 @@
+/**
+ * HTTP Request Metrics - Phase 5 Track C
+ * Agent #136: Metrics Collector
+ *
+ * Express middleware that records, per route pattern (e.g.
+ * `/api/agents/:agentId`, never the raw path):
+ * - Request counts by method
+ * - Status-code classes (2xx, 3xx, 4xx, 5xx)
+ * - Cumulative latency histograms (Prometheus-style buckets)
+ *
+ * Every sample is also forwarded to MetricsCollector's time window so
+ * collectAPIMetrics reports live p50/p95/p99 and error rates.
+ */
+
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { metricsCollector, type MetricsCollector } from './metrics-collector';
+
+// Upper bounds in milliseconds; the last bucket is +Inf
+export const LATENCY_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+export type StatusClass = '2xx' | '3xx' | '4xx' | '5xx';
+
+export interface RouteHistogram {
+  method: string;
+  route: string;
+  count: number;
+  sumMs: number;
+  buckets: number[]; // Cumulative counts per LATENCY_BUCKETS_MS bound, then +Inf
+  statusClasses: Record<StatusClass, number>;
+}
+
+export interface RouteStats {
+  method: string;
+  route: string;
+  count: number;
+  errorRate: number; // percentage of 5xx
+  averageMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+  statusClasses: Record<StatusClass, number>;
+}
+
+const UNMATCHED_ROUTE = '<unmatched>';
+
+/**
+ * Estimate a quantile from cumulative bucket counts by linear
+ * interpolation inside the bucket (same approach as histogram_quantile)
+ */
+export function histogramQuantile(q: number, buckets: number[], bounds: number[] = LATENCY_BUCKETS_MS): number {
+  const total = buckets[buckets.length - 1] ?? 0;
+  if (total === 0) return 0;
+
+  const rank = q * total;
+  for (let i = 0; i < buckets.length; i++) {
+    if (buckets[i] >= rank) {
+      // Beyond the largest bound we can only report that bound
+      if (i >= bounds.length) return bounds[bounds.length - 1];
+      const lower = i === 0 ? 0 : bounds[i - 1];
+      const below = i === 0 ? 0 : buckets[i - 1];
+      const inBucket = buckets[i] - below;
+      return inBucket > 0 ? lower + (bounds[i] - lower) * ((rank - below) / inBucket) : bounds[i];
+    }
+  }
+  return bounds[bounds.length - 1];
+}
+
+export class RequestMetrics {
+  private histograms: Map<string, RouteHistogram> = new Map();
+
+  constructor(private collector: MetricsCollector = metricsCollector) {}
+
+  /**
+   * Middleware: register before the routes so every handler is timed
+   */
+  middleware(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const start = process.hrtime.bigint();
+
+      res.on('finish', () => {
+        const route = this.resolveRoute(req);
+        if (!route) return;
+
+        const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+        this.observe(req.method, route, res.statusCode, durationMs);
+      });
+
+      next();
+    };
+  }
+
+  /**
+   * Record one finished request
+   */
+  observe(method: string, route: string, statusCode: number, durationMs: number): void {
+    const key = `${method} ${route}`;
+    let histogram = this.histograms.get(key);
+    if (!histogram) {
+      histogram = {
+        method,
+        route,
+        count: 0,
+        sumMs: 0,
+        buckets: new Array(LATENCY_BUCKETS_MS.length + 1).fill(0),
+        statusClasses: { '2xx': 0, '3xx': 0, '4xx': 0, '5xx': 0 }
+      };
+      this.histograms.set(key, histogram);
+    }
+
+    histogram.count++;
+    histogram.sumMs += durationMs;
+    LATENCY_BUCKETS_MS.forEach((bound, i) => {
+      if (durationMs <= bound) histogram!.buckets[i]++;
+    });
+    histogram.buckets[LATENCY_BUCKETS_MS.length]++;
+
+    const statusClass = this.getStatusClass(statusCode);
+    if (statusClass) histogram.statusClasses[statusClass]++;
+
+    this.collector.recordRequest({
+      endpoint: route,
+      method,
+      statusCode,
+      durationMs: Math.round(durationMs)
+    });
+  }
+
+  /**
+   * Raw cumulative histograms (used by the Prometheus exporter)
+   */
+  getHistograms(): RouteHistogram[] {
+    return Array.from(this.histograms.values());
+  }
+
+  /**
+   * Per-route summary since process start, busiest routes first
+   */
+  getRouteStats(): RouteStats[] {
+    return this.getHistograms()
+      .map(h => ({
+        method: h.method,
+        route: h.route,
+        count: h.count,
+        errorRate: h.count > 0 ? (h.statusClasses['5xx'] / h.count) * 100 : 0,
+        averageMs: h.count > 0 ? h.sumMs / h.count : 0,
+        p50Ms: histogramQuantile(0.5, h.buckets),
+        p95Ms: histogramQuantile(0.95, h.buckets),
+        p99Ms: histogramQuantile(0.99, h.buckets),
+        statusClasses: { ...h.statusClasses }
+      }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Route pattern for the request, or null for non-API requests that no
+   * route handled (static assets, Vite)
+   */
+  private resolveRoute(req: Request): string | null {
+    if (req.route?.path) {
+      const path = typeof req.route.path === 'string' ? req.route.path : String(req.route.path);
+      return `${req.baseUrl || ''}${path}`;
+    }
+    return req.originalUrl.startsWith('/api') ? UNMATCHED_ROUTE : null;
+  }
+
+  private getStatusClass(statusCode: number): StatusClass | null {
+    if (statusCode >= 500) return '5xx';
+    if (statusCode >= 400) return '4xx';
+    if (statusCode >= 300) return '3xx';
+    if (statusCode >= 200) return '2xx';
+    return null;
+  }
+}
+
+export const requestMetrics = new RequestMetrics();
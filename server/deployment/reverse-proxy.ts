@@ -0,0 +1,189 @@
+/**
+ * Switchable Reverse Proxy - Phase 5 Track A
+ * Agent #126: Deployment Automation Engineer
+ *
+ * Fronts locally deployed versions (see deployment-targets.ts). Every
+ * request goes to the current upstream, so switching it is an instant
+ * blue/green cutover; open WebSocket tunnels stay on the instance they
+ * started on until it is stopped.
+ *
+ * With several upstreams (a canary split), new clients are assigned by
+ * weight and pinned with the RELEASE_COOKIE so a browser stays on one
+ * version. Response listeners see every request's version and outcome.
+ */
+
+import http, { type IncomingMessage, type ServerResponse } from 'http';
+import net from 'net';
+import type { Duplex } from 'stream';
+import type { RequestSample } from './metrics-collector';
+
+export interface Upstream {
+  host: string;
+  port: number;
+  label: string; // Version, sent back as X-Deployment-Version
+  weight?: number; // Relative share of new clients (default 1)
+}
+
+export type ResponseListener = (label: string, sample: RequestSample) => void;
+
+export const RELEASE_COOKIE = 'mrblue_release';
+
+export class ReverseProxy {
+  private server: http.Server | null = null;
+  private upstreams: Upstream[] = [];
+  private listeners: ResponseListener[] = [];
+
+  /**
+   * Send new requests to `upstream` alone (null answers 503)
+   */
+  setUpstream(upstream: Upstream | null): void {
+    this.setUpstreams(upstream ? [upstream] : []);
+  }
+
+  /**
+   * Split new requests across upstreams by weight
+   */
+  setUpstreams(upstreams: Upstream[]): void {
+    const describe = (list: Upstream[]) => list.length > 0
+      ? list.map(u => list.length > 1 ? `${u.label}:${u.weight ?? 1}` : `${u.label} (${u.host}:${u.port})`).join(', ')
+      : 'none';
+    const previous = this.upstreams;
+    this.upstreams = upstreams;
+    console.log(`[Proxy] Upstream ${describe(previous)} → ${describe(upstreams)}`);
+  }
+
+  getUpstreams(): Upstream[] {
+    return this.upstreams;
+  }
+
+  /**
+   * Called after every proxied request with the version that served it
+   */
+  onResponse(listener: ResponseListener): void {
+    this.listeners.push(listener);
+  }
+
+  isListening(): boolean {
+    return this.server !== null;
+  }
+
+  async listen(port: number, host: string = '0.0.0.0'): Promise<void> {
+    if (this.server) return;
+
+    const server = http.createServer((req, res) => this.forward(req, res));
+    server.on('upgrade', (req, socket, head) => this.tunnel(req, socket, head));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    console.log(`[Proxy] Listening on ${host}:${port}`);
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private forward(req: IncomingMessage, res: ServerResponse): void {
+    const upstream = this.pick(req);
+    if (!upstream) {
+      res.writeHead(503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'No active deployment' }));
+      return;
+    }
+
+    const start = Date.now();
+    res.on('finish', () => {
+      const sample: RequestSample = {
+        endpoint: (req.url ?? '/').split('?')[0],
+        method: req.method ?? 'GET',
+        statusCode: res.statusCode,
+        durationMs: Date.now() - start
+      };
+      for (const listener of this.listeners) listener(upstream.label, sample);
+    });
+
+    const proxyReq = http.request({
+      host: upstream.host,
+      port: upstream.port,
+      method: req.method,
+      path: req.url,
+      headers: {
+        ...req.headers,
+        'x-forwarded-for': req.socket.remoteAddress ?? '',
+        'x-forwarded-host': req.headers.host ?? '',
+        'x-forwarded-proto': 'http'
+      }
+    }, proxyRes => {
+      const headers: http.OutgoingHttpHeaders = { ...proxyRes.headers, 'x-deployment-version': upstream.label };
+      if (this.upstreams.length > 1) {
+        const cookie = `${RELEASE_COOKIE}=${encodeURIComponent(upstream.label)}; Path=/; HttpOnly; SameSite=Lax`;
+        headers['set-cookie'] = [...(proxyRes.headers['set-cookie'] ?? []), cookie];
+      }
+      res.writeHead(proxyRes.statusCode ?? 502, headers);
+      proxyRes.pipe(res);
+    });
+
+    proxyReq.on('error', error => {
+      console.error(`[Proxy] ${req.method} ${req.url} → ${upstream.label} failed:`, error.message);
+      if (!res.headersSent) {
+        res.writeHead(502, { 'Content-Type': 'application/json' });
+      }
+      res.end(JSON.stringify({ error: 'Upstream unavailable' }));
+    });
+
+    req.pipe(proxyReq);
+  }
+
+  // WebSocket (and other Upgrade) requests: replay the head, then pipe bytes
+  private tunnel(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const upstream = this.pick(req);
+    if (!upstream) {
+      socket.destroy();
+      return;
+    }
+
+    const upstreamSocket = net.connect(upstream.port, upstream.host, () => {
+      const lines = [`${req.method} ${req.url} HTTP/${req.httpVersion}`];
+      for (let i = 0; i < req.rawHeaders.length; i += 2) {
+        lines.push(`${req.rawHeaders[i]}: ${req.rawHeaders[i + 1]}`);
+      }
+      upstreamSocket.write(lines.join('\r\n') + '\r\n\r\n');
+      if (head.length > 0) upstreamSocket.write(head);
+
+      upstreamSocket.pipe(socket);
+      socket.pipe(upstreamSocket);
+    });
+
+    upstreamSocket.on('error', () => socket.destroy());
+    socket.on('error', () => upstreamSocket.destroy());
+  }
+
+  // The client's pinned version if it is still served, else a weighted draw
+  private pick(req: IncomingMessage): Upstream | null {
+    if (this.upstreams.length <= 1) return this.upstreams[0] ?? null;
+
+    const pinned = req.headers.cookie
+      ?.split(';')
+      .map(part => part.trim().split('='))
+      .find(([name]) => name === RELEASE_COOKIE)?.[1];
+    const sticky = pinned && this.upstreams.find(u => u.label === decodeURIComponent(pinned));
+    if (sticky) return sticky;
+
+    const total = this.upstreams.reduce((sum, u) => sum + (u.weight ?? 1), 0);
+    let draw = Math.random() * total;
+    for (const upstream of this.upstreams) {
+      draw -= upstream.weight ?? 1;
+      if (draw < 0) return upstream;
+    }
+    return this.upstreams[this.upstreams.length - 1];
+  }
+}
@@ -7,10 +7,33 @@
  * - Response time > 2000ms (p95)
  * - Database connection failures
  * - Agent orchestration failures
+ *
+ * Rollback is a state machine: detect → confirm over ROLLBACK_CONFIRM_SAMPLES
+ * consecutive samples → freeze deploys → revert to the last known-good
+ * version → verify → notify. A clean sample resets the count, and after a
+ * rollback automatic checks pause for ROLLBACK_COOLDOWN_MS. Every rollback
+ * is recorded in rollback_incidents with its trigger values and steps.
+ *
+ * Reverts go through the DeploymentTarget (deployment-targets.ts); during
+ * a canary they end the split and keep the active version.
  */
 
+import { db } from '../db';
+import {
+  deployFreezes,
+  deployments,
+  rollbackIncidents,
+  type DeployFreeze,
+  type RollbackIncident,
+  type RollbackIncidentStatus,
+  type RollbackSource
+} from '@shared/schema';
+import { and, desc, eq, isNull, ne } from 'drizzle-orm';
 import { metricsCollector } from './metrics-collector';
 import { healthCheckService } from './health-check';
+import { deploymentTarget, type DeploymentTarget } from './deployment-targets';
+import { escalationManager } from './escalation-manager';
+import { notificationService } from './notification-service';
 
 export interface RollbackTrigger {
   name: string;
@@ -27,9 +50,84 @@ export interface RollbackDecision {
   timestamp: string;
 }
 
+export type RollbackState = 'monitoring' | 'suspect' | 'rolling_back' | 'cooldown';
+
+export type RollbackStepName = 'detect' | 'confirm' | 'freeze' | 'revert' | 'verify' | 'notify';
+
+export interface RollbackStep {
+  step: RollbackStepName;
+  status: 'done' | 'skipped' | 'failed';
+  message: string;
+  at: string;
+}
+
+export interface RollbackRequest {
+  source: RollbackSource;
+  reason: string;
+  initiatedBy: string;
+  version?: string; // Defaults to the last known-good version
+  deploymentId?: string;
+  freeze?: boolean;
+  samples?: RollbackDecision[]; // Consecutive samples that confirmed an automatic rollback
+}
+
+export interface RollbackOutcome {
+  incident: RollbackIncident;
+  version: string | null; // Version traffic was moved to
+}
+
+export interface RollbackConfig {
+  confirmSamples: number;
+  cooldownMs: number;
+  verifyAttempts: number;
+  verifyIntervalMs: number;
+}
+
+/**
+ * Thrown when a rollback or deploy is refused (in progress, frozen);
+ * statusCode maps it to an HTTP response
+ */
+export class RollbackError extends Error {
+  constructor(message: string, public readonly statusCode: number = 409) {
+    super(message);
+    this.name = 'RollbackError';
+  }
+}
+
+/**
+ * Configuration from the environment:
+ * - ROLLBACK_CONFIRM_SAMPLES: consecutive failing samples before acting
+ * - ROLLBACK_COOLDOWN_MS: pause in automatic checks after a rollback
+ * - ROLLBACK_VERIFY_ATTEMPTS / ROLLBACK_VERIFY_INTERVAL_MS: health probes of
+ *   the restored version
+ */
+export function getRollbackConfig(): RollbackConfig {
+  return {
+    confirmSamples: parseInt(process.env.ROLLBACK_CONFIRM_SAMPLES || '3', 10),
+    cooldownMs: parseInt(process.env.ROLLBACK_COOLDOWN_MS || '600000', 10),
+    verifyAttempts: parseInt(process.env.ROLLBACK_VERIFY_ATTEMPTS || '3', 10),
+    verifyIntervalMs: parseInt(process.env.ROLLBACK_VERIFY_INTERVAL_MS || '5000', 10)
+  };
+}
+
+const COORDINATOR_ID = 'rollback-coordinator';
+
 export class RollbackCoordinator {
   private isMonitoring: boolean = false;
   private checkInterval: NodeJS.Timeout | null = null;
+  private intervalMs: number | null = null;
+  private state: RollbackState = 'monitoring';
+  private suspectSamples: RollbackDecision[] = [];
+  private cooldownUntil = 0;
+  private config: RollbackConfig;
+
+  constructor(
+    private target: DeploymentTarget = deploymentTarget,
+    config: Partial<RollbackConfig> = {},
+    private sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+  ) {
+    this.config = { ...getRollbackConfig(), ...config };
+  }
 
   /**
    * Start monitoring for rollback conditions
@@ -40,20 +138,12 @@ export class RollbackCoordinator {
       return;
     }
 
-    console.log(`[Rollback] Starting monitoring (checking every ${intervalMs}ms)`);
+    console.log(`[Rollback] Starting monitoring (checking every ${intervalMs}ms, confirming over ${this.config.confirmSamples} samples)`);
     this.isMonitoring = true;
+    this.intervalMs = intervalMs;
 
-    this.checkInterval = setInterval(async () => {
-      const decision = await this.checkRollbackConditions();
-      
-      if (decision.shouldRollback) {
-        console.error('[Rollback] CRITICAL: Rollback conditions met!');
-        console.error('[Rollback] Reason:', decision.reason);
-        console.error('[Rollback] Triggers:', decision.triggers);
-        
-        // In production, this would trigger actual rollback
-        await this.executeRollback(decision);
-      }
+    this.checkInterval = setInterval(() => {
+      this.evaluate().catch(error => console.error('[Rollback] Evaluation failed:', error));
     }, intervalMs);
   }
 
@@ -66,9 +156,51 @@ export class RollbackCoordinator {
       this.checkInterval = null;
     }
     this.isMonitoring = false;
+    this.intervalMs = null;
     console.log('[Rollback] Monitoring stopped');
   }
 
+  /**
+   * Take one sample and advance the state machine; rolls back once
+   * confirmSamples consecutive samples call for it. Nothing is counted
+   * while the target has no active version to roll back from.
+   */
+  async evaluate(): Promise<RollbackState> {
+    if (this.state === 'rolling_back') return this.state;
+    if (this.state === 'cooldown') {
+      if (Date.now() < this.cooldownUntil) return this.state;
+      this.state = 'monitoring';
+    }
+
+    const decision = await this.checkRollbackConditions();
+    if (!decision.shouldRollback) {
+      if (this.state === 'suspect') {
+        console.log(`[Rollback] Conditions cleared after ${this.suspectSamples.length} failing sample(s)`);
+      }
+      this.suspectSamples = [];
+      this.state = 'monitoring';
+      return this.state;
+    }
+
+    if (!this.target.getStatus().activeVersion) return this.state;
+
+    this.suspectSamples.push(decision);
+    this.state = 'suspect';
+    console.warn(`[Rollback] Rollback conditions met (${this.suspectSamples.length}/${this.config.confirmSamples}): ${decision.reason}`);
+    if (this.suspectSamples.length < this.config.confirmSamples) return this.state;
+
+    const samples = this.suspectSamples;
+    this.suspectSamples = [];
+    await this.rollback({
+      source: 'automatic',
+      reason: decision.reason,
+      initiatedBy: COORDINATOR_ID,
+      freeze: true,
+      samples
+    });
+    return this.state;
+  }
+
   /**
    * Check all rollback conditions
    */
@@ -77,7 +209,7 @@ export class RollbackCoordinator {
 
     // Get current metrics
     const metrics = await metricsCollector.collectMetrics();
-    const health = await healthCheckService.runHealthChecks();
+    const health = await healthCheckService.runHealthChecks({ persist: false });
 
     // Check 1: Error rate > 5%
     triggers.push({
@@ -147,65 +279,284 @@ export class RollbackCoordinator {
   }
 
   /**
-   * Execute rollback procedure
+   * Roll back and record the incident; one rollback runs at a time
+   * Resolves with the incident (status 'no_target' when there was no
+   * known-good version); throws after recording a failed revert
    */
-  private async executeRollback(decision: RollbackDecision): Promise<void> {
-    console.log('[Rollback] ========================================');
-    console.log('[Rollback] INITIATING AUTOMATIC ROLLBACK');
-    console.log('[Rollback] ========================================');
-    console.log('[Rollback] Time:', decision.timestamp);
-    console.log('[Rollback] Reason:', decision.reason);
-    
-    // Step 1: Stop accepting new requests
-    console.log('[Rollback] Step 1: Stopping new request acceptance');
-    
-    // Step 2: Notify monitoring systems
-    console.log('[Rollback] Step 2: Sending alerts to monitoring systems');
-    
-    // Step 3: Execute rollback
-    console.log('[Rollback] Step 3: Rolling back to previous deployment');
-    console.log('[Rollback] Command: replit deployments rollback');
-    
-    // Step 4: Verify rollback success
-    console.log('[Rollback] Step 4: Verifying rollback success');
-    
-    // Step 5: Notify stakeholders
-    console.log('[Rollback] Step 5: Notifying stakeholders');
-    
+  async rollback(request: RollbackRequest): Promise<RollbackOutcome> {
+    if (this.state === 'rolling_back') {
+      throw new RollbackError('A rollback is already in progress');
+    }
+    this.state = 'rolling_back';
+    this.suspectSamples = [];
+
+    const status = this.target.getStatus();
+    const from = status.canary?.version ?? status.activeVersion;
+    const latest = request.samples?.[request.samples.length - 1];
+
+    // Nothing has changed yet if the incident cannot be recorded, so
+    // go back to monitoring instead of staying stuck in rolling_back
+    let incident: RollbackIncident;
+    try {
+      [incident] = await db.insert(rollbackIncidents).values({
+        source: request.source,
+        reason: request.reason,
+        triggers: latest?.triggers ?? [],
+        samples: request.samples ?? [],
+        fromVersion: from,
+        deploymentId: request.deploymentId ?? null,
+        initiatedBy: request.initiatedBy
+      }).returning();
+    } catch (error) {
+      this.state = 'monitoring';
+      throw error;
+    }
+
     console.log('[Rollback] ========================================');
-    console.log('[Rollback] ROLLBACK COMPLETE');
+    console.log(`[Rollback] INITIATING ROLLBACK (incident #${incident.id})`);
     console.log('[Rollback] ========================================');
+    console.log('[Rollback] Source:', request.source);
+    console.log('[Rollback] Reason:', request.reason);
+
+    const steps: RollbackStep[] = [];
+    let current = incident;
+    const record = async (
+      step: RollbackStepName,
+      stepStatus: RollbackStep['status'],
+      message: string,
+      changes: Partial<typeof rollbackIncidents.$inferInsert> = {}
+    ) => {
+      steps.push({ step, status: stepStatus, message, at: new Date().toISOString() });
+      console.log(`[Rollback] ${step}: ${message}`);
+      const [updated] = await db.update(rollbackIncidents)
+        .set({ ...changes, steps })
+        .where(eq(rollbackIncidents.id, incident.id))
+        .returning();
+      current = updated ?? current;
+    };
+    const finish = async (outcome: RollbackIncidentStatus, to: string | null, error?: string) => {
+      const recipients = await this.notify(current, outcome, from, to, error);
+      await record('notify', 'done', `Notified ${recipients} user(s)`, { status: outcome, resolvedAt: new Date() });
+    };
 
-    // In production, this would:
-    // 1. Call Replit deployment API to rollback
-    // 2. Send alerts via Sentry/PagerDuty
-    // 3. Notify users via email/SMS
-    // 4. Update status page
+    let stepName: RollbackStepName = 'detect';
+    try {
+      // Step 1-2: Detect and confirm
+      await record('detect', 'done', request.samples?.length
+        ? `${request.samples[0].reason} at ${request.samples[0].timestamp}`
+        : `${request.source} rollback requested by ${request.initiatedBy}`);
+      stepName = 'confirm';
+      await record('confirm', request.samples?.length ? 'done' : 'skipped', request.samples?.length
+        ? `Confirmed over ${request.samples.length} consecutive sample(s)`
+        : 'Confirmed by the requester');
+
+      // Step 3: Freeze deploys
+      stepName = 'freeze';
+      if (request.freeze) {
+        const freeze = await this.freeze(`Rollback incident #${incident.id}: ${request.reason}`, request.initiatedBy, incident.id);
+        await record('freeze', 'done', `Deploys frozen (freeze #${freeze.id})`);
+      } else {
+        await record('freeze', 'skipped', 'Deploys left open');
+      }
+
+      // Step 4: Revert to the last known-good version
+      stepName = 'revert';
+      const to = request.version
+        ?? (status.canary ? status.activeVersion : (await this.getLastKnownGood(from)) ?? status.standbyVersion);
+      if (!to) {
+        await record('revert', 'failed', 'No known-good version to roll back to');
+        await finish('no_target', null);
+        return { incident: current, version: null };
+      }
+
+      await this.target.rollbackTo(to);
+      await this.markRolledBack(from, to, request.reason);
+      await record('revert', 'done', `Traffic moved from ${from ?? 'none'} to ${to}`, { toVersion: to });
+
+      // Step 5: Verify the restored version
+      stepName = 'verify';
+      const verified = await this.verify(to);
+      await record('verify', verified.healthy ? 'done' : 'failed', verified.healthy
+        ? `${to} healthy`
+        : `${to} failing its health probe after ${this.config.verifyAttempts} attempt(s): ${verified.error ?? 'unhealthy'}`);
+
+      // Step 6: Notify
+      stepName = 'notify';
+      await finish(verified.healthy ? 'rolled_back' : 'verify_failed', to);
+
+      console.log('[Rollback] ========================================');
+      console.log(`[Rollback] ROLLBACK COMPLETE: ${to}`);
+      console.log('[Rollback] ========================================');
+      return { incident: current, version: to };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Rollback] Incident #${incident.id} failed during ${stepName}:`, message);
+      await record(stepName, 'failed', message, { error: message });
+      await finish('failed', null, message).catch(notifyError => {
+        console.error('[Rollback] Failed to close incident:', notifyError);
+      });
+      throw error;
+    } finally {
+      this.state = 'cooldown';
+      this.cooldownUntil = Date.now() + this.config.cooldownMs;
+    }
   }
 
   /**
-   * Manually trigger rollback (for testing or emergency)
+   * Refuse new deploys until lifted; an existing freeze is kept as is
    */
-  async manualRollback(reason: string): Promise<void> {
-    const decision: RollbackDecision = {
-      shouldRollback: true,
-      reason: `Manual rollback: ${reason}`,
-      triggers: [],
-      timestamp: new Date().toISOString()
-    };
+  async freeze(reason: string, frozenBy: string, incidentId?: number): Promise<DeployFreeze> {
+    const existing = await this.getActiveFreeze();
+    if (existing) return existing;
 
-    await this.executeRollback(decision);
+    const [freeze] = await db.insert(deployFreezes).values({
+      reason,
+      frozenBy,
+      incidentId: incidentId ?? null
+    }).returning();
+    console.warn(`[Rollback] Deploys frozen by ${frozenBy}: ${reason}`);
+    return freeze;
+  }
+
+  /**
+   * Lift the active freeze; undefined when deploys were not frozen
+   */
+  async liftFreeze(liftedBy: string): Promise<DeployFreeze | undefined> {
+    const [lifted] = await db.update(deployFreezes)
+      .set({ liftedAt: new Date(), liftedBy })
+      .where(isNull(deployFreezes.liftedAt))
+      .returning();
+    if (lifted) console.log(`[Rollback] Deploy freeze #${lifted.id} lifted by ${liftedBy}`);
+    return lifted || undefined;
+  }
+
+  async getActiveFreeze(): Promise<DeployFreeze | undefined> {
+    const [freeze] = await db.select()
+      .from(deployFreezes)
+      .where(isNull(deployFreezes.liftedAt))
+      .orderBy(desc(deployFreezes.createdAt))
+      .limit(1);
+    return freeze || undefined;
+  }
+
+  /**
+   * Throws RollbackError (423) while deploys are frozen
+   */
+  async assertNotFrozen(): Promise<void> {
+    const freeze = await this.getActiveFreeze();
+    if (freeze) {
+      throw new RollbackError(`Deploys are frozen by ${freeze.frozenBy}: ${freeze.reason}`, 423);
+    }
+  }
+
+  /**
+   * Rollback incidents, newest first
+   */
+  async getHistory(limit: number = 50): Promise<RollbackIncident[]> {
+    return await db.select()
+      .from(rollbackIncidents)
+      .orderBy(desc(rollbackIncidents.createdAt), desc(rollbackIncidents.id))
+      .limit(limit);
   }
 
   /**
    * Get current monitoring status
    */
-  getStatus(): { monitoring: boolean; interval: number | null } {
+  getStatus(): {
+    monitoring: boolean;
+    interval: number | null;
+    state: RollbackState;
+    failingSamples: number;
+    confirmSamples: number;
+    cooldownUntil: string | null;
+  } {
     return {
       monitoring: this.isMonitoring,
-      interval: this.checkInterval ? 30000 : null
+      interval: this.intervalMs,
+      state: this.state,
+      failingSamples: this.suspectSamples.length,
+      confirmSamples: this.config.confirmSamples,
+      cooldownUntil: this.state === 'cooldown' ? new Date(this.cooldownUntil).toISOString() : null
     };
   }
+
+  // Latest succeeded deployment of another version
+  private async getLastKnownGood(exclude: string | null): Promise<string | null> {
+    const conditions = [eq(deployments.status, 'succeeded')];
+    if (exclude) conditions.push(ne(deployments.version, exclude));
+
+    const [deployment] = await db.select({ version: deployments.version })
+      .from(deployments)
+      .where(and(...conditions))
+      .orderBy(desc(deployments.completedAt))
+      .limit(1);
+    return deployment?.version ?? null;
+  }
+
+  // A live release that was rolled back is no longer known-good
+  private async markRolledBack(from: string | null, to: string, reason: string): Promise<void> {
+    if (!from || from === to) return;
+
+    const [restored] = await db.select({ id: deployments.id })
+      .from(deployments)
+      .where(and(eq(deployments.version, to), eq(deployments.status, 'succeeded')))
+      .orderBy(desc(deployments.completedAt))
+      .limit(1);
+
+    await db.update(deployments)
+      .set({ status: 'rolled_back', rollbackReason: reason, rolledBackTo: restored?.id ?? null })
+      .where(and(eq(deployments.version, from), eq(deployments.status, 'succeeded')));
+  }
+
+  private async verify(version: string): Promise<{ healthy: boolean; error?: string }> {
+    let error: string | undefined;
+    for (let attempt = 1; attempt <= this.config.verifyAttempts; attempt++) {
+      const probe = await this.target.probe(version);
+      if (probe.healthy) return { healthy: true };
+      error = probe.error;
+      if (attempt < this.config.verifyAttempts) await this.sleep(this.config.verifyIntervalMs);
+    }
+    return { healthy: false, error };
+  }
+
+  // On-call primaries plus whoever asked for the rollback
+  private async notify(
+    incident: RollbackIncident,
+    outcome: RollbackIncidentStatus,
+    from: string | null,
+    to: string | null,
+    error?: string
+  ): Promise<number> {
+    const recipients = new Set<string>();
+    try {
+      for (const assignment of await escalationManager.getCurrentOnCall()) {
+        recipients.add(assignment.primary);
+      }
+    } catch (lookupError) {
+      console.error('[Rollback] Failed to look up on-call:', lookupError);
+    }
+    if (incident.source === 'manual') { // Failed deploys notify their initiator themselves
+      recipients.add(incident.initiatedBy);
+    }
+
+    const title = outcome === 'rolled_back'
+      ? `Rolled back ${from ?? 'release'} to ${to}`
+      : `Rollback ${outcome.replace('_', ' ')}${to ? `: ${to}` : ''}`;
+    const message = error
+      ? `${incident.reason} (${error})`
+      : `${incident.reason} - incident #${incident.id}`;
+
+    for (const userId of Array.from(recipients)) {
+      await notificationService.sendNotification(
+        userId,
+        outcome === 'rolled_back' ? 'warning' : 'error',
+        title,
+        message,
+        { metadata: { incidentId: incident.id } }
+      ).catch(sendError => console.error(`[Rollback] Failed to notify ${userId}:`, sendError));
+    }
+    return recipients.size;
+  }
 }
 
 export const rollbackCoordinator = new RollbackCoordinator();
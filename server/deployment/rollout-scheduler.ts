@@ -0,0 +1,346 @@
+/**
+ * Rollout Scheduler - Phase 5 Track B
+ * Agent #133: User Segmentation Specialist
+ *
+ * Runs declarative rollout plans (rollout_plans):
+ * - Each tick applies, in order, every phase whose startsAt has passed;
+ *   the current phase is re-applied so newly eligible users are picked up
+ * - A phase promotes a stable-hash percentage of eligible users (capped at
+ *   maxUsers) to its segment and sets its flags' rollout percentage
+ * - Active plans pause when an alert at or above their pause severity is
+ *   active, and stay paused until resumed by hand
+ * - The plan owner (updatedBy) is notified of phase changes and pauses
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  users,
+  type Alert,
+  type InsertRolloutPlan,
+  type RolloutPhase,
+  type RolloutPlan,
+  type User,
+  type UserSegment
+} from '@shared/schema';
+import { inArray } from 'drizzle-orm';
+import { alertManager, SEVERITY_ORDER, type AlertManager, type AlertSeverity } from './alert-manager';
+import { featureFlagService, getRolloutBucket, ROLLOUT_BUCKETS, type FeatureFlagService } from './feature-flags';
+import { notificationService, type NotificationService, type NotificationType } from './notification-service';
+import { segmentRank, userSegmentation, type UserSegmentationService } from './user-segmentation';
+
+export interface PhaseResult {
+  planId: string;
+  phase: string;
+  phaseIndex: number;
+  promoted: string[]; // User IDs moved into the phase's segment
+  flagsUpdated: string[]; // Flags whose rollout percentage changed
+}
+
+const SCHEDULER = 'rollout-scheduler';
+
+/**
+ * Thrown for invalid plan changes (wrong status, applied phases edited)
+ */
+export class RolloutPlanError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'RolloutPlanError';
+  }
+}
+
+export class RolloutScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    private segments: UserSegmentationService = userSegmentation,
+    private alerts: AlertManager = alertManager,
+    private flags: FeatureFlagService = featureFlagService,
+    private notifications: NotificationService = notificationService
+  ) {
+    // Pause as soon as a blocking alert fires rather than on the next tick
+    alerts.onAlertFired(alert => this.handleAlert(alert));
+  }
+
+  async listPlans(): Promise<RolloutPlan[]> {
+    return storage.getRolloutPlans();
+  }
+
+  async createPlan(plan: InsertRolloutPlan): Promise<RolloutPlan> {
+    if (await storage.getRolloutPlan(plan.id)) {
+      throw new RolloutPlanError(`Rollout plan ${plan.id} already exists`, 409);
+    }
+    return storage.createRolloutPlan(plan);
+  }
+
+  /**
+   * Edit a plan; phases already applied cannot be removed or renamed
+   */
+  async updatePlan(id: string, updates: Partial<InsertRolloutPlan>): Promise<RolloutPlan | undefined> {
+    const existing = await storage.getRolloutPlan(id);
+    if (!existing) return undefined;
+    if (existing.status === 'completed') {
+      throw new RolloutPlanError('Completed rollout plans cannot be edited', 409);
+    }
+
+    if (updates.phases && existing.currentPhase >= 0) {
+      const applied = (existing.phases as RolloutPhase[]).slice(0, existing.currentPhase + 1).map(p => p.name);
+      const kept = updates.phases.slice(0, applied.length).map(p => p.name);
+      if (applied.join('\n') !== kept.join('\n')) {
+        throw new RolloutPlanError(`Applied phases (${applied.join(', ')}) cannot be removed, reordered or renamed`, 409);
+      }
+    }
+
+    return storage.updateRolloutPlan(id, updates);
+  }
+
+  async deletePlan(id: string): Promise<boolean> {
+    const existing = await storage.getRolloutPlan(id);
+    if (existing?.status === 'active') {
+      throw new RolloutPlanError('Pause the rollout plan before deleting it', 409);
+    }
+    return storage.deleteRolloutPlan(id);
+  }
+
+  /**
+   * draft → active; due phases are applied right away
+   */
+  async startPlan(id: string, userId: string): Promise<RolloutPlan | undefined> {
+    const plan = await storage.getRolloutPlan(id);
+    if (!plan) return undefined;
+    if (plan.status !== 'draft') {
+      throw new RolloutPlanError(`Rollout plan ${id} is ${plan.status}; only drafts can be started`, 409);
+    }
+
+    const started = await storage.setRolloutPlanState(id, { status: 'active' });
+    console.log(`[Rollout] Plan ${id} started by ${userId}`);
+    return this.runNow(started!);
+  }
+
+  /**
+   * active → paused; the scheduler pauses with the alert as the reason
+   */
+  async pausePlan(id: string, reason: string, userId: string): Promise<RolloutPlan | undefined> {
+    const plan = await storage.getRolloutPlan(id);
+    if (!plan) return undefined;
+    if (plan.status !== 'active') {
+      throw new RolloutPlanError(`Rollout plan ${id} is ${plan.status}; only active plans can be paused`, 409);
+    }
+
+    const paused = await storage.setRolloutPlanState(id, { status: 'paused', pausedReason: reason, pausedAt: new Date() });
+    console.warn(`[Rollout] Plan ${id} paused by ${userId}: ${reason}`);
+    await this.notifyOwner(plan, 'warning', `Rollout ${id} paused`, reason);
+    return paused;
+  }
+
+  /**
+   * paused → active; refused while a blocking alert is still active
+   */
+  async resumePlan(id: string, userId: string): Promise<RolloutPlan | undefined> {
+    const plan = await storage.getRolloutPlan(id);
+    if (!plan) return undefined;
+    if (plan.status !== 'paused') {
+      throw new RolloutPlanError(`Rollout plan ${id} is ${plan.status}; only paused plans can be resumed`, 409);
+    }
+
+    const blocking = await this.findBlockingAlert(plan);
+    if (blocking) {
+      throw new RolloutPlanError(`Alert "${blocking.title}" (${blocking.severity}) is still active`, 409);
+    }
+
+    const resumed = await storage.setRolloutPlanState(id, { status: 'active', pausedReason: null, pausedAt: null });
+    console.log(`[Rollout] Plan ${id} resumed by ${userId}`);
+    return this.runNow(resumed!);
+  }
+
+  /**
+   * Advance every active plan; overlapping ticks are skipped
+   */
+  async tick(now: Date = new Date()): Promise<PhaseResult[]> {
+    if (this.ticking) return [];
+    this.ticking = true;
+    try {
+      const results: PhaseResult[] = [];
+      for (const plan of await storage.getRolloutPlans()) {
+        if (plan.status !== 'active') continue;
+        try {
+          results.push(...await this.runPlan(plan, now));
+        } catch (error) {
+          console.error(`[Rollout] Plan ${plan.id} failed to advance:`, error);
+        }
+      }
+      return results;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Run tick() on an interval (no-op if already running)
+   */
+  start(intervalMs: number = 60000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => {
+        console.error('[Rollout] Tick failed:', error);
+      });
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Apply the plan's due phases: each newly due phase in order, else the
+   * current one again; completes the plan after its last phase
+   */
+  private async runPlan(plan: RolloutPlan, now: Date): Promise<PhaseResult[]> {
+    const blocking = await this.findBlockingAlert(plan);
+    if (blocking) {
+      await this.pausePlan(plan.id, `Alert fired: ${blocking.title} (${blocking.severity})`, SCHEDULER);
+      return [];
+    }
+
+    const phases = plan.phases as RolloutPhase[];
+    const results: PhaseResult[] = [];
+    let current = plan.currentPhase;
+
+    while (current + 1 < phases.length && Date.parse(phases[current + 1].startsAt) <= now.getTime()) {
+      current++;
+      const result = await this.applyPhase(plan, current);
+      await storage.setRolloutPlanState(plan.id, { currentPhase: current, phaseStartedAt: now });
+      results.push(result);
+
+      console.log(`[Rollout] Plan ${plan.id} entered phase ${current + 1}/${phases.length} "${result.phase}": ${result.promoted.length} promoted, flags ${result.flagsUpdated.join(', ') || 'unchanged'}`);
+      await this.notifyOwner(plan, 'info', `Rollout ${plan.id}: ${result.phase}`,
+        `${result.promoted.length} user(s) promoted${result.flagsUpdated.length ? `; rollout set to ${phases[current].percentage}% for ${result.flagsUpdated.join(', ')}` : ''}`);
+    }
+
+    if (results.length === 0 && current >= 0) {
+      const result = await this.applyPhase(plan, current);
+      if (result.promoted.length > 0 || result.flagsUpdated.length > 0) results.push(result);
+    }
+
+    if (current === phases.length - 1) {
+      await storage.setRolloutPlanState(plan.id, { status: 'completed' });
+      console.log(`[Rollout] Plan ${plan.id} completed`);
+      await this.notifyOwner(plan, 'success', `Rollout ${plan.id} completed`, `All ${phases.length} phases applied`);
+    }
+
+    return results;
+  }
+
+  private async runNow(plan: RolloutPlan): Promise<RolloutPlan | undefined> {
+    await this.runPlan(plan, new Date());
+    return storage.getRolloutPlan(plan.id);
+  }
+
+  /**
+   * Promote the phase's share of eligible users and set its flag rollouts
+   * Users are ranked by a stable hash of plan ID + user ID, so a larger
+   * percentage in a later phase keeps everyone an earlier phase promoted
+   */
+  private async applyPhase(plan: RolloutPlan, index: number): Promise<PhaseResult> {
+    const phase = (plan.phases as RolloutPhase[])[index];
+    const result: PhaseResult = { planId: plan.id, phase: phase.name, phaseIndex: index, promoted: [], flagsUpdated: [] };
+
+    if (phase.segment) {
+      const target = phase.segment;
+      const selected = (await this.findCandidates(phase, target))
+        .map(user => ({ user, bucket: getRolloutBucket(plan.id, user.id) }))
+        .filter(c => c.bucket < phase.percentage * (ROLLOUT_BUCKETS / 100))
+        .sort((a, b) => a.bucket - b.bucket)
+        .slice(0, phase.maxUsers ?? Number.MAX_SAFE_INTEGER);
+
+      for (const { user } of selected) {
+        if (user.segment === target) continue;
+        await this.segments.assignSegment(user.id, target, {
+          changedBy: SCHEDULER,
+          reason: `Rollout ${plan.id}: ${phase.name}`,
+          planId: plan.id,
+          phase: phase.name
+        });
+        result.promoted.push(user.id);
+        if (target === 'beta') {
+          this.notifications.notifyBetaEnrollment(user.id).catch(error =>
+            console.error(`[Rollout] Failed to notify ${user.id} of beta enrollment:`, error)
+          );
+        }
+      }
+    }
+
+    for (const key of phase.flags ?? []) {
+      const flag = await storage.getFeatureFlag(key);
+      if (!flag) {
+        console.warn(`[Rollout] Plan ${plan.id} phase "${phase.name}" references unknown flag ${key}`);
+        continue;
+      }
+      if (flag.rolloutPercentage !== phase.percentage) {
+        await this.flags.updateFlag(key, { rolloutPercentage: phase.percentage, updatedBy: SCHEDULER });
+        result.flagsUpdated.push(key);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Users matching the phase's eligibility, plus those already in the
+   * target segment (so maxUsers counts them); never anyone above it
+   */
+  private async findCandidates(phase: RolloutPhase, target: UserSegment): Promise<User[]> {
+    const { userIds, usernamePattern, minAccountAgeDays, fromSegments } = phase.eligibility;
+    const rows = userIds?.length
+      ? await db.select().from(users).where(inArray(users.id, userIds))
+      : await db.select().from(users);
+
+    const pattern = usernamePattern ? new RegExp(usernamePattern) : null;
+    const createdBefore = minAccountAgeDays !== undefined ? Date.now() - minAccountAgeDays * 24 * 60 * 60 * 1000 : null;
+
+    return rows.filter(user => {
+      const segment = user.segment as UserSegment;
+      if (segment !== target && (!fromSegments.includes(segment) || segmentRank(segment) > segmentRank(target))) return false;
+      if (pattern && !pattern.test(user.username)) return false;
+      if (createdBefore !== null && user.createdAt.getTime() > createdBefore) return false;
+      return true;
+    });
+  }
+
+  private async findBlockingAlert(plan: RolloutPlan): Promise<Alert | undefined> {
+    if (!plan.pauseOnAlerts) return undefined;
+    const threshold = SEVERITY_ORDER[plan.pauseSeverity as AlertSeverity] ?? SEVERITY_ORDER.critical;
+    return (await this.alerts.getActiveAlerts())
+      .find(alert => SEVERITY_ORDER[alert.severity as AlertSeverity] >= threshold);
+  }
+
+  private async handleAlert(alert: Alert): Promise<void> {
+    for (const plan of await storage.getRolloutPlans()) {
+      if (plan.status !== 'active' || !plan.pauseOnAlerts) continue;
+      const threshold = SEVERITY_ORDER[plan.pauseSeverity as AlertSeverity] ?? SEVERITY_ORDER.critical;
+      if (SEVERITY_ORDER[alert.severity as AlertSeverity] >= threshold) {
+        await this.pausePlan(plan.id, `Alert fired: ${alert.title} (${alert.severity})`, SCHEDULER);
+      }
+    }
+  }
+
+  private async notifyOwner(plan: RolloutPlan, type: NotificationType, title: string, message: string): Promise<void> {
+    if (!plan.updatedBy) return;
+    try {
+      await this.notifications.sendNotification(plan.updatedBy, type, title, message, {
+        actionUrl: '/deployment',
+        metadata: { planId: plan.id }
+      });
+    } catch (error) {
+      console.error(`[Rollout] Failed to notify ${plan.updatedBy} about ${plan.id}:`, error);
+    }
+  }
+}
+
+// Singleton instance
+export const rolloutScheduler = new RolloutScheduler();
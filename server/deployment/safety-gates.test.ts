@@ -0,0 +1,98 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseJUnitReport, summarizeAudit } from './safety-gates';
+
+describe('parseJUnitReport', () => {
+  test('counts test cases across nested suites', () => {
+    const summary = parseJUnitReport(`<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="all">
+  <testsuites name="server">
+    <testsuite name="routes" tests="3">
+      <testcase classname="routes" name="lists agents" time="0.01"/>
+      <testcase classname="routes" name="creates a build" time="0.02">
+        <failure message="expected 201 &amp; got 500" type="AssertionError">stack trace</failure>
+      </testcase>
+      <!-- <testcase name="commented out"><failure/></testcase> -->
+      <testcase classname="routes" name="deletes a flag"></testcase>
+    </testsuite>
+  </testsuites>
+  <testsuite name="client">
+    <testcase name="renders the dashboard"><error message="TypeError: x is undefined"/></testcase>
+  </testsuite>
+</testsuites>`);
+
+    assert.equal(summary.tests, 4);
+    assert.equal(summary.failures, 1);
+    assert.equal(summary.errors, 1);
+    assert.deepEqual(summary.failed, [
+      { name: 'creates a build', classname: 'routes', type: 'failure', message: 'expected 201 & got 500' },
+      { name: 'renders the dashboard', classname: null, type: 'error', message: 'TypeError: x is undefined' }
+    ]);
+  });
+
+  test('handles self-closing <failure/> and <skipped/>', () => {
+    const summary = parseJUnitReport(`<testsuite name="unit">
+  <testcase name="flaky"><failure/></testcase>
+  <testcase name="pending"><skipped/></testcase>
+  <testcase name="ignored"><skipped message="not on CI"></skipped></testcase>
+  <testcase name="ok"/>
+</testsuite>`);
+
+    assert.deepEqual(
+      { tests: summary.tests, failures: summary.failures, errors: summary.errors, skipped: summary.skipped },
+      { tests: 4, failures: 1, errors: 0, skipped: 2 }
+    );
+    assert.deepEqual(summary.failed, [{ name: 'flaky', classname: null, type: 'failure', message: null }]);
+  });
+
+  test('an empty report has no tests', () => {
+    assert.deepEqual(parseJUnitReport('<testsuites/>'), { tests: 0, failures: 0, errors: 0, skipped: 0, failed: [] });
+  });
+});
+
+describe('summarizeAudit', () => {
+  test('reads the npm 7+ vulnerabilities shape', () => {
+    const summary = summarizeAudit({
+      auditReportVersion: 2,
+      vulnerabilities: {
+        lodash: { name: 'lodash', severity: 'high', fixAvailable: true },
+        minimist: { name: 'minimist', severity: 'critical', fixAvailable: { name: 'mkdirp', version: '1.0.4' } },
+        debug: { name: 'debug', severity: 'low', fixAvailable: true },
+        semver: { name: 'semver', severity: 'high', fixAvailable: false }
+      },
+      metadata: { vulnerabilities: { info: 0, low: 1, moderate: 0, high: 2, critical: 1, total: 4 } }
+    }, 'high');
+
+    assert.deepEqual(summary.counts, { info: 0, low: 1, moderate: 0, high: 2, critical: 1 });
+    assert.equal(summary.blocking, 3);
+    assert.deepEqual(summary.packages, [
+      { name: 'minimist', severity: 'critical', fixAvailable: true },
+      { name: 'lodash', severity: 'high', fixAvailable: true },
+      { name: 'semver', severity: 'high', fixAvailable: false }
+    ]);
+  });
+
+  test('reads the npm 6 advisories shape', () => {
+    const summary = summarizeAudit({
+      actions: [],
+      advisories: {
+        '1065': { module_name: 'lodash', severity: 'high', patched_versions: '>=4.17.12' },
+        '1179': { module_name: 'minimist', severity: 'moderate', patched_versions: '>=1.2.3' },
+        '534': { module_name: 'debug', severity: 'low', patched_versions: '<0.0.0' }
+      },
+      metadata: { vulnerabilities: { info: 0, low: 1, moderate: 1, high: 1, critical: 0 } }
+    }, 'low');
+
+    assert.equal(summary.blocking, 3);
+    assert.deepEqual(summary.packages, [
+      { name: 'lodash', severity: 'high', fixAvailable: true },
+      { name: 'minimist', severity: 'moderate', fixAvailable: true },
+      { name: 'debug', severity: 'low', fixAvailable: false }
+    ]);
+  });
+
+  test('rejects output that is not an npm audit report', () => {
+    assert.throws(() => summarizeAudit(null, 'high'), /not a JSON object/);
+    assert.throws(() => summarizeAudit({ vulnerabilities: {} }, 'high'), /no metadata\.vulnerabilities/);
+  });
+});
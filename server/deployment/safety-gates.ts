@@ -0,0 +1,482 @@
+/**
+ * Pre-flight Safety Gates - Phase 5 Track A
+ * Agent #127: Deployment Safety Engineer
+ *
+ * Each gate is a plugin that inspects one source and returns evidence:
+ * - system-health, performance, cost: live metrics
+ * - test-report: a JUnit XML report written by CI
+ * - dependency-audit: an `npm audit --json` report
+ * - pending-migrations: drizzle migration files not yet applied
+ * - budget: AI budget policies at their hard limit
+ * - critical-alerts: open critical alerts
+ *
+ * Whether a gate blocks a deploy is decided per environment by
+ * DeploymentSafety (deployment-safety.ts); gates only report.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { sql } from 'drizzle-orm';
+import { db } from '../db';
+import { healthCheckService } from './health-check';
+import { metricsCollector } from './metrics-collector';
+import { alertManager } from './alert-manager';
+import { budgetGuard } from '../ai/budget-guard';
+
+export type GateCategory = 'tests' | 'performance' | 'security' | 'quality' | 'cost' | 'operations';
+
+export interface GateContext {
+  environment: string;
+}
+
+export interface GateResult {
+  passed: boolean;
+  message: string;
+  evidence: Record<string, unknown>;
+}
+
+export interface SafetyGate {
+  id: string; // Used in per-environment configuration
+  name: string;
+  category: GateCategory;
+  run(context: GateContext): Promise<GateResult>;
+}
+
+export const AUDIT_SEVERITIES = ['info', 'low', 'moderate', 'high', 'critical'] as const;
+export type AuditSeverity = typeof AUDIT_SEVERITIES[number];
+
+export interface SafetyGateConfig {
+  junitPath: string;
+  auditPath: string;
+  auditLevel: AuditSeverity; // Lowest severity that fails the audit gate
+  reportMaxAgeMs: number; // Older reports fail; 0 accepts any age
+  migrationsDir: string;
+}
+
+/**
+ * Configuration from the environment:
+ * - DEPLOY_GATE_JUNIT_PATH: JUnit XML test report (default reports/junit.xml)
+ * - DEPLOY_GATE_AUDIT_PATH: `npm audit --json` output (default reports/npm-audit.json)
+ * - DEPLOY_GATE_AUDIT_LEVEL: lowest failing vulnerability severity (default high)
+ * - DEPLOY_GATE_REPORT_MAX_AGE_MS: maximum age of both reports (default 86400000)
+ * - DEPLOY_GATE_MIGRATIONS_DIR: drizzle-kit output directory (default migrations)
+ */
+export function getSafetyGateConfig(): SafetyGateConfig {
+  const level = process.env.DEPLOY_GATE_AUDIT_LEVEL as AuditSeverity | undefined;
+  return {
+    junitPath: process.env.DEPLOY_GATE_JUNIT_PATH || 'reports/junit.xml',
+    auditPath: process.env.DEPLOY_GATE_AUDIT_PATH || 'reports/npm-audit.json',
+    auditLevel: level && AUDIT_SEVERITIES.includes(level) ? level : 'high',
+    reportMaxAgeMs: parseInt(process.env.DEPLOY_GATE_REPORT_MAX_AGE_MS || '86400000', 10),
+    migrationsDir: process.env.DEPLOY_GATE_MIGRATIONS_DIR || 'migrations'
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// REPORT PARSERS
+// ═══════════════════════════════════════════════════════════════
+
+export interface JUnitFailure {
+  name: string;
+  classname: string | null;
+  type: 'failure' | 'error';
+  message: string | null;
+}
+
+export interface JUnitSummary {
+  tests: number;
+  failures: number;
+  errors: number;
+  skipped: number;
+  failed: JUnitFailure[];
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of Array.from(source.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g))) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Count test cases in a JUnit XML report (any nesting of <testsuites>/<testsuite>)
+ */
+export function parseJUnitReport(xml: string): JUnitSummary {
+  const summary: JUnitSummary = { tests: 0, failures: 0, errors: 0, skipped: 0, failed: [] };
+  const body = xml.replace(/<!--[\s\S]*?-->/g, '');
+
+  for (const match of Array.from(body.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g))) {
+    const attributes = parseAttributes(match[1]);
+    const content = match[2] ?? '';
+    summary.tests++;
+
+    const problem = content.match(/<(failure|error)\b([^>]*?)\/?>/);
+    if (problem) {
+      const type = problem[1] as JUnitFailure['type'];
+      if (type === 'failure') summary.failures++;
+      else summary.errors++;
+      summary.failed.push({
+        name: attributes.name ?? '(unnamed)',
+        classname: attributes.classname ?? null,
+        type,
+        message: parseAttributes(problem[2]).message ?? null
+      });
+    } else if (/<skipped\b/.test(content)) {
+      summary.skipped++;
+    }
+  }
+
+  return summary;
+}
+
+export interface AuditSummary {
+  counts: Record<AuditSeverity, number>;
+  blocking: number; // Vulnerabilities at or above the configured level
+  packages: Array<{ name: string; severity: AuditSeverity; fixAvailable: boolean }>;
+}
+
+/**
+ * Summarize `npm audit --json` output (npm 7+ `vulnerabilities`, or npm 6 `advisories`)
+ */
+export function summarizeAudit(report: unknown, level: AuditSeverity): AuditSummary {
+  if (!report || typeof report !== 'object') {
+    throw new Error('Audit report is not a JSON object');
+  }
+  const audit = report as {
+    metadata?: { vulnerabilities?: Partial<Record<AuditSeverity, number>> };
+    vulnerabilities?: Record<string, { severity?: string; fixAvailable?: unknown }>;
+    advisories?: Record<string, { module_name?: string; severity?: string; patched_versions?: string }>;
+  };
+  if (!audit.metadata?.vulnerabilities) {
+    throw new Error('Audit report has no metadata.vulnerabilities; expected `npm audit --json` output');
+  }
+
+  const counts = Object.fromEntries(
+    AUDIT_SEVERITIES.map(severity => [severity, audit.metadata?.vulnerabilities?.[severity] ?? 0])
+  ) as Record<AuditSeverity, number>;
+  const threshold = AUDIT_SEVERITIES.indexOf(level);
+  const isBlocking = (severity: string | undefined) =>
+    AUDIT_SEVERITIES.indexOf(severity as AuditSeverity) >= threshold;
+
+  const packages: AuditSummary['packages'] = [];
+  if (audit.vulnerabilities) {
+    for (const [name, vulnerability] of Object.entries(audit.vulnerabilities)) {
+      if (!isBlocking(vulnerability.severity)) continue;
+      packages.push({ name, severity: vulnerability.severity as AuditSeverity, fixAvailable: Boolean(vulnerability.fixAvailable) });
+    }
+  } else if (audit.advisories) {
+    for (const advisory of Object.values(audit.advisories)) {
+      if (!isBlocking(advisory.severity)) continue;
+      packages.push({
+        name: advisory.module_name ?? '(unknown)',
+        severity: advisory.severity as AuditSeverity,
+        fixAvailable: Boolean(advisory.patched_versions && advisory.patched_versions !== '<0.0.0')
+      });
+    }
+  }
+
+  return {
+    counts,
+    blocking: AUDIT_SEVERITIES.slice(threshold).reduce((sum, severity) => sum + counts[severity], 0),
+    packages: packages.sort((a, b) => AUDIT_SEVERITIES.indexOf(b.severity) - AUDIT_SEVERITIES.indexOf(a.severity))
+  };
+}
+
+// Contents and age of a CI report; null when the file is missing
+async function readReport(file: string): Promise<{ content: string; path: string; modifiedAt: Date } | null> {
+  const resolved = path.resolve(file);
+  try {
+    const [content, stats] = await Promise.all([fs.readFile(resolved, 'utf8'), fs.stat(resolved)]);
+    return { content, path: resolved, modifiedAt: stats.mtime };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+function isStale(modifiedAt: Date, maxAgeMs: number): boolean {
+  return maxAgeMs > 0 && Date.now() - modifiedAt.getTime() > maxAgeMs;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// GATES
+// ═══════════════════════════════════════════════════════════════
+
+export class SystemHealthGate implements SafetyGate {
+  id = 'system-health';
+  name = 'System Health';
+  category: GateCategory = 'quality';
+
+  async run(): Promise<GateResult> {
+    const health = await healthCheckService.runHealthChecks({ persist: false });
+
+    // Allow degraded state - only fail if unhealthy
+    const passed = health.status === 'healthy' || health.status === 'degraded';
+    return {
+      passed,
+      message: passed ? `Health checks passed (${health.status})` : `Health status: ${health.status}`,
+      evidence: {
+        status: health.status,
+        passedChecks: health.summary.passed,
+        failedChecks: health.summary.failures,
+        warnings: health.summary.warnings
+      }
+    };
+  }
+}
+
+export class PerformanceGate implements SafetyGate {
+  id = 'performance';
+  name = 'Performance Benchmarks';
+  category: GateCategory = 'performance';
+
+  async run(): Promise<GateResult> {
+    const thresholds = await metricsCollector.checkDeploymentThresholds();
+    return {
+      passed: thresholds.passed,
+      message: thresholds.passed ? 'All performance benchmarks met' : 'Some performance thresholds not met',
+      evidence: { checks: thresholds.checks }
+    };
+  }
+}
+
+export class CostGate implements SafetyGate {
+  id = 'cost';
+  name = 'Cost Optimization';
+  category: GateCategory = 'cost';
+
+  async run(): Promise<GateResult> {
+    const savings = await metricsCollector.calculateCostSavings();
+
+    // Target: 87% cost reduction, 90% of target is acceptable
+    const targetSavings = 87;
+    const passed = savings.savingsPercent >= targetSavings * 0.9;
+    return {
+      passed,
+      message: passed
+        ? `Cost savings: ${savings.savingsPercent.toFixed(1)}% (target: ${targetSavings}%)`
+        : `Cost savings below target: ${savings.savingsPercent.toFixed(1)}% (target: ${targetSavings}%)`,
+      evidence: savings
+    };
+  }
+}
+
+export class TestReportGate implements SafetyGate {
+  id = 'test-report';
+  name = 'Test Report';
+  category: GateCategory = 'tests';
+
+  constructor(private config: SafetyGateConfig = getSafetyGateConfig()) {}
+
+  async run(): Promise<GateResult> {
+    const report = await readReport(this.config.junitPath);
+    if (!report) {
+      return {
+        passed: false,
+        message: `No JUnit report at ${this.config.junitPath}`,
+        evidence: { path: path.resolve(this.config.junitPath) }
+      };
+    }
+
+    const summary = parseJUnitReport(report.content);
+    const evidence = {
+      path: report.path,
+      modifiedAt: report.modifiedAt.toISOString(),
+      tests: summary.tests,
+      failures: summary.failures,
+      errors: summary.errors,
+      skipped: summary.skipped,
+      failed: summary.failed.slice(0, 20)
+    };
+
+    if (isStale(report.modifiedAt, this.config.reportMaxAgeMs)) {
+      return { passed: false, message: `JUnit report is older than ${this.config.reportMaxAgeMs}ms`, evidence };
+    }
+    if (summary.tests === 0) {
+      return { passed: false, message: 'JUnit report contains no test cases', evidence };
+    }
+
+    const failing = summary.failures + summary.errors;
+    return {
+      passed: failing === 0,
+      message: failing === 0
+        ? `${summary.tests - summary.skipped} of ${summary.tests} tests passed (${summary.skipped} skipped)`
+        : `${failing} of ${summary.tests} tests failing`,
+      evidence
+    };
+  }
+}
+
+export class DependencyAuditGate implements SafetyGate {
+  id = 'dependency-audit';
+  name = 'Dependency Vulnerabilities';
+  category: GateCategory = 'security';
+
+  constructor(private config: SafetyGateConfig = getSafetyGateConfig()) {}
+
+  async run(): Promise<GateResult> {
+    const report = await readReport(this.config.auditPath);
+    if (!report) {
+      return {
+        passed: false,
+        message: `No npm audit report at ${this.config.auditPath}`,
+        evidence: { path: path.resolve(this.config.auditPath) }
+      };
+    }
+
+    const summary = summarizeAudit(JSON.parse(report.content), this.config.auditLevel);
+    const evidence = {
+      path: report.path,
+      modifiedAt: report.modifiedAt.toISOString(),
+      level: this.config.auditLevel,
+      ...summary.counts,
+      packages: summary.packages.slice(0, 20)
+    };
+
+    if (isStale(report.modifiedAt, this.config.reportMaxAgeMs)) {
+      return { passed: false, message: `npm audit report is older than ${this.config.reportMaxAgeMs}ms`, evidence };
+    }
+    return {
+      passed: summary.blocking === 0,
+      message: summary.blocking === 0
+        ? `No ${this.config.auditLevel} or worse vulnerabilities`
+        : `${summary.blocking} ${this.config.auditLevel} or worse vulnerabilit${summary.blocking === 1 ? 'y' : 'ies'}`,
+      evidence
+    };
+  }
+}
+
+export class PendingMigrationGate implements SafetyGate {
+  id = 'pending-migrations';
+  name = 'Pending Migrations';
+  category: GateCategory = 'quality';
+
+  constructor(private config: SafetyGateConfig = getSafetyGateConfig()) {}
+
+  async run(): Promise<GateResult> {
+    const journalPath = path.resolve(this.config.migrationsDir, 'meta', '_journal.json');
+    const journal = await readReport(journalPath);
+    if (!journal) {
+      return {
+        passed: true,
+        message: `No migration journal in ${this.config.migrationsDir} (schema managed with db:push)`,
+        evidence: { journal: journalPath }
+      };
+    }
+
+    const entries = (JSON.parse(journal.content) as { entries?: Array<{ tag: string; when: number }> }).entries ?? [];
+    const lastApplied = await this.getLastAppliedAt();
+    const pending = entries.filter(entry => lastApplied === null || entry.when > lastApplied);
+
+    return {
+      passed: pending.length === 0,
+      message: pending.length === 0
+        ? `All ${entries.length} migration(s) applied`
+        : `${pending.length} of ${entries.length} migration(s) not applied`,
+      evidence: {
+        journal: journal.path,
+        total: entries.length,
+        lastAppliedAt: lastApplied !== null ? new Date(lastApplied).toISOString() : null,
+        pending: pending.map(entry => entry.tag)
+      }
+    };
+  }
+
+  // drizzle's migrator records each applied file's journal timestamp
+  private async getLastAppliedAt(): Promise<number | null> {
+    try {
+      const result = await db.execute<{ created_at: string | null }>(
+        sql`SELECT MAX(created_at) AS created_at FROM drizzle.__drizzle_migrations`
+      );
+      const value = result.rows[0]?.created_at;
+      return value !== null && value !== undefined ? Number(value) : null;
+    } catch (error) {
+      // No migrations schema or table yet: nothing has been applied
+      const code = (error as { code?: string }).code;
+      if (code === '42P01' || code === '3F000') return null;
+      throw error;
+    }
+  }
+}
+
+export class BudgetGate implements SafetyGate {
+  id = 'budget';
+  name = 'AI Budget';
+  category: GateCategory = 'cost';
+
+  async run(): Promise<GateResult> {
+    const statuses = await budgetGuard.getBurnDown();
+    const exceeded = statuses.filter(status => status.state === 'exceeded');
+    const warning = statuses.filter(status => status.state === 'warning');
+
+    return {
+      passed: exceeded.length === 0,
+      message: exceeded.length === 0
+        ? `${statuses.length} budget polic${statuses.length === 1 ? 'y' : 'ies'} within limits (${warning.length} over soft limit)`
+        : `${exceeded.length} budget polic${exceeded.length === 1 ? 'y' : 'ies'} at the hard limit`,
+      evidence: {
+        policies: statuses.length,
+        overLimit: [...exceeded, ...warning].map(status => ({
+          policyId: status.policy.id,
+          scope: `${status.policy.scope}:${status.scopeId}`,
+          period: status.policy.period,
+          spentUsd: Number(status.spentUsd.toFixed(2)),
+          limitUsd: status.limitUsd,
+          percentUsed: Math.round(status.percentUsed),
+          state: status.state
+        }))
+      }
+    };
+  }
+}
+
+export class CriticalAlertGate implements SafetyGate {
+  id = 'critical-alerts';
+  name = 'Open Critical Alerts';
+  category: GateCategory = 'operations';
+
+  async run(): Promise<GateResult> {
+    const critical = (await alertManager.getActiveAlerts()).filter(alert => alert.severity === 'critical');
+    return {
+      passed: critical.length === 0,
+      message: critical.length === 0
+        ? 'No open critical alerts'
+        : `${critical.length} open critical alert(s)`,
+      evidence: {
+        alerts: critical.map(alert => ({
+          id: alert.id,
+          title: alert.title,
+          source: alert.source,
+          firedAt: alert.firedAt.toISOString(),
+          occurrences: alert.occurrences
+        }))
+      }
+    };
+  }
+}
+
+/**
+ * The built-in gates, in report order
+ */
+export function createDefaultGates(config: SafetyGateConfig = getSafetyGateConfig()): SafetyGate[] {
+  return [
+    new SystemHealthGate(),
+    new PerformanceGate(),
+    new TestReportGate(config),
+    new DependencyAuditGate(config),
+    new PendingMigrationGate(config),
+    new CriticalAlertGate(),
+    new BudgetGate(),
+    new CostGate()
+  ];
+}
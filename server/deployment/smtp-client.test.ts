@@ -0,0 +1,309 @@
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'net';
+import { SmtpClient, SmtpError, type SmtpConfig } from './smtp-client';
+import { EmailChannel, DeliveryError } from './notification-channels';
+import type { Notification } from './notification-service';
+
+interface SmtpSession {
+  commands: string[];
+  data: string;
+  done: Promise<void>;
+}
+
+/**
+ * Local SMTP server speaking just enough ESMTP for the client.
+ * `replies` overrides the reply to a verb, e.g. { RCPT: '450 4.2.1 Busy' }.
+ */
+class SmtpStandIn {
+  sessions: SmtpSession[] = [];
+  replies: Record<string, string> = {};
+  private server = net.createServer(socket => this.handle(socket));
+
+  get port(): number {
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  listen(): Promise<void> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: net.Socket): void {
+    let closed!: () => void;
+    const session: SmtpSession = { commands: [], data: '', done: new Promise(resolve => { closed = resolve; }) };
+    this.sessions.push(session);
+    socket.on('close', () => closed());
+    socket.on('error', () => {});
+
+    const reply = (line: string) => {
+      if (!socket.destroyed) socket.write(`${line}\r\n`);
+    };
+
+    let buffer = '';
+    let dataLines: string[] | null = null;
+    reply('220 standin.test ESMTP ready');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (dataLines) {
+          if (line === '.') {
+            session.data = dataLines.join('\r\n');
+            dataLines = null;
+            reply(this.replies['.'] ?? '250 2.0.0 OK queued as 1A2B3C');
+          } else {
+            dataLines.push(line.startsWith('.') ? line.slice(1) : line);
+          }
+          continue;
+        }
+
+        session.commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (this.replies[verb]) {
+          reply(this.replies[verb]);
+          continue;
+        }
+
+        switch (verb) {
+          case 'EHLO':
+            reply('250-standin.test greets you');
+            reply('250-AUTH PLAIN LOGIN');
+            reply('250-SIZE 10485760');
+            reply('250 8BITMIME');
+            break;
+          case 'AUTH':
+            reply('235 2.7.0 Authentication successful');
+            break;
+          case 'MAIL':
+          case 'RCPT':
+            reply('250 2.1.0 OK');
+            break;
+          case 'DATA':
+            dataLines = [];
+            reply('354 End data with <CR><LF>.<CR><LF>');
+            break;
+          case 'QUIT':
+            reply('221 2.0.0 Bye');
+            socket.end();
+            break;
+          default:
+            reply('502 5.5.2 Command not recognized');
+        }
+      }
+    });
+  }
+}
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+function parseHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of block.split('\r\n')) {
+    const colon = line.indexOf(':');
+    headers[line.slice(0, colon).toLowerCase()] = line.slice(colon + 1).trim();
+  }
+  return headers;
+}
+
+function parseMessage(data: string): { headers: Record<string, string>; parts: MimePart[] } {
+  const split = data.indexOf('\r\n\r\n');
+  const headers = parseHeaders(data.slice(0, split));
+  const boundary = headers['content-type'].match(/boundary="([^"]+)"/)?.[1];
+  if (!boundary) return { headers, parts: [] };
+
+  const parts = data.slice(split + 4)
+    .split(`--${boundary}`)
+    .slice(1, -1)
+    .map(raw => {
+      const [head, ...rest] = raw.replace(/^\r\n/, '').split('\r\n\r\n');
+      return {
+        headers: parseHeaders(head),
+        body: Buffer.from(rest.join('\r\n\r\n').replace(/\r\n/g, ''), 'base64').toString('utf8')
+      };
+    });
+  return { headers, parts };
+}
+
+describe('SmtpClient against a local SMTP server', () => {
+  const smtp = new SmtpStandIn();
+
+  const config = (overrides: Partial<SmtpConfig> = {}): SmtpConfig => ({
+    host: '127.0.0.1',
+    port: smtp.port,
+    secure: false,
+    user: 'mailer',
+    password: 's3cret',
+    from: 'Mr Blue <noreply@mrblue.test>',
+    timeoutMs: 2000,
+    rejectUnauthorized: true,
+    ...overrides
+  });
+
+  before(() => smtp.listen());
+  after(() => smtp.close());
+
+  beforeEach(() => {
+    smtp.sessions = [];
+    smtp.replies = {};
+  });
+
+  test('runs EHLO, AUTH PLAIN, MAIL, RCPT and DATA with a multipart body', async () => {
+    const result = await new SmtpClient(config()).send({
+      to: 'On Call <oncall@example.com>',
+      subject: 'Deployment failed',
+      text: 'v42 failed its health probe.\nRolled back to v41.',
+      html: '<p>v42 failed its <b>health probe</b>.</p>'
+    });
+
+    const [session] = smtp.sessions;
+    await session.done;
+
+    const auth = session.commands[1].split(' ');
+    assert.deepEqual(session.commands.map(c => c.split(' ')[0]), ['EHLO', 'AUTH', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+    assert.equal(session.commands[0], 'EHLO mrblue.test');
+    assert.deepEqual(auth.slice(0, 2), ['AUTH', 'PLAIN']);
+    assert.equal(Buffer.from(auth[2], 'base64').toString('utf8'), '\0mailer\0s3cret');
+    assert.equal(session.commands[2], 'MAIL FROM:<noreply@mrblue.test>');
+    assert.equal(session.commands[3], 'RCPT TO:<oncall@example.com>');
+
+    assert.equal(result.response, '250 2.0.0 OK queued as 1A2B3C');
+    assert.match(result.messageId, /^<\d+\.[0-9a-f]{16}@mrblue\.test>$/);
+
+    const message = parseMessage(session.data);
+    assert.equal(message.headers.from, 'Mr Blue <noreply@mrblue.test>');
+    assert.equal(message.headers.to, 'On Call <oncall@example.com>');
+    assert.equal(message.headers.subject, 'Deployment failed');
+    assert.equal(message.headers['message-id'], result.messageId);
+    assert.equal(message.headers['mime-version'], '1.0');
+    assert.match(message.headers['content-type'], /^multipart\/alternative; boundary="mrblue-[0-9a-f]{24}"$/);
+
+    assert.deepEqual(message.parts.map(p => p.headers['content-type']), [
+      'text/plain; charset=utf-8',
+      'text/html; charset=utf-8'
+    ]);
+    assert.ok(message.parts.every(p => p.headers['content-transfer-encoding'] === 'base64'));
+    assert.equal(message.parts[0].body, 'v42 failed its health probe.\nRolled back to v41.');
+    assert.equal(message.parts[1].body, '<p>v42 failed its <b>health probe</b>.</p>');
+  });
+
+  test('skips AUTH without credentials and sends plain text alone', async () => {
+    await new SmtpClient(config({ user: undefined, password: undefined })).send({
+      to: 'ops@example.com',
+      subject: 'Déploiement terminé',
+      text: 'Done'
+    });
+
+    const [session] = smtp.sessions;
+    await session.done;
+    assert.deepEqual(session.commands.map(c => c.split(' ')[0]), ['EHLO', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+
+    const message = parseMessage(session.data);
+    assert.equal(message.headers['content-type'], 'text/plain; charset=utf-8');
+    assert.equal(message.headers.subject, `=?UTF-8?B?${Buffer.from('Déploiement terminé').toString('base64')}?=`);
+  });
+
+  test('4xx replies are transient, 5xx replies are permanent', async () => {
+    smtp.replies = { RCPT: '450 4.2.1 Mailbox busy' };
+    await assert.rejects(
+      new SmtpClient(config()).send({ to: 'ops@example.com', subject: 'Hi', text: 'Hi' }),
+      (error: unknown) => error instanceof SmtpError && error.code === 450 && error.transient
+        && error.message === 'SMTP RCPT failed: 450 4.2.1 Mailbox busy'
+    );
+
+    smtp.replies = { AUTH: '535 5.7.8 Authentication credentials invalid' };
+    await assert.rejects(
+      new SmtpClient(config()).send({ to: 'ops@example.com', subject: 'Hi', text: 'Hi' }),
+      (error: unknown) => error instanceof SmtpError && error.code === 535 && !error.transient
+    );
+    assert.ok(!smtp.sessions[1].commands.some(c => c.startsWith('MAIL')), 'stops after the failed command');
+  });
+
+  test('connection failures are transient with code 0', async () => {
+    const unused = net.createServer();
+    await new Promise<void>(resolve => unused.listen(0, '127.0.0.1', resolve));
+    const port = (unused.address() as net.AddressInfo).port;
+    await new Promise(resolve => unused.close(resolve));
+
+    await assert.rejects(
+      new SmtpClient(config({ port })).send({ to: 'ops@example.com', subject: 'Hi', text: 'Hi' }),
+      (error: unknown) => error instanceof SmtpError && error.code === 0 && error.transient
+    );
+  });
+
+  describe('EmailChannel', () => {
+    const saved: Record<string, string | undefined> = {};
+    const keys = ['SMTP_HOST', 'SMTP_PORT', 'SMTP_SECURE', 'SMTP_USER', 'SMTP_PASSWORD', 'SMTP_FROM', 'NOTIFY_EMAIL_DOMAIN', 'APP_BASE_URL'];
+
+    const notification: Notification = {
+      id: 'notif-7',
+      userId: 'alex',
+      type: 'warning',
+      channel: 'email',
+      title: 'Budget at 85%',
+      message: 'Spend is $85.00 of $100.00',
+      timestamp: '2026-10-19T12:00:00.000Z',
+      read: false,
+      actionUrl: '/analytics'
+    };
+
+    beforeEach(() => {
+      for (const key of keys) saved[key] = process.env[key];
+      process.env.SMTP_HOST = '127.0.0.1';
+      process.env.SMTP_PORT = String(smtp.port);
+      process.env.SMTP_FROM = 'alerts@mrblue.test';
+      process.env.NOTIFY_EMAIL_DOMAIN = 'example.com';
+      process.env.APP_BASE_URL = 'https://mrblue.test';
+      delete process.env.SMTP_SECURE;
+      delete process.env.SMTP_USER;
+      delete process.env.SMTP_PASSWORD;
+    });
+
+    afterEach(() => {
+      for (const key of keys) {
+        if (saved[key] === undefined) delete process.env[key];
+        else process.env[key] = saved[key];
+      }
+    });
+
+    test('renders and sends the notification email', async () => {
+      const channel = new EmailChannel();
+      const target = channel.resolveTarget(notification);
+      assert.equal(target, 'alex@example.com');
+
+      assert.deepEqual(await channel.deliver(notification, target!), { statusCode: 250 });
+
+      const [session] = smtp.sessions;
+      await session.done;
+      assert.equal(session.commands[2], 'RCPT TO:<alex@example.com>');
+      const message = parseMessage(session.data);
+      assert.equal(message.headers.subject, '[Warning] Budget at 85%');
+      assert.match(message.parts[0].body, /Open: https:\/\/mrblue\.test\/analytics/);
+      assert.match(message.parts[1].body, /<a href="https:\/\/mrblue\.test\/analytics"/);
+    });
+
+    test('maps SMTP failures to retryable and permanent delivery errors', async () => {
+      smtp.replies = { MAIL: '421 4.3.2 Service shutting down' };
+      await assert.rejects(
+        new EmailChannel().deliver(notification, 'alex@example.com'),
+        (error: unknown) => error instanceof DeliveryError && error.retryable && error.statusCode === 421
+      );
+
+      smtp.replies = { RCPT: '550 5.1.1 No such user' };
+      await assert.rejects(
+        new EmailChannel().deliver(notification, 'alex@example.com'),
+        (error: unknown) => error instanceof DeliveryError && !error.retryable && error.statusCode === 550
+      );
+    });
+  });
+});
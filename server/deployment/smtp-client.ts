@@ -0,0 +1,277 @@
+/**
+ * Minimal SMTP Client - Phase 5 Track B
+ * Agent #135: User Communication Specialist
+ *
+ * Just enough SMTP (RFC 5321) to hand a message to a relay:
+ * - Implicit TLS (port 465) or plain TCP with opportunistic STARTTLS
+ * - AUTH PLAIN when credentials are configured
+ * - Multi-line replies, dot-stuffing, multipart/alternative bodies
+ *
+ * Configured from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER,
+ * SMTP_PASSWORD and SMTP_FROM.
+ */
+
+import net from 'net';
+import tls from 'tls';
+import { randomBytes } from 'crypto';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS from the first byte
+  user?: string;
+  password?: string;
+  from: string;
+  timeoutMs: number;
+  rejectUnauthorized: boolean;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SmtpResult {
+  messageId: string;
+  response: string; // Final server reply to DATA
+}
+
+/**
+ * Thrown for any non-success reply; `code` is the SMTP reply code (0 for
+ * connection errors). 4xx codes are transient and worth retrying.
+ */
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  get transient(): boolean {
+    return this.code === 0 || (this.code >= 400 && this.code < 500);
+  }
+}
+
+export function getSmtpConfig(): SmtpConfig | null {
+  if (!process.env.SMTP_HOST) return null;
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  return {
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10),
+    secure,
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    from: process.env.SMTP_FROM || 'Mr Blue <noreply@mrblue.local>',
+    timeoutMs: parseInt(process.env.SMTP_TIMEOUT_MS || '10000', 10),
+    rejectUnauthorized: process.env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false'
+  };
+}
+
+/**
+ * Reads complete (possibly multi-line) replies off a socket
+ */
+class ReplyReader {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: { resolve: (reply: { code: number; text: string }) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  attach(socket: net.Socket): void {
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+  }
+
+  fail(error: Error): void {
+    this.failure = error;
+    this.waiting?.reject(error);
+    this.waiting = null;
+  }
+
+  next(): Promise<{ code: number; text: string }> {
+    if (this.failure) return Promise.reject(this.failure);
+    const ready = this.takeReply();
+    if (ready) return Promise.resolve(ready);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private onData(data: string): void {
+    this.buffer += data;
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      this.lines.push(this.buffer.slice(0, index));
+      this.buffer = this.buffer.slice(index + 2);
+    }
+
+    if (this.waiting) {
+      const reply = this.takeReply();
+      if (reply) {
+        const { resolve } = this.waiting;
+        this.waiting = null;
+        resolve(reply);
+      }
+    }
+  }
+
+  // A reply ends with a line whose 4th character is a space ("250 OK")
+  private takeReply(): { code: number; text: string } | null {
+    const end = this.lines.findIndex(line => line.length < 4 || line[3] === ' ');
+    if (end === -1) return null;
+    const replyLines = this.lines.splice(0, end + 1);
+    return {
+      code: parseInt(replyLines[0].slice(0, 3), 10),
+      text: replyLines.map(line => line.slice(4)).join('\n')
+    };
+  }
+}
+
+function extractAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+function encodeHeader(value: string): string {
+  // RFC 2047 encoded-word for anything outside printable ASCII
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+export class SmtpClient {
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: MailMessage): Promise<SmtpResult> {
+    const domain = extractAddress(this.config.from).split('@')[1] || 'localhost';
+    const messageId = `<${Date.now()}.${randomBytes(8).toString('hex')}@${domain}>`;
+
+    let socket = await this.connect();
+    let reader = new ReplyReader();
+    reader.attach(socket);
+    const fail = (error: Error) => reader.fail(error);
+    const closed = () => reader.fail(new SmtpError('SMTP connection closed', 0));
+    socket.on('error', fail);
+    socket.on('close', closed);
+
+    const command = async (line: string | null, expect: number[]): Promise<{ code: number; text: string }> => {
+      if (line !== null) socket.write(`${line}\r\n`);
+      const reply = await reader.next();
+      if (!expect.includes(reply.code)) {
+        throw new SmtpError(`SMTP ${line?.split(' ')[0] ?? 'greeting'} failed: ${reply.code} ${reply.text}`, reply.code);
+      }
+      return reply;
+    };
+
+    try {
+      await command(null, [220]);
+      let ehlo = await command(`EHLO ${domain}`, [250]);
+
+      if (!this.config.secure && /^STARTTLS$/im.test(ehlo.text)) {
+        await command('STARTTLS', [220]);
+        socket.removeListener('error', fail);
+        socket.removeListener('close', closed);
+        socket = await this.upgrade(socket);
+        reader = new ReplyReader();
+        reader.attach(socket);
+        socket.on('error', fail);
+        socket.on('close', closed);
+        ehlo = await command(`EHLO ${domain}`, [250]);
+      }
+
+      if (this.config.user) {
+        const token = Buffer.from(`\0${this.config.user}\0${this.config.password ?? ''}`, 'utf8').toString('base64');
+        await command(`AUTH PLAIN ${token}`, [235]);
+      }
+
+      await command(`MAIL FROM:<${extractAddress(this.config.from)}>`, [250]);
+      await command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+      await command('DATA', [354]);
+
+      const body = this.buildMessage(message, messageId)
+        .split('\r\n')
+        .map(line => (line.startsWith('.') ? `.${line}` : line))
+        .join('\r\n');
+      const accepted = await command(`${body}\r\n.`, [250]);
+
+      socket.write('QUIT\r\n');
+      return { messageId, response: `${accepted.code} ${accepted.text}` };
+    } catch (error) {
+      if (error instanceof SmtpError) throw error;
+      throw new SmtpError(error instanceof Error ? error.message : String(error), 0);
+    } finally {
+      socket.end();
+    }
+  }
+
+  private connect(): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const onError = (error: Error) => reject(new SmtpError(`SMTP connection failed: ${error.message}`, 0));
+      const socket = this.config.secure
+        ? tls.connect({
+            host: this.config.host,
+            port: this.config.port,
+            servername: this.config.host,
+            rejectUnauthorized: this.config.rejectUnauthorized
+          }, () => resolve(socket))
+        : net.connect({ host: this.config.host, port: this.config.port }, () => resolve(socket));
+
+      socket.setTimeout(this.config.timeoutMs, () => {
+        socket.destroy(new Error(`timed out after ${this.config.timeoutMs}ms`));
+      });
+      socket.once('error', onError);
+    });
+  }
+
+  private upgrade(socket: net.Socket): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const secured = tls.connect({
+        socket,
+        servername: this.config.host,
+        rejectUnauthorized: this.config.rejectUnauthorized
+      }, () => resolve(secured));
+      secured.once('error', error => reject(new SmtpError(`STARTTLS failed: ${error.message}`, 0)));
+    });
+  }
+
+  private buildMessage(message: MailMessage, messageId: string): string {
+    const headers = [
+      `From: ${this.config.from}`,
+      `To: ${message.to}`,
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: ${messageId}`,
+      'MIME-Version: 1.0'
+    ];
+
+    const textPart = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+    if (!message.html) {
+      return [
+        ...headers,
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        textPart
+      ].join('\r\n');
+    }
+
+    const boundary = `mrblue-${randomBytes(12).toString('hex')}`;
+    const htmlPart = Buffer.from(message.html, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+    return [
+      ...headers,
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      textPart,
+      `--${boundary}`,
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      htmlPart,
+      `--${boundary}--`
+    ].join('\r\n');
+  }
+}
@@ -1,187 +1,172 @@
 /**
  * User Segmentation System - Phase 5 Track B
  * Agent #133: User Segmentation Specialist
- * 
- * Manages beta user selection and segmentation for:
- * - Phase 5.1: Super admin only (1 user)
- * - Phase 5.2: Beta users (10-100 users)
- * - Phase 5.3: General availability (100% users)
+ *
+ * Segments are stored on users.segment, lowest to highest:
+ * - regular: everyone else (general availability comes through flag rollouts)
+ * - beta: early access to orchestration and AI routing
+ * - super_admin: everything
+ *
+ * Every change is written to segment_changes as a promotion or demotion.
+ * Rollout plans (rollout-scheduler.ts) promote users on a schedule.
  */
 
-export type UserSegment = 'super_admin' | 'beta' | 'regular';
+import { db } from '../db';
+import { segmentChanges, users, USER_SEGMENTS, type SegmentChange, type User, type UserSegment } from '@shared/schema';
+import { count, desc, eq } from 'drizzle-orm';
+
+export type { UserSegment };
 
 export interface UserSegmentation {
   userId: string;
   segment: UserSegment;
-  enrolledAt: string;
+  updatedAt: string | null;
   features: string[];
-  metadata?: Record<string, unknown>;
+}
+
+export interface SegmentChangeOptions {
+  changedBy: string; // User ID, or 'rollout-scheduler'
+  reason?: string;
+  planId?: string;
+  phase?: string;
+}
+
+/**
+ * Thrown when a segment change names a user that does not exist
+ */
+export class SegmentationError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'SegmentationError';
+  }
+}
+
+/**
+ * Position of a segment; a move to a higher rank is a promotion
+ */
+export function segmentRank(segment: UserSegment): number {
+  return USER_SEGMENTS.indexOf(segment);
 }
 
 export class UserSegmentationService {
-  private segmentation: Map<string, UserSegmentation> = new Map();
+  private cache: Map<string, { segment: UserSegment; loadedAt: number }> = new Map();
+  private cacheMs = parseInt(process.env.SEGMENT_CACHE_MS || '5000', 10);
 
   /**
-   * Assign user to a segment
+   * Move a user to a segment and record the change
+   * Throws SegmentationError (404) if the user does not exist
    */
-  assignSegment(userId: string, segment: UserSegment): UserSegmentation {
-    const userSeg: UserSegmentation = {
-      userId,
-      segment,
-      enrolledAt: new Date().toISOString(),
-      features: this.getFeaturesForSegment(segment)
-    };
+  async assignSegment(userId: string, segment: UserSegment, options: SegmentChangeOptions): Promise<UserSegmentation> {
+    const updated = await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for('update');
+      if (!user) {
+        throw new SegmentationError(`User ${userId} not found`, 404);
+      }
+
+      const from = user.segment as UserSegment;
+      if (from === segment) return user;
+
+      const [changed] = await tx.update(users)
+        .set({ segment, segmentUpdatedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+
+      await tx.insert(segmentChanges).values({
+        userId,
+        fromSegment: from,
+        toSegment: segment,
+        direction: segmentRank(segment) > segmentRank(from) ? 'promotion' : 'demotion',
+        reason: options.reason ?? null,
+        planId: options.planId ?? null,
+        phase: options.phase ?? null,
+        changedBy: options.changedBy
+      });
+
+      console.log(`[UserSegmentation] ${userId}: ${from} → ${segment} by ${options.changedBy}${options.reason ? ` (${options.reason})` : ''}`);
+      return changed;
+    });
 
-    this.segmentation.set(userId, userSeg);
-    console.log(`[UserSegmentation] Assigned ${userId} to segment: ${segment}`);
-    
-    return userSeg;
+    this.cache.set(userId, { segment, loadedAt: Date.now() });
+    return this.toSegmentation(updated);
   }
 
   /**
    * Get user's current segment
+   * Unknown users are regular; cached for SEGMENT_CACHE_MS, and the last
+   * known segment is used when the database is unreachable
    */
-  getUserSegment(userId: string): UserSegment {
-    const userSeg = this.segmentation.get(userId);
-    if (userSeg) {
-      return userSeg.segment;
+  async getUserSegment(userId: string): Promise<UserSegment> {
+    const cached = this.cache.get(userId);
+    if (cached && Date.now() - cached.loadedAt < this.cacheMs) return cached.segment;
+
+    try {
+      const [user] = await db.select({ segment: users.segment }).from(users).where(eq(users.id, userId));
+      const segment = (user?.segment as UserSegment | undefined) ?? 'regular';
+      this.cache.set(userId, { segment, loadedAt: Date.now() });
+      return segment;
+    } catch (error) {
+      console.error(`[UserSegmentation] Failed to load segment for ${userId}:`, error);
+      return cached?.segment ?? 'regular';
     }
-
-    // Default to regular user if not assigned
-    return 'regular';
   }
 
   /**
-   * Get all users in a segment
+   * Segment with its features, or undefined for unknown users
    */
-  getUsersBySegment(segment: UserSegment): UserSegmentation[] {
-    return Array.from(this.segmentation.values())
-      .filter(u => u.segment === segment);
+  async getUserSegmentation(userId: string): Promise<UserSegmentation | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    return user ? this.toSegmentation(user) : undefined;
   }
 
   /**
-   * Get features available for a segment
+   * Get all users in a segment
    */
-  private getFeaturesForSegment(segment: UserSegment): string[] {
-    switch (segment) {
-      case 'super_admin':
-        return [
-          'agentOrchestration',
-          'aiRouting',
-          'advancedAnalytics',
-          'selfHealing',
-          'realtimeDashboard',
-          'deploymentTools',
-          'adminPanel'
-        ];
-      case 'beta':
-        return [
-          'agentOrchestration',
-          'aiRouting',
-          'realtimeDashboard'
-        ];
-      case 'regular':
-        return [];
-      default:
-        return [];
-    }
+  async getUsersBySegment(segment: UserSegment): Promise<UserSegmentation[]> {
+    const rows = await db.select().from(users).where(eq(users.segment, segment));
+    return rows.map(user => this.toSegmentation(user));
   }
 
   /**
-   * Promote user to beta (Phase 5.2 rollout)
+   * Promote user to beta (Phase 5.2 rollout); users already at beta or
+   * above are left where they are
    */
-  promoteToBeta(userId: string): UserSegmentation {
-    console.log(`[UserSegmentation] Promoting ${userId} to beta`);
-    return this.assignSegment(userId, 'beta');
-  }
+  async promoteToBeta(userId: string, changedBy: string = 'system'): Promise<UserSegmentation> {
+    const current = await this.getUserSegmentation(userId);
+    if (!current) {
+      throw new SegmentationError(`User ${userId} not found`, 404);
+    }
+    if (segmentRank(current.segment) >= segmentRank('beta')) return current;
 
-  /**
-   * Promote user to general availability (Phase 5.3)
-   */
-  promoteToGeneral(userId: string): UserSegmentation {
-    console.log(`[UserSegmentation] Promoting ${userId} to general availability`);
-    // In Phase 5.3, regular users get all features
-    const userSeg = this.assignSegment(userId, 'regular');
-    userSeg.features = [
-      'agentOrchestration',
-      'aiRouting',
-      'realtimeDashboard'
-    ];
-    return userSeg;
+    return this.assignSegment(userId, 'beta', { changedBy, reason: 'Promoted to beta' });
   }
 
   /**
-   * Automatic rollout schedule
-   * Phase 5.1: Day 1-7 (super admin only)
-   * Phase 5.2: Day 8-21 (beta users)
-   * Phase 5.3: Day 22-35 (general availability)
+   * Promotions and demotions, newest first, for one user or everyone
    */
-  async executeRolloutSchedule(): Promise<void> {
-    const startDate = new Date('2025-10-29'); // Deployment start
-    const now = new Date();
-    const daysSinceStart = Math.floor((now.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-
-    console.log(`[UserSegmentation] Days since deployment start: ${daysSinceStart}`);
-
-    if (daysSinceStart < 7) {
-      // Phase 5.1: Super admin only
-      console.log('[UserSegmentation] Phase 5.1: Super admin access only');
-      this.assignSegment('admin-1', 'super_admin');
-    } else if (daysSinceStart < 21) {
-      // Phase 5.2: Beta users
-      console.log('[UserSegmentation] Phase 5.2: Beta user rollout');
-      
-      // Week 2: 10 beta users
-      if (daysSinceStart < 14) {
-        for (let i = 1; i <= 10; i++) {
-          this.promoteToBeta(`beta-${i}`);
-        }
-      } 
-      // Week 3: 100 beta users
-      else {
-        for (let i = 1; i <= 100; i++) {
-          this.promoteToBeta(`beta-${i}`);
-        }
-      }
-    } else {
-      // Phase 5.3: General availability
-      console.log('[UserSegmentation] Phase 5.3: General availability rollout');
-      
-      // Week 4: 50% of users
-      if (daysSinceStart < 28) {
-        console.log('[UserSegmentation] Enabling 50% of users');
-        // In production, select 50% of user base
-      } 
-      // Week 5: 100% of users
-      else {
-        console.log('[UserSegmentation] Enabling 100% of users (full launch)');
-        // In production, enable all users
-      }
-    }
+  async getHistory(userId?: string, limit: number = 100): Promise<SegmentChange[]> {
+    const query = db.select().from(segmentChanges);
+    return await (userId ? query.where(eq(segmentChanges.userId, userId)) : query)
+      .orderBy(desc(segmentChanges.createdAt), desc(segmentChanges.id))
+      .limit(limit);
   }
 
   /**
    * Get rollout statistics
    */
-  getRolloutStats(): {
+  async getRolloutStats(): Promise<{
     total: number;
     bySegment: Record<UserSegment, number>;
-    percentage: {
-      super_admin: number;
-      beta: number;
-      regular: number;
-    };
-  } {
-    const total = this.segmentation.size;
-    const bySegment: Record<UserSegment, number> = {
-      super_admin: 0,
-      beta: 0,
-      regular: 0
-    };
-
-    Array.from(this.segmentation.values()).forEach(user => {
-      bySegment[user.segment]++;
-    });
+    percentage: Record<UserSegment, number>;
+  }> {
+    const rows = await db.select({ segment: users.segment, total: count() })
+      .from(users)
+      .groupBy(users.segment);
+
+    const bySegment: Record<UserSegment, number> = { super_admin: 0, beta: 0, regular: 0 };
+    for (const row of rows) {
+      if (row.segment in bySegment) bySegment[row.segment as UserSegment] = row.total;
+    }
+    const total = Object.values(bySegment).reduce((sum, n) => sum + n, 0);
 
     return {
       total,
@@ -193,6 +178,44 @@ export class UserSegmentationService {
       }
     };
   }
+
+  private toSegmentation(user: User): UserSegmentation {
+    const segment = user.segment as UserSegment;
+    return {
+      userId: user.id,
+      segment,
+      updatedAt: user.segmentUpdatedAt?.toISOString() ?? null,
+      features: this.getFeaturesForSegment(segment)
+    };
+  }
+
+  /**
+   * Get features available for a segment
+   */
+  private getFeaturesForSegment(segment: UserSegment): string[] {
+    switch (segment) {
+      case 'super_admin':
+        return [
+          'agentOrchestration',
+          'aiRouting',
+          'advancedAnalytics',
+          'selfHealing',
+          'realtimeDashboard',
+          'deploymentTools',
+          'adminPanel'
+        ];
+      case 'beta':
+        return [
+          'agentOrchestration',
+          'aiRouting',
+          'realtimeDashboard'
+        ];
+      case 'regular':
+        return [];
+      default:
+        return [];
+    }
+  }
 }
 
 export const userSegmentation = new UserSegmentationService();
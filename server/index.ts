@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { requestMetrics } from "./deployment/request-metrics";
 
 const app = express();
 
@@ -16,6 +17,9 @@ app.use(express.json({
 }));
 app.use(express.urlencoded({ extended: false }));
 
+// Per-route counts, status classes and latency histograms
+app.use(requestMetrics.middleware());
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
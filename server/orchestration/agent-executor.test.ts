@@ -0,0 +1,261 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AgentCapability, AgentTask } from '@shared/schema';
+import {
+  AgentExecutor,
+  AgentHandlerRegistry,
+  SimulatedAgentHandler,
+  type AgentExecutionResult,
+  type AgentHandler,
+  type TaskChanges,
+  type TaskStore
+} from './agent-executor';
+
+class MemoryTaskStore implements TaskStore {
+  tasks: Map<number, AgentTask> = new Map();
+  released: Array<{ agentId: string; succeeded: boolean }> = [];
+  private nextId = 1;
+
+  add(fields: Partial<AgentTask> & { description: string }): AgentTask {
+    const task: AgentTask = {
+      id: this.nextId++,
+      buildId: 'build-test',
+      type: 'backend',
+      assignedAgent: 'agent-backend',
+      status: 'assigned',
+      dependencies: [],
+      canStartWhen: 'all_complete',
+      priority: 5,
+      estimatedMinutes: null,
+      actualMinutes: null,
+      output: null,
+      error: null,
+      userId: 'user-1',
+      createdAt: new Date(),
+      startedAt: null,
+      completedAt: null,
+      ...fields
+    };
+    this.tasks.set(task.id, task);
+    return task;
+  }
+
+  get(id: number): AgentTask {
+    return this.tasks.get(id)!;
+  }
+
+  async findAssigned(buildId?: string): Promise<AgentTask[]> {
+    return Array.from(this.tasks.values())
+      .filter(t => t.status === 'assigned' && (!buildId || t.buildId === buildId))
+      .sort((a, b) => b.priority - a.priority || a.id - b.id);
+  }
+
+  async getStatuses(taskIds: number[]): Promise<Map<number, string>> {
+    return new Map(taskIds.filter(id => this.tasks.has(id)).map(id => [id, this.get(id).status]));
+  }
+
+  async countUnsettled(buildId: string): Promise<number> {
+    return Array.from(this.tasks.values())
+      .filter(t => t.buildId === buildId && ['assigned', 'in_progress'].includes(t.status))
+      .length;
+  }
+
+  async updateTask(taskId: number, changes: TaskChanges, expectedStatus?: string): Promise<AgentTask | undefined> {
+    const task = this.tasks.get(taskId);
+    if (!task || (expectedStatus && task.status !== expectedStatus)) return undefined;
+    const updated = { ...task, ...changes } as AgentTask;
+    this.tasks.set(taskId, updated);
+    return updated;
+  }
+
+  async getAgent(): Promise<AgentCapability | undefined> {
+    return undefined;
+  }
+
+  async getCompletedOutputs(taskIds: number[]): Promise<Record<number, unknown>> {
+    const outputs: Record<number, unknown> = {};
+    for (const id of taskIds) {
+      if (this.tasks.get(id)?.status === 'completed') outputs[id] = this.get(id).output;
+    }
+    return outputs;
+  }
+
+  async releaseAgent(agentId: string, succeeded: boolean): Promise<void> {
+    this.released.push({ agentId, succeeded });
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Finishes after a fixed delay whether or not it was aborted
+ */
+class StubbornHandler implements AgentHandler {
+  name = 'stubborn';
+
+  async execute(): Promise<AgentExecutionResult> {
+    await sleep(30);
+    return { output: { summary: 'Finished anyway' } };
+  }
+}
+
+function createExecutor(
+  options: { timeoutMs?: number; maxConcurrent?: number } = {},
+  handler: AgentHandler = new SimulatedAgentHandler(5)
+) {
+  const store = new MemoryTaskStore();
+  const registry = new AgentHandlerRegistry(handler);
+  const executor = new AgentExecutor(registry, { timeoutMs: 1000, maxConcurrent: 5, pollIntervalMs: 10, ...options }, store);
+  return { store, executor };
+}
+
+describe('AgentExecutor with SimulatedAgentHandler', () => {
+  test('claims an assigned task and records the handler output', async () => {
+    const { store, executor } = createExecutor();
+    const task = store.add({ description: 'Create the users table' });
+
+    assert.equal(await executor.tick(), 1);
+    assert.equal(store.get(task.id).status, 'in_progress');
+    assert.ok(store.get(task.id).startedAt);
+    assert.equal(await executor.tick(), 0, 'an in-progress task is not claimed again');
+
+    await executor.runBuild('build-test');
+    const completed = store.get(task.id);
+    assert.equal(completed.status, 'completed');
+    assert.equal((completed.output as Record<string, unknown>).handler, 'simulated');
+    assert.equal((completed.output as Record<string, unknown>).echo, 'Create the users table');
+    assert.deepEqual(store.released, [{ agentId: 'agent-backend', succeeded: true }]);
+  });
+
+  test('all_complete waits for every dependency and passes their outputs', async () => {
+    const { store, executor } = createExecutor();
+    const schema = store.add({ description: 'Schema', priority: 1 });
+    const api = store.add({ description: 'API', priority: 1 });
+    const frontend = store.add({ description: 'Frontend', priority: 10, dependencies: [schema.id, api.id] });
+
+    await executor.tick();
+    assert.equal(store.get(frontend.id).status, 'assigned', 'dependent waits despite higher priority');
+
+    await executor.runBuild('build-test');
+    assert.equal(store.get(frontend.id).status, 'completed');
+    assert.ok(store.get(frontend.id).startedAt! >= store.get(api.id).completedAt!);
+    assert.equal((store.get(frontend.id).output as Record<string, unknown>).dependencyCount, 2);
+  });
+
+  test('all_complete fails the dependent when one dependency fails', async () => {
+    const { store, executor } = createExecutor();
+    const ok = store.add({ description: 'Schema' });
+    const broken = store.add({ description: 'API [simulate:fail]' });
+    const dependent = store.add({ description: 'Frontend', dependencies: [ok.id, broken.id] });
+
+    await executor.runBuild('build-test');
+    assert.equal(store.get(broken.id).status, 'failed');
+    assert.equal(store.get(dependent.id).status, 'failed');
+    assert.equal(store.get(dependent.id).error, `Dependency task ${broken.id} failed`);
+    assert.equal(store.get(dependent.id).startedAt, null, 'blocked task never started');
+  });
+
+  test('any_complete starts after the first completed dependency', async () => {
+    const { store, executor } = createExecutor();
+    const broken = store.add({ description: 'Provider A [simulate:fail]' });
+    const ok = store.add({ description: 'Provider B' });
+    const dependent = store.add({ description: 'Integrate', dependencies: [broken.id, ok.id], canStartWhen: 'any_complete' });
+
+    await executor.runBuild('build-test');
+    assert.equal(store.get(broken.id).status, 'failed');
+    assert.equal(store.get(dependent.id).status, 'completed');
+    assert.equal((store.get(dependent.id).output as Record<string, unknown>).dependencyCount, 1);
+  });
+
+  test('any_complete fails the dependent when every dependency fails', async () => {
+    const { store, executor } = createExecutor();
+    const a = store.add({ description: 'A [simulate:fail]' });
+    const b = store.add({ description: 'B [simulate:fail]' });
+    const dependent = store.add({ description: 'Integrate', dependencies: [a.id, b.id], canStartWhen: 'any_complete' });
+
+    await executor.runBuild('build-test');
+    assert.equal(store.get(dependent.id).status, 'failed');
+    assert.match(store.get(dependent.id).error!, /All dependency tasks failed or were cancelled/);
+  });
+
+  test('records handler failures and timeouts as failed', async () => {
+    const { store, executor } = createExecutor({ timeoutMs: 50 });
+    const failing = store.add({ description: 'Deploy [simulate:fail]' });
+    const hanging = store.add({ description: 'Migrate [simulate:hang]' });
+
+    await executor.runBuild('build-test');
+    assert.equal(store.get(failing.id).status, 'failed');
+    assert.equal(store.get(failing.id).error, `Simulated failure for task ${failing.id}`);
+    assert.equal(store.get(hanging.id).status, 'failed');
+    assert.equal(store.get(hanging.id).error, 'Agent handler timed out after 50ms');
+    assert.deepEqual(store.released.map(r => r.succeeded), [false, false]);
+  });
+
+  test('cancelled tasks are recorded as cancelled, not failed', async () => {
+    const { store, executor } = createExecutor();
+    const task = store.add({ description: 'Long job [simulate:hang]' });
+
+    const run = executor.runBuild('build-test');
+    await sleep(20);
+    assert.deepEqual(executor.getRunningTaskIds(), [task.id]);
+    assert.deepEqual(executor.cancelTasks([task.id, 999]), [task.id]);
+    await run;
+
+    assert.equal(store.get(task.id).status, 'cancelled');
+    assert.equal(store.get(task.id).error, 'Cancelled');
+    assert.deepEqual(executor.getRunningTaskIds(), []);
+  });
+
+  test('a handler that ignores the abort does not complete a cancelled task', async () => {
+    const { store, executor } = createExecutor({}, new StubbornHandler());
+    const task = store.add({ description: 'Ignores its signal' });
+    const settled: string[] = [];
+    executor.onTaskSettled(t => { settled.push(t.status); });
+
+    const run = executor.runBuild('build-test');
+    await sleep(10);
+    executor.cancelTasks([task.id]);
+    await run;
+
+    assert.equal(store.get(task.id).status, 'cancelled');
+    assert.deepEqual(store.released.map(r => r.succeeded), [false]);
+    assert.deepEqual(settled, ['cancelled']);
+  });
+
+  test('a task cancelled outside the executor keeps its status when the handler finishes', async () => {
+    const { store, executor } = createExecutor({}, new StubbornHandler());
+    const task = store.add({ description: 'Cancelled by another process' });
+    const settled: string[] = [];
+    executor.onTaskSettled(t => { settled.push(t.status); });
+
+    const run = executor.runBuild('build-test');
+    await sleep(10);
+    await store.updateTask(task.id, { status: 'cancelled', error: 'Cancelled by user' }, 'in_progress');
+    await run;
+    await sleep(40);
+
+    assert.equal(store.get(task.id).status, 'cancelled');
+    assert.equal(store.get(task.id).error, 'Cancelled by user');
+    assert.deepEqual(store.released, [], 'the canceller gives the slot back');
+    assert.deepEqual(settled, []);
+    assert.deepEqual(executor.getRunningTaskIds(), []);
+  });
+
+  test('runBuild waits for a free slot instead of returning early', async () => {
+    const { store, executor } = createExecutor({ maxConcurrent: 1 });
+    const other = store.add({ buildId: 'build-other', description: 'Other build [simulate:hang]' });
+    const task = store.add({ description: 'Queued behind the other build' });
+
+    assert.equal(await executor.tick('build-other'), 1);
+    let finished = false;
+    const run = executor.runBuild('build-test').then(() => { finished = true; });
+
+    await sleep(50);
+    assert.equal(finished, false, 'still waiting while the only slot is taken');
+    assert.equal(store.get(task.id).status, 'assigned');
+
+    executor.cancelTasks([other.id]);
+    await run;
+    assert.equal(store.get(task.id).status, 'completed');
+  });
+});
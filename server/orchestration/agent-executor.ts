@@ -0,0 +1,603 @@
+import { db } from '../db';
+import { agentTasks, agentCapabilities, type AgentTask, type AgentCapability } from '@shared/schema';
+import { and, count, eq, inArray, ne, sql } from 'drizzle-orm';
+import { createHash } from 'crypto';
+import type { Server as SocketIOServer } from 'socket.io';
+import { envConfig } from '../deployment/env-config';
+
+/**
+ * Agent Executor - Runs assigned tasks through pluggable agent handlers
+ * Reference: mb.md Section 3 (Multi-Agent Orchestration System)
+ *
+ * Responsibilities:
+ * 1. Resolve a handler for each task (by agent ID, then specialty, then fallback)
+ * 2. Claim `assigned` tasks whose dependencies are satisfied
+ * 3. Run handlers with a timeout and write results back to agent_tasks
+ * 4. Broadcast `task:updated` over Socket.IO as tasks change state
+ *
+ * Task rows are read and written through a TaskStore (DbTaskStore by
+ * default), so the executor can run against an in-memory store offline.
+ */
+
+export interface AgentExecutionContext {
+  task: AgentTask;
+  agent?: AgentCapability;
+  dependencyOutputs: Record<number, unknown>;
+  signal: AbortSignal;
+}
+
+export interface AgentExecutionResult {
+  output: Record<string, any>;
+}
+
+export interface AgentHandler {
+  name: string;
+  execute(context: AgentExecutionContext): Promise<AgentExecutionResult>;
+}
+
+export interface ExecutorOptions {
+  timeoutMs: number;
+  maxConcurrent: number;
+  pollIntervalMs: number; // How often runBuild re-checks while it has nothing in flight
+}
+
+export type TaskChanges = Partial<typeof agentTasks.$inferInsert>;
+
+/**
+ * Task persistence used by the executor
+ */
+export interface TaskStore {
+  /** Assigned tasks, highest priority first, then oldest */
+  findAssigned(buildId?: string): Promise<AgentTask[]>;
+  getStatuses(taskIds: number[]): Promise<Map<number, string>>;
+  /** Sub-tasks of the build still assigned or in progress */
+  countUnsettled(buildId: string): Promise<number>;
+  /** Apply changes; with `expectedStatus`, only if the task is still in it */
+  updateTask(taskId: number, changes: TaskChanges, expectedStatus?: string): Promise<AgentTask | undefined>;
+  getAgent(agentId: string): Promise<AgentCapability | undefined>;
+  getCompletedOutputs(taskIds: number[]): Promise<Record<number, unknown>>;
+  /** Give back the load slot taken at assignment time */
+  releaseAgent(agentId: string, succeeded: boolean): Promise<void>;
+}
+
+export class AgentTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Agent handler timed out after ${timeoutMs}ms`);
+    this.name = 'AgentTimeoutError';
+  }
+}
+
+/**
+ * Handler registry - keyed by agentCapabilities.agentId or specialty
+ */
+export class AgentHandlerRegistry {
+  private byAgentId: Map<string, AgentHandler> = new Map();
+  private bySpecialty: Map<string, AgentHandler> = new Map();
+  private fallback: AgentHandler;
+
+  constructor(fallback: AgentHandler) {
+    this.fallback = fallback;
+  }
+
+  registerForAgent(agentId: string, handler: AgentHandler): void {
+    this.byAgentId.set(agentId, handler);
+  }
+
+  registerForSpecialty(specialty: string, handler: AgentHandler): void {
+    this.bySpecialty.set(specialty.toLowerCase(), handler);
+  }
+
+  setFallback(handler: AgentHandler): void {
+    this.fallback = handler;
+  }
+
+  /**
+   * Resolution order: exact agent ID → agent specialties → task type → fallback
+   */
+  resolve(task: AgentTask, agent?: AgentCapability): AgentHandler {
+    if (task.assignedAgent && this.byAgentId.has(task.assignedAgent)) {
+      return this.byAgentId.get(task.assignedAgent)!;
+    }
+
+    const specialties = Array.isArray(agent?.specialties)
+      ? agent!.specialties as string[]
+      : [];
+    for (const specialty of [...specialties, task.type]) {
+      const handler = this.bySpecialty.get(specialty.toLowerCase());
+      if (handler) return handler;
+    }
+
+    return this.fallback;
+  }
+}
+
+/**
+ * Simulated handler - deterministic echo used offline and in tests
+ *
+ * Markers in the task description drive the outcome:
+ * - `[simulate:fail]` → handler throws
+ * - `[simulate:hang]` → handler never resolves (exercises the timeout)
+ */
+export class SimulatedAgentHandler implements AgentHandler {
+  name = 'simulated';
+
+  constructor(private delayMs: number = parseInt(process.env.AGENT_SIMULATED_DELAY_MS || '250', 10)) {}
+
+  async execute({ task, agent, dependencyOutputs, signal }: AgentExecutionContext): Promise<AgentExecutionResult> {
+    if (task.description.includes('[simulate:hang]')) {
+      await new Promise<void>((_resolve, reject) => {
+        signal.addEventListener('abort', () => reject(new Error('Aborted')));
+      });
+    }
+
+    await this.sleep(this.delayMs, signal);
+
+    if (task.description.includes('[simulate:fail]')) {
+      throw new Error(`Simulated failure for task ${task.id}`);
+    }
+
+    const digest = createHash('sha256')
+      .update(`${task.type}:${task.description}`)
+      .digest('hex')
+      .slice(0, 12);
+
+    return {
+      output: {
+        summary: `Simulated ${task.type} work completed by ${agent?.agentId ?? task.assignedAgent ?? 'unassigned'}`,
+        echo: task.description,
+        digest,
+        dependencyCount: Object.keys(dependencyOutputs).length
+      }
+    };
+  }
+
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, ms);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new Error('Aborted'));
+      });
+    });
+  }
+}
+
+export class DbTaskStore implements TaskStore {
+  async findAssigned(buildId?: string): Promise<AgentTask[]> {
+    const conditions = buildId
+      ? and(eq(agentTasks.status, 'assigned'), eq(agentTasks.buildId, buildId))
+      : eq(agentTasks.status, 'assigned');
+
+    return await db.select()
+      .from(agentTasks)
+      .where(conditions)
+      .orderBy(sql`${agentTasks.priority} DESC`, agentTasks.createdAt);
+  }
+
+  async getStatuses(taskIds: number[]): Promise<Map<number, string>> {
+    const statuses: Map<number, string> = new Map();
+    if (taskIds.length === 0) return statuses;
+
+    const rows = await db.select({ id: agentTasks.id, status: agentTasks.status })
+      .from(agentTasks)
+      .where(inArray(agentTasks.id, taskIds));
+    rows.forEach(row => statuses.set(row.id, row.status));
+    return statuses;
+  }
+
+  async countUnsettled(buildId: string): Promise<number> {
+    // The main orchestration task stays in progress for the whole build
+    const [row] = await db.select({ value: count() })
+      .from(agentTasks)
+      .where(and(
+        eq(agentTasks.buildId, buildId),
+        inArray(agentTasks.status, ['assigned', 'in_progress']),
+        ne(agentTasks.type, 'orchestration')
+      ));
+    return row?.value ?? 0;
+  }
+
+  async updateTask(taskId: number, changes: TaskChanges, expectedStatus?: string): Promise<AgentTask | undefined> {
+    const condition = expectedStatus
+      ? and(eq(agentTasks.id, taskId), eq(agentTasks.status, expectedStatus))
+      : eq(agentTasks.id, taskId);
+
+    const [updated] = await db.update(agentTasks)
+      .set(changes)
+      .where(condition)
+      .returning();
+    return updated;
+  }
+
+  async getAgent(agentId: string): Promise<AgentCapability | undefined> {
+    const [agent] = await db.select().from(agentCapabilities).where(eq(agentCapabilities.agentId, agentId));
+    return agent;
+  }
+
+  async getCompletedOutputs(taskIds: number[]): Promise<Record<number, unknown>> {
+    if (taskIds.length === 0) return {};
+
+    const rows = await db.select({ id: agentTasks.id, output: agentTasks.output })
+      .from(agentTasks)
+      .where(and(inArray(agentTasks.id, taskIds), eq(agentTasks.status, 'completed')));
+
+    return rows.reduce((acc, row) => {
+      acc[row.id] = row.output;
+      return acc;
+    }, {} as Record<number, unknown>);
+  }
+
+  async releaseAgent(agentId: string, succeeded: boolean): Promise<void> {
+    await db.update(agentCapabilities)
+      .set({
+        currentLoad: sql`GREATEST(${agentCapabilities.currentLoad} - 1, 0)`,
+        totalTasksCompleted: succeeded
+          ? sql`${agentCapabilities.totalTasksCompleted} + 1`
+          : agentCapabilities.totalTasksCompleted,
+        updatedAt: new Date()
+      })
+      .where(eq(agentCapabilities.agentId, agentId));
+  }
+}
+
+export class AgentExecutor {
+  private wsServer: SocketIOServer | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking: boolean = false;
+  private running: Map<number, AbortController> = new Map();
+  private cancelled: Set<number> = new Set();
+  private settledListeners: Array<(task: AgentTask) => void | Promise<void>> = [];
+  private options: ExecutorOptions;
+
+  constructor(
+    private registry: AgentHandlerRegistry,
+    options: Partial<ExecutorOptions> = {},
+    private store: TaskStore = new DbTaskStore()
+  ) {
+    const limits = envConfig.getConfig().limits;
+    this.options = {
+      timeoutMs: options.timeoutMs ?? limits.requestTimeout,
+      maxConcurrent: options.maxConcurrent ?? limits.maxConcurrentTasks,
+      pollIntervalMs: options.pollIntervalMs ?? 1000
+    };
+  }
+
+  /**
+   * Set WebSocket server for real-time broadcasts
+   */
+  setWebSocketServer(wsServer: SocketIOServer) {
+    this.wsServer = wsServer;
+  }
+
+  /**
+   * Start the worker loop (claims ready tasks across all builds)
+   */
+  start(intervalMs: number = 5000): void {
+    if (this.timer) return;
+
+    console.log(`[AgentExecutor] Worker started (polling every ${intervalMs}ms)`);
+    this.timer = setInterval(() => {
+      this.tick().catch(err => console.error('[AgentExecutor] Tick failed:', err));
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the worker loop (tasks already running are left to finish)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Claim and start every ready task, without waiting for them to finish
+   * Returns the number of tasks started
+   */
+  async tick(buildId?: string): Promise<number> {
+    if (this.ticking) return 0;
+    this.ticking = true;
+
+    try {
+      let started = 0;
+      for (const task of await this.findReadyTasks(buildId)) {
+        if (this.running.size >= this.options.maxConcurrent) break;
+
+        const claimed = await this.claimTask(task);
+        if (!claimed) continue;
+
+        this.runTask(claimed).catch(err =>
+          console.error(`[AgentExecutor] Task ${claimed.id} crashed:`, err)
+        );
+        started++;
+      }
+      return started;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Run a whole build to completion, wave by wave
+   * Resolves once every sub-task in the build has settled; while all
+   * slots are taken (or the remaining tasks run in another worker) it
+   * polls every pollIntervalMs
+   */
+  async runBuild(buildId: string): Promise<void> {
+    const inFlight: Map<number, Promise<void>> = new Map();
+
+    while (true) {
+      for (const task of await this.findReadyTasks(buildId)) {
+        if (inFlight.has(task.id) || this.running.size >= this.options.maxConcurrent) continue;
+
+        const claimed = await this.claimTask(task);
+        if (!claimed) continue;
+
+        inFlight.set(
+          claimed.id,
+          this.runTask(claimed).finally(() => inFlight.delete(claimed.id))
+        );
+      }
+
+      if (inFlight.size > 0) {
+        await Promise.race(inFlight.values());
+        continue;
+      }
+
+      if (await this.store.countUnsettled(buildId) === 0) break;
+      await new Promise(resolve => setTimeout(resolve, this.options.pollIntervalMs));
+    }
+  }
+
+  /**
+   * Register a callback fired whenever a task reaches a terminal status
+   */
+  onTaskSettled(listener: (task: AgentTask) => void | Promise<void>): void {
+    this.settledListeners.push(listener);
+  }
+
+  /**
+   * Abort running tasks; they are recorded as `cancelled` rather than `failed`
+   * Returns the IDs that were actually running in this process
+   */
+  cancelTasks(taskIds: number[]): number[] {
+    const aborted: number[] = [];
+    for (const id of taskIds) {
+      const controller = this.running.get(id);
+      if (!controller) continue;
+
+      this.cancelled.add(id);
+      controller.abort();
+      aborted.push(id);
+    }
+    return aborted;
+  }
+
+  /**
+   * Get IDs of tasks currently executing in this process
+   */
+  getRunningTaskIds(): number[] {
+    return Array.from(this.running.keys());
+  }
+
+  /**
+   * Find assigned tasks whose dependencies are satisfied
+   * Tasks that can no longer start are failed here as well
+   */
+  private async findReadyTasks(buildId?: string): Promise<AgentTask[]> {
+    const candidates = await this.store.findAssigned(buildId);
+    const depIds = Array.from(new Set(candidates.flatMap(t => this.getDependencies(t))));
+    const depStatus = await this.store.getStatuses(depIds);
+
+    const ready: AgentTask[] = [];
+    for (const task of candidates) {
+      const state = this.getDependencyState(task, depStatus);
+
+      if (state.status === 'blocked') {
+        await this.failBlockedTask(task, state.reason!);
+        continue;
+      }
+
+      if (state.status === 'ready') {
+        ready.push(task);
+      }
+    }
+
+    return ready;
+  }
+
+  /**
+   * Atomically move a task from `assigned` to `in_progress`
+   * Returns undefined if another worker claimed it first
+   */
+  private async claimTask(task: AgentTask): Promise<AgentTask | undefined> {
+    const claimed = await this.store.updateTask(task.id, {
+      status: 'in_progress',
+      startedAt: new Date()
+    }, 'assigned');
+
+    if (claimed) {
+      this.emitTaskUpdate(claimed);
+    }
+    return claimed;
+  }
+
+  /**
+   * Execute a claimed task and persist the outcome
+   */
+  private async runTask(task: AgentTask): Promise<void> {
+    const controller = new AbortController();
+    this.running.set(task.id, controller);
+    const startedAt = task.startedAt ?? new Date();
+
+    try {
+      const agent = task.assignedAgent
+        ? await this.store.getAgent(task.assignedAgent)
+        : undefined;
+      const handler = this.registry.resolve(task, agent);
+      const dependencyOutputs = await this.loadDependencyOutputs(task);
+
+      const result = await this.withTimeout(
+        handler.execute({ task, agent, dependencyOutputs, signal: controller.signal }),
+        controller
+      );
+
+      // A handler that ignores the abort signal can still resolve after cancelTasks
+      if (this.cancelled.has(task.id)) {
+        throw new Error('Cancelled');
+      }
+
+      // Only an in-progress task completes; one cancelled elsewhere meanwhile keeps its status
+      const completedAt = new Date();
+      const updated = await this.store.updateTask(task.id, {
+        status: 'completed',
+        output: { ...result.output, handler: handler.name, durationMs: completedAt.getTime() - startedAt.getTime() },
+        error: null,
+        actualMinutes: this.toMinutes(startedAt, completedAt),
+        completedAt
+      }, 'in_progress');
+
+      if (updated) {
+        await this.releaseAgent(task.assignedAgent, true);
+        this.emitTaskUpdate(updated);
+      }
+    } catch (error) {
+      const completedAt = new Date();
+      const wasCancelled = this.cancelled.has(task.id);
+      const message = wasCancelled
+        ? 'Cancelled'
+        : error instanceof Error ? error.message : 'Unknown error';
+
+      const updated = await this.store.updateTask(task.id, {
+        status: wasCancelled ? 'cancelled' : 'failed',
+        error: message,
+        actualMinutes: this.toMinutes(startedAt, completedAt),
+        completedAt
+      }, 'in_progress');
+
+      if (updated) {
+        await this.releaseAgent(task.assignedAgent, false);
+        this.emitTaskUpdate(updated);
+      }
+    } finally {
+      this.running.delete(task.id);
+      this.cancelled.delete(task.id);
+    }
+  }
+
+  /**
+   * Fail a task that can never start because a dependency failed
+   */
+  private async failBlockedTask(task: AgentTask, reason: string): Promise<void> {
+    const updated = await this.store.updateTask(task.id, {
+      status: 'failed',
+      error: reason,
+      completedAt: new Date()
+    }, 'assigned');
+
+    if (updated) {
+      await this.releaseAgent(task.assignedAgent, false);
+      this.emitTaskUpdate(updated);
+    }
+  }
+
+  /**
+   * Collect outputs of completed dependencies for the handler
+   */
+  private async loadDependencyOutputs(task: AgentTask): Promise<Record<number, unknown>> {
+    return await this.store.getCompletedOutputs(this.getDependencies(task));
+  }
+
+  /**
+   * Give back the load slot taken at assignment time
+   */
+  private async releaseAgent(agentId: string | null, succeeded: boolean): Promise<void> {
+    if (!agentId) return;
+    await this.store.releaseAgent(agentId, succeeded);
+  }
+
+  private withTimeout<T>(promise: Promise<T>, controller: AbortController): Promise<T> {
+    const timeoutMs = this.options.timeoutMs;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        controller.abort();
+        reject(new AgentTimeoutError(timeoutMs));
+      }, timeoutMs);
+
+      promise.then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Evaluate a task's dependencies against its canStartWhen mode
+   * - all_complete: ready when every dependency completed, blocked if any failed/cancelled
+   * - any_complete: ready when one dependency completed, blocked if all failed/cancelled
+   */
+  private getDependencyState(
+    task: AgentTask,
+    depStatus: Map<number, string>
+  ): { status: 'ready' | 'waiting' | 'blocked'; reason?: string } {
+    const deps = this.getDependencies(task);
+    if (deps.length === 0) return { status: 'ready' };
+
+    const completed = deps.filter(id => depStatus.get(id) === 'completed');
+    const failed = deps.filter(id => ['failed', 'cancelled'].includes(depStatus.get(id) ?? ''));
+
+    if (task.canStartWhen === 'any_complete') {
+      if (completed.length > 0) return { status: 'ready' };
+      if (failed.length === deps.length) {
+        return { status: 'blocked', reason: `All dependency tasks failed or were cancelled (${failed.join(', ')})` };
+      }
+      return { status: 'waiting' };
+    }
+
+    if (failed.length > 0) {
+      return { status: 'blocked', reason: `Dependency task ${failed[0]} ${depStatus.get(failed[0])}` };
+    }
+    if (completed.length === deps.length) return { status: 'ready' };
+    return { status: 'waiting' };
+  }
+
+  private getDependencies(task: AgentTask): number[] {
+    return Array.isArray(task.dependencies) ? task.dependencies as number[] : [];
+  }
+
+  private toMinutes(start: Date, end: Date): number {
+    return Math.round((end.getTime() - start.getTime()) / 60000);
+  }
+
+  private emitTaskUpdate(task: AgentTask): void {
+    if (['completed', 'failed', 'cancelled'].includes(task.status)) {
+      for (const listener of this.settledListeners) {
+        Promise.resolve(listener(task)).catch(err =>
+          console.error('[AgentExecutor] Task settled listener failed:', err)
+        );
+      }
+    }
+
+    if (this.wsServer) {
+      this.wsServer.emit('task:updated', {
+        taskId: task.id,
+        buildId: task.buildId,
+        assignedAgent: task.assignedAgent,
+        status: task.status,
+        error: task.error,
+        completedAt: task.completedAt
+      });
+    }
+  }
+}
+
+export const agentHandlerRegistry = new AgentHandlerRegistry(new SimulatedAgentHandler());
+export const agentExecutor = new AgentExecutor(agentHandlerRegistry);
@@ -0,0 +1,272 @@
+import { db } from '../db';
+import { builds, agentTasks, agentCapabilities, aiUsageMetrics, type Build, type AgentTask } from '@shared/schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { agentExecutor, type AgentExecutor } from './agent-executor';
+
+/**
+ * Build Service - Lifecycle of a build (one user request and all its tasks)
+ * Reference: mb.md Section 3 (Multi-Agent Orchestration System)
+ *
+ * Responsibilities:
+ * 1. Create the build and its main orchestration task
+ * 2. Roll task statuses and AI cost up into the build row
+ * 3. Expose the build's task tree
+ * 4. Cancel a build and every task that has not finished
+ */
+
+export type BuildStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export const TERMINAL_BUILD_STATUSES: BuildStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Thrown when a build is missing or no longer accepts work
+ */
+export class BuildStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BuildStateError';
+  }
+}
+
+export interface BuildTaskNode extends AgentTask {
+  dependents: number[];
+}
+
+export interface BuildTree {
+  build: Build;
+  mainTask: AgentTask | null;
+  subTasks: BuildTaskNode[];
+  stats: Record<string, number>;
+}
+
+export class BuildService {
+  constructor(private executor: AgentExecutor = agentExecutor) {
+    // Keep the build row in step with its tasks
+    executor.onTaskSettled(task => this.refresh(task.buildId).then(() => undefined));
+  }
+
+  /**
+   * Create a build with its main orchestration task
+   */
+  async create(userId: string, request: string): Promise<{ build: Build; mainTask: AgentTask }> {
+    const buildId = `build-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    return await db.transaction(async (tx) => {
+      await tx.insert(builds).values({
+        id: buildId,
+        userId,
+        request,
+        status: 'pending',
+        deploymentVersion: process.env.DEPLOY_INSTANCE_VERSION ?? null
+      });
+
+      const [mainTask] = await tx.insert(agentTasks).values({
+        buildId,
+        type: 'orchestration',
+        description: request,
+        status: 'pending',
+        priority: 10,
+        userId,
+        dependencies: []
+      }).returning();
+
+      const [build] = await tx.update(builds)
+        .set({ mainTaskId: mainTask.id, updatedAt: new Date() })
+        .where(eq(builds.id, buildId))
+        .returning();
+
+      return { build, mainTask };
+    });
+  }
+
+  /**
+   * Ensure a build exists and can still receive tasks
+   */
+  async assertOpen(buildId: string): Promise<Build> {
+    const [build] = await db.select().from(builds).where(eq(builds.id, buildId));
+    if (!build) {
+      throw new BuildStateError(`Build ${buildId} not found`);
+    }
+    if (TERMINAL_BUILD_STATUSES.includes(build.status as BuildStatus)) {
+      throw new BuildStateError(`Build ${buildId} is ${build.status}`);
+    }
+    return build;
+  }
+
+  /**
+   * Mark a build as running before execution starts
+   */
+  async start(buildId: string): Promise<Build | undefined> {
+    const [build] = await db.update(builds)
+      .set({ status: 'running', startedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(builds.id, buildId), inArray(builds.status, ['pending', 'running'])))
+      .returning();
+
+    if (build?.mainTaskId) {
+      await db.update(agentTasks)
+        .set({ status: 'in_progress', startedAt: build.startedAt })
+        .where(and(eq(agentTasks.id, build.mainTaskId), eq(agentTasks.status, 'pending')));
+    }
+
+    return build;
+  }
+
+  /**
+   * Mark a build failed before any sub-tasks ran (e.g. decomposition error)
+   */
+  async fail(buildId: string, error: string): Promise<Build | undefined> {
+    const [build] = await db.update(builds)
+      .set({ status: 'failed', error, completedAt: new Date(), updatedAt: new Date() })
+      .where(eq(builds.id, buildId))
+      .returning();
+
+    if (build?.mainTaskId) {
+      await db.update(agentTasks)
+        .set({ status: 'failed', error, completedAt: new Date() })
+        .where(eq(agentTasks.id, build.mainTaskId));
+    }
+
+    return build;
+  }
+
+  /**
+   * Recompute status and cost roll-up from the build's tasks and AI usage
+   */
+  async refresh(buildId: string): Promise<Build | undefined> {
+    const [build] = await db.select().from(builds).where(eq(builds.id, buildId));
+    if (!build) return undefined;
+
+    const subTasks = (await db.select().from(agentTasks).where(eq(agentTasks.buildId, buildId)))
+      .filter(t => t.id !== build.mainTaskId);
+
+    const [usage] = await db.select({
+      tokens: sql<number>`COALESCE(SUM(${aiUsageMetrics.tokens}), 0)`,
+      cost: sql<string>`COALESCE(SUM(${aiUsageMetrics.cost}), 0)`
+    })
+      .from(aiUsageMetrics)
+      .where(eq(aiUsageMetrics.buildId, buildId));
+
+    const status = this.deriveStatus(build, subTasks);
+    const finished = TERMINAL_BUILD_STATUSES.includes(status) && !TERMINAL_BUILD_STATUSES.includes(build.status as BuildStatus);
+
+    const [updated] = await db.update(builds)
+      .set({
+        status,
+        totalTokens: Number(usage?.tokens ?? 0),
+        totalCost: String(usage?.cost ?? '0'),
+        error: status === 'failed'
+          ? `${subTasks.filter(t => t.status === 'failed').length} task(s) failed`
+          : build.error,
+        completedAt: finished && status !== 'cancelled' ? new Date() : build.completedAt,
+        updatedAt: new Date()
+      })
+      .where(eq(builds.id, buildId))
+      .returning();
+
+    if (finished && build.mainTaskId) {
+      await db.update(agentTasks)
+        .set({ status, completedAt: new Date() })
+        .where(eq(agentTasks.id, build.mainTaskId));
+    }
+
+    return updated;
+  }
+
+  /**
+   * Get a build with its task tree
+   * The main orchestration task is the root; sub-tasks carry their
+   * dependencies and the IDs of tasks that depend on them
+   */
+  async getTree(buildId: string): Promise<BuildTree | undefined> {
+    const [build] = await db.select().from(builds).where(eq(builds.id, buildId));
+    if (!build) return undefined;
+
+    const tasks = await db.select()
+      .from(agentTasks)
+      .where(eq(agentTasks.buildId, buildId))
+      .orderBy(agentTasks.id);
+
+    const mainTask = tasks.find(t => t.id === build.mainTaskId) ?? null;
+    const subTasks = tasks.filter(t => t.id !== build.mainTaskId);
+
+    const nodes: BuildTaskNode[] = subTasks.map(task => ({
+      ...task,
+      dependents: subTasks
+        .filter(other => this.getDependencies(other).includes(task.id))
+        .map(other => other.id)
+    }));
+
+    const stats = subTasks.reduce((acc, task) => {
+      acc[task.status] = (acc[task.status] || 0) + 1;
+      return acc;
+    }, { total: subTasks.length } as Record<string, number>);
+
+    return { build, mainTask, subTasks: nodes, stats };
+  }
+
+  /**
+   * Cancel a build: unfinished tasks become `cancelled`, running ones are aborted
+   * Returns undefined if the build does not exist
+   */
+  async cancel(buildId: string, reason: string = 'Cancelled by user'): Promise<{ build: Build; cancelledTaskIds: number[] } | undefined> {
+    const [existing] = await db.select().from(builds).where(eq(builds.id, buildId));
+    if (!existing) return undefined;
+
+    const [build] = await db.update(builds)
+      .set({ status: 'cancelled', error: reason, cancelledAt: new Date(), updatedAt: new Date() })
+      .where(eq(builds.id, buildId))
+      .returning();
+
+    const openTasks = await db.select()
+      .from(agentTasks)
+      .where(and(
+        eq(agentTasks.buildId, buildId),
+        inArray(agentTasks.status, ['pending', 'assigned', 'in_progress'])
+      ));
+
+    // Running tasks are cancelled by the executor so their handlers stop
+    const aborted = this.executor.cancelTasks(openTasks.map(t => t.id));
+    const toCancel = openTasks.filter(t => !aborted.includes(t.id));
+
+    if (toCancel.length > 0) {
+      await db.update(agentTasks)
+        .set({ status: 'cancelled', error: reason, completedAt: new Date() })
+        .where(inArray(agentTasks.id, toCancel.map(t => t.id)));
+    }
+
+    // Give back load slots taken at assignment time
+    for (const task of toCancel) {
+      if (task.assignedAgent && task.id !== existing.mainTaskId) {
+        await db.update(agentCapabilities)
+          .set({ currentLoad: sql`GREATEST(${agentCapabilities.currentLoad} - 1, 0)`, updatedAt: new Date() })
+          .where(eq(agentCapabilities.agentId, task.assignedAgent));
+      }
+    }
+
+    return { build, cancelledTaskIds: openTasks.map(t => t.id) };
+  }
+
+  /**
+   * Derive build status from its sub-tasks
+   * A cancelled build stays cancelled; otherwise any failure fails the build
+   * once every sub-task has settled
+   */
+  private deriveStatus(build: Build, subTasks: AgentTask[]): BuildStatus {
+    if (build.status === 'cancelled') return 'cancelled';
+    if (subTasks.length === 0) return build.status as BuildStatus;
+
+    const settled = subTasks.every(t => ['completed', 'failed', 'cancelled'].includes(t.status));
+    if (!settled) {
+      const started = subTasks.some(t => t.status !== 'pending' && t.status !== 'assigned');
+      return started || build.status === 'running' ? 'running' : 'pending';
+    }
+
+    return subTasks.some(t => t.status === 'failed' || t.status === 'cancelled') ? 'failed' : 'completed';
+  }
+
+  private getDependencies(task: AgentTask): number[] {
+    return Array.isArray(task.dependencies) ? task.dependencies as number[] : [];
+  }
+}
+
+export const buildService = new BuildService();
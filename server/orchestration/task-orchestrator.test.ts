@@ -0,0 +1,60 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskGraphValidationError, TaskOrchestrator, type SubTask, type TaskDependency } from './task-orchestrator';
+
+const orchestrator = new TaskOrchestrator();
+
+function subTask(id: string): SubTask {
+  return { id, type: 'backend', description: `Task ${id}`, estimatedMinutes: 10, requiredSpecialties: ['api'], priority: 5 };
+}
+
+function issuesFor(subTasks: unknown, dependencies: unknown): string[] {
+  try {
+    orchestrator.validateTaskGraph(subTasks as SubTask[], dependencies as TaskDependency[]);
+  } catch (error) {
+    assert.ok(error instanceof TaskGraphValidationError);
+    return error.issues;
+  }
+  return [];
+}
+
+describe('TaskOrchestrator.validateTaskGraph', () => {
+  test('accepts a well-formed acyclic graph', () => {
+    assert.deepEqual(issuesFor(
+      [subTask('db'), subTask('api')],
+      [{ taskId: 'api', dependsOn: ['db'], canStartWhen: 'all_complete' }]
+    ), []);
+  });
+
+  test('rejects non-array subTasks and dependencies instead of throwing a TypeError', () => {
+    assert.deepEqual(issuesFor('db', { taskId: 'api' }), [
+      'subTasks must be an array',
+      'dependencies must be an array'
+    ]);
+  });
+
+  test('rejects malformed entries', () => {
+    const issues = issuesFor(
+      [null, { id: 'api', type: 'backend', description: 'API', requiredSpecialties: 'api' }],
+      [{ taskId: 'api', dependsOn: 'db' }, { taskId: 'api', dependsOn: [1] }]
+    );
+    assert.deepEqual(issues, [
+      'subTasks[0] must be an object',
+      'subTasks[1].requiredSpecialties must be an array of strings',
+      'dependencies[0].dependsOn must be an array of task ids',
+      'dependencies[1].dependsOn must be an array of task ids'
+    ]);
+  });
+
+  test('rejects unknown ids and cycles', () => {
+    const issues = issuesFor(
+      [subTask('a'), subTask('b')],
+      [
+        { taskId: 'a', dependsOn: ['b', 'ghost'], canStartWhen: 'all_complete' },
+        { taskId: 'b', dependsOn: ['a'], canStartWhen: 'all_complete' }
+      ]
+    );
+    assert.ok(issues.includes('Task "a" depends on unknown task "ghost"'));
+    assert.ok(issues.some(issue => issue.startsWith('Cyclic dependency:')));
+  });
+});
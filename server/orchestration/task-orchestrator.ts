@@ -1,15 +1,13 @@
 import { db } from '../db';
 import { agentTasks, agentCapabilities, type InsertAgentTask, type AgentCapability, type AgentTask } from '@shared/schema';
 import { eq, and, inArray, sql } from 'drizzle-orm';
-import OpenAI from 'openai';
-
-// This is using Replit's AI Integrations service
-const openai = new OpenAI({
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY
-});
+import { agentExecutor, type AgentExecutor } from './agent-executor';
+import { buildService, type BuildService } from './build-service';
+import { modelRouter, type ModelRouter } from '../ai/model-router';
+import { experimentService, type ExperimentService } from '../deployment/experiments';
 
 export interface TaskDecomposition {
+  buildId: string;
   mainTaskId: number;
   subTasks: SubTask[];
   dependencies: TaskDependency[];
@@ -30,6 +28,43 @@ export interface TaskDependency {
   canStartWhen: 'all_complete' | 'any_complete';
 }
 
+/**
+ * System prompt for decomposition; a running 'decomposition' experiment
+ * can replace it per variant (config.systemPrompt)
+ */
+export const DECOMPOSITION_PROMPT = `You are a task decomposition expert for software development. 
+Analyze the user request and break it into sub-tasks.
+Return a JSON object with this structure:
+{
+  "subTasks": [
+    {
+      "id": "unique-id",
+      "type": "database|backend|frontend|testing|deployment",
+      "description": "clear task description",
+      "estimatedMinutes": number,
+      "requiredSpecialties": ["specialty1", "specialty2"],
+      "priority": 1-10
+    }
+  ],
+  "dependencies": [
+    {
+      "taskId": "task-id",
+      "dependsOn": ["prerequisite-task-id"],
+      "canStartWhen": "all_complete|any_complete"
+    }
+  ]
+}`;
+
+/**
+ * Thrown when a decomposition's dependency graph cannot be executed
+ */
+export class TaskGraphValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid task graph: ${issues.join('; ')}`);
+    this.name = 'TaskGraphValidationError';
+  }
+}
+
 export interface TaskAssignment {
   taskId: number;
   agentId: string;
@@ -43,69 +78,62 @@ export interface TaskAssignment {
  * Responsibilities:
  * 1. Decompose user requests into sub-tasks
  * 2. Assign sub-tasks to specialized agents
- * 3. Execute tasks in parallel (respecting dependencies)
+ * 3. Execute tasks in parallel (respecting dependencies) via AgentExecutor
  * 4. Load balance based on agent capacity and success rates
  */
 export class TaskOrchestrator {
+  constructor(
+    private executor: AgentExecutor = agentExecutor,
+    private builds: BuildService = buildService,
+    private router: ModelRouter = modelRouter,
+    private experiments: ExperimentService = experimentService
+  ) {}
+
   /**
    * Step 1: Decompose user request into sub-tasks
    * Uses AI to analyze request and break it into manageable pieces
    * Example: "Build a dashboard" → [schema, API, frontend, tests]
    */
   async decompose(userRequest: string, userId: string): Promise<TaskDecomposition> {
-    // Generate build ID
-    const buildId = `build-${Date.now()}`;
-    
-    // Use AI to decompose the request
-    // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-    const aiResponse = await openai.chat.completions.create({
-      model: 'gpt-4o', // Using gpt-4o for decomposition
-      messages: [{
-        role: 'system',
-        content: `You are a task decomposition expert for software development. 
-Analyze the user request and break it into sub-tasks.
-Return a JSON object with this structure:
-{
-  "subTasks": [
-    {
-      "id": "unique-id",
-      "type": "database|backend|frontend|testing|deployment",
-      "description": "clear task description",
-      "estimatedMinutes": number,
-      "requiredSpecialties": ["specialty1", "specialty2"],
-      "priority": 1-10
+    // Create the build and its main orchestration task first so AI usage
+    // is attributed to it
+    const { build, mainTask } = await this.builds.create(userId, userRequest);
+
+    const experiment = await this.experiments.assign('decomposition', userId);
+    const systemPrompt = typeof experiment?.config.systemPrompt === 'string' && experiment.config.systemPrompt
+      ? experiment.config.systemPrompt
+      : DECOMPOSITION_PROMPT;
+    if (experiment) {
+      await this.experiments.logExposure(experiment, userId, 'decomposition', build.id);
     }
-  ],
-  "dependencies": [
-    {
-      "taskId": "task-id",
-      "dependsOn": ["prerequisite-task-id"],
-      "canStartWhen": "all_complete|any_complete"
+
+    // Use AI to decompose the request (model chosen by the router)
+    let decomposed: { subTasks?: SubTask[]; dependencies?: TaskDependency[] };
+    try {
+      const completion = await this.router.complete('decomposition', {
+        messages: [{
+          role: 'system',
+          content: systemPrompt
+        }, {
+          role: 'user',
+          content: `Decompose this request: ${userRequest}`
+        }],
+        jsonMode: true,
+        maxTokens: 4096,
+        agentId: 'task-orchestrator',
+        userId,
+        buildId: build.id,
+        experiments: experiment ? { [experiment.experimentKey]: experiment.variant } : undefined
+      });
+
+      decomposed = JSON.parse(completion.content || '{}');
+    } catch (error) {
+      await this.builds.fail(build.id, `Decomposition failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
     }
-  ]
-}`
-      }, {
-        role: 'user',
-        content: `Decompose this request: ${userRequest}`
-      }],
-      response_format: { type: 'json_object' },
-      max_completion_tokens: 4096
-    });
-    
-    const decomposed = JSON.parse(aiResponse.choices[0]?.message?.content || '{}');
-    
-    // Create main orchestration task in database
-    const [mainTask] = await db.insert(agentTasks).values({
-      buildId,
-      type: 'orchestration',
-      description: userRequest,
-      status: 'pending',
-      priority: 10,
-      userId,
-      dependencies: []
-    }).returning();
     
     return {
+      buildId: build.id,
       mainTaskId: mainTask.id,
       subTasks: decomposed.subTasks || [],
       dependencies: decomposed.dependencies || []
@@ -118,128 +146,231 @@ Return a JSON object with this structure:
    * - Specialty match (required capabilities)
    * - Current capacity (how many tasks they're handling)
    * - Success rate (past performance)
+   *
+   * The dependency graph is validated first, then all rows are created
+   * before sub-task IDs are resolved to database task IDs
    */
   async assignTasks(
     decomposition: TaskDecomposition,
     userId: string
   ): Promise<TaskAssignment[]> {
-    const assignments: TaskAssignment[] = [];
-    
-    for (const subTask of decomposition.subTasks) {
-      // Find agents with matching specialties
-      const candidates = await db.select()
-        .from(agentCapabilities)
-        .where(
-          sql`${agentCapabilities.isActive} = true`
-        );
-      
-      // Filter by specialty match
-      const matchingAgents = candidates.filter(agent => {
-        const agentSpecialties = Array.isArray(agent.specialties) 
-          ? agent.specialties as string[]
-          : [];
-        return subTask.requiredSpecialties.some(req => 
-          agentSpecialties.some(spec => 
-            spec.toLowerCase().includes(req.toLowerCase()) ||
-            req.toLowerCase().includes(spec.toLowerCase())
-          )
-        );
-      });
-      
-      if (matchingAgents.length === 0) {
-        console.warn(`No matching agents found for task: ${subTask.description}`);
-        // Fallback: assign to general-purpose agent (Agent #131)
-        matchingAgents.push(
-          candidates.find(a => a.agentId === 'agent-131-vibe-coding') || candidates[0]
-        );
+    this.validateTaskGraph(decomposition.subTasks, decomposition.dependencies);
+    await this.builds.assertOpen(decomposition.buildId);
+
+    return await db.transaction(async (tx) => {
+      const assignments: TaskAssignment[] = [];
+      const taskIdMap: Map<string, number> = new Map();
+
+      // Pass 1: create every sub-task row
+      for (const subTask of decomposition.subTasks) {
+        // Find agents with matching specialties
+        const candidates = await tx.select()
+          .from(agentCapabilities)
+          .where(
+            sql`${agentCapabilities.isActive} = true`
+          );
+
+        // Filter by specialty match
+        const matchingAgents = candidates.filter(agent => {
+          const agentSpecialties = Array.isArray(agent.specialties)
+            ? agent.specialties as string[]
+            : [];
+          return subTask.requiredSpecialties.some(req =>
+            agentSpecialties.some(spec =>
+              spec.toLowerCase().includes(req.toLowerCase()) ||
+              req.toLowerCase().includes(spec.toLowerCase())
+            )
+          );
+        });
+
+        if (matchingAgents.length === 0) {
+          console.warn(`No matching agents found for task: ${subTask.description}`);
+          // Fallback: assign to general-purpose agent (Agent #131)
+          matchingAgents.push(
+            candidates.find(a => a.agentId === 'agent-131-vibe-coding') || candidates[0]
+          );
+        }
+
+        // Select best agent using scoring algorithm
+        const bestAgent = await this.selectBestAgent(matchingAgents, subTask);
+        const dependency = decomposition.dependencies.find(d => d.taskId === subTask.id);
+
+        const [assignment] = await tx.insert(agentTasks).values({
+          buildId: decomposition.buildId,
+          type: subTask.type,
+          description: subTask.description,
+          assignedAgent: bestAgent.agentId,
+          status: 'assigned',
+          priority: subTask.priority,
+          estimatedMinutes: subTask.estimatedMinutes,
+          userId,
+          dependencies: [],
+          canStartWhen: dependency?.canStartWhen ?? 'all_complete'
+        }).returning();
+
+        // Update agent's current load
+        await tx.update(agentCapabilities)
+          .set({
+            currentLoad: sql`${agentCapabilities.currentLoad} + 1`
+          })
+          .where(eq(agentCapabilities.agentId, bestAgent.agentId));
+
+        taskIdMap.set(subTask.id, assignment.id);
+        assignments.push({
+          taskId: assignment.id,
+          agentId: bestAgent.agentId,
+          estimatedMinutes: subTask.estimatedMinutes
+        });
       }
-      
-      // Select best agent using scoring algorithm
-      const bestAgent = await this.selectBestAgent(matchingAgents, subTask);
-      
-      // Create task assignment in database
-      const dependencyIds = this.getDependencyIds(subTask.id, decomposition.dependencies);
-      
-      const [assignment] = await db.insert(agentTasks).values({
-        buildId: String(decomposition.mainTaskId),
-        type: subTask.type,
-        description: subTask.description,
-        assignedAgent: bestAgent.agentId,
-        status: 'assigned',
-        priority: subTask.priority,
-        estimatedMinutes: subTask.estimatedMinutes,
-        userId,
-        dependencies: dependencyIds
-      }).returning();
-      
-      // Update agent's current load
-      await db.update(agentCapabilities)
-        .set({ 
-          currentLoad: sql`${agentCapabilities.currentLoad} + 1`
-        })
-        .where(eq(agentCapabilities.agentId, bestAgent.agentId));
-      
-      assignments.push({
-        taskId: assignment.id,
-        agentId: bestAgent.agentId,
-        estimatedMinutes: subTask.estimatedMinutes
+
+      // Pass 2: resolve sub-task IDs to database task IDs
+      for (const dependency of decomposition.dependencies) {
+        if (dependency.dependsOn.length === 0) continue;
+
+        await tx.update(agentTasks)
+          .set({ dependencies: this.getDependencyIds(dependency.taskId, decomposition.dependencies, taskIdMap) })
+          .where(eq(agentTasks.id, taskIdMap.get(dependency.taskId)!));
+      }
+
+      return assignments;
+    });
+  }
+
+  /**
+   * Validate the LLM-produced dependency graph
+   * Rejects malformed entries, duplicate IDs, dangling references, and cycles
+   */
+  validateTaskGraph(subTasks: SubTask[], dependencies: TaskDependency[]): void {
+    this.validateTaskGraphShape(subTasks, dependencies);
+
+    const issues: string[] = [];
+    const ids = new Set<string>();
+
+    for (const subTask of subTasks) {
+      if (ids.has(subTask.id)) {
+        issues.push(`Duplicate sub-task id "${subTask.id}"`);
+      }
+      ids.add(subTask.id);
+    }
+
+    const edges: Map<string, string[]> = new Map();
+    for (const dep of dependencies) {
+      if (!ids.has(dep.taskId)) {
+        issues.push(`Dependency references unknown task "${dep.taskId}"`);
+        continue;
+      }
+      if (dep.canStartWhen !== 'all_complete' && dep.canStartWhen !== 'any_complete') {
+        issues.push(`Task "${dep.taskId}" has invalid canStartWhen "${dep.canStartWhen}"`);
+      }
+      if (edges.has(dep.taskId)) {
+        issues.push(`Task "${dep.taskId}" has more than one dependency entry`);
+      }
+      for (const prerequisite of dep.dependsOn) {
+        if (!ids.has(prerequisite)) {
+          issues.push(`Task "${dep.taskId}" depends on unknown task "${prerequisite}"`);
+        }
+      }
+      edges.set(dep.taskId, [...(edges.get(dep.taskId) || []), ...dep.dependsOn.filter(p => ids.has(p))]);
+    }
+
+    // Depth-first search; a grey node reached again closes a cycle
+    const state: Map<string, 'visiting' | 'done'> = new Map();
+    const path: string[] = [];
+    const visit = (id: string): boolean => {
+      if (state.get(id) === 'done') return false;
+      if (state.get(id) === 'visiting') {
+        const cycle = [...path.slice(path.indexOf(id)), id];
+        issues.push(`Cyclic dependency: ${cycle.join(' → ')}`);
+        return true;
+      }
+
+      state.set(id, 'visiting');
+      path.push(id);
+      const foundCycle = (edges.get(id) || []).some(visit);
+      path.pop();
+      state.set(id, 'done');
+      return foundCycle;
+    };
+
+    for (const id of Array.from(ids)) {
+      if (visit(id)) break;
+    }
+
+    if (issues.length > 0) {
+      throw new TaskGraphValidationError(issues);
+    }
+  }
+
+  /**
+   * Decompositions arrive from clients and the LLM, so check the shape
+   * before walking the graph
+   */
+  private validateTaskGraphShape(subTasks: unknown, dependencies: unknown): void {
+    const issues: string[] = [];
+    const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+
+    if (!Array.isArray(subTasks)) {
+      issues.push('subTasks must be an array');
+    } else {
+      subTasks.forEach((subTask: unknown, index) => {
+        if (!isObject(subTask)) {
+          issues.push(`subTasks[${index}] must be an object`);
+          return;
+        }
+        if (typeof subTask.id !== 'string' || subTask.id === '') {
+          issues.push(`subTasks[${index}].id must be a non-empty string`);
+        }
+        if (typeof subTask.type !== 'string' || subTask.type === '') {
+          issues.push(`subTasks[${index}].type must be a non-empty string`);
+        }
+        if (typeof subTask.description !== 'string') {
+          issues.push(`subTasks[${index}].description must be a string`);
+        }
+        if (!isStringArray(subTask.requiredSpecialties)) {
+          issues.push(`subTasks[${index}].requiredSpecialties must be an array of strings`);
+        }
+        for (const field of ['priority', 'estimatedMinutes']) {
+          if (subTask[field] !== undefined && !Number.isInteger(subTask[field])) {
+            issues.push(`subTasks[${index}].${field} must be an integer`);
+          }
+        }
       });
     }
-    
-    return assignments;
+
+    if (!Array.isArray(dependencies)) {
+      issues.push('dependencies must be an array');
+    } else {
+      dependencies.forEach((dependency: unknown, index) => {
+        if (!isObject(dependency)) {
+          issues.push(`dependencies[${index}] must be an object`);
+          return;
+        }
+        if (typeof dependency.taskId !== 'string' || dependency.taskId === '') {
+          issues.push(`dependencies[${index}].taskId must be a non-empty string`);
+        }
+        if (!isStringArray(dependency.dependsOn)) {
+          issues.push(`dependencies[${index}].dependsOn must be an array of task ids`);
+        }
+      });
+    }
+
+    if (issues.length > 0) {
+      throw new TaskGraphValidationError(issues);
+    }
   }
 
   /**
    * Step 3: Execute tasks in parallel (respecting dependencies)
-   * Builds execution graph and runs tasks in waves
-   * Tasks with no dependencies run first, then dependent tasks
+   * Delegates to the AgentExecutor, which runs tasks in waves:
+   * tasks with no dependencies run first, then dependent tasks
    */
   async executeParallel(buildId: string): Promise<void> {
-    // Get all tasks for this build
-    const tasks = await db.select()
-      .from(agentTasks)
-      .where(eq(agentTasks.buildId, buildId));
-    
-    // Build execution graph
-    const graph = this.buildExecutionGraph(tasks);
-    
-    // Find tasks with no dependencies (ready to start)
-    let readyTasks = graph.filter(t => {
-      const deps = Array.isArray(t.dependencies) ? t.dependencies as number[] : [];
-      return deps.length === 0 && t.status === 'assigned';
-    });
-    
-    const completedIds: number[] = [];
-    
-    // Execute in waves
-    while (readyTasks.length > 0) {
-      // Mark ready tasks as in_progress
-      await Promise.all(
-        readyTasks.map(task =>
-          db.update(agentTasks)
-            .set({ 
-              status: 'in_progress',
-              startedAt: new Date()
-            })
-            .where(eq(agentTasks.id, task.id))
-        )
-      );
-      
-      // In a real implementation, these would trigger agent execution
-      // For now, we'll simulate by marking them as completed
-      // The actual agent execution would happen via WebSocket or message queue
-      
-      completedIds.push(...readyTasks.map(t => t.id));
-      
-      // Find newly ready tasks (dependencies now complete)
-      readyTasks = graph.filter(t => {
-        if (completedIds.includes(t.id)) return false;
-        if (t.status !== 'assigned') return false;
-        
-        const deps = Array.isArray(t.dependencies) ? t.dependencies as number[] : [];
-        return deps.every(depId => completedIds.includes(depId));
-      });
-    }
+    await this.builds.assertOpen(buildId);
+    await this.builds.start(buildId);
+    await this.executor.runBuild(buildId);
+    await this.builds.refresh(buildId);
   }
 
   /**
@@ -279,25 +410,17 @@ Return a JSON object with this structure:
     return scored[0]?.agent || candidates[0];
   }
 
-  /**
-   * Build execution graph from tasks
-   */
-  private buildExecutionGraph(tasks: AgentTask[]): AgentTask[] {
-    return tasks;
-  }
-
   /**
    * Get dependency task IDs for a given sub-task
    */
   private getDependencyIds(
     taskId: string,
-    dependencies: TaskDependency[]
+    dependencies: TaskDependency[],
+    taskIdMap: Map<string, number>
   ): number[] {
     const dep = dependencies.find(d => d.taskId === taskId);
     if (!dep) return [];
-    
-    // For now, return empty array since we don't have task ID mapping yet
-    // In real implementation, would map sub-task IDs to database task IDs
-    return [];
+
+    return dep.dependsOn.map(id => taskIdMap.get(id)!);
   }
 }
@@ -2,6 +2,7 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { Server as SocketIOServer } from "socket.io";
 import { storage } from "./storage";
+import type { BuildStatus } from "./orchestration/build-service";
 import { z } from "zod";
 import {
   insertAgentCapabilitySchema,
@@ -14,6 +15,18 @@ import {
   insertFailedActionSchema,
   insertFailurePatternSchema,
   insertAiUsageMetricSchema,
+  insertBudgetPolicySchema,
+  insertAlertRuleSchema,
+  insertOnCallScheduleSchema,
+  insertOnCallOverrideSchema,
+  insertEscalationPolicySchema,
+  insertNotificationPreferencesSchema,
+  insertFeatureFlagSchema,
+  insertExperimentSchema,
+  EXPERIMENT_STATUSES,
+  insertRolloutPlanSchema,
+  USER_SEGMENTS,
+  insertDeploymentSchema,
 } from "@shared/schema";
 
 // WebSocket server instance (will be initialized in registerRoutes)
@@ -33,9 +46,20 @@ export function broadcastAgentUpdate(eventType: string, data: any, agentId?: str
   }
 }
 
+// String query parameters as feature flag targeting attributes
+function queryAttributes(req: Request): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(req.query).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
+  // Instances started by the local deployment target (DEPLOY_INSTANCE_VERSION)
+  // only serve traffic; background loops run once, in the parent process
+  const runSchedulers = !process.env.DEPLOY_INSTANCE_VERSION;
+
   // ═══════════════════════════════════════════════════════════════════
   // WEBSOCKET SETUP
   // ═══════════════════════════════════════════════════════════════════
@@ -47,6 +71,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Connection counts, message rates and heartbeat latency for metrics
+  const { metricsCollector } = await import('./deployment/metrics-collector');
+  metricsCollector.instrumentSocketServer(io);
+  if (runSchedulers && process.env.METRICS_SNAPSHOT_INTERVAL_MS) {
+    metricsCollector.startSnapshots(parseInt(process.env.METRICS_SNAPSHOT_INTERVAL_MS, 10));
+  }
+
+  // In-process route and socket probes for health checks; the scheduled
+  // run keeps /api/health/history filled between API calls
+  const { healthCheckService } = await import('./deployment/health-check');
+  healthCheckService.attach(app, httpServer, io);
+  if (runSchedulers) {
+    healthCheckService.startScheduledChecks(parseInt(process.env.HEALTH_HISTORY_INTERVAL_MS || '300000', 10));
+  }
+
+  // Evaluate alert rules against collected metrics
+  const { alertManager, AlertRuleError, ALERT_METRICS } = await import('./deployment/alert-manager');
+  if (runSchedulers) {
+    alertManager.startMonitoring(parseInt(process.env.ALERT_CHECK_INTERVAL_MS || '60000', 10));
+  }
+
+  // Page on-call responders and escalate unacknowledged alerts
+  const { escalationManager } = await import('./deployment/escalation-manager');
+  if (runSchedulers) {
+    escalationManager.start(parseInt(process.env.ESCALATION_CHECK_INTERVAL_MS || '30000', 10));
+  }
+
+  // Push new notifications to each user's room
+  const { notificationService } = await import('./deployment/notification-service');
+  notificationService.attach(io);
+
+  // Advance rollout plans; pauses them when alerts fire
+  const { rolloutScheduler, RolloutPlanError } = await import('./deployment/rollout-scheduler');
+  const { userSegmentation, SegmentationError } = await import('./deployment/user-segmentation');
+  if (runSchedulers) {
+    rolloutScheduler.start(parseInt(process.env.ROLLOUT_CHECK_INTERVAL_MS || '60000', 10));
+  }
+
+  // A/B experiments (assignment happens in ModelRouter and TaskOrchestrator)
+  const { experimentService, ExperimentError } = await import('./deployment/experiments');
+
+  // Deploy jobs; progress goes to the 'deployments' room. Job recovery and
+  // rollback monitoring also stay with the parent.
+  const { deploymentAutomation } = await import('./deployment/deployment-automation');
+  const { deploymentTarget, DeploymentTargetError } = await import('./deployment/deployment-targets');
+  const { rollbackCoordinator, RollbackError } = await import('./deployment/rollback-coordinator');
+  deploymentAutomation.attach(io);
+  if (runSchedulers) {
+    await deploymentAutomation.recoverInterrupted().catch(error => {
+      console.error('[Deployment] Failed to recover interrupted deployments:', error);
+    });
+    rollbackCoordinator.startMonitoring(parseInt(process.env.ROLLBACK_CHECK_INTERVAL_MS || '30000', 10));
+  }
+
   io.on('connection', (socket) => {
     console.log(`[WebSocket] Client connected: ${socket.id}`);
 
@@ -508,14 +586,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Phase 2: Core orchestration endpoints
   // ═══════════════════════════════════════════════════════════════════
 
-  const { TaskOrchestrator } = await import('./orchestration/task-orchestrator');
-  const { ModelRouter } = await import('./ai/model-router');
+  const { TaskOrchestrator, TaskGraphValidationError } = await import('./orchestration/task-orchestrator');
+  const { modelRouter } = await import('./ai/model-router');
+  const { providerRegistry, getProviderMode } = await import('./ai/providers');
+  const { budgetGuard, BudgetExceededError } = await import('./ai/budget-guard');
   const { AgentMessenger } = await import('./orchestration/agent-messenger');
+  const { agentExecutor } = await import('./orchestration/agent-executor');
+  const { buildService, BuildStateError, TERMINAL_BUILD_STATUSES } = await import('./orchestration/build-service');
 
   const orchestrator = new TaskOrchestrator();
-  const modelRouter = new ModelRouter();
   const messenger = new AgentMessenger(io || undefined);
 
+  // Worker loop picks up assigned tasks and broadcasts task:updated events
+  agentExecutor.setWebSocketServer(io);
+  if (runSchedulers) {
+    agentExecutor.start(parseInt(process.env.AGENT_EXECUTOR_INTERVAL_MS || '5000', 10));
+  }
+
+  // Only users with the matching flag reach orchestration and AI routing
+  const { requireFeature } = await import('./deployment/feature-gate');
+  app.use('/api/orchestration', requireFeature('agentOrchestration'));
+  app.use('/api/ai', requireFeature('aiRouting'));
+
   // Decompose user request into sub-tasks
   app.post('/api/orchestration/decompose', async (req: Request, res: Response) => {
     try {
@@ -527,6 +619,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const decomposition = await orchestrator.decompose(request, userId);
       res.json(decomposition);
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        return res.status(402).json({ error: 'AI budget exceeded', details: error.message });
+      }
       console.error('[API] Error decomposing task:', error);
       res.status(500).json({ error: 'Failed to decompose task' });
     }
@@ -539,10 +634,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!decomposition || !userId) {
         return res.status(400).json({ error: 'decomposition and userId are required' });
       }
+      if (!decomposition.buildId) {
+        return res.status(400).json({ error: 'decomposition.buildId is required' });
+      }
 
       const assignments = await orchestrator.assignTasks(decomposition, userId);
       res.json(assignments);
     } catch (error) {
+      if (error instanceof TaskGraphValidationError) {
+        return res.status(400).json({ error: 'Invalid task graph', details: error.issues });
+      }
+      if (error instanceof BuildStateError) {
+        return res.status(409).json({ error: error.message });
+      }
       console.error('[API] Error assigning tasks:', error);
       res.status(500).json({ error: 'Failed to assign tasks' });
     }
@@ -556,6 +660,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'buildId is required' });
       }
 
+      const build = await storage.getBuild(buildId);
+      if (!build) {
+        return res.status(404).json({ error: 'Build not found' });
+      }
+      if (TERMINAL_BUILD_STATUSES.includes(build.status as BuildStatus)) {
+        return res.status(409).json({ error: `Build is ${build.status}` });
+      }
+
       // Execute async (don't wait for completion)
       orchestrator.executeParallel(buildId).catch(err => 
         console.error('[Orchestration] Execution error:', err)
@@ -571,13 +683,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get orchestration status
   app.get('/api/orchestration/status/:buildId', async (req: Request, res: Response) => {
     try {
+      const build = await storage.getBuild(req.params.buildId);
       const tasks = await storage.getTasksByBuildId(req.params.buildId);
       const stats = {
+        build: build ?? null,
         total: tasks.length,
         pending: tasks.filter(t => t.status === 'pending').length,
+        assigned: tasks.filter(t => t.status === 'assigned').length,
         in_progress: tasks.filter(t => t.status === 'in_progress').length,
         completed: tasks.filter(t => t.status === 'completed').length,
         failed: tasks.filter(t => t.status === 'failed').length,
+        cancelled: tasks.filter(t => t.status === 'cancelled').length,
         tasks
       };
       res.json(stats);
@@ -587,6 +703,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ═══════════════════════════════════════════════════════════════════
+  // BUILDS API
+  // ═══════════════════════════════════════════════════════════════════
+
+  // List builds (filter by userId or status)
+  app.get('/api/builds', async (req: Request, res: Response) => {
+    try {
+      const { userId, status, limit } = req.query;
+      const builds = await storage.getBuilds({
+        userId: userId as string | undefined,
+        status: status as string | undefined,
+        limit: limit ? parseInt(limit as string) : undefined
+      });
+      res.json(builds);
+    } catch (error) {
+      console.error('[API] Error fetching builds:', error);
+      res.status(500).json({ error: 'Failed to fetch builds' });
+    }
+  });
+
+  // Get build with its task tree
+  app.get('/api/builds/:id', async (req: Request, res: Response) => {
+    try {
+      const tree = await buildService.getTree(req.params.id);
+      if (!tree) {
+        return res.status(404).json({ error: 'Build not found' });
+      }
+      res.json(tree);
+    } catch (error) {
+      console.error('[API] Error fetching build:', error);
+      res.status(500).json({ error: 'Failed to fetch build' });
+    }
+  });
+
+  // Cancel build and all unfinished tasks
+  app.post('/api/builds/:id/cancel', async (req: Request, res: Response) => {
+    try {
+      const build = await storage.getBuild(req.params.id);
+      if (!build) {
+        return res.status(404).json({ error: 'Build not found' });
+      }
+      if (TERMINAL_BUILD_STATUSES.includes(build.status as BuildStatus)) {
+        return res.status(409).json({ error: `Build is already ${build.status}` });
+      }
+
+      const result = await buildService.cancel(req.params.id, req.body?.reason);
+      res.json(result);
+    } catch (error) {
+      console.error('[API] Error cancelling build:', error);
+      res.status(500).json({ error: 'Failed to cancel build' });
+    }
+  });
+
   // Get optimal AI model for task type
   app.post('/api/ai/route-model', async (req: Request, res: Response) => {
     try {
@@ -595,7 +764,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'taskType is required' });
       }
 
-      const selection = modelRouter.selectModel(taskType, budget);
+      const selection = await modelRouter.selectModel(taskType, budget);
       res.json(selection);
     } catch (error) {
       console.error('[API] Error routing model:', error);
@@ -603,10 +772,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Provider configuration and which models can currently be routed to
+  app.get('/api/ai/providers', async (req: Request, res: Response) => {
+    try {
+      res.json({
+        mode: getProviderMode(),
+        providers: providerRegistry.getStatus(),
+        availableModels: modelRouter.getAvailableModels().map(m => m.model)
+      });
+    } catch (error) {
+      console.error('[API] Error fetching AI providers:', error);
+      res.status(500).json({ error: 'Failed to fetch AI providers' });
+    }
+  });
+
+  // Learned per-model, per-task-type success estimates and their history
+  app.get('/api/ai/model-stats', async (req: Request, res: Response) => {
+    try {
+      const stats = await modelRouter.getModelStats();
+      res.json(stats);
+    } catch (error) {
+      console.error('[API] Error fetching model stats:', error);
+      res.status(500).json({ error: 'Failed to fetch model stats' });
+    }
+  });
+
+  // List budget policies with current spend and burn-down series
+  app.get('/api/budgets', async (req: Request, res: Response) => {
+    try {
+      const { scope, scopeId } = req.query;
+      const policies = await storage.getBudgetPolicies({
+        scope: scope as string | undefined,
+        scopeId: scopeId as string | undefined
+      });
+      const burnDown = await budgetGuard.getBurnDown();
+
+      res.json({ policies, burnDown });
+    } catch (error) {
+      console.error('[API] Error fetching budgets:', error);
+      res.status(500).json({ error: 'Failed to fetch budgets' });
+    }
+  });
+
+  // Create or update a budget policy (one per scope, scopeId and period)
+  app.put('/api/budgets', async (req: Request, res: Response) => {
+    try {
+      const policyData = insertBudgetPolicySchema.parse(req.body);
+      const policy = await storage.upsertBudgetPolicy(policyData);
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid budget policy', details: error.errors });
+      }
+      console.error('[API] Error saving budget policy:', error);
+      res.status(500).json({ error: 'Failed to save budget policy' });
+    }
+  });
+
   // Get cost savings stats
   app.get('/api/ai/cost-savings', async (req: Request, res: Response) => {
     try {
-      const savings = await modelRouter.calculateCostSavings();
+      const { days, userId } = req.query;
+      const savings = await modelRouter.calculateCostSavings({
+        days: days ? parseInt(days as string) : undefined,
+        userId: userId as string | undefined
+      });
       res.json(savings);
     } catch (error) {
       console.error('[API] Error calculating cost savings:', error);
@@ -617,7 +847,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get usage statistics
   app.get('/api/ai/usage-distribution', async (req: Request, res: Response) => {
     try {
-      const stats = await modelRouter.getUsageStats();
+      const { days, userId } = req.query;
+      const stats = await modelRouter.getUsageStats({
+        days: days ? parseInt(days as string) : undefined,
+        userId: userId as string | undefined
+      });
       res.json(stats);
     } catch (error) {
       console.error('[API] Error fetching usage stats:', error);
@@ -633,7 +867,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/health', async (req: Request, res: Response) => {
     try {
       const { healthCheckService } = await import('./deployment/health-check');
-      const healthStatus = await healthCheckService.runHealthChecks();
+      const healthStatus = await healthCheckService.runHealthChecks({ persist: true });
       res.json(healthStatus);
     } catch (error) {
       res.status(500).json({
@@ -644,12 +878,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Feature flags - Get flags for user
+  // Health check history (default: last 24 hours)
+  app.get('/api/health/history', async (req: Request, res: Response) => {
+    try {
+      const { healthCheckService } = await import('./deployment/health-check');
+      const since = req.query.since
+        ? new Date(req.query.since as string)
+        : new Date(Date.now() - 24 * 60 * 60 * 1000);
+      if (isNaN(since.getTime())) {
+        return res.status(400).json({ error: 'since must be a valid date' });
+      }
+
+      const history = await healthCheckService.getHistory(since);
+      res.json(history);
+    } catch (error) {
+      console.error('[API] Error fetching health history:', error);
+      res.status(500).json({ error: 'Failed to fetch health history' });
+    }
+  });
+
+  // Liveness probe - the process is up and the event loop is serving requests
+  app.get('/livez', (req: Request, res: Response) => {
+    res.json({ status: 'ok', uptime: process.uptime() });
+  });
+
+  // Readiness probe - 503 until the database and Socket.IO server are usable
+  app.get('/readyz', async (req: Request, res: Response) => {
+    try {
+      const { healthCheckService } = await import('./deployment/health-check');
+      const readiness = await healthCheckService.checkReadiness();
+      res.status(readiness.status === 'unhealthy' ? 503 : 200).json(readiness);
+    } catch (error) {
+      console.error('[API] Error checking readiness:', error);
+      res.status(503).json({ status: 'unhealthy', error: 'Readiness check failed' });
+    }
+  });
+
+  // Feature flags - Get flags for user (query parameters are targeting attributes)
   app.get('/api/deployment/feature-flags/:userId', async (req: Request, res: Response) => {
     try {
       const { featureFlagService } = await import('./deployment/feature-flags');
       const { userId } = req.params;
-      const flags = await featureFlagService.getFlagsForUser(userId);
+      const flags = await featureFlagService.getFlagsForUser(userId, queryAttributes(req));
       res.json(flags);
     } catch (error) {
       console.error('[API] Error fetching feature flags:', error);
@@ -657,256 +927,1101 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Feature flags - Check specific feature
+  // Feature flags - Check specific feature, with the evaluation reason
   app.get('/api/deployment/feature-flags/:userId/:feature', async (req: Request, res: Response) => {
     try {
       const { featureFlagService } = await import('./deployment/feature-flags');
       const { userId, feature } = req.params;
-      const enabled = await featureFlagService.isFeatureEnabled(userId, feature as any);
-      res.json({ enabled });
+      const evaluation = await featureFlagService.evaluate(userId, feature, queryAttributes(req));
+      res.json(evaluation);
     } catch (error) {
       console.error('[API] Error checking feature flag:', error);
       res.status(500).json({ error: 'Failed to check feature flag' });
     }
   });
 
-  // Metrics - Get current system metrics
-  app.get('/api/deployment/metrics', async (req: Request, res: Response) => {
+  // Feature flag admin - List flags with exposure counts (last 24h)
+  app.get('/api/deployment/flags', async (req: Request, res: Response) => {
     try {
-      const { metricsCollector } = await import('./deployment/metrics-collector');
-      const metrics = await metricsCollector.collectMetrics();
-      res.json(metrics);
+      const { featureFlagService } = await import('./deployment/feature-flags');
+      const [flags, exposures] = await Promise.all([
+        featureFlagService.listFlags(),
+        featureFlagService.getExposureCounts()
+      ]);
+      res.json({ flags, exposures });
     } catch (error) {
-      console.error('[API] Error collecting metrics:', error);
-      res.status(500).json({ error: 'Failed to collect metrics' });
+      console.error('[API] Error fetching feature flag definitions:', error);
+      res.status(500).json({ error: 'Failed to fetch feature flag definitions' });
     }
   });
 
-  // Metrics - Check deployment thresholds
-  app.get('/api/deployment/metrics/thresholds', async (req: Request, res: Response) => {
+  // Feature flag admin - Create flag
+  app.post('/api/deployment/flags', async (req: Request, res: Response) => {
     try {
-      const { metricsCollector } = await import('./deployment/metrics-collector');
-      const thresholds = await metricsCollector.checkDeploymentThresholds();
-      res.json(thresholds);
+      const flagData = insertFeatureFlagSchema.parse(req.body);
+      const { featureFlagService } = await import('./deployment/feature-flags');
+
+      if (await storage.getFeatureFlag(flagData.key)) {
+        return res.status(409).json({ error: `Feature flag ${flagData.key} already exists` });
+      }
+
+      const flag = await featureFlagService.createFlag(flagData);
+      res.status(201).json(flag);
     } catch (error) {
-      console.error('[API] Error checking thresholds:', error);
-      res.status(500).json({ error: 'Failed to check thresholds' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid feature flag', details: error.errors });
+      }
+      console.error('[API] Error creating feature flag:', error);
+      res.status(500).json({ error: 'Failed to create feature flag' });
     }
   });
 
-  // Rollback - Check rollback conditions
-  app.get('/api/deployment/rollback/status', async (req: Request, res: Response) => {
+  // Feature flag admin - Get flag
+  app.get('/api/deployment/flags/:key', async (req: Request, res: Response) => {
     try {
-      const { rollbackCoordinator } = await import('./deployment/rollback-coordinator');
-      const decision = await rollbackCoordinator.checkRollbackConditions();
-      res.json(decision);
+      const flag = await storage.getFeatureFlag(req.params.key);
+      if (!flag) {
+        return res.status(404).json({ error: 'Feature flag not found' });
+      }
+      res.json(flag);
     } catch (error) {
-      console.error('[API] Error checking rollback conditions:', error);
-      res.status(500).json({ error: 'Failed to check rollback conditions' });
+      console.error('[API] Error fetching feature flag:', error);
+      res.status(500).json({ error: 'Failed to fetch feature flag' });
     }
   });
 
-  // Rollback - Manual trigger
-  app.post('/api/deployment/rollback', async (req: Request, res: Response) => {
+  // Feature flag admin - Update flag
+  app.patch('/api/deployment/flags/:key', async (req: Request, res: Response) => {
     try {
-      const { rollbackCoordinator } = await import('./deployment/rollback-coordinator');
-      const { reason } = req.body;
-      await rollbackCoordinator.manualRollback(reason || 'Manual rollback requested');
-      res.json({ success: true, message: 'Rollback initiated' });
+      const updates = insertFeatureFlagSchema.omit({ key: true }).partial().parse(req.body);
+      const { featureFlagService } = await import('./deployment/feature-flags');
+      const flag = await featureFlagService.updateFlag(req.params.key, updates);
+      if (!flag) {
+        return res.status(404).json({ error: 'Feature flag not found' });
+      }
+      res.json(flag);
     } catch (error) {
-      console.error('[API] Error initiating rollback:', error);
-      res.status(500).json({ error: 'Failed to initiate rollback' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid feature flag', details: error.errors });
+      }
+      console.error('[API] Error updating feature flag:', error);
+      res.status(500).json({ error: 'Failed to update feature flag' });
     }
   });
 
-  // Alerts - Get active alerts
-  app.get('/api/deployment/alerts', async (req: Request, res: Response) => {
+  // Feature flag admin - Delete flag
+  app.delete('/api/deployment/flags/:key', async (req: Request, res: Response) => {
     try {
-      const { alertManager } = await import('./deployment/alert-manager');
-      const alerts = alertManager.getActiveAlerts();
-      res.json(alerts);
+      const { featureFlagService } = await import('./deployment/feature-flags');
+      const deleted = await featureFlagService.deleteFlag(req.params.key);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Feature flag not found' });
+      }
+      res.json({ success: true });
     } catch (error) {
-      console.error('[API] Error fetching alerts:', error);
-      res.status(500).json({ error: 'Failed to fetch alerts' });
+      console.error('[API] Error deleting feature flag:', error);
+      res.status(500).json({ error: 'Failed to delete feature flag' });
     }
   });
 
-  // Alerts - Get summary
-  app.get('/api/deployment/alerts/summary', async (req: Request, res: Response) => {
+  // Feature flag admin - Engage or release the kill switch
+  app.post('/api/deployment/flags/:key/kill-switch', async (req: Request, res: Response) => {
     try {
-      const { alertManager } = await import('./deployment/alert-manager');
-      const summary = alertManager.getSummary();
-      res.json(summary);
+      const { active, userId, reason } = z.object({
+        active: z.boolean(),
+        userId: z.string().min(1),
+        reason: z.string().optional()
+      }).parse(req.body);
+
+      const { featureFlagService } = await import('./deployment/feature-flags');
+      const flag = await featureFlagService.setKillSwitch(req.params.key, active, userId, reason);
+      if (!flag) {
+        return res.status(404).json({ error: 'Feature flag not found' });
+      }
+      res.json(flag);
     } catch (error) {
-      console.error('[API] Error fetching alert summary:', error);
-      res.status(500).json({ error: 'Failed to fetch alert summary' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid kill switch request', details: error.errors });
+      }
+      console.error('[API] Error setting kill switch:', error);
+      res.status(500).json({ error: 'Failed to set kill switch' });
     }
   });
 
-  // Alerts - Acknowledge alert
-  app.post('/api/deployment/alerts/:alertId/acknowledge', async (req: Request, res: Response) => {
+  // Feature flag admin - Evaluation audit log
+  app.get('/api/deployment/flags/:key/evaluations', async (req: Request, res: Response) => {
     try {
-      const { alertManager } = await import('./deployment/alert-manager');
-      const { alertId } = req.params;
-      const success = alertManager.acknowledgeAlert(alertId);
-      res.json({ success });
+      const { featureFlagService } = await import('./deployment/feature-flags');
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      const evaluations = await featureFlagService.getEvaluations(req.params.key, limit);
+      res.json(evaluations);
     } catch (error) {
-      console.error('[API] Error acknowledging alert:', error);
-      res.status(500).json({ error: 'Failed to acknowledge alert' });
+      console.error('[API] Error fetching feature flag evaluations:', error);
+      res.status(500).json({ error: 'Failed to fetch feature flag evaluations' });
     }
   });
 
-  // Deployment Safety - Run pre-flight checks
-  app.get('/api/deployment/safety/preflight', async (req: Request, res: Response) => {
+  // Experiments - List experiments
+  app.get('/api/deployment/experiments', async (req: Request, res: Response) => {
     try {
-      const { deploymentSafety } = await import('./deployment/deployment-safety');
-      const readiness = await deploymentSafety.runPreFlightChecks();
-      res.json(readiness);
+      const experiments = await experimentService.listExperiments();
+      res.json(experiments);
     } catch (error) {
-      console.error('[API] Error running pre-flight checks:', error);
-      res.status(500).json({ error: 'Failed to run pre-flight checks' });
+      console.error('[API] Error fetching experiments:', error);
+      res.status(500).json({ error: 'Failed to fetch experiments' });
     }
   });
 
-  // Deployment Safety - Get report
-  app.get('/api/deployment/safety/report', async (req: Request, res: Response) => {
+  // Experiments - Create experiment (starts as a draft)
+  app.post('/api/deployment/experiments', async (req: Request, res: Response) => {
     try {
-      const { deploymentSafety } = await import('./deployment/deployment-safety');
-      const report = await deploymentSafety.generateReport();
-      res.set('Content-Type', 'text/plain');
-      res.send(report);
+      const experimentData = insertExperimentSchema.parse(req.body);
+      const experiment = await experimentService.createExperiment(experimentData);
+      res.status(201).json(experiment);
     } catch (error) {
-      console.error('[API] Error generating deployment report:', error);
-      res.status(500).json({ error: 'Failed to generate deployment report' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid experiment', details: error.errors });
+      }
+      if (error instanceof ExperimentError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('[API] Error creating experiment:', error);
+      res.status(500).json({ error: 'Failed to create experiment' });
     }
   });
 
-  // User Segmentation - Get user segment
-  app.get('/api/deployment/segmentation/:userId', async (req: Request, res: Response) => {
+  // Experiments - Get experiment
+  app.get('/api/deployment/experiments/:key', async (req: Request, res: Response) => {
     try {
-      const { userSegmentation } = await import('./deployment/user-segmentation');
-      const { userId } = req.params;
-      const segment = userSegmentation.getUserSegment(userId);
-      res.json({ userId, segment });
+      const experiment = await storage.getExperiment(req.params.key);
+      if (!experiment) {
+        return res.status(404).json({ error: 'Experiment not found' });
+      }
+      res.json(experiment);
     } catch (error) {
-      console.error('[API] Error getting user segment:', error);
-      res.status(500).json({ error: 'Failed to get user segment' });
+      console.error('[API] Error fetching experiment:', error);
+      res.status(500).json({ error: 'Failed to fetch experiment' });
     }
   });
 
-  // User Segmentation - Promote to beta
-  app.post('/api/deployment/segmentation/:userId/promote-beta', async (req: Request, res: Response) => {
+  // Experiments - Update experiment
+  app.patch('/api/deployment/experiments/:key', async (req: Request, res: Response) => {
     try {
-      const { userSegmentation } = await import('./deployment/user-segmentation');
-      const { userId } = req.params;
-      const result = userSegmentation.promoteToBeta(userId);
-      res.json(result);
+      const updates = insertExperimentSchema.omit({ key: true }).partial().parse(req.body);
+      const experiment = await experimentService.updateExperiment(req.params.key, updates);
+      if (!experiment) {
+        return res.status(404).json({ error: 'Experiment not found' });
+      }
+      res.json(experiment);
     } catch (error) {
-      console.error('[API] Error promoting user to beta:', error);
-      res.status(500).json({ error: 'Failed to promote user to beta' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid experiment', details: error.errors });
+      }
+      if (error instanceof ExperimentError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('[API] Error updating experiment:', error);
+      res.status(500).json({ error: 'Failed to update experiment' });
     }
   });
 
-  // User Segmentation - Get rollout stats
-  app.get('/api/deployment/segmentation/stats', async (req: Request, res: Response) => {
+  // Experiments - Delete experiment with its assignments and exposures
+  app.delete('/api/deployment/experiments/:key', async (req: Request, res: Response) => {
     try {
-      const { userSegmentation } = await import('./deployment/user-segmentation');
-      const stats = userSegmentation.getRolloutStats();
-      res.json(stats);
+      const deleted = await experimentService.deleteExperiment(req.params.key);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Experiment not found' });
+      }
+      res.json({ success: true });
     } catch (error) {
-      console.error('[API] Error getting rollout stats:', error);
-      res.status(500).json({ error: 'Failed to get rollout stats' });
+      console.error('[API] Error deleting experiment:', error);
+      res.status(500).json({ error: 'Failed to delete experiment' });
     }
   });
 
-  // Performance Analysis - Run analysis
-  app.get('/api/deployment/performance/analyze', async (req: Request, res: Response) => {
+  // Experiments - Start, pause, resume or complete
+  app.post('/api/deployment/experiments/:key/status', async (req: Request, res: Response) => {
     try {
-      const { performanceAnalyzer } = await import('./deployment/performance-analyzer');
-      const report = await performanceAnalyzer.analyzePerformance();
-      res.json(report);
+      const { status } = z.object({ status: z.enum(EXPERIMENT_STATUSES) }).parse(req.body);
+      const experiment = await experimentService.setStatus(req.params.key, status);
+      if (!experiment) {
+        return res.status(404).json({ error: 'Experiment not found' });
+      }
+      res.json(experiment);
     } catch (error) {
-      console.error('[API] Error analyzing performance:', error);
-      res.status(500).json({ error: 'Failed to analyze performance' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid experiment status', details: error.errors });
+      }
+      if (error instanceof ExperimentError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('[API] Error changing experiment status:', error);
+      res.status(500).json({ error: 'Failed to change experiment status' });
     }
   });
 
-  // Performance Analysis - Get text report
-  app.get('/api/deployment/performance/report', async (req: Request, res: Response) => {
+  // Experiments - Sticky variant for a user (null when not enrolled)
+  app.get('/api/deployment/experiments/:key/assignment/:userId', async (req: Request, res: Response) => {
     try {
-      const { performanceAnalyzer } = await import('./deployment/performance-analyzer');
-      const report = await performanceAnalyzer.generateTextReport();
-      res.set('Content-Type', 'text/plain');
-      res.send(report);
+      const assignment = await experimentService.getAssignment(req.params.key, req.params.userId);
+      res.json({ assignment });
     } catch (error) {
-      console.error('[API] Error generating performance report:', error);
-      res.status(500).json({ error: 'Failed to generate performance report' });
+      console.error('[API] Error assigning experiment variant:', error);
+      res.status(500).json({ error: 'Failed to assign experiment variant' });
     }
   });
 
-  // Grafana Dashboards - Export all dashboards
-  app.get('/api/deployment/grafana/dashboards', async (req: Request, res: Response) => {
+  // Experiments - Log an exposure for a custom experiment
+  app.post('/api/deployment/experiments/:key/exposures', async (req: Request, res: Response) => {
     try {
-      const { exportDashboardsForGrafana } = await import('./deployment/grafana-dashboards');
-      const dashboards = exportDashboardsForGrafana();
-      res.json(dashboards);
+      const { userId, context, buildId } = z.object({
+        userId: z.string().min(1),
+        context: z.string().max(100).optional(),
+        buildId: z.string().optional()
+      }).parse(req.body);
+
+      const assignment = await experimentService.getAssignment(req.params.key, userId);
+      if (!assignment) {
+        return res.status(404).json({ error: 'User is not enrolled in this experiment' });
+      }
+      await experimentService.logExposure(assignment, userId, context ?? 'custom', buildId);
+      res.status(201).json({ assignment });
     } catch (error) {
-      console.error('[API] Error exporting Grafana dashboards:', error);
-      res.status(500).json({ error: 'Failed to export Grafana dashboards' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid exposure', details: error.errors });
+      }
+      console.error('[API] Error logging experiment exposure:', error);
+      res.status(500).json({ error: 'Failed to log experiment exposure' });
     }
   });
 
-  // Grafana Dashboards - Generate config for specific dashboard
-  app.get('/api/deployment/grafana/dashboards/:name/config', async (req: Request, res: Response) => {
+  // Experiments - Per-variant outcomes, confidence intervals and significance
+  app.get('/api/deployment/experiments/:key/results', async (req: Request, res: Response) => {
     try {
-      const { exportDashboardsForGrafana, generateGrafanaConfig } = await import('./deployment/grafana-dashboards');
-      const dashboards = exportDashboardsForGrafana();
-      const dashboard = dashboards[req.params.name as keyof typeof dashboards];
-      
-      if (!dashboard) {
-        return res.status(404).json({ error: 'Dashboard not found' });
+      const results = await experimentService.getResults(req.params.key);
+      if (!results) {
+        return res.status(404).json({ error: 'Experiment not found' });
       }
-
-      const config = generateGrafanaConfig(dashboard);
-      res.set('Content-Type', 'application/json');
-      res.send(config);
+      res.json(results);
     } catch (error) {
-      console.error('[API] Error generating Grafana config:', error);
-      res.status(500).json({ error: 'Failed to generate Grafana config' });
+      console.error('[API] Error computing experiment results:', error);
+      res.status(500).json({ error: 'Failed to compute experiment results' });
     }
   });
 
-  // Database Migration - Execute migration
-  app.post('/api/deployment/migration/execute', async (req: Request, res: Response) => {
+  // Metrics - Get current system metrics
+  app.get('/api/deployment/metrics', async (req: Request, res: Response) => {
     try {
-      const { dbMigrationService } = await import('./deployment/database-migration');
-      const { name, sql } = req.body;
-      const result = await dbMigrationService.executeMigration(name, sql);
-      res.json(result);
+      const { metricsCollector } = await import('./deployment/metrics-collector');
+      const metrics = await metricsCollector.collectMetrics();
+      res.json(metrics);
     } catch (error) {
-      console.error('[API] Error executing migration:', error);
-      res.status(500).json({ error: 'Failed to execute migration' });
+      console.error('[API] Error collecting metrics:', error);
+      res.status(500).json({ error: 'Failed to collect metrics' });
     }
   });
 
-  // Database Migration - Get history
-  app.get('/api/deployment/migration/history', async (req: Request, res: Response) => {
+  // Prometheus scrape endpoint (text exposition format)
+  app.get('/metrics', async (req: Request, res: Response) => {
     try {
-      const { dbMigrationService } = await import('./deployment/database-migration');
-      const history = dbMigrationService.getMigrationHistory();
-      res.json(history);
+      const { prometheusExporter, PROMETHEUS_CONTENT_TYPE } = await import('./deployment/prometheus-exporter');
+      const body = await prometheusExporter.render();
+      res.set('Content-Type', PROMETHEUS_CONTENT_TYPE).send(body);
     } catch (error) {
-      console.error('[API] Error getting migration history:', error);
-      res.status(500).json({ error: 'Failed to get migration history' });
+      console.error('[API] Error rendering Prometheus metrics:', error);
+      res.status(500).json({ error: 'Failed to render metrics' });
     }
   });
 
-  // Environment Config - Get current config
-  app.get('/api/deployment/env/config', async (req: Request, res: Response) => {
+  // Metrics - Per-route request counts, status classes and latency percentiles
+  app.get('/api/deployment/metrics/routes', async (req: Request, res: Response) => {
     try {
-      const { envConfig } = await import('./deployment/env-config');
-      const config = envConfig.getConfig();
-      res.json(config);
+      const { requestMetrics } = await import('./deployment/request-metrics');
+      res.json(requestMetrics.getRouteStats());
+    } catch (error) {
+      console.error('[API] Error fetching route metrics:', error);
+      res.status(500).json({ error: 'Failed to fetch route metrics' });
+    }
+  });
+
+  // Metrics - Persisted snapshots (default: last 24 hours)
+  app.get('/api/deployment/metrics/history', async (req: Request, res: Response) => {
+    try {
+      const { metricsCollector } = await import('./deployment/metrics-collector');
+      const since = req.query.since
+        ? new Date(req.query.since as string)
+        : new Date(Date.now() - 24 * 60 * 60 * 1000);
+      if (isNaN(since.getTime())) {
+        return res.status(400).json({ error: 'since must be a valid date' });
+      }
+
+      const snapshots = await metricsCollector.getSnapshots(since);
+      res.json(snapshots);
+    } catch (error) {
+      console.error('[API] Error fetching metrics history:', error);
+      res.status(500).json({ error: 'Failed to fetch metrics history' });
+    }
+  });
+
+  // Metrics - Check deployment thresholds
+  app.get('/api/deployment/metrics/thresholds', async (req: Request, res: Response) => {
+    try {
+      const { metricsCollector } = await import('./deployment/metrics-collector');
+      const thresholds = await metricsCollector.checkDeploymentThresholds();
+      res.json(thresholds);
+    } catch (error) {
+      console.error('[API] Error checking thresholds:', error);
+      res.status(500).json({ error: 'Failed to check thresholds' });
+    }
+  });
+
+  // Rollback - Check rollback conditions and the coordinator's state
+  app.get('/api/deployment/rollback/status', async (req: Request, res: Response) => {
+    try {
+      const decision = await rollbackCoordinator.checkRollbackConditions();
+      res.json({ ...decision, coordinator: rollbackCoordinator.getStatus() });
+    } catch (error) {
+      console.error('[API] Error checking rollback conditions:', error);
+      res.status(500).json({ error: 'Failed to check rollback conditions' });
+    }
+  });
+
+  // Rollback - Manual trigger (freeze: also block deploys until lifted)
+  app.post('/api/deployment/rollback', async (req: Request, res: Response) => {
+    try {
+      const { userId, reason, version, freeze } = z.object({
+        userId: z.string().min(1).optional(),
+        reason: z.string().optional(),
+        version: z.string().min(1).optional(),
+        freeze: z.boolean().optional()
+      }).parse(req.body);
+      const { incident, version: restored } = await rollbackCoordinator.rollback({
+        source: 'manual',
+        reason: reason || 'Manual rollback requested',
+        initiatedBy: userId || 'anonymous',
+        version,
+        freeze
+      });
+      if (!restored) {
+        return res.status(409).json({ error: 'No previous version to roll back to', incident });
+      }
+      res.json({ success: true, message: `Rolled back to ${restored}`, version: restored, incident });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid rollback request', details: error.errors });
+      }
+      if (error instanceof RollbackError || error instanceof DeploymentTargetError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('[API] Error initiating rollback:', error);
+      res.status(500).json({ error: 'Failed to initiate rollback' });
+    }
+  });
+
+  // Rollback - Incident history
+  app.get('/api/deployment/rollback/history', async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+      const incidents = await rollbackCoordinator.getHistory(limit);
+      res.json(incidents);
+    } catch (error) {
+      console.error('[API] Error getting rollback history:', error);
+      res.status(500).json({ error: 'Failed to get rollback history' });
+    }
+  });
+
+  // Deploy freeze - Get the active freeze (null when deploys are open)
+  app.get('/api/deployment/freeze', async (req: Request, res: Response) => {
+    try {
+      const freeze = await rollbackCoordinator.getActiveFreeze();
+      res.json(freeze ?? null);
+    } catch (error) {
+      console.error('[API] Error getting deploy freeze:', error);
+      res.status(500).json({ error: 'Failed to get deploy freeze' });
+    }
+  });
+
+  // Deploy freeze - Freeze deploys
+  app.post('/api/deployment/freeze', async (req: Request, res: Response) => {
+    try {
+      const { userId, reason } = z.object({
+        userId: z.string().min(1),
+        reason: z.string().min(1)
+      }).parse(req.body);
+      const freeze = await rollbackCoordinator.freeze(reason, userId);
+      res.status(201).json(freeze);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid freeze request', details: error.errors });
+      }
+      console.error('[API] Error freezing deploys:', error);
+      res.status(500).json({ error: 'Failed to freeze deploys' });
+    }
+  });
+
+  // Deploy freeze - Lift the active freeze
+  app.post('/api/deployment/freeze/lift', async (req: Request, res: Response) => {
+    try {
+      const { userId } = z.object({ userId: z.string().min(1) }).parse(req.body);
+      const freeze = await rollbackCoordinator.liftFreeze(userId);
+      if (!freeze) {
+        return res.status(404).json({ error: 'Deploys are not frozen' });
+      }
+      res.json(freeze);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid request', details: error.errors });
+      }
+      console.error('[API] Error lifting deploy freeze:', error);
+      res.status(500).json({ error: 'Failed to lift deploy freeze' });
+    }
+  });
+
+  // Alerts - Get active alerts (?status=all for every alert)
+  app.get('/api/deployment/alerts', async (req: Request, res: Response) => {
+    try {
+      const { alertManager } = await import('./deployment/alert-manager');
+      const alerts = req.query.status === 'all'
+        ? await alertManager.getAllAlerts()
+        : await alertManager.getActiveAlerts();
+      res.json(alerts);
+    } catch (error) {
+      console.error('[API] Error fetching alerts:', error);
+      res.status(500).json({ error: 'Failed to fetch alerts' });
+    }
+  });
+
+  // Alerts - Get summary
+  app.get('/api/deployment/alerts/summary', async (req: Request, res: Response) => {
+    try {
+      const { alertManager } = await import('./deployment/alert-manager');
+      const summary = await alertManager.getSummary();
+      res.json(summary);
+    } catch (error) {
+      console.error('[API] Error fetching alert summary:', error);
+      res.status(500).json({ error: 'Failed to fetch alert summary' });
+    }
+  });
+
+  // Alert Rules - List rules and the metric sources they can use
+  app.get('/api/deployment/alerts/rules', async (req: Request, res: Response) => {
+    try {
+      const rules = await storage.getAlertRules();
+      res.json({ rules, metrics: ALERT_METRICS });
+    } catch (error) {
+      console.error('[API] Error fetching alert rules:', error);
+      res.status(500).json({ error: 'Failed to fetch alert rules' });
+    }
+  });
+
+  // Alert Rules - Get rule
+  app.get('/api/deployment/alerts/rules/:ruleId', async (req: Request, res: Response) => {
+    try {
+      const rule = await storage.getAlertRule(req.params.ruleId);
+      if (!rule) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      res.json(rule);
+    } catch (error) {
+      console.error('[API] Error fetching alert rule:', error);
+      res.status(500).json({ error: 'Failed to fetch alert rule' });
+    }
+  });
+
+  // Alert Rules - Create rule
+  app.post('/api/deployment/alerts/rules', async (req: Request, res: Response) => {
+    try {
+      const ruleData = insertAlertRuleSchema.parse(req.body);
+      alertManager.validateRule(ruleData);
+
+      if (await storage.getAlertRule(ruleData.id)) {
+        return res.status(409).json({ error: `Alert rule ${ruleData.id} already exists` });
+      }
+
+      const rule = await storage.createAlertRule(ruleData);
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid alert rule', details: error.errors });
+      }
+      if (error instanceof AlertRuleError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('[API] Error creating alert rule:', error);
+      res.status(500).json({ error: 'Failed to create alert rule' });
+    }
+  });
+
+  // Alert Rules - Update rule
+  app.patch('/api/deployment/alerts/rules/:ruleId', async (req: Request, res: Response) => {
+    try {
+      const updates = insertAlertRuleSchema.omit({ id: true }).partial().parse(req.body);
+      alertManager.validateRule(updates);
+
+      const rule = await storage.updateAlertRule(req.params.ruleId, updates);
+      if (!rule) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid alert rule', details: error.errors });
+      }
+      if (error instanceof AlertRuleError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('[API] Error updating alert rule:', error);
+      res.status(500).json({ error: 'Failed to update alert rule' });
+    }
+  });
+
+  // Alert Rules - Delete rule
+  app.delete('/api/deployment/alerts/rules/:ruleId', async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.deleteAlertRule(req.params.ruleId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('[API] Error deleting alert rule:', error);
+      res.status(500).json({ error: 'Failed to delete alert rule' });
+    }
+  });
+
+  // Alerts - Lifecycle history
+  app.get('/api/deployment/alerts/:alertId/history', async (req: Request, res: Response) => {
+    try {
+      const { alertManager } = await import('./deployment/alert-manager');
+      const alertId = parseInt(req.params.alertId);
+      const alert = await alertManager.getAlert(alertId);
+      if (!alert) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+
+      const events = await alertManager.getAlertHistory(alertId);
+      res.json({ alert, events });
+    } catch (error) {
+      console.error('[API] Error fetching alert history:', error);
+      res.status(500).json({ error: 'Failed to fetch alert history' });
+    }
+  });
+
+  // Alerts - Acknowledge alert
+  app.post('/api/deployment/alerts/:alertId/acknowledge', async (req: Request, res: Response) => {
+    try {
+      const { alertManager } = await import('./deployment/alert-manager');
+      const { userId } = z.object({ userId: z.string().min(1) }).parse(req.body);
+      const alert = await alertManager.acknowledgeAlert(parseInt(req.params.alertId), userId);
+      if (!alert) {
+        return res.status(404).json({ error: 'Active alert not found' });
+      }
+      res.json({ success: true, alert });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid acknowledgement', details: error.errors });
+      }
+      console.error('[API] Error acknowledging alert:', error);
+      res.status(500).json({ error: 'Failed to acknowledge alert' });
+    }
+  });
+
+  // Alerts - Resolve alert
+  app.post('/api/deployment/alerts/:alertId/resolve', async (req: Request, res: Response) => {
+    try {
+      const { alertManager } = await import('./deployment/alert-manager');
+      const { userId, note } = z.object({
+        userId: z.string().min(1),
+        note: z.string().optional()
+      }).parse(req.body);
+      const alert = await alertManager.resolveAlert(parseInt(req.params.alertId), userId, note);
+      if (!alert) {
+        return res.status(404).json({ error: 'Open alert not found' });
+      }
+      res.json({ success: true, alert });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid resolution', details: error.errors });
+      }
+      console.error('[API] Error resolving alert:', error);
+      res.status(500).json({ error: 'Failed to resolve alert' });
+    }
+  });
+
+  // On-Call - Current on-call per schedule and escalation state of open alerts
+  app.get('/api/deployment/oncall', async (req: Request, res: Response) => {
+    try {
+      const [onCall, escalations] = await Promise.all([
+        escalationManager.getCurrentOnCall(),
+        escalationManager.getEscalationState()
+      ]);
+      res.json({ onCall, escalations });
+    } catch (error) {
+      console.error('[API] Error fetching on-call state:', error);
+      res.status(500).json({ error: 'Failed to fetch on-call state' });
+    }
+  });
+
+  // On-Call - List schedules
+  app.get('/api/deployment/oncall/schedules', async (req: Request, res: Response) => {
+    try {
+      const schedules = await storage.getOnCallSchedules();
+      res.json(schedules);
+    } catch (error) {
+      console.error('[API] Error fetching on-call schedules:', error);
+      res.status(500).json({ error: 'Failed to fetch on-call schedules' });
+    }
+  });
+
+  // On-Call - Create schedule
+  app.post('/api/deployment/oncall/schedules', async (req: Request, res: Response) => {
+    try {
+      const scheduleData = insertOnCallScheduleSchema.parse(req.body);
+      const schedule = await storage.createOnCallSchedule(scheduleData);
+      res.status(201).json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid on-call schedule', details: error.errors });
+      }
+      console.error('[API] Error creating on-call schedule:', error);
+      res.status(500).json({ error: 'Failed to create on-call schedule' });
+    }
+  });
+
+  // On-Call - Upcoming overrides for a schedule
+  app.get('/api/deployment/oncall/schedules/:scheduleId/overrides', async (req: Request, res: Response) => {
+    try {
+      const overrides = await storage.getOnCallOverrides(parseInt(req.params.scheduleId));
+      res.json(overrides);
+    } catch (error) {
+      console.error('[API] Error fetching on-call overrides:', error);
+      res.status(500).json({ error: 'Failed to fetch on-call overrides' });
+    }
+  });
+
+  // On-Call - Add an override (someone covers the primary for a time range)
+  app.post('/api/deployment/oncall/schedules/:scheduleId/overrides', async (req: Request, res: Response) => {
+    try {
+      const scheduleId = parseInt(req.params.scheduleId);
+      if (!await storage.getOnCallSchedule(scheduleId)) {
+        return res.status(404).json({ error: 'On-call schedule not found' });
+      }
+
+      const overrideData = insertOnCallOverrideSchema.parse({ ...req.body, scheduleId });
+      const override = await storage.createOnCallOverride(overrideData);
+      res.status(201).json(override);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid on-call override', details: error.errors });
+      }
+      console.error('[API] Error creating on-call override:', error);
+      res.status(500).json({ error: 'Failed to create on-call override' });
+    }
+  });
+
+  // Escalation Policies - List policies
+  app.get('/api/deployment/escalation/policies', async (req: Request, res: Response) => {
+    try {
+      const policies = await storage.getEscalationPolicies();
+      res.json(policies);
+    } catch (error) {
+      console.error('[API] Error fetching escalation policies:', error);
+      res.status(500).json({ error: 'Failed to fetch escalation policies' });
+    }
+  });
+
+  // Escalation Policies - Create policy
+  app.post('/api/deployment/escalation/policies', async (req: Request, res: Response) => {
+    try {
+      const policyData = insertEscalationPolicySchema.parse(req.body);
+      const policy = await storage.createEscalationPolicy(policyData);
+      res.status(201).json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid escalation policy', details: error.errors });
+      }
+      console.error('[API] Error creating escalation policy:', error);
+      res.status(500).json({ error: 'Failed to create escalation policy' });
+    }
+  });
+
+  // Escalation Policies - Update policy
+  app.put('/api/deployment/escalation/policies/:policyId', async (req: Request, res: Response) => {
+    try {
+      const updates = insertEscalationPolicySchema.partial().parse(req.body);
+      const policy = await storage.updateEscalationPolicy(parseInt(req.params.policyId), updates);
+      if (!policy) {
+        return res.status(404).json({ error: 'Escalation policy not found' });
+      }
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid escalation policy', details: error.errors });
+      }
+      console.error('[API] Error updating escalation policy:', error);
+      res.status(500).json({ error: 'Failed to update escalation policy' });
+    }
+  });
+
+  // Deployment Safety - Run pre-flight checks (?environment, default production)
+  app.get('/api/deployment/safety/preflight', async (req: Request, res: Response) => {
+    try {
+      const { deploymentSafety } = await import('./deployment/deployment-safety');
+      const readiness = await deploymentSafety.runPreFlightChecks((req.query.environment as string) || 'production');
+      res.json(readiness);
+    } catch (error) {
+      console.error('[API] Error running pre-flight checks:', error);
+      res.status(500).json({ error: 'Failed to run pre-flight checks' });
+    }
+  });
+
+  // Deployment Safety - Get report (?environment; ?format=json for JSON, markdown otherwise)
+  app.get('/api/deployment/safety/report', async (req: Request, res: Response) => {
+    try {
+      const { deploymentSafety } = await import('./deployment/deployment-safety');
+      const report = await deploymentSafety.generateReport((req.query.environment as string) || 'production');
+      if (req.query.format === 'json') {
+        return res.json(report);
+      }
+      res.set('Content-Type', 'text/markdown; charset=utf-8');
+      res.send(report.markdown);
+    } catch (error) {
+      console.error('[API] Error generating deployment report:', error);
+      res.status(500).json({ error: 'Failed to generate deployment report' });
+    }
+  });
+
+  // User Segmentation - Get rollout stats
+  app.get('/api/deployment/segmentation/stats', async (req: Request, res: Response) => {
+    try {
+      const stats = await userSegmentation.getRolloutStats();
+      res.json(stats);
+    } catch (error) {
+      console.error('[API] Error getting rollout stats:', error);
+      res.status(500).json({ error: 'Failed to get rollout stats' });
+    }
+  });
+
+  // User Segmentation - Promotion and demotion history (all users)
+  app.get('/api/deployment/segmentation/history', async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      const history = await userSegmentation.getHistory(undefined, limit);
+      res.json(history);
+    } catch (error) {
+      console.error('[API] Error fetching segment history:', error);
+      res.status(500).json({ error: 'Failed to fetch segment history' });
+    }
+  });
+
+  // User Segmentation - Get user segment
+  app.get('/api/deployment/segmentation/:userId', async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+      const segment = await userSegmentation.getUserSegment(userId);
+      res.json({ userId, segment });
+    } catch (error) {
+      console.error('[API] Error getting user segment:', error);
+      res.status(500).json({ error: 'Failed to get user segment' });
+    }
+  });
+
+  // User Segmentation - Promote or demote a user
+  app.put('/api/deployment/segmentation/:userId', async (req: Request, res: Response) => {
+    try {
+      const { segment, changedBy, reason } = z.object({
+        segment: z.enum(USER_SEGMENTS),
+        changedBy: z.string().min(1),
+        reason: z.string().optional()
+      }).parse(req.body);
+
+      const result = await userSegmentation.assignSegment(req.params.userId, segment, { changedBy, reason });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid segment change', details: error.errors });
+      }
+      if (error instanceof SegmentationError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('[API] Error changing user segment:', error);
+      res.status(500).json({ error: 'Failed to change user segment' });
+    }
+  });
+
+  // User Segmentation - Promote to beta
+  app.post('/api/deployment/segmentation/:userId/promote-beta', async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+      const changedBy = typeof req.body?.changedBy === 'string' ? req.body.changedBy : undefined;
+      const result = await userSegmentation.promoteToBeta(userId, changedBy);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof SegmentationError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('[API] Error promoting user to beta:', error);
+      res.status(500).json({ error: 'Failed to promote user to beta' });
+    }
+  });
+
+  // User Segmentation - Promotion and demotion history (one user)
+  app.get('/api/deployment/segmentation/:userId/history', async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      const history = await userSegmentation.getHistory(req.params.userId, limit);
+      res.json(history);
+    } catch (error) {
+      console.error('[API] Error fetching segment history:', error);
+      res.status(500).json({ error: 'Failed to fetch segment history' });
+    }
+  });
+
+  // Rollout Plans - List plans
+  app.get('/api/deployment/rollout/plans', async (req: Request, res: Response) => {
+    try {
+      const plans = await rolloutScheduler.listPlans();
+      res.json(plans);
+    } catch (error) {
+      console.error('[API] Error fetching rollout plans:', error);
+      res.status(500).json({ error: 'Failed to fetch rollout plans' });
+    }
+  });
+
+  // Rollout Plans - Create plan (starts as a draft)
+  app.post('/api/deployment/rollout/plans', async (req: Request, res: Response) => {
+    try {
+      const planData = insertRolloutPlanSchema.parse(req.body);
+      const plan = await rolloutScheduler.createPlan(planData);
+      res.status(201).json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid rollout plan', details: error.errors });
+      }
+      if (error instanceof RolloutPlanError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('[API] Error creating rollout plan:', error);
+      res.status(500).json({ error: 'Failed to create rollout plan' });
+    }
+  });
+
+  // Rollout Plans - Get plan
+  app.get('/api/deployment/rollout/plans/:planId', async (req: Request, res: Response) => {
+    try {
+      const plan = await storage.getRolloutPlan(req.params.planId);
+      if (!plan) {
+        return res.status(404).json({ error: 'Rollout plan not found' });
+      }
+      res.json(plan);
+    } catch (error) {
+      console.error('[API] Error fetching rollout plan:', error);
+      res.status(500).json({ error: 'Failed to fetch rollout plan' });
+    }
+  });
+
+  // Rollout Plans - Update plan (phases, dates, percentages, eligibility)
+  app.patch('/api/deployment/rollout/plans/:planId', async (req: Request, res: Response) => {
+    try {
+      const updates = insertRolloutPlanSchema.omit({ id: true }).partial().parse(req.body);
+      const plan = await rolloutScheduler.updatePlan(req.params.planId, updates);
+      if (!plan) {
+        return res.status(404).json({ error: 'Rollout plan not found' });
+      }
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid rollout plan', details: error.errors });
+      }
+      if (error instanceof RolloutPlanError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('[API] Error updating rollout plan:', error);
+      res.status(500).json({ error: 'Failed to update rollout plan' });
+    }
+  });
+
+  // Rollout Plans - Delete plan
+  app.delete('/api/deployment/rollout/plans/:planId', async (req: Request, res: Response) => {
+    try {
+      const deleted = await rolloutScheduler.deletePlan(req.params.planId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Rollout plan not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof RolloutPlanError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('[API] Error deleting rollout plan:', error);
+      res.status(500).json({ error: 'Failed to delete rollout plan' });
+    }
+  });
+
+  // Rollout Plans - Start plan (due phases apply immediately)
+  app.post('/api/deployment/rollout/plans/:planId/start', async (req: Request, res: Response) => {
+    try {
+      const { userId } = z.object({ userId: z.string().min(1) }).parse(req.body);
+      const plan = await rolloutScheduler.startPlan(req.params.planId, userId);
+      if (!plan) {
+        return res.status(404).json({ error: 'Rollout plan not found' });
+      }
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid rollout plan request', details: error.errors });
+      }
+      if (error instanceof RolloutPlanError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('[API] Error starting rollout plan:', error);
+      res.status(500).json({ error: 'Failed to start rollout plan' });
+    }
+  });
+
+  // Rollout Plans - Pause plan
+  app.post('/api/deployment/rollout/plans/:planId/pause', async (req: Request, res: Response) => {
+    try {
+      const { userId, reason } = z.object({
+        userId: z.string().min(1),
+        reason: z.string().optional()
+      }).parse(req.body);
+      const plan = await rolloutScheduler.pausePlan(req.params.planId, reason || `Paused by ${userId}`, userId);
+      if (!plan) {
+        return res.status(404).json({ error: 'Rollout plan not found' });
+      }
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid rollout plan request', details: error.errors });
+      }
+      if (error instanceof RolloutPlanError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('[API] Error pausing rollout plan:', error);
+      res.status(500).json({ error: 'Failed to pause rollout plan' });
+    }
+  });
+
+  // Rollout Plans - Resume plan (refused while a blocking alert is active)
+  app.post('/api/deployment/rollout/plans/:planId/resume', async (req: Request, res: Response) => {
+    try {
+      const { userId } = z.object({ userId: z.string().min(1) }).parse(req.body);
+      const plan = await rolloutScheduler.resumePlan(req.params.planId, userId);
+      if (!plan) {
+        return res.status(404).json({ error: 'Rollout plan not found' });
+      }
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid rollout plan request', details: error.errors });
+      }
+      if (error instanceof RolloutPlanError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('[API] Error resuming rollout plan:', error);
+      res.status(500).json({ error: 'Failed to resume rollout plan' });
+    }
+  });
+
+  // Performance Analysis - Run analysis
+  app.get('/api/deployment/performance/analyze', async (req: Request, res: Response) => {
+    try {
+      const { performanceAnalyzer } = await import('./deployment/performance-analyzer');
+      const report = await performanceAnalyzer.analyzePerformance();
+      res.json(report);
+    } catch (error) {
+      console.error('[API] Error analyzing performance:', error);
+      res.status(500).json({ error: 'Failed to analyze performance' });
+    }
+  });
+
+  // Performance Analysis - Get text report
+  app.get('/api/deployment/performance/report', async (req: Request, res: Response) => {
+    try {
+      const { performanceAnalyzer } = await import('./deployment/performance-analyzer');
+      const report = await performanceAnalyzer.generateTextReport();
+      res.set('Content-Type', 'text/plain');
+      res.send(report);
+    } catch (error) {
+      console.error('[API] Error generating performance report:', error);
+      res.status(500).json({ error: 'Failed to generate performance report' });
+    }
+  });
+
+  // Grafana Dashboards - Export all dashboards
+  app.get('/api/deployment/grafana/dashboards', async (req: Request, res: Response) => {
+    try {
+      const { exportDashboardsForGrafana } = await import('./deployment/grafana-dashboards');
+      const dashboards = exportDashboardsForGrafana();
+      res.json(dashboards);
+    } catch (error) {
+      console.error('[API] Error exporting Grafana dashboards:', error);
+      res.status(500).json({ error: 'Failed to export Grafana dashboards' });
+    }
+  });
+
+  // Grafana Dashboards - Importable dashboard JSON (body for Grafana's POST /api/dashboards/db)
+  app.get('/api/deployment/grafana/dashboards/:name/config', async (req: Request, res: Response) => {
+    try {
+      const { grafanaExporter } = await import('./deployment/grafana-exporter');
+      const payload = grafanaExporter.getImportPayload(req.params.name);
+
+      if (!payload) {
+        return res.status(404).json({ error: 'Dashboard not found' });
+      }
+
+      res.json(payload);
+    } catch (error) {
+      console.error('[API] Error generating Grafana config:', error);
+      res.status(500).json({ error: 'Failed to generate Grafana config' });
+    }
+  });
+
+  // Grafana Dashboards - Write provisioning files (dashboards + datasources)
+  app.post('/api/deployment/grafana/provision', async (req: Request, res: Response) => {
+    try {
+      const { grafanaExporter } = await import('./deployment/grafana-exporter');
+      const dir = grafanaExporter.getProvisioningDir();
+      const files = await grafanaExporter.writeProvisioningFiles(dir);
+      res.json({ dir, files });
+    } catch (error) {
+      console.error('[API] Error writing Grafana provisioning files:', error);
+      res.status(500).json({ error: 'Failed to write Grafana provisioning files' });
+    }
+  });
+
+  // Database Migration - Execute migration
+  app.post('/api/deployment/migration/execute', async (req: Request, res: Response) => {
+    try {
+      const { dbMigrationService } = await import('./deployment/database-migration');
+      const { name, sql } = req.body;
+      const result = await dbMigrationService.executeMigration(name, sql);
+      res.json(result);
+    } catch (error) {
+      console.error('[API] Error executing migration:', error);
+      res.status(500).json({ error: 'Failed to execute migration' });
+    }
+  });
+
+  // Database Migration - Get history
+  app.get('/api/deployment/migration/history', async (req: Request, res: Response) => {
+    try {
+      const { dbMigrationService } = await import('./deployment/database-migration');
+      const history = dbMigrationService.getMigrationHistory();
+      res.json(history);
+    } catch (error) {
+      console.error('[API] Error getting migration history:', error);
+      res.status(500).json({ error: 'Failed to get migration history' });
+    }
+  });
+
+  // Environment Config - Get current config
+  app.get('/api/deployment/env/config', async (req: Request, res: Response) => {
+    try {
+      const { envConfig } = await import('./deployment/env-config');
+      const config = envConfig.getConfig();
+      res.json(config);
     } catch (error) {
       console.error('[API] Error getting environment config:', error);
       res.status(500).json({ error: 'Failed to get environment config' });
@@ -925,13 +2040,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Notifications - Get user notifications
+  // Notifications - Delivery log (one row per attempt)
+  app.get('/api/deployment/notifications/deliveries', async (req: Request, res: Response) => {
+    try {
+      const { notificationDispatcher } = await import('./deployment/notification-channels');
+      const deliveries = await notificationDispatcher.getDeliveries({
+        notificationId: typeof req.query.notificationId === 'string' ? req.query.notificationId : undefined,
+        status: typeof req.query.status === 'string' ? req.query.status : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined
+      });
+      res.json(deliveries);
+    } catch (error) {
+      console.error('[API] Error getting notification deliveries:', error);
+      res.status(500).json({ error: 'Failed to get notification deliveries' });
+    }
+  });
+
+  // Notifications - Send a test notification and wait for delivery
+  app.post('/api/deployment/notifications/test', async (req: Request, res: Response) => {
+    try {
+      const testSchema = z.object({
+        channel: z.enum(['webhook', 'email', 'slack']),
+        userId: z.string().min(1).default('admin-1'),
+        target: z.string().min(1).optional() // Overrides the configured URL/address
+      });
+      const { channel, userId, target } = testSchema.parse(req.body);
+
+      const { notificationDispatcher } = await import('./deployment/notification-channels');
+      const targetKeys = { webhook: 'webhookUrl', email: 'email', slack: 'slackWebhookUrl' } as const;
+      const notification = {
+        id: `notif-test-${Date.now()}`,
+        userId,
+        type: 'info' as const,
+        channel,
+        title: 'Test notification',
+        message: `Mr Blue ${channel} delivery is working.`,
+        timestamp: new Date().toISOString(),
+        read: false,
+        actionUrl: '/deployment',
+        metadata: target ? { [targetKeys[channel]]: target } : {}
+      };
+
+      const attempts = await notificationDispatcher.deliver(notification, channel);
+      res.json({
+        notificationId: notification.id,
+        delivered: attempts[attempts.length - 1]?.status === 'delivered',
+        attempts
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid test notification', details: error.errors });
+      }
+      console.error('[API] Error sending test notification:', error);
+      res.status(500).json({ error: 'Failed to send test notification' });
+    }
+  });
+
+  // Notifications - Get user notifications (?unread=true for unread only)
   app.get('/api/deployment/notifications/:userId', async (req: Request, res: Response) => {
     try {
       const { notificationService } = await import('./deployment/notification-service');
       const { userId } = req.params;
-      const notifications = notificationService.getUserNotifications(userId);
-      res.json(notifications);
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      const notifications = req.query.unread === 'true'
+        ? await notificationService.getUnreadNotifications(userId, limit)
+        : await notificationService.getUserNotifications(userId, limit);
+      const unread = await notificationService.getUnreadCount(userId);
+      res.json({ notifications, unread });
     } catch (error) {
       console.error('[API] Error getting notifications:', error);
       res.status(500).json({ error: 'Failed to get notifications' });
@@ -943,7 +2118,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { notificationService } = await import('./deployment/notification-service');
       const { notificationId } = req.params;
-      const success = notificationService.markAsRead(notificationId);
+      const success = await notificationService.markAsRead(notificationId);
+      if (!success) {
+        return res.status(404).json({ error: 'Notification not found' });
+      }
       res.json({ success });
     } catch (error) {
       console.error('[API] Error marking notification as read:', error);
@@ -951,24 +2129,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Deployment Automation - Execute deployment
+  // Notifications - Mark all of a user's notifications as read
+  app.post('/api/deployment/notifications/:userId/read-all', async (req: Request, res: Response) => {
+    try {
+      const { notificationService } = await import('./deployment/notification-service');
+      const count = await notificationService.markAllAsRead(req.params.userId);
+      res.json({ success: true, count });
+    } catch (error) {
+      console.error('[API] Error marking all notifications as read:', error);
+      res.status(500).json({ error: 'Failed to mark all notifications as read' });
+    }
+  });
+
+  // Notifications - Get user preferences
+  app.get('/api/deployment/notifications/:userId/preferences', async (req: Request, res: Response) => {
+    try {
+      const { notificationService } = await import('./deployment/notification-service');
+      const preferences = await notificationService.getPreferences(req.params.userId);
+      res.json(preferences);
+    } catch (error) {
+      console.error('[API] Error getting notification preferences:', error);
+      res.status(500).json({ error: 'Failed to get notification preferences' });
+    }
+  });
+
+  // Notifications - Replace user preferences
+  app.put('/api/deployment/notifications/:userId/preferences', async (req: Request, res: Response) => {
+    try {
+      const validated = insertNotificationPreferencesSchema.parse({ ...req.body, userId: req.params.userId });
+      const { notificationService } = await import('./deployment/notification-service');
+      const preferences = await notificationService.setPreferences(validated);
+      res.json(preferences);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid notification preferences', details: error.errors });
+      }
+      console.error('[API] Error saving notification preferences:', error);
+      res.status(500).json({ error: 'Failed to save notification preferences' });
+    }
+  });
+
+  // Deployment Automation - Queue a deployment; progress streams over Socket.IO
   app.post('/api/deployment/automation/deploy', async (req: Request, res: Response) => {
     try {
-      const { deploymentAutomation } = await import('./deployment/deployment-automation');
-      const { version } = req.body;
-      const result = await deploymentAutomation.deploy(version || '1.0.0');
-      res.json(result);
+      const validated = insertDeploymentSchema.parse(req.body);
+      const { userId } = z.object({ userId: z.string().min(1) }).parse(req.body);
+      const deployment = await deploymentAutomation.startDeployment(validated, userId);
+      res.status(202).json({ jobId: deployment.id, deployment });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid deployment', details: error.errors });
+      }
+      if (error instanceof RollbackError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('[API] Error starting deployment:', error);
+      res.status(500).json({ error: 'Failed to start deployment' });
+    }
+  });
+
+  // Deployment Automation - Get a deployment job
+  app.get('/api/deployment/automation/jobs/:jobId', async (req: Request, res: Response) => {
+    try {
+      const deployment = await deploymentAutomation.getDeployment(req.params.jobId);
+      if (!deployment) {
+        return res.status(404).json({ error: 'Deployment not found' });
+      }
+      res.json(deployment);
     } catch (error) {
-      console.error('[API] Error executing deployment:', error);
-      res.status(500).json({ error: 'Failed to execute deployment' });
+      console.error('[API] Error getting deployment:', error);
+      res.status(500).json({ error: 'Failed to get deployment' });
     }
   });
 
   // Deployment Automation - Get history
   app.get('/api/deployment/automation/history', async (req: Request, res: Response) => {
     try {
-      const { deploymentAutomation } = await import('./deployment/deployment-automation');
-      const history = deploymentAutomation.getDeploymentHistory();
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+      const history = await deploymentAutomation.getDeploymentHistory(limit);
       res.json(history);
     } catch (error) {
       console.error('[API] Error getting deployment history:', error);
@@ -976,6 +2214,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Deployment Target - Active/standby versions and running instances
+  app.get('/api/deployment/target', async (req: Request, res: Response) => {
+    try {
+      res.json(deploymentTarget.getStatus());
+    } catch (error) {
+      console.error('[API] Error getting deployment target status:', error);
+      res.status(500).json({ error: 'Failed to get deployment target status' });
+    }
+  });
+
+  // Canary - Compare two versions' proxied traffic and builds (?baseline=&candidate=&windowMs=)
+  app.get('/api/deployment/canary/analysis', async (req: Request, res: Response) => {
+    try {
+      const { baseline, candidate, windowMs } = z.object({
+        baseline: z.string().min(1),
+        candidate: z.string().min(1),
+        windowMs: z.coerce.number().int().positive().optional()
+      }).parse(req.query);
+      const { canaryAnalyzer } = await import('./deployment/canary-analysis');
+      const split = deploymentTarget.getStatus().canary;
+      const percentage = split?.version === candidate ? split.percentage : 0;
+      const report = await canaryAnalyzer.analyze(baseline, candidate, percentage, windowMs);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid canary analysis request', details: error.errors });
+      }
+      console.error('[API] Error running canary analysis:', error);
+      res.status(500).json({ error: 'Failed to run canary analysis' });
+    }
+  });
+
+  // Deployment Automation - Get the live release for an environment
+  app.get('/api/deployment/automation/current', async (req: Request, res: Response) => {
+    try {
+      const environment = (req.query.environment as string) || 'production';
+      const deployment = await deploymentAutomation.getCurrentRelease(environment);
+      if (!deployment) {
+        return res.status(404).json({ error: 'No release deployed' });
+      }
+      res.json(deployment);
+    } catch (error) {
+      console.error('[API] Error getting current release:', error);
+      res.status(500).json({ error: 'Failed to get current release' });
+    }
+  });
+
   console.log('[Server] All agent API routes registered');
   console.log('[WebSocket] Real-time communication server initialized');
   console.log('[Deployment] Phase 5 deployment endpoints registered (26 endpoints)');
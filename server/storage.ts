@@ -1,10 +1,12 @@
 import { eq, desc, and, gte, lt, sql } from "drizzle-orm";
 import { db } from "./db";
+import { pricingService } from "./ai/pricing";
 import {
   type User,
   type InsertUser,
   type AgentCapability,
   type InsertAgentCapability,
+  type Build,
   type AgentTask,
   type InsertAgentTask,
   type AgentCollaboration,
@@ -23,8 +25,28 @@ import {
   type InsertFailurePattern,
   type AiUsageMetric,
   type InsertAiUsageMetric,
+  type BudgetPolicy,
+  type InsertBudgetPolicy,
+  type AlertRule,
+  type InsertAlertRule,
+  type OnCallSchedule,
+  type InsertOnCallSchedule,
+  type OnCallOverride,
+  type InsertOnCallOverride,
+  type EscalationPolicy,
+  type InsertEscalationPolicy,
+  type NotificationPreferences,
+  type InsertNotificationPreferences,
+  type FeatureFlag,
+  type InsertFeatureFlag,
+  type Experiment,
+  type ExperimentStatus,
+  type InsertExperiment,
+  type RolloutPlan,
+  type InsertRolloutPlan,
   users,
   agentCapabilities,
+  builds,
   agentTasks,
   agentCollaboration,
   agentLearnings,
@@ -34,6 +56,17 @@ import {
   failedActions,
   failurePatterns,
   aiUsageMetrics,
+  budgetPolicies,
+  alertRules,
+  onCallSchedules,
+  onCallOverrides,
+  escalationPolicies,
+  notificationPreferences,
+  featureFlags,
+  experiments,
+  experimentAssignments,
+  experimentExposures,
+  rolloutPlans,
 } from "@shared/schema";
 
 export interface IStorage {
@@ -51,6 +84,10 @@ export interface IStorage {
   updateAgentCapability(agentId: string, updates: Partial<InsertAgentCapability>): Promise<AgentCapability | undefined>;
   updateAgentLoad(agentId: string, loadDelta: number): Promise<void>;
 
+  // Build operations
+  getBuild(id: string): Promise<Build | undefined>;
+  getBuilds(filters?: { userId?: string; status?: string; limit?: number }): Promise<Build[]>;
+
   // Agent Task operations
   getAgentTask(id: number): Promise<AgentTask | undefined>;
   getTasksByBuildId(buildId: string): Promise<AgentTask[]>;
@@ -89,8 +126,62 @@ export interface IStorage {
   // AI Usage Metrics operations
   recordAiUsage(usage: InsertAiUsageMetric): Promise<AiUsageMetric>;
   getAiUsageStats(userId?: string, days?: number): Promise<any>;
+
+  // Budget Policy operations
+  getBudgetPolicies(filters?: { scope?: string; scopeId?: string; activeOnly?: boolean }): Promise<BudgetPolicy[]>;
+  upsertBudgetPolicy(policy: InsertBudgetPolicy): Promise<BudgetPolicy>;
+
+  // Alert rule operations
+  getAlertRules(activeOnly?: boolean): Promise<AlertRule[]>;
+  getAlertRule(id: string): Promise<AlertRule | undefined>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: string, updates: Partial<InsertAlertRule>): Promise<AlertRule | undefined>;
+  deleteAlertRule(id: string): Promise<boolean>;
+
+  // On-call and escalation operations
+  getOnCallSchedules(): Promise<OnCallSchedule[]>;
+  getOnCallSchedule(id: number): Promise<OnCallSchedule | undefined>;
+  createOnCallSchedule(schedule: InsertOnCallSchedule): Promise<OnCallSchedule>;
+  getOnCallOverrides(scheduleId: number): Promise<OnCallOverride[]>;
+  createOnCallOverride(override: InsertOnCallOverride): Promise<OnCallOverride>;
+  getEscalationPolicies(): Promise<EscalationPolicy[]>;
+  createEscalationPolicy(policy: InsertEscalationPolicy): Promise<EscalationPolicy>;
+  updateEscalationPolicy(id: number, updates: Partial<InsertEscalationPolicy>): Promise<EscalationPolicy | undefined>;
+
+  // Notification preference operations
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined>;
+  upsertNotificationPreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences>;
+
+  // Feature flag operations
+  getFeatureFlags(): Promise<FeatureFlag[]>;
+  getFeatureFlag(key: string): Promise<FeatureFlag | undefined>;
+  createFeatureFlag(flag: InsertFeatureFlag): Promise<FeatureFlag>;
+  updateFeatureFlag(key: string, updates: Partial<InsertFeatureFlag>): Promise<FeatureFlag | undefined>;
+  deleteFeatureFlag(key: string): Promise<boolean>;
+  setFeatureFlagKillSwitch(key: string, active: boolean, userId: string, reason?: string): Promise<FeatureFlag | undefined>;
+
+  // Experiment operations
+  getExperiments(): Promise<Experiment[]>;
+  getExperiment(key: string): Promise<Experiment | undefined>;
+  createExperiment(experiment: InsertExperiment): Promise<Experiment>;
+  updateExperiment(key: string, updates: Partial<InsertExperiment>): Promise<Experiment | undefined>;
+  setExperimentStatus(key: string, status: ExperimentStatus): Promise<Experiment | undefined>;
+  deleteExperiment(key: string): Promise<boolean>;
+
+  // Rollout plan operations
+  getRolloutPlans(): Promise<RolloutPlan[]>;
+  getRolloutPlan(id: string): Promise<RolloutPlan | undefined>;
+  createRolloutPlan(plan: InsertRolloutPlan): Promise<RolloutPlan>;
+  updateRolloutPlan(id: string, updates: Partial<InsertRolloutPlan>): Promise<RolloutPlan | undefined>;
+  setRolloutPlanState(id: string, state: RolloutPlanState): Promise<RolloutPlan | undefined>;
+  deleteRolloutPlan(id: string): Promise<boolean>;
 }
 
+/**
+ * Scheduler-owned fields of a rollout plan
+ */
+export type RolloutPlanState = Partial<Pick<RolloutPlan, 'status' | 'currentPhase' | 'pausedReason' | 'pausedAt' | 'phaseStartedAt'>>;
+
 export class DatabaseStorage implements IStorage {
   // ═══════════════════════════════════════════════════════════════════
   // USER OPERATIONS
@@ -165,6 +256,27 @@ export class DatabaseStorage implements IStorage {
       .where(eq(agentCapabilities.agentId, agentId));
   }
 
+  // ═══════════════════════════════════════════════════════════════════
+  // BUILD OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════
+
+  async getBuild(id: string): Promise<Build | undefined> {
+    const result = await db.select().from(builds).where(eq(builds.id, id));
+    return result[0];
+  }
+
+  async getBuilds(filters: { userId?: string; status?: string; limit?: number } = {}): Promise<Build[]> {
+    const conditions = [];
+    if (filters.userId) conditions.push(eq(builds.userId, filters.userId));
+    if (filters.status) conditions.push(eq(builds.status, filters.status));
+
+    return await db.select()
+      .from(builds)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(builds.createdAt))
+      .limit(filters.limit ?? 50);
+  }
+
   // ═══════════════════════════════════════════════════════════════════
   // AGENT TASK OPERATIONS
   // ═══════════════════════════════════════════════════════════════════
@@ -369,7 +481,6 @@ export class DatabaseStorage implements IStorage {
       .from(aiUsageMetrics)
       .where(conditions);
 
-    const totalCost = metrics.reduce((sum, m) => sum + Number(m.cost), 0);
     const totalRequests = metrics.length;
     const byModel: Record<string, { count: number; cost: number }> = {};
 
@@ -378,17 +489,321 @@ export class DatabaseStorage implements IStorage {
         byModel[m.model] = { count: 0, cost: 0 };
       }
       byModel[m.model].count++;
-      byModel[m.model].cost += Number(m.cost);
+    });
+
+    // Costs are priced from prompt/completion tokens at the rate in effect
+    // on the day of each call
+    const breakdown = pricingService.summarize(metrics);
+    metrics.forEach(m => {
+      byModel[m.model].cost += pricingService.priceUsage(m).actual;
     });
 
     return {
-      totalCost,
+      totalCost: breakdown.actualCost,
       totalRequests,
-      avgCostPerRequest: totalRequests > 0 ? totalCost / totalRequests : 0,
+      totalTokens: metrics.reduce((sum, m) => sum + m.tokens, 0),
+      avgCostPerRequest: totalRequests > 0 ? breakdown.actualCost / totalRequests : 0,
       byModel,
+      byDay: breakdown.byDay,
+      byAgent: breakdown.byAgent,
+      byUser: breakdown.byUser,
+      byRequestType: breakdown.byRequestType,
       period: `Last ${days} days`
     };
   }
+
+  // ═══════════════════════════════════════════════════════════════════
+  // BUDGET POLICY OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════
+
+  async getBudgetPolicies(filters: { scope?: string; scopeId?: string; activeOnly?: boolean } = {}): Promise<BudgetPolicy[]> {
+    const conditions = [];
+    if (filters.scope) conditions.push(eq(budgetPolicies.scope, filters.scope));
+    if (filters.scopeId) conditions.push(eq(budgetPolicies.scopeId, filters.scopeId));
+    if (filters.activeOnly) conditions.push(eq(budgetPolicies.isActive, true));
+
+    return await db.select()
+      .from(budgetPolicies)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(budgetPolicies.scope, budgetPolicies.scopeId, budgetPolicies.period);
+  }
+
+  /**
+   * One policy per (scope, scopeId, period): update it if it exists
+   */
+  async upsertBudgetPolicy(policy: InsertBudgetPolicy): Promise<BudgetPolicy> {
+    const [existing] = await db.select()
+      .from(budgetPolicies)
+      .where(and(
+        eq(budgetPolicies.scope, policy.scope),
+        eq(budgetPolicies.scopeId, policy.scopeId),
+        eq(budgetPolicies.period, policy.period)
+      ));
+
+    if (existing) {
+      const [updated] = await db.update(budgetPolicies)
+        .set({ ...policy, updatedAt: new Date() })
+        .where(eq(budgetPolicies.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db.insert(budgetPolicies).values(policy).returning();
+    return created;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════
+  // ALERT RULE OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════
+
+  async getAlertRules(activeOnly: boolean = false): Promise<AlertRule[]> {
+    return await db.select()
+      .from(alertRules)
+      .where(activeOnly ? eq(alertRules.isActive, true) : undefined)
+      .orderBy(alertRules.id);
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | undefined> {
+    const [rule] = await db.select().from(alertRules).where(eq(alertRules.id, id));
+    return rule || undefined;
+  }
+
+  async createAlertRule(rule: InsertAlertRule): Promise<AlertRule> {
+    const [created] = await db.insert(alertRules).values(rule).returning();
+    return created;
+  }
+
+  async updateAlertRule(id: string, updates: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
+    const [updated] = await db.update(alertRules)
+      .set({ ...updates, id, updatedAt: new Date() })
+      .where(eq(alertRules.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    const deleted = await db.delete(alertRules)
+      .where(eq(alertRules.id, id))
+      .returning({ id: alertRules.id });
+    return deleted.length > 0;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════
+  // ON-CALL & ESCALATION OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════
+
+  async getOnCallSchedules(): Promise<OnCallSchedule[]> {
+    return await db.select().from(onCallSchedules).orderBy(onCallSchedules.name);
+  }
+
+  async getOnCallSchedule(id: number): Promise<OnCallSchedule | undefined> {
+    const [schedule] = await db.select().from(onCallSchedules).where(eq(onCallSchedules.id, id));
+    return schedule || undefined;
+  }
+
+  async createOnCallSchedule(schedule: InsertOnCallSchedule): Promise<OnCallSchedule> {
+    const [created] = await db.insert(onCallSchedules).values(schedule).returning();
+    return created;
+  }
+
+  /**
+   * Overrides that have not ended yet, soonest first
+   */
+  async getOnCallOverrides(scheduleId: number): Promise<OnCallOverride[]> {
+    return await db.select()
+      .from(onCallOverrides)
+      .where(and(eq(onCallOverrides.scheduleId, scheduleId), gte(onCallOverrides.endsAt, new Date())))
+      .orderBy(onCallOverrides.startsAt);
+  }
+
+  async createOnCallOverride(override: InsertOnCallOverride): Promise<OnCallOverride> {
+    const [created] = await db.insert(onCallOverrides).values(override).returning();
+    return created;
+  }
+
+  async getEscalationPolicies(): Promise<EscalationPolicy[]> {
+    return await db.select().from(escalationPolicies).orderBy(escalationPolicies.name);
+  }
+
+  /**
+   * Only one policy is the default: setting isDefault clears it elsewhere
+   */
+  async createEscalationPolicy(policy: InsertEscalationPolicy): Promise<EscalationPolicy> {
+    if (policy.isDefault) {
+      await db.update(escalationPolicies).set({ isDefault: false, updatedAt: new Date() });
+    }
+    const [created] = await db.insert(escalationPolicies).values(policy).returning();
+    return created;
+  }
+
+  async updateEscalationPolicy(id: number, updates: Partial<InsertEscalationPolicy>): Promise<EscalationPolicy | undefined> {
+    if (updates.isDefault) {
+      await db.update(escalationPolicies).set({ isDefault: false, updatedAt: new Date() });
+    }
+    const [updated] = await db.update(escalationPolicies)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(escalationPolicies.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════
+  // NOTIFICATION PREFERENCE OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+    return preferences || undefined;
+  }
+
+  async upsertNotificationPreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    const values = { ...preferences, updatedAt: new Date() };
+    const [saved] = await db.insert(notificationPreferences)
+      .values(values)
+      .onConflictDoUpdate({ target: notificationPreferences.userId, set: values })
+      .returning();
+    return saved;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════
+  // FEATURE FLAG OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════
+
+  async getFeatureFlags(): Promise<FeatureFlag[]> {
+    return await db.select().from(featureFlags).orderBy(featureFlags.key);
+  }
+
+  async getFeatureFlag(key: string): Promise<FeatureFlag | undefined> {
+    const [flag] = await db.select().from(featureFlags).where(eq(featureFlags.key, key));
+    return flag || undefined;
+  }
+
+  async createFeatureFlag(flag: InsertFeatureFlag): Promise<FeatureFlag> {
+    const [created] = await db.insert(featureFlags).values(flag).returning();
+    return created;
+  }
+
+  async updateFeatureFlag(key: string, updates: Partial<InsertFeatureFlag>): Promise<FeatureFlag | undefined> {
+    const [updated] = await db.update(featureFlags)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(featureFlags.key, key))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteFeatureFlag(key: string): Promise<boolean> {
+    const deleted = await db.delete(featureFlags).where(eq(featureFlags.key, key)).returning();
+    return deleted.length > 0;
+  }
+
+  /**
+   * Engage or release the kill switch; releasing clears who/why
+   */
+  async setFeatureFlagKillSwitch(key: string, active: boolean, userId: string, reason?: string): Promise<FeatureFlag | undefined> {
+    const [updated] = await db.update(featureFlags)
+      .set({
+        killSwitch: active,
+        killedAt: active ? new Date() : null,
+        killedBy: active ? userId : null,
+        killReason: active ? reason ?? null : null,
+        updatedBy: userId,
+        updatedAt: new Date()
+      })
+      .where(eq(featureFlags.key, key))
+      .returning();
+    return updated || undefined;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════
+  // EXPERIMENT OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════
+
+  async getExperiments(): Promise<Experiment[]> {
+    return await db.select().from(experiments).orderBy(desc(experiments.createdAt));
+  }
+
+  async getExperiment(key: string): Promise<Experiment | undefined> {
+    const [experiment] = await db.select().from(experiments).where(eq(experiments.key, key));
+    return experiment || undefined;
+  }
+
+  async createExperiment(experiment: InsertExperiment): Promise<Experiment> {
+    const [created] = await db.insert(experiments).values(experiment).returning();
+    return created;
+  }
+
+  async updateExperiment(key: string, updates: Partial<InsertExperiment>): Promise<Experiment | undefined> {
+    const [updated] = await db.update(experiments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(experiments.key, key))
+      .returning();
+    return updated || undefined;
+  }
+
+  /**
+   * Change status; the first start and the completion are timestamped
+   */
+  async setExperimentStatus(key: string, status: ExperimentStatus): Promise<Experiment | undefined> {
+    const [updated] = await db.update(experiments)
+      .set({
+        status,
+        startedAt: status === 'running' ? sql`coalesce(${experiments.startedAt}, now())` : undefined,
+        endedAt: status === 'completed' ? new Date() : undefined,
+        updatedAt: new Date()
+      })
+      .where(eq(experiments.key, key))
+      .returning();
+    return updated || undefined;
+  }
+
+  /**
+   * Delete an experiment with its assignments and exposures
+   */
+  async deleteExperiment(key: string): Promise<boolean> {
+    await db.delete(experimentExposures).where(eq(experimentExposures.experimentKey, key));
+    await db.delete(experimentAssignments).where(eq(experimentAssignments.experimentKey, key));
+    const deleted = await db.delete(experiments).where(eq(experiments.key, key)).returning();
+    return deleted.length > 0;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════
+  // ROLLOUT PLAN OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════
+
+  async getRolloutPlans(): Promise<RolloutPlan[]> {
+    return await db.select().from(rolloutPlans).orderBy(desc(rolloutPlans.createdAt));
+  }
+
+  async getRolloutPlan(id: string): Promise<RolloutPlan | undefined> {
+    const [plan] = await db.select().from(rolloutPlans).where(eq(rolloutPlans.id, id));
+    return plan || undefined;
+  }
+
+  async createRolloutPlan(plan: InsertRolloutPlan): Promise<RolloutPlan> {
+    const [created] = await db.insert(rolloutPlans).values(plan).returning();
+    return created;
+  }
+
+  async updateRolloutPlan(id: string, updates: Partial<InsertRolloutPlan>): Promise<RolloutPlan | undefined> {
+    const [updated] = await db.update(rolloutPlans)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(rolloutPlans.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async setRolloutPlanState(id: string, state: RolloutPlanState): Promise<RolloutPlan | undefined> {
+    const [updated] = await db.update(rolloutPlans)
+      .set({ ...state, updatedAt: new Date() })
+      .where(eq(rolloutPlans.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteRolloutPlan(id: string): Promise<boolean> {
+    const deleted = await db.delete(rolloutPlans).where(eq(rolloutPlans.id, id)).returning();
+    return deleted.length > 0;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,8 @@
+/**
+ * Loaded before every test file (see the `test` script)
+ *
+ * server/db.ts refuses to load without DATABASE_URL. Tests never query
+ * it: persistence is replaced through constructor arguments, and the
+ * pool only connects on first use.
+ */
+process.env.DATABASE_URL ??= 'postgres://test@localhost:5432/test';
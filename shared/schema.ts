@@ -8,7 +8,9 @@ import {
   boolean,
   timestamp,
   jsonb,
-  decimal
+  decimal,
+  real,
+  unique
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -17,10 +19,18 @@ import { z } from "zod";
 // USER MANAGEMENT
 // ═══════════════════════════════════════════════════════════════════
 
+/**
+ * Rollout segments, lowest to highest; moving up is a promotion
+ */
+export const USER_SEGMENTS = ['regular', 'beta', 'super_admin'] as const;
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  segment: varchar("segment", { length: 20 }).default('regular').notNull(), // 'regular', 'beta', 'super_admin'
+  segmentUpdatedAt: timestamp("segment_updated_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -67,18 +77,49 @@ export type InsertAgentCapability = z.infer<typeof insertAgentCapabilitySchema>;
 export type AgentCapability = typeof agentCapabilities.$inferSelect;
 
 
+/**
+ * Builds - One row per user request, owning every task created for it
+ * Based on mb.md Section 3 (Multi-Agent Orchestration System)
+ */
+export const builds = pgTable("builds", {
+  id: varchar("id", { length: 255 }).primaryKey(), // 'build-<timestamp>-<random>'
+  userId: varchar("user_id").notNull(), // Requester, references users.id
+  request: text("request").notNull(),
+  status: varchar("status", { length: 50 }).default('pending').notNull(), // 'pending', 'running', 'completed', 'failed', 'cancelled'
+  mainTaskId: integer("main_task_id"), // References agent_tasks.id (orchestration task)
+  totalTokens: integer("total_tokens").default(0).notNull(),
+  totalCost: decimal("total_cost", { precision: 10, scale: 6 }).default('0').notNull(), // USD, rolled up from ai_usage_metrics
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  deploymentVersion: varchar("deployment_version", { length: 100 }), // Release that ran the build (canary analysis)
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertBuildSchema = createInsertSchema(builds).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertBuild = z.infer<typeof insertBuildSchema>;
+export type Build = typeof builds.$inferSelect;
+
+
 /**
  * Agent Tasks - Task queue, assignments, and execution tracking
  * Based on mb.md Section 13.2
  */
 export const agentTasks = pgTable("agent_tasks", {
   id: serial("id").primaryKey(),
-  buildId: varchar("build_id", { length: 255 }).notNull(),
+  buildId: varchar("build_id", { length: 255 }).notNull(), // References builds.id
   type: varchar("type", { length: 50 }).notNull(), // 'frontend', 'backend', 'database', 'integration'
   description: text("description").notNull(),
   assignedAgent: varchar("assigned_agent", { length: 100 }),
-  status: varchar("status", { length: 50 }).default('pending').notNull(), // 'pending', 'in_progress', 'completed', 'failed'
+  status: varchar("status", { length: 50 }).default('pending').notNull(), // 'pending', 'assigned', 'in_progress', 'completed', 'failed', 'cancelled'
   dependencies: jsonb("dependencies").default([]).notNull(), // Array of task IDs
+  canStartWhen: varchar("can_start_when", { length: 20 }).default('all_complete').notNull(), // 'all_complete', 'any_complete'
   priority: integer("priority").default(5).notNull(), // 1-10
   estimatedMinutes: integer("estimated_minutes"),
   actualMinutes: integer("actual_minutes"),
@@ -95,6 +136,7 @@ export const insertAgentTaskSchema = createInsertSchema(agentTasks).omit({
   createdAt: true,
 }).extend({
   dependencies: z.array(z.number()).default([]),
+  canStartWhen: z.enum(['all_complete', 'any_complete']).default('all_complete'),
   output: z.record(z.any()).optional(),
 });
 
@@ -307,9 +349,15 @@ export const aiUsageMetrics = pgTable("ai_usage_metrics", {
   userId: varchar("user_id"),
   model: varchar("model", { length: 50 }).notNull(), // 'gemini-flash', 'gemini-pro', 'claude-sonnet', 'gpt-4o'
   tokens: integer("tokens").notNull(),
+  promptTokens: integer("prompt_tokens").default(0).notNull(),
+  completionTokens: integer("completion_tokens").default(0).notNull(),
   cost: decimal("cost", { precision: 10, scale: 6 }).notNull(), // USD
   requestType: varchar("request_type", { length: 50 }).notNull(), // 'chat', 'code_generation', 'reasoning'
+  latencyMs: integer("latency_ms"),
+  success: boolean("success").default(true).notNull(),
+  error: text("error"),
   agentId: varchar("agent_id", { length: 100 }),
+  buildId: varchar("build_id", { length: 255 }), // References builds.id
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -323,3 +371,762 @@ export const insertAiUsageMetricSchema = createInsertSchema(aiUsageMetrics).omit
 
 export type InsertAiUsageMetric = z.infer<typeof insertAiUsageMetricSchema>;
 export type AiUsageMetric = typeof aiUsageMetrics.$inferSelect;
+
+/**
+ * Budget Policies - Spend caps on AI usage
+ * Scope is a user, agent or build; scopeId '*' applies the cap to every
+ * member of the scope individually. Build caps normally use period 'total'.
+ */
+export const budgetPolicies = pgTable("budget_policies", {
+  id: serial("id").primaryKey(),
+  scope: varchar("scope", { length: 20 }).notNull(), // 'user', 'agent', 'build'
+  scopeId: varchar("scope_id", { length: 255 }).notNull(), // User ID, agent ID, build ID or '*'
+  period: varchar("period", { length: 20 }).notNull(), // 'daily', 'monthly', 'total'
+  limitUsd: decimal("limit_usd", { precision: 10, scale: 2 }).notNull(), // Hard limit: calls are rejected
+  softLimitPercent: integer("soft_limit_percent").default(80).notNull(), // Warn when spend crosses this
+  notifyUserId: varchar("notify_user_id"), // Who gets soft-limit warnings (defaults to the user, else admin)
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertBudgetPolicySchema = createInsertSchema(budgetPolicies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  scope: z.enum(['user', 'agent', 'build']),
+  period: z.enum(['daily', 'monthly', 'total']),
+  limitUsd: z.union([z.string(), z.number()]).transform(v => String(v)),
+  softLimitPercent: z.number().int().min(1).max(100).default(80),
+});
+
+export type InsertBudgetPolicy = z.infer<typeof insertBudgetPolicySchema>;
+export type BudgetPolicy = typeof budgetPolicies.$inferSelect;
+
+/**
+ * Budget Warnings - Soft-limit warnings already sent
+ * One row per policy, concrete scope ID and period, so a warning is sent
+ * once per period across restarts and server instances
+ */
+export const budgetWarnings = pgTable("budget_warnings", {
+  id: serial("id").primaryKey(),
+  policyId: integer("policy_id").notNull(),
+  scopeId: varchar("scope_id", { length: 255 }).notNull(), // Concrete ID ('*' resolved)
+  periodStart: varchar("period_start", { length: 40 }).notNull(), // ISO start of the period, or 'total'
+  percentUsed: real("percent_used").notNull(), // Spend when the warning was sent
+  warnedAt: timestamp("warned_at").defaultNow().notNull(),
+}, (table) => [
+  unique("budget_warnings_period_unique").on(table.policyId, table.scopeId, table.periodStart),
+]);
+
+export type BudgetWarning = typeof budgetWarnings.$inferSelect;
+
+// ═══════════════════════════════════════════════════════════════════
+// DEPLOYMENT MONITORING
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Metric Snapshots - Periodic copies of MetricsCollector output
+ * Lets dashboards and rollback decisions look past the in-memory window
+ */
+export const metricSnapshots = pgTable("metric_snapshots", {
+  id: serial("id").primaryKey(),
+  metrics: jsonb("metrics").notNull(), // SystemMetrics
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertMetricSnapshotSchema = createInsertSchema(metricSnapshots).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  metrics: z.record(z.any()),
+});
+
+export type InsertMetricSnapshot = z.infer<typeof insertMetricSnapshotSchema>;
+export type MetricSnapshot = typeof metricSnapshots.$inferSelect;
+
+
+/**
+ * Health Checks - One row per HealthCheckService run
+ * Keeps the individual check results so failures can be traced over time
+ */
+export const healthChecks = pgTable("health_checks", {
+  id: serial("id").primaryKey(),
+  status: varchar("status", { length: 20 }).notNull(), // 'healthy', 'degraded', 'unhealthy'
+  overallHealth: real("overall_health").notNull(), // 0-100
+  passed: integer("passed").notNull(),
+  warnings: integer("warnings").notNull(),
+  failures: integer("failures").notNull(),
+  checks: jsonb("checks").notNull(), // HealthCheck[]
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertHealthCheckSchema = createInsertSchema(healthChecks).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  checks: z.array(z.record(z.any())),
+});
+
+export type InsertHealthCheck = z.infer<typeof insertHealthCheckSchema>;
+export type HealthCheckRun = typeof healthChecks.$inferSelect;
+
+
+/**
+ * Alert Rules - Threshold conditions evaluated against collected metrics
+ * A rule fires when `metric comparator threshold` has held for durationMs,
+ * and not more often than once per cooldownMs
+ */
+export const alertRules = pgTable("alert_rules", {
+  id: varchar("id", { length: 100 }).primaryKey(), // Slug, e.g. 'high-error-rate'
+  name: text("name").notNull(),
+  metric: varchar("metric", { length: 100 }).notNull(), // Metric source, e.g. 'api.errorRate'
+  comparator: varchar("comparator", { length: 2 }).notNull(), // '>', '>=', '<', '<=', '==', '!='
+  threshold: real("threshold").notNull(),
+  durationMs: integer("duration_ms").default(0).notNull(), // Condition must hold this long before firing
+  severity: varchar("severity", { length: 20 }).notNull(), // 'info', 'warning', 'error', 'critical'
+  cooldownMs: integer("cooldown_ms").default(300000).notNull(), // Minimum time between firings
+  message: text("message").notNull(),
+  escalationPolicyId: integer("escalation_policy_id"), // References escalation_policies.id (null = default policy)
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertAlertRuleSchema = createInsertSchema(alertRules).omit({
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Rule id must be a lowercase slug').max(100),
+  comparator: z.enum(['>', '>=', '<', '<=', '==', '!=']),
+  threshold: z.number(),
+  durationMs: z.number().int().min(0).default(0),
+  severity: z.enum(['info', 'warning', 'error', 'critical']),
+  cooldownMs: z.number().int().min(0).default(300000),
+});
+
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type AlertRule = typeof alertRules.$inferSelect;
+
+/**
+ * Alerts - Fired by alert rules (or raised directly by services)
+ * Status moves active → acknowledged → resolved; resolution records
+ * whether a person resolved it or the rule condition cleared.
+ * Repeats of an open alert with the same fingerprint bump `occurrences`
+ * instead of creating a new row.
+ */
+export const alerts = pgTable("alerts", {
+  id: serial("id").primaryKey(),
+  ruleId: varchar("rule_id", { length: 100 }), // References alert_rules.id (null for direct alerts)
+  severity: varchar("severity", { length: 20 }).notNull(),
+  status: varchar("status", { length: 20 }).default("active").notNull(), // 'active', 'acknowledged', 'resolved'
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  source: varchar("source", { length: 100 }).notNull(),
+  fingerprint: varchar("fingerprint", { length: 64 }).notNull(), // Dedup key, e.g. 'rule:high-error-rate'
+  occurrences: integer("occurrences").default(1).notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  value: real("value"), // Metric value when fired
+  threshold: real("threshold"),
+  metadata: jsonb("metadata"),
+  firedAt: timestamp("fired_at").defaultNow().notNull(),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: varchar("acknowledged_by"),
+  resolvedAt: timestamp("resolved_at"),
+  resolvedBy: varchar("resolved_by"),
+  resolution: varchar("resolution", { length: 20 }), // 'manual', 'auto'
+  escalationPolicyId: integer("escalation_policy_id"), // References escalation_policies.id
+  escalationStep: integer("escalation_step"), // Index of the last policy step notified
+  escalatedAt: timestamp("escalated_at"),
+  assignedTo: varchar("assigned_to"), // Current owner: last person paged, or whoever acknowledged
+});
+
+export const insertAlertSchema = createInsertSchema(alerts).omit({
+  id: true,
+  firedAt: true,
+  occurrences: true,
+  lastSeenAt: true,
+}).extend({
+  metadata: z.record(z.any()).optional(),
+});
+
+export type InsertAlert = z.infer<typeof insertAlertSchema>;
+export type Alert = typeof alerts.$inferSelect;
+
+/**
+ * Alert Events - Lifecycle history for each alert
+ */
+export const alertEvents = pgTable("alert_events", {
+  id: serial("id").primaryKey(),
+  alertId: integer("alert_id").notNull(), // References alerts.id
+  event: varchar("event", { length: 30 }).notNull(), // 'fired', 'repeated', 'notified', 'escalated', 'acknowledged', 'resolved', 'auto_resolved'
+  actor: varchar("actor"), // User ID, or null for the system
+  value: real("value"), // Metric value at the time of the event
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAlertEventSchema = createInsertSchema(alertEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAlertEvent = z.infer<typeof insertAlertEventSchema>;
+export type AlertEvent = typeof alertEvents.$inferSelect;
+
+/**
+ * On-Call Schedules - Rotations of who is paged for alerts
+ * participants[i] is primary for the i-th rotation period after rotationStart
+ * (cycling), and the next participant is secondary
+ */
+export const onCallSchedules = pgTable("on_call_schedules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  participants: jsonb("participants").notNull(), // User IDs in rotation order
+  rotationStart: timestamp("rotation_start").notNull(),
+  rotationPeriodHours: integer("rotation_period_hours").default(168).notNull(), // Weekly by default
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertOnCallScheduleSchema = createInsertSchema(onCallSchedules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  participants: z.array(z.string().min(1)).min(1),
+  rotationStart: z.coerce.date(),
+  rotationPeriodHours: z.number().int().min(1).default(168),
+});
+
+export type InsertOnCallSchedule = z.infer<typeof insertOnCallScheduleSchema>;
+export type OnCallSchedule = typeof onCallSchedules.$inferSelect;
+
+/**
+ * On-Call Overrides - Temporary replacement of a schedule's primary
+ */
+export const onCallOverrides = pgTable("on_call_overrides", {
+  id: serial("id").primaryKey(),
+  scheduleId: integer("schedule_id").notNull(), // References on_call_schedules.id
+  userId: varchar("user_id").notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertOnCallOverrideSchema = createInsertSchema(onCallOverrides).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+}).refine(o => o.endsAt > o.startsAt, { message: 'endsAt must be after startsAt', path: ['endsAt'] });
+
+export type InsertOnCallOverride = z.infer<typeof insertOnCallOverrideSchema>;
+export type OnCallOverride = typeof onCallOverrides.$inferSelect;
+
+/**
+ * Escalation Policies - Who is notified about an unacknowledged alert, and when
+ * Each step fires `afterMinutes` after the alert fired; steps target an
+ * on-call schedule role and/or explicit users
+ */
+export const escalationPolicies = pgTable("escalation_policies", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  steps: jsonb("steps").notNull(), // EscalationStep[]
+  isDefault: boolean("is_default").default(false).notNull(), // Used for alerts whose rule names no policy
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const escalationStepSchema = z.object({
+  afterMinutes: z.number().int().min(0),
+  scheduleId: z.number().int().optional(),
+  role: z.enum(['primary', 'secondary']).default('primary'),
+  userIds: z.array(z.string().min(1)).optional(),
+  channel: z.enum(['in-app', 'email', 'webhook', 'slack']).default('in-app'),
+}).refine(step => step.scheduleId !== undefined || (step.userIds && step.userIds.length > 0), {
+  message: 'A step needs a scheduleId or userIds',
+});
+
+export const insertEscalationPolicySchema = createInsertSchema(escalationPolicies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  steps: z.array(escalationStepSchema).min(1)
+    .refine(steps => steps.every((step, i) => i === 0 || step.afterMinutes > steps[i - 1].afterMinutes), {
+      message: 'Step afterMinutes must increase',
+    }),
+});
+
+export type EscalationStep = z.infer<typeof escalationStepSchema>;
+export type InsertEscalationPolicy = z.infer<typeof insertEscalationPolicySchema>;
+export type EscalationPolicy = typeof escalationPolicies.$inferSelect;
+
+// ═══════════════════════════════════════════════════════════════════
+// NOTIFICATIONS
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Notifications - A user's inbox; every notification is stored here
+ * whichever channels it was delivered on
+ */
+export const notifications = pgTable("notifications", {
+  id: varchar("id", { length: 100 }).primaryKey(), // notif-<ts>-<rand>
+  userId: varchar("user_id").notNull(),
+  type: varchar("type", { length: 20 }).notNull(), // 'info', 'success', 'warning', 'error'
+  channel: varchar("channel", { length: 20 }).notNull(), // Channel requested by the sender
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  read: boolean("read").default(false).notNull(),
+  actionUrl: text("action_url"),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type DbNotification = typeof notifications.$inferSelect;
+
+export const NOTIFICATION_TYPES = ['info', 'success', 'warning', 'error'] as const;
+export const NOTIFICATION_CHANNELS = ['in-app', 'email', 'webhook', 'slack'] as const;
+
+/**
+ * Notification Preferences - Channels per notification type and quiet hours
+ * Types missing from `channels` use the channel the sender asked for
+ */
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: varchar("user_id").primaryKey(),
+  channels: jsonb("channels").notNull(), // Partial<Record<type, channel[]>>
+  quietHoursStart: varchar("quiet_hours_start", { length: 5 }), // 'HH:MM', null = no quiet hours
+  quietHoursEnd: varchar("quiet_hours_end", { length: 5 }),
+  timezone: varchar("timezone", { length: 64 }).default("UTC").notNull(), // IANA zone for quiet hours
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences).omit({
+  updatedAt: true,
+}).extend({
+  channels: z.record(z.enum(NOTIFICATION_TYPES), z.array(z.enum(NOTIFICATION_CHANNELS))).default({}),
+  quietHoursStart: clockTime.nullable().optional(),
+  quietHoursEnd: clockTime.nullable().optional(),
+  timezone: z.string().refine(zone => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: zone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Unknown timezone').default('UTC'),
+}).refine(p => (p.quietHoursStart == null) === (p.quietHoursEnd == null), {
+  message: 'quietHoursStart and quietHoursEnd must be set together',
+  path: ['quietHoursEnd'],
+});
+
+export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+
+/**
+ * Notification Deliveries - One row per delivery attempt on an external channel
+ * (webhook, email, slack); retries of the same notification share notificationId
+ */
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: serial("id").primaryKey(),
+  notificationId: varchar("notification_id", { length: 100 }).notNull(),
+  userId: varchar("user_id").notNull(),
+  channel: varchar("channel", { length: 20 }).notNull(), // 'webhook', 'email', 'slack'
+  target: text("target").notNull(), // URL or email address
+  attempt: integer("attempt").notNull(), // 1-based
+  status: varchar("status", { length: 20 }).notNull(), // 'delivered', 'retrying', 'failed'
+  statusCode: integer("status_code"), // HTTP status or SMTP reply code
+  error: text("error"),
+  durationMs: integer("duration_ms").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertNotificationDeliverySchema = createInsertSchema(notificationDeliveries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertNotificationDelivery = z.infer<typeof insertNotificationDeliverySchema>;
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+
+// ═══════════════════════════════════════════════════════════════════
+// FEATURE FLAGS
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Feature Flags - Evaluated per user: kill switch, then enabled, then
+ * targeting rules (first match wins), then the percentage rollout
+ */
+export const featureFlags = pgTable("feature_flags", {
+  key: varchar("key", { length: 100 }).primaryKey(), // e.g. 'agentOrchestration'
+  description: text("description"),
+  enabled: boolean("enabled").default(false).notNull(), // Off = served to nobody
+  rolloutPercentage: real("rollout_percentage").default(0).notNull(), // 0-100, for users no rule matched
+  rules: jsonb("rules").notNull(), // TargetingRule[]
+  killSwitch: boolean("kill_switch").default(false).notNull(), // Emergency off, overrides rules and rollout
+  killedAt: timestamp("killed_at"),
+  killedBy: varchar("killed_by"),
+  killReason: text("kill_reason"),
+  updatedBy: varchar("updated_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/**
+ * A condition on the evaluation context: 'userId', 'segment' (from user
+ * segmentation) or any attribute passed by the caller
+ */
+export const targetingConditionSchema = z.object({
+  attribute: z.string().min(1),
+  operator: z.enum(['in', 'not_in', 'contains', 'starts_with', 'ends_with', 'matches', 'gt', 'gte', 'lt', 'lte']),
+  values: z.array(z.union([z.string(), z.number()])).min(1),
+}).refine(condition => condition.operator !== 'matches' || condition.values.every(value => {
+  try {
+    new RegExp(String(value));
+    return true;
+  } catch {
+    return false;
+  }
+}), { message: 'Invalid regular expression', path: ['values'] });
+
+/**
+ * All conditions must hold for the rule to match; `serve` is the result
+ */
+export const targetingRuleSchema = z.object({
+  name: z.string().min(1).optional(),
+  conditions: z.array(targetingConditionSchema).min(1),
+  serve: z.boolean(),
+});
+
+export const insertFeatureFlagSchema = createInsertSchema(featureFlags).omit({
+  killSwitch: true,
+  killedAt: true,
+  killedBy: true,
+  killReason: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  key: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_.-]*$/, 'Flag key must start with a letter').max(100),
+  rolloutPercentage: z.number().min(0).max(100).default(0),
+  rules: z.array(targetingRuleSchema).default([]),
+});
+
+export type TargetingCondition = z.infer<typeof targetingConditionSchema>;
+export type TargetingRule = z.infer<typeof targetingRuleSchema>;
+export type InsertFeatureFlag = z.infer<typeof insertFeatureFlagSchema>;
+export type FeatureFlag = typeof featureFlags.$inferSelect;
+
+/**
+ * Feature Flag Evaluations - Audit log of every flag served to a user
+ */
+export const featureFlagEvaluations = pgTable("feature_flag_evaluations", {
+  id: serial("id").primaryKey(),
+  flagKey: varchar("flag_key", { length: 100 }).notNull(), // References feature_flags.key
+  userId: varchar("user_id").notNull(),
+  enabled: boolean("enabled").notNull(),
+  reason: varchar("reason", { length: 20 }).notNull(), // 'kill_switch', 'disabled', 'rule', 'rollout', 'default', 'unknown_flag'
+  ruleIndex: integer("rule_index"), // Matching rule when reason = 'rule'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertFeatureFlagEvaluationSchema = createInsertSchema(featureFlagEvaluations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertFeatureFlagEvaluation = z.infer<typeof insertFeatureFlagEvaluationSchema>;
+export type FeatureFlagEvaluation = typeof featureFlagEvaluations.$inferSelect;
+
+// ═══════════════════════════════════════════════════════════════════
+// EXPERIMENTS
+// ═══════════════════════════════════════════════════════════════════
+
+export const EXPERIMENT_TARGETS = ['routing', 'decomposition', 'custom'] as const;
+export const EXPERIMENT_STATUSES = ['draft', 'running', 'paused', 'completed'] as const;
+export const EXPERIMENT_METRICS = ['success', 'taskSuccess', 'predictionAccuracy', 'cost', 'latency'] as const;
+
+/**
+ * Experiments - A/B tests between variants; users are assigned once
+ * (sticky) and outcomes are compared against the first (control) variant
+ */
+export const experiments = pgTable("experiments", {
+  key: varchar("key", { length: 100 }).primaryKey(), // e.g. 'routing-greedy-vs-thompson'
+  description: text("description"),
+  target: varchar("target", { length: 20 }).notNull(), // 'routing', 'decomposition', 'custom'
+  status: varchar("status", { length: 20 }).default('draft').notNull(), // 'draft', 'running', 'paused', 'completed'
+  variants: jsonb("variants").notNull(), // ExperimentVariant[], first is control
+  trafficPercentage: real("traffic_percentage").default(100).notNull(), // 0-100 of eligible users enrolled
+  flagKey: varchar("flag_key", { length: 100 }), // References feature_flags.key; only users with the flag are eligible
+  primaryMetric: varchar("primary_metric", { length: 30 }).default('success').notNull(),
+  createdBy: varchar("created_by"),
+  startedAt: timestamp("started_at"),
+  endedAt: timestamp("ended_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/**
+ * Variant config is read by the experiment's target: `strategy`
+ * ('thompson', 'greedy', 'cheapest') for routing, `systemPrompt` for
+ * decomposition, anything for custom experiments
+ */
+export const experimentVariantSchema = z.object({
+  key: z.string().regex(/^[a-zA-Z0-9_-]+$/, 'Variant key must be alphanumeric').max(50),
+  weight: z.number().positive().default(1),
+  config: z.record(z.any()).default({}),
+});
+
+export const insertExperimentSchema = createInsertSchema(experiments).omit({
+  status: true,
+  startedAt: true,
+  endedAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  key: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_.-]*$/, 'Experiment key must start with a letter').max(100),
+  target: z.enum(EXPERIMENT_TARGETS),
+  variants: z.array(experimentVariantSchema).min(2)
+    .refine(variants => new Set(variants.map(v => v.key)).size === variants.length, 'Variant keys must be unique'),
+  trafficPercentage: z.number().min(0).max(100).default(100),
+  primaryMetric: z.enum(EXPERIMENT_METRICS).default('success'),
+});
+
+export type ExperimentTarget = typeof EXPERIMENT_TARGETS[number];
+export type ExperimentStatus = typeof EXPERIMENT_STATUSES[number];
+export type ExperimentMetric = typeof EXPERIMENT_METRICS[number];
+export type ExperimentVariant = z.infer<typeof experimentVariantSchema>;
+export type InsertExperiment = z.infer<typeof insertExperimentSchema>;
+export type Experiment = typeof experiments.$inferSelect;
+
+/**
+ * Experiment Assignments - The variant each user was given; one row per
+ * (experiment, user) so assignments survive weight changes
+ */
+export const experimentAssignments = pgTable("experiment_assignments", {
+  id: varchar("id", { length: 255 }).primaryKey(), // '<experimentKey>:<userId>'
+  experimentKey: varchar("experiment_key", { length: 100 }).notNull(), // References experiments.key
+  userId: varchar("user_id").notNull(),
+  variant: varchar("variant", { length: 50 }).notNull(),
+  assignedAt: timestamp("assigned_at").defaultNow().notNull(),
+});
+
+export type ExperimentAssignment = typeof experimentAssignments.$inferSelect;
+
+/**
+ * Experiment Exposures - Each time a variant actually changed behavior
+ * (a routing decision, a decomposition prompt)
+ */
+export const experimentExposures = pgTable("experiment_exposures", {
+  id: serial("id").primaryKey(),
+  experimentKey: varchar("experiment_key", { length: 100 }).notNull(), // References experiments.key
+  userId: varchar("user_id").notNull(),
+  variant: varchar("variant", { length: 50 }).notNull(),
+  context: varchar("context", { length: 100 }), // e.g. 'routing:code_generation', 'decomposition'
+  buildId: varchar("build_id", { length: 255 }), // References builds.id, for task success
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertExperimentExposureSchema = createInsertSchema(experimentExposures).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertExperimentExposure = z.infer<typeof insertExperimentExposureSchema>;
+export type ExperimentExposure = typeof experimentExposures.$inferSelect;
+
+// ═══════════════════════════════════════════════════════════════════
+// ROLLOUT PLANS
+// ═══════════════════════════════════════════════════════════════════
+
+export const ROLLOUT_PLAN_STATUSES = ['draft', 'active', 'paused', 'completed'] as const;
+
+/**
+ * Rollout Plans - Declarative phased rollout, advanced by the rollout
+ * scheduler when each phase's start time passes; pauses on alerts
+ */
+export const rolloutPlans = pgTable("rollout_plans", {
+  id: varchar("id", { length: 100 }).primaryKey(), // e.g. 'phase-5'
+  description: text("description"),
+  status: varchar("status", { length: 20 }).default('draft').notNull(), // 'draft', 'active', 'paused', 'completed'
+  phases: jsonb("phases").notNull(), // RolloutPhase[], ordered by startsAt
+  currentPhase: integer("current_phase").default(-1).notNull(), // Index of the last applied phase, -1 before the first
+  pauseOnAlerts: boolean("pause_on_alerts").default(true).notNull(),
+  pauseSeverity: varchar("pause_severity", { length: 20 }).default('critical').notNull(), // Lowest alert severity that pauses
+  pausedReason: text("paused_reason"),
+  pausedAt: timestamp("paused_at"),
+  phaseStartedAt: timestamp("phase_started_at"),
+  updatedBy: varchar("updated_by"), // Also notified of phase changes and pauses
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/**
+ * Which users a phase may promote; all given criteria must hold
+ */
+export const rolloutEligibilitySchema = z.object({
+  userIds: z.array(z.string()).optional(), // Only these users
+  usernamePattern: z.string().optional().refine(pattern => {
+    if (pattern === undefined) return true;
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Invalid regular expression'),
+  minAccountAgeDays: z.number().min(0).optional(),
+  fromSegments: z.array(z.enum(USER_SEGMENTS)).default(['regular']), // Segments a user may be promoted from
+});
+
+/**
+ * A phase promotes `percentage` of eligible users (stable hash, capped at
+ * `maxUsers`) to `segment`, and/or sets the rollout percentage of `flags`
+ */
+export const rolloutPhaseSchema = z.object({
+  name: z.string().min(1).max(100),
+  startsAt: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date'),
+  segment: z.enum(USER_SEGMENTS).optional(),
+  percentage: z.number().min(0).max(100),
+  maxUsers: z.number().int().positive().optional(),
+  eligibility: rolloutEligibilitySchema.default({}),
+  flags: z.array(z.string()).optional(),
+}).refine(phase => phase.segment || phase.flags?.length, 'A phase must promote to a segment or roll out flags');
+
+export const insertRolloutPlanSchema = createInsertSchema(rolloutPlans).omit({
+  status: true,
+  currentPhase: true,
+  pausedReason: true,
+  pausedAt: true,
+  phaseStartedAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  id: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_.-]*$/, 'Plan ID must start with a letter').max(100),
+  phases: z.array(rolloutPhaseSchema).min(1)
+    .refine(phases => phases.every((phase, i) => i === 0 || Date.parse(phase.startsAt) >= Date.parse(phases[i - 1].startsAt)),
+      'Phases must be ordered by startsAt'),
+  pauseSeverity: z.enum(['info', 'warning', 'error', 'critical']).default('critical'),
+});
+
+export type UserSegment = typeof USER_SEGMENTS[number];
+export type RolloutPlanStatus = typeof ROLLOUT_PLAN_STATUSES[number];
+export type RolloutEligibility = z.infer<typeof rolloutEligibilitySchema>;
+export type RolloutPhase = z.infer<typeof rolloutPhaseSchema>;
+export type InsertRolloutPlan = z.infer<typeof insertRolloutPlanSchema>;
+export type RolloutPlan = typeof rolloutPlans.$inferSelect;
+
+/**
+ * Segment Changes - Every promotion and demotion, by a rollout plan or
+ * by hand
+ */
+export const segmentChanges = pgTable("segment_changes", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(), // References users.id
+  fromSegment: varchar("from_segment", { length: 20 }).notNull(),
+  toSegment: varchar("to_segment", { length: 20 }).notNull(),
+  direction: varchar("direction", { length: 20 }).notNull(), // 'promotion', 'demotion'
+  reason: text("reason"),
+  planId: varchar("plan_id", { length: 100 }), // References rollout_plans.id
+  phase: varchar("phase", { length: 100 }), // Phase name within the plan
+  changedBy: varchar("changed_by").notNull(), // User ID, or 'rollout-scheduler'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type SegmentChange = typeof segmentChanges.$inferSelect;
+
+// ═══════════════════════════════════════════════════════════════════
+// DEPLOYMENTS
+// ═══════════════════════════════════════════════════════════════════
+
+export const DEPLOYMENT_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'rolled_back'] as const;
+
+/**
+ * Deployments - Release registry: every deploy job with its phase
+ * timeline and outcome; the latest succeeded row is the live release
+ */
+export const deployments = pgTable("deployments", {
+  id: varchar("id", { length: 255 }).primaryKey(), // 'deploy-<timestamp>-<random>', also the job ID
+  version: varchar("version", { length: 100 }).notNull(),
+  artifactDigest: varchar("artifact_digest", { length: 100 }), // 'sha256:<hex>'
+  environment: varchar("environment", { length: 50 }).default('production').notNull(),
+  initiatedBy: varchar("initiated_by").notNull(),
+  status: varchar("status", { length: 20 }).default('queued').notNull(), // 'queued', 'running', 'succeeded', 'failed', 'rolled_back'
+  progress: integer("progress").default(0).notNull(), // 0-100
+  phases: jsonb("phases").default([]).notNull(), // DeploymentProgress[] timeline
+  canaryReports: jsonb("canary_reports").default([]).notNull(), // CanaryReport[], one per analysis window
+  error: text("error"),
+  rolledBackTo: varchar("rolled_back_to", { length: 255 }), // References deployments.id restored after this one failed
+  rollbackReason: text("rollback_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertDeploymentSchema = createInsertSchema(deployments).pick({
+  version: true,
+  artifactDigest: true,
+  environment: true,
+}).extend({
+  version: z.string().max(100).regex(/^[A-Za-z0-9][A-Za-z0-9._-]*$/, 'Version may only contain letters, digits, dots, dashes and underscores'),
+  artifactDigest: z.string().regex(/^sha256:[a-f0-9]{64}$/, 'Artifact digest must be sha256:<64 hex chars>').optional(),
+  environment: z.string().min(1).max(50).default('production'),
+});
+
+export type DeploymentStatus = typeof DEPLOYMENT_STATUSES[number];
+export type InsertDeployment = z.infer<typeof insertDeploymentSchema>;
+export type Deployment = typeof deployments.$inferSelect;
+
+// ═══════════════════════════════════════════════════════════════════
+// ROLLBACK INCIDENTS
+// ═══════════════════════════════════════════════════════════════════
+
+export const ROLLBACK_SOURCES = ['automatic', 'manual', 'deployment'] as const;
+export const ROLLBACK_INCIDENT_STATUSES = ['in_progress', 'rolled_back', 'verify_failed', 'failed', 'no_target'] as const;
+
+/**
+ * Rollback Incidents - One per rollback decision, with the trigger values
+ * that confirmed it and a timeline of the rollback steps
+ */
+export const rollbackIncidents = pgTable("rollback_incidents", {
+  id: serial("id").primaryKey(),
+  source: varchar("source", { length: 20 }).notNull(), // 'automatic', 'manual', 'deployment'
+  status: varchar("status", { length: 20 }).default('in_progress').notNull(), // 'in_progress', 'rolled_back', 'verify_failed', 'failed', 'no_target'
+  reason: text("reason").notNull(),
+  triggers: jsonb("triggers").default([]).notNull(), // RollbackTrigger[] of the confirming sample
+  samples: jsonb("samples").default([]).notNull(), // RollbackDecision[] that confirmed it (automatic only)
+  steps: jsonb("steps").default([]).notNull(), // RollbackStep[] timeline
+  fromVersion: varchar("from_version", { length: 100 }),
+  toVersion: varchar("to_version", { length: 100 }),
+  deploymentId: varchar("deployment_id", { length: 255 }), // References deployments.id (the failed deploy, for 'deployment')
+  initiatedBy: varchar("initiated_by").notNull(), // User ID, 'rollback-coordinator' or 'deployment-automation'
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+export type RollbackSource = typeof ROLLBACK_SOURCES[number];
+export type RollbackIncidentStatus = typeof ROLLBACK_INCIDENT_STATUSES[number];
+export type RollbackIncident = typeof rollbackIncidents.$inferSelect;
+
+/**
+ * Deploy Freezes - While a freeze is unlifted, new deploys are refused;
+ * set by hand or by an automatic rollback
+ */
+export const deployFreezes = pgTable("deploy_freezes", {
+  id: serial("id").primaryKey(),
+  reason: text("reason").notNull(),
+  frozenBy: varchar("frozen_by").notNull(), // User ID, or 'rollback-coordinator'
+  incidentId: integer("incident_id"), // References rollback_incidents.id
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  liftedAt: timestamp("lifted_at"),
+  liftedBy: varchar("lifted_by"),
+});
+
+export type DeployFreeze = typeof deployFreezes.$inferSelect;